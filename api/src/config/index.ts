@@ -48,9 +48,153 @@ export const config = {
   sharedDatabaseUrl: process.env.SHARED_DATABASE_URL || '',
   sharedDatabaseInternalUrl: process.env.SHARED_DATABASE_INTERNAL_URL || '',
 
+  // Master keys for secrets stored in the master database (see services/secrets.ts)
+  secrets: {
+    // Comma separated id:key pairs, keys are 32 random bytes in base64
+    masterKeys: process.env.SECRETS_MASTER_KEYS || '',
+    // Key new secrets are encrypted with (defaults to the last one listed)
+    activeKeyId: process.env.SECRETS_ACTIVE_KEY_ID || '',
+    // Encrypt the master_sites rows written before encryption at boot. Only once
+    // the routing worker decrypts them (see MasterSiteRecord), it reads them too.
+    migrateOnBoot: process.env.SECRETS_MIGRATE_ON_BOOT === 'true',
+  },
+
+  // Login role each site database is owned by and accessed with
+  databaseRoles: {
+    connectionLimit: parseInt(process.env.SITE_DB_ROLE_CONNECTION_LIMIT || '20'),
+  },
+
+  // Connection pools to site databases, shared by the API (see services/tenantConnections.ts)
+  tenantConnections: {
+    // Site pools kept open at once, least recently used ones are closed beyond this
+    maxPools: parseInt(process.env.TENANT_POOL_MAX_POOLS || '50'),
+    maxClientsPerPool: parseInt(process.env.TENANT_POOL_MAX_CLIENTS || '3'),
+    // A site pool unused for this long is closed
+    idleTimeoutMs: parseInt(process.env.TENANT_POOL_IDLE_TIMEOUT_MS || '300000'),
+    clientIdleTimeoutMs: parseInt(process.env.TENANT_POOL_CLIENT_IDLE_TIMEOUT_MS || '30000'),
+    connectionTimeoutMs: parseInt(process.env.TENANT_POOL_CONNECTION_TIMEOUT_MS || '10000'),
+    // Idle eviction and health checks of open pools
+    sweepIntervalMs: parseInt(process.env.TENANT_POOL_SWEEP_INTERVAL_MS || '60000'),
+  },
+
   // Base domain for sites
   baseDomain: process.env.BASE_DOMAIN || 'luna-sites.com',
 
+  // Site provisioning worker (jobs are persisted in the master DB)
+  provisioning: {
+    pollIntervalMs: parseInt(process.env.PROVISIONING_POLL_INTERVAL_MS || '5000'),
+    // Retries per step before the job is marked as failed
+    maxAttempts: parseInt(process.env.PROVISIONING_MAX_ATTEMPTS || '5'),
+    backoffBaseMs: parseInt(process.env.PROVISIONING_BACKOFF_BASE_MS || '5000'),
+    backoffMaxMs: parseInt(process.env.PROVISIONING_BACKOFF_MAX_MS || '300000'),
+    // A job locked longer than this is considered abandoned and picked up again
+    lockTimeoutMs: parseInt(process.env.PROVISIONING_LOCK_TIMEOUT_MS || '600000'),
+  },
+
+  // Schema migration rollouts across all site databases (started by an admin)
+  migrationRollouts: {
+    pollIntervalMs: parseInt(process.env.MIGRATION_ROLLOUT_POLL_INTERVAL_MS || '10000'),
+    // Defaults for new rollouts: sites migrated at once, failures before the rollout pauses itself
+    batchSize: parseInt(process.env.MIGRATION_ROLLOUT_BATCH_SIZE || '5'),
+    maxFailures: parseInt(process.env.MIGRATION_ROLLOUT_MAX_FAILURES || '10'),
+    // A site still running after this long was interrupted and is migrated again
+    siteTimeoutMs: parseInt(process.env.MIGRATION_ROLLOUT_SITE_TIMEOUT_MS || '900000'),
+  },
+
+  // Site deletion: soft delete first, purge everything once the restore window is over
+  teardown: {
+    softDeleteDays: parseInt(process.env.SITE_SOFT_DELETE_DAYS || '30'),
+    pollIntervalMs: parseInt(process.env.SITE_TEARDOWN_POLL_INTERVAL_MS || '60000'),
+  },
+
+  // Renamed sites: how long the old subdomain keeps redirecting (301) to the new one
+  rename: {
+    redirectDays: parseInt(process.env.SITE_RENAME_REDIRECT_DAYS || '90'),
+  },
+
+  // Unpaid subscriptions: sites are suspended once the grace period after a failed payment is over
+  dunning: {
+    gracePeriodDays: parseInt(process.env.DUNNING_GRACE_PERIOD_DAYS || '7'),
+    pollIntervalMs: parseInt(process.env.DUNNING_POLL_INTERVAL_MS || '3600000'),
+  },
+
+  // Free trial of new sites (length: stripe.trialDays): reminders before it ends, suspended once it is over
+  trials: {
+    // Days before the end of the trial a reminder is sent
+    reminderDays: (process.env.TRIAL_REMINDER_DAYS || '7,1').split(',').map((days) => parseInt(days)),
+    pollIntervalMs: parseInt(process.env.TRIAL_POLL_INTERVAL_MS || '86400000'),
+  },
+
+  // Emails to site owners (trial reminders, storage warnings)
+  mail: {
+    // Queued as Firestore documents for the Trigger Email extension
+    collection: process.env.MAIL_COLLECTION || 'mail',
+    // Where the emails link to
+    dashboardUrl: process.env.DASHBOARD_URL || 'http://localhost:5173',
+  },
+
+  // Storage: measured daily into the usage collection. The quota of a site is
+  // what its plan includes plus the add-on units bought with its subscription.
+  storage: {
+    // Storage included per plan (pro: monthly, annual and biennial)
+    includedMb: {
+      free: parseInt(process.env.STORAGE_INCLUDED_FREE_MB || '250'),
+      starter: parseInt(process.env.STORAGE_INCLUDED_STARTER_MB || '250'),
+      pro: parseInt(process.env.STORAGE_INCLUDED_PRO_MB || '250'),
+    } as Record<string, number>,
+    unitMb: parseInt(process.env.STORAGE_UNIT_MB || '500'),
+    // EUR per unit and month (the storage Stripe prices charge it for their whole interval)
+    unitPrice: parseFloat(process.env.STORAGE_UNIT_PRICE || '1.0'),
+    // Share of the quota from which owners are warned
+    warningPercent: parseInt(process.env.STORAGE_WARNING_PERCENT || '80'),
+    pollIntervalMs: parseInt(process.env.STORAGE_METERING_POLL_INTERVAL_MS || '86400000'),
+  },
+
+  // Site ownership transfers
+  transfer: {
+    expiryDays: parseInt(process.env.SITE_TRANSFER_EXPIRY_DAYS || '14'),
+    // How often failed cancellations of the sender's subscription are retried
+    pollIntervalMs: parseInt(process.env.SITE_TRANSFER_POLL_INTERVAL_MS || '3600000'),
+  },
+
+  // Site export/import archives
+  archive: {
+    maxUploadMb: parseInt(process.env.SITE_ARCHIVE_MAX_UPLOAD_MB || '100'),
+  },
+
+  // WordPress (WXR) imports
+  wordpressImport: {
+    maxUploadMb: parseInt(process.env.WORDPRESS_IMPORT_MAX_UPLOAD_MB || '50'),
+    // Attachments are downloaded from the WordPress site during the import
+    maxMediaMb: parseInt(process.env.WORDPRESS_IMPORT_MAX_MEDIA_MB || '20'),
+    mediaTimeoutMs: parseInt(process.env.WORDPRESS_IMPORT_MEDIA_TIMEOUT_MS || '30000'),
+  },
+
+  // Site database backups (pg_dump snapshots kept in a blob store)
+  backups: {
+    // Blob store for snapshots: 'local' (filesystem)
+    store: process.env.BACKUP_STORE || 'local',
+    localDir: process.env.BACKUP_LOCAL_DIR || './backups',
+    pgDumpPath: process.env.PG_DUMP_PATH || 'pg_dump',
+    pgRestorePath: process.env.PG_RESTORE_PATH || 'pg_restore',
+    pollIntervalMs: parseInt(process.env.BACKUP_POLL_INTERVAL_MS || '600000'),
+    // Hours between scheduled snapshots and number of snapshots kept, per plan
+    schedule: {
+      free: {
+        intervalHours: parseInt(process.env.BACKUP_INTERVAL_HOURS_FREE || '168'),
+        retention: parseInt(process.env.BACKUP_RETENTION_FREE || '2'),
+      },
+      starter: {
+        intervalHours: parseInt(process.env.BACKUP_INTERVAL_HOURS_STARTER || '24'),
+        retention: parseInt(process.env.BACKUP_RETENTION_STARTER || '7'),
+      },
+      pro: {
+        intervalHours: parseInt(process.env.BACKUP_INTERVAL_HOURS_PRO || '24'),
+        retention: parseInt(process.env.BACKUP_RETENTION_PRO || '30'),
+      },
+    } as Record<string, { intervalHours: number; retention: number }>,
+  },
+
   // ScreenshotOne API for template thumbnails
   screenshotone: {
     accessKey: process.env.SCREENSHOTONE_ACCESS_KEY || '',
@@ -74,11 +218,16 @@ export const config = {
       monthly: process.env.STRIPE_PRICE_MONTHLY || '',
       annual: process.env.STRIPE_PRICE_ANNUAL || '',
       biennial: process.env.STRIPE_PRICE_BIENNIAL || '',
-      storage500mb: process.env.STRIPE_PRICE_STORAGE || '',
+      // Storage add-on, one price per billing interval of the plans (a subscription's items share its interval)
+      storageMonthly: process.env.STRIPE_PRICE_STORAGE || '',
+      storageAnnual: process.env.STRIPE_PRICE_STORAGE_ANNUAL || '',
+      storageBiennial: process.env.STRIPE_PRICE_STORAGE_BIENNIAL || '',
     },
     // Domain markup (e.g., 0.20 for 20% markup on Namecheap prices)
     domainMarkup: parseFloat(process.env.STRIPE_DOMAIN_MARKUP || '0.20'),
-    // Trial period in days
-    trialDays: 29,
+    // Free trial of new sites in days
+    trialDays: parseInt(process.env.TRIAL_DAYS || '29'),
+    // A webhook event processing for longer than this was interrupted and is processed again
+    eventLockTimeoutMs: parseInt(process.env.STRIPE_EVENT_LOCK_TIMEOUT_MS || '300000'),
   },
 };
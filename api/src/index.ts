@@ -7,15 +7,55 @@ import templatesRouter from './routes/templates.js';
 import domainsRouter from './routes/domains.js';
 import billingRouter from './routes/billing.js';
 import webhooksRouter from './routes/webhooks.js';
-import { initTemplatesTable, initMasterSitesTable, initCustomDomainsTable } from './services/masterDb.js';
+import adminRouter from './routes/admin.js';
+import { initTemplatesTable, initMasterSitesTable, initCustomDomainsTable, initProvisioningJobsTable, initSiteTeardownsTable, initDomainRedirectsTable, initSiteStagingsTable, initSiteBackupsTable, initWordPressImportsTable, initMigrationRolloutsTable, initStripeEventsTable, encryptMasterSiteSecrets } from './services/masterDb.js';
+import { startProvisioningWorker } from './services/provisioning.js';
+import { startTeardownWorker } from './services/teardown.js';
+import { startBackupWorker } from './services/backups.js';
+import { failStaleImports } from './services/wordpressImport.js';
+import { startMigrationRolloutWorker } from './services/migrationRollouts.js';
+import { startTenantConnectionSweeper } from './services/tenantConnections.js';
+import { startTransferWorker } from './services/siteTransfer.js';
+import { startDunningWorker } from './services/dunning.js';
+import { startTrialWorker } from './services/trials.js';
+import { startStorageMeteringWorker } from './services/storageMetering.js';
 import { authMiddleware, AuthenticatedRequest } from './middleware/auth.js';
+import { assertMasterKeysConfigured } from './services/secrets.js';
 
 const app = express();
 
+// Site secrets cannot be encrypted or read without the master keys
+assertMasterKeysConfigured();
+
 // Initialize database tables
-initMasterSitesTable().catch(console.error);
+initMasterSitesTable()
+  .then(() => (config.secrets.migrateOnBoot ? encryptMasterSiteSecrets() : 0))
+  .catch(console.error);
 initTemplatesTable().catch(console.error);
 initCustomDomainsTable().catch(console.error);
+initDomainRedirectsTable().catch(console.error);
+initSiteStagingsTable().catch(console.error);
+initProvisioningJobsTable()
+  .then(() => startProvisioningWorker())
+  .catch(console.error);
+initSiteTeardownsTable()
+  .then(() => startTeardownWorker())
+  .catch(console.error);
+initSiteBackupsTable()
+  .then(() => startBackupWorker())
+  .catch(console.error);
+initWordPressImportsTable()
+  .then(() => failStaleImports())
+  .catch(console.error);
+initMigrationRolloutsTable()
+  .then(() => startMigrationRolloutWorker())
+  .catch(console.error);
+initStripeEventsTable().catch(console.error);
+startTenantConnectionSweeper();
+startTransferWorker();
+startDunningWorker();
+startTrialWorker();
+startStorageMeteringWorker();
 
 // Middleware
 app.use(
@@ -60,6 +100,7 @@ app.use('/templates', templatesRouter);
 app.use('/domains', domainsRouter);
 app.use('/billing', billingRouter);
 app.use('/webhooks', webhooksRouter);
+app.use('/admin', adminRouter);
 
 // Error handler
 app.use(
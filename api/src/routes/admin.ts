@@ -0,0 +1,349 @@
+/**
+ * Admin API Routes
+ * Operator endpoints (connection pools, site credentials, migration rollouts, Stripe events), admins only.
+ */
+
+import { Router } from 'express';
+import type { Response } from 'express';
+import { authMiddleware, adminMiddleware } from '../middleware/auth.js';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+import * as masterDbService from '../services/masterDb.js';
+import * as migrationRolloutsService from '../services/migrationRollouts.js';
+import * as profileUpgradeService from '../services/profileUpgrade.js';
+import * as siteCredentialsService from '../services/siteCredentials.js';
+import * as stripeEventsService from '../services/stripeEvents.js';
+import * as tenantConnections from '../services/tenantConnections.js';
+import type { MigrationRolloutSiteRecord, MigrationRolloutSiteStatus, StripeEventRecord, StripeEventStatus } from '../services/masterDb.js';
+import type { MigrationRolloutProgress } from '../services/migrationRollouts.js';
+
+const router = Router();
+
+const ROLLOUT_SITE_STATUSES: MigrationRolloutSiteStatus[] = [
+  'queued', 'running', 'migrated', 'up_to_date', 'pending', 'skipped', 'failed',
+];
+
+const STRIPE_EVENT_STATUSES: StripeEventStatus[] = ['received', 'processing', 'processed', 'skipped', 'failed'];
+
+/**
+ * Format a migration rollout with its progress for the API response
+ */
+function formatRollout({ rollout, counts, total, percent }: MigrationRolloutProgress) {
+  return {
+    id: rollout.id,
+    status: rollout.status,
+    dryRun: rollout.dry_run,
+    batchSize: rollout.batch_size,
+    maxFailures: rollout.max_failures,
+    migrations: rollout.migrations,
+    createdBy: rollout.created_by,
+    pauseReason: rollout.pause_reason,
+    createdAt: rollout.created_at,
+    completedAt: rollout.completed_at,
+    progress: { total, percent, ...counts },
+  };
+}
+
+function formatRolloutSite(site: MigrationRolloutSiteRecord) {
+  return {
+    siteId: site.site_id,
+    dbName: site.db_name,
+    status: site.status,
+    pendingMigrations: site.pending_migrations,
+    appliedMigrations: site.applied_migrations,
+    error: site.error,
+    startedAt: site.started_at,
+    completedAt: site.completed_at,
+  };
+}
+
+function formatStripeEvent(event: StripeEventRecord) {
+  return {
+    id: event.id,
+    type: event.type,
+    subscriptionId: event.subscription_id,
+    status: event.status,
+    attempts: event.attempts,
+    error: event.error,
+    stripeCreatedAt: event.stripe_created_at,
+    receivedAt: event.received_at,
+    processedAt: event.processed_at,
+  };
+}
+
+/**
+ * Get the site database pools of this API process and their usage counters
+ */
+router.get(
+  '/tenant-connections',
+  authMiddleware,
+  adminMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      return res.json(tenantConnections.getTenantConnectionMetrics());
+    } catch (error) {
+      console.error('Get tenant connection metrics error:', error);
+      return res.status(500).json({ error: 'Failed to get tenant connection metrics' });
+    }
+  }
+);
+
+/**
+ * Rotate the database password and JWT secret of a site (no downtime, see services/siteCredentials.ts)
+ */
+router.post(
+  '/sites/:siteId/rotate-credentials',
+  authMiddleware,
+  adminMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { siteId } = req.params;
+
+      const rotated = await siteCredentialsService.rotateSiteCredentials(siteId);
+      if (!rotated) {
+        return res.status(404).json({ error: 'Site not found' });
+      }
+
+      return res.json({
+        siteId: rotated.site_id,
+        dbUser: rotated.db_user,
+        rotatedAt: rotated.credentials_rotated_at,
+      });
+    } catch (error) {
+      console.error('Rotate site credentials error:', error);
+      return res.status(500).json({ error: 'Failed to rotate site credentials' });
+    }
+  }
+);
+
+/**
+ * Show what upgrading a site to the current profiles would add or change
+ */
+router.get(
+  '/sites/:siteId/profile-upgrade',
+  authMiddleware,
+  adminMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const plan = await profileUpgradeService.planProfileUpgrade(req.params.siteId);
+      if (!plan) {
+        return res.status(404).json({ error: 'Site not found' });
+      }
+
+      return res.json(plan);
+    } catch (error) {
+      console.error('Plan profile upgrade error:', error);
+      return res.status(500).json({ error: 'Failed to plan profile upgrade' });
+    }
+  }
+);
+
+/**
+ * Upgrade a site to the current profiles (returns the changes applied)
+ */
+router.post(
+  '/sites/:siteId/profile-upgrade',
+  authMiddleware,
+  adminMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const plan = await profileUpgradeService.applyProfileUpgrade(req.params.siteId);
+      if (!plan) {
+        return res.status(404).json({ error: 'Site not found' });
+      }
+
+      console.log(`[ProfileUpgrade] ${req.params.siteId} upgraded by ${req.user!.uid}`);
+      return res.json(plan);
+    } catch (error) {
+      console.error('Apply profile upgrade error:', error);
+      return res.status(500).json({ error: 'Failed to apply profile upgrade' });
+    }
+  }
+);
+
+/**
+ * Start a migration rollout over all sites (body: dryRun, batchSize, maxFailures)
+ */
+router.post(
+  '/migrations',
+  authMiddleware,
+  adminMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { dryRun, batchSize, maxFailures } = req.body;
+
+      for (const [name, value] of Object.entries({ batchSize, maxFailures })) {
+        if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+          return res.status(400).json({ error: `${name} must be a positive integer` });
+        }
+      }
+
+      const rollout = await migrationRolloutsService.startRollout({
+        createdBy: req.user!.uid,
+        dryRun: dryRun === true,
+        batchSize,
+        maxFailures,
+      });
+      if (!rollout) {
+        return res.status(409).json({ error: 'A migration rollout is already in progress' });
+      }
+
+      return res.status(201).json(formatRollout(await migrationRolloutsService.getRolloutProgress(rollout)));
+    } catch (error) {
+      console.error('Start migration rollout error:', error);
+      return res.status(500).json({ error: 'Failed to start migration rollout' });
+    }
+  }
+);
+
+/**
+ * List recent migration rollouts with their progress
+ */
+router.get(
+  '/migrations',
+  authMiddleware,
+  adminMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const rollouts = await masterDbService.getMigrationRollouts(20);
+      const progress = await Promise.all(rollouts.map((rollout) => migrationRolloutsService.getRolloutProgress(rollout)));
+      return res.json(progress.map(formatRollout));
+    } catch (error) {
+      console.error('List migration rollouts error:', error);
+      return res.status(500).json({ error: 'Failed to list migration rollouts' });
+    }
+  }
+);
+
+/**
+ * Get a migration rollout with its sites (?status= to only list sites with that status)
+ */
+router.get(
+  '/migrations/:rolloutId',
+  authMiddleware,
+  adminMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const status = req.query.status as MigrationRolloutSiteStatus | undefined;
+      if (status && !ROLLOUT_SITE_STATUSES.includes(status)) {
+        return res.status(400).json({ error: `status must be one of: ${ROLLOUT_SITE_STATUSES.join(', ')}` });
+      }
+
+      const rollout = await masterDbService.getMigrationRolloutById(req.params.rolloutId);
+      if (!rollout) {
+        return res.status(404).json({ error: 'Migration rollout not found' });
+      }
+
+      const sites = await masterDbService.getMigrationRolloutSites(rollout.id, status);
+      return res.json({
+        ...formatRollout(await migrationRolloutsService.getRolloutProgress(rollout)),
+        sites: sites.map(formatRolloutSite),
+      });
+    } catch (error) {
+      console.error('Get migration rollout error:', error);
+      return res.status(500).json({ error: 'Failed to get migration rollout' });
+    }
+  }
+);
+
+/**
+ * Pause a running migration rollout (sites already started finish)
+ */
+router.post(
+  '/migrations/:rolloutId/pause',
+  authMiddleware,
+  adminMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const rollout = await masterDbService.pauseMigrationRollout(req.params.rolloutId, `Paused by ${req.user!.uid}`);
+      if (!rollout) {
+        return res.status(409).json({ error: 'Migration rollout is not running' });
+      }
+
+      console.log(`[Migrations] Rollout ${rollout.id} paused by ${req.user!.uid}`);
+      return res.json(formatRollout(await migrationRolloutsService.getRolloutProgress(rollout)));
+    } catch (error) {
+      console.error('Pause migration rollout error:', error);
+      return res.status(500).json({ error: 'Failed to pause migration rollout' });
+    }
+  }
+);
+
+/**
+ * Resume a paused migration rollout
+ */
+router.post(
+  '/migrations/:rolloutId/resume',
+  authMiddleware,
+  adminMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const rollout = await masterDbService.resumeMigrationRollout(req.params.rolloutId);
+      if (!rollout) {
+        return res.status(409).json({ error: 'Migration rollout is not paused' });
+      }
+
+      console.log(`[Migrations] Rollout ${rollout.id} resumed by ${req.user!.uid}`);
+      return res.json(formatRollout(await migrationRolloutsService.getRolloutProgress(rollout)));
+    } catch (error) {
+      console.error('Resume migration rollout error:', error);
+      return res.status(500).json({ error: 'Failed to resume migration rollout' });
+    }
+  }
+);
+
+/**
+ * List recent Stripe webhook events (?status=failed for the ones to replay)
+ */
+router.get(
+  '/stripe-events',
+  authMiddleware,
+  adminMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const status = req.query.status as StripeEventStatus | undefined;
+      if (status && !STRIPE_EVENT_STATUSES.includes(status)) {
+        return res.status(400).json({ error: `status must be one of: ${STRIPE_EVENT_STATUSES.join(', ')}` });
+      }
+
+      const events = await masterDbService.getStripeEvents(100, status);
+      return res.json(events.map(formatStripeEvent));
+    } catch (error) {
+      console.error('List Stripe events error:', error);
+      return res.status(500).json({ error: 'Failed to list Stripe events' });
+    }
+  }
+);
+
+/**
+ * Process a failed Stripe event again (returns it with the new outcome)
+ */
+router.post(
+  '/stripe-events/:eventId/replay',
+  authMiddleware,
+  adminMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const event = await masterDbService.getStripeEventById(req.params.eventId);
+      if (!event) {
+        return res.status(404).json({ error: 'Stripe event not found' });
+      }
+
+      if (event.status !== 'failed') {
+        return res.status(409).json({ error: 'Only failed events can be replayed' });
+      }
+
+      console.log(`[Webhook] Replaying ${event.type} ${event.id} (requested by ${req.user!.uid})`);
+      const replayed = await stripeEventsService.processStripeEvent(event.id);
+      if (!replayed) {
+        return res.status(409).json({ error: 'Stripe event is already being processed' });
+      }
+
+      return res.json(formatStripeEvent(replayed));
+    } catch (error) {
+      console.error('Replay Stripe event error:', error);
+      return res.status(500).json({ error: 'Failed to replay Stripe event' });
+    }
+  }
+);
+
+export default router;
@@ -7,11 +7,18 @@ import { Router, Response } from 'express';
 import { AuthenticatedRequest, authMiddleware } from '../middleware/auth.js';
 import * as stripeService from '../services/stripe.js';
 import * as namecheap from '../services/namecheap.js';
+import * as dunningService from '../services/dunning.js';
+import * as trialsService from '../services/trials.js';
+import * as storageMeteringService from '../services/storageMetering.js';
+import * as storageQuotaService from '../services/storageQuota.js';
 import admin from 'firebase-admin';
 import { config } from '../config/index.js';
 
 const router = Router();
 
+// Most storage add-on units a site can buy
+const MAX_STORAGE_ADD_ON_UNITS = 100;
+
 // ============================================
 // PUBLIC ENDPOINTS (no auth required)
 // ============================================
@@ -23,7 +30,7 @@ const router = Router();
 router.get('/plans', async (req, res) => {
   return res.json({
     trial: {
-      days: 29,
+      days: config.stripe.trialDays,
       description: 'Free trial with luna-sites.com subdomain',
       customDomain: false,
     },
@@ -37,7 +44,7 @@ router.get('/plans', async (req, res) => {
         intervalCount: 1,
         description: 'Basic hosting with luna-sites.com subdomain',
         customDomain: false,
-        features: ['luna-sites.com subdomain', '250MB storage', 'SSL included'],
+        features: ['luna-sites.com subdomain', `${config.storage.includedMb.starter}MB storage`, 'SSL included'],
       },
       {
         id: 'monthly',
@@ -48,7 +55,7 @@ router.get('/plans', async (req, res) => {
         intervalCount: 1,
         description: 'Full features with custom domain',
         customDomain: true,
-        features: ['Custom domain', '250MB storage', 'SSL included', 'Priority support'],
+        features: ['Custom domain', `${config.storage.includedMb.pro}MB storage`, 'SSL included', 'Priority support'],
       },
       {
         id: 'annual',
@@ -61,7 +68,7 @@ router.get('/plans', async (req, res) => {
         description: 'Billed yearly (save 23%)',
         savings: '23%',
         customDomain: true,
-        features: ['Custom domain', '250MB storage', 'SSL included', 'Priority support'],
+        features: ['Custom domain', `${config.storage.includedMb.pro}MB storage`, 'SSL included', 'Priority support'],
       },
       {
         id: 'biennial',
@@ -74,13 +81,13 @@ router.get('/plans', async (req, res) => {
         description: 'Billed every 2 years (save 46%)',
         savings: '46%',
         customDomain: true,
-        features: ['Custom domain', '250MB storage', 'SSL included', 'Priority support'],
+        features: ['Custom domain', `${config.storage.includedMb.pro}MB storage`, 'SSL included', 'Priority support'],
       },
     ],
     storage: {
-      free: 250, // MB
-      pricePerUnit: 1.0,
-      unitSize: 500, // MB
+      free: config.storage.includedMb.free, // MB
+      pricePerUnit: config.storage.unitPrice,
+      unitSize: config.storage.unitMb, // MB
       currency: 'EUR',
     },
   });
@@ -119,6 +126,9 @@ router.post(
 
       const origin = req.headers.origin || 'http://localhost:5173';
 
+      // Subscribing during the trial does not cut it short
+      const trialEnd = withTrial === true ? await trialsService.getSubscriptionTrialEnd(siteId) : null;
+
       const session = await stripeService.createSubscriptionCheckout({
         userId,
         email,
@@ -126,10 +136,10 @@ router.post(
         plan,
         successUrl: successUrl || `${origin}/billing/success?session_id={CHECKOUT_SESSION_ID}`,
         cancelUrl: cancelUrl || `${origin}/billing`,
-        withTrial: withTrial === true,
+        trialEnd,
       });
 
-      console.log(`[Billing] Subscription checkout created for site ${siteId}, plan ${plan}, trial: ${withTrial}`);
+      console.log(`[Billing] Subscription checkout created for site ${siteId}, plan ${plan}, trial until: ${trialEnd?.toISOString() || 'none'}`);
 
       return res.json({
         sessionId: session.sessionId,
@@ -262,18 +272,20 @@ router.post('/cancel/:siteId', authMiddleware, async (req: AuthenticatedRequest,
       return res.status(404).json({ error: 'Subscription not found' });
     }
 
-    const subscriptionId = siteBillingDoc.docs[0].data().subscriptionId;
+    const { subscriptionId, inheritedFromUserId } = siteBillingDoc.docs[0].data();
     if (!subscriptionId) {
       return res.status(400).json({ error: 'No active subscription' });
     }
 
+    // Subscription of the previous owner (site transfer) - already ends at period end
+    if (inheritedFromUserId) {
+      return res.status(400).json({ error: 'This subscription belongs to the previous owner and is not renewed' });
+    }
+
     await stripeService.cancelSubscription(subscriptionId);
 
-    // Update Firestore
-    await siteBillingDoc.docs[0].ref.update({
-      status: 'cancelled',
-      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-    });
+    // Update Firestore (the customer.subscription.deleted webhook finds it done)
+    await dunningService.recordSubscriptionCancelled(siteBillingDoc.docs[0]);
 
     console.log(`[Billing] Subscription cancelled for site ${siteId}`);
 
@@ -316,6 +328,10 @@ router.post('/change-plan/:siteId', authMiddleware, async (req: AuthenticatedReq
       return res.status(400).json({ error: 'No active subscription to change' });
     }
 
+    if (billingData.inheritedFromUserId) {
+      return res.status(400).json({ error: 'This subscription belongs to the previous owner. Start a new subscription to change plan' });
+    }
+
     // Update subscription in Stripe
     await stripeService.updateSubscriptionPlan(subscriptionId, plan);
 
@@ -327,6 +343,7 @@ router.post('/change-plan/:siteId', authMiddleware, async (req: AuthenticatedReq
       plan: newPlanType,
       updatedAt: admin.firestore.FieldValue.serverTimestamp(),
     });
+    await dunningService.applyPlan(siteId, newPlanType);
 
     console.log(`[Billing] Subscription plan changed for site ${siteId} to ${plan} (${newPlanType})`);
 
@@ -337,6 +354,68 @@ router.post('/change-plan/:siteId', authMiddleware, async (req: AuthenticatedReq
   }
 });
 
+/**
+ * POST /billing/storage/:siteId
+ * Set the storage add-on units of a site (added units are paid before the quota grows)
+ */
+router.post('/storage/:siteId', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { siteId } = req.params;
+    const { units } = req.body;
+    const userId = req.user!.uid;
+
+    if (!Number.isInteger(units) || units < 0 || units > MAX_STORAGE_ADD_ON_UNITS) {
+      return res.status(400).json({ error: `units must be a whole number between 0 and ${MAX_STORAGE_ADD_ON_UNITS}` });
+    }
+
+    const db = admin.firestore();
+    const siteBillingDoc = await db
+      .collection('siteBilling')
+      .where('siteId', '==', siteId)
+      .where('userId', '==', userId)
+      .limit(1)
+      .get();
+
+    if (siteBillingDoc.empty) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    const billingData = siteBillingDoc.docs[0].data();
+    if (!billingData.subscriptionId || billingData.status !== 'active') {
+      return res.status(400).json({ error: 'Storage can only be added to an active subscription' });
+    }
+
+    if (billingData.inheritedFromUserId) {
+      return res.status(400).json({ error: 'This subscription belongs to the previous owner. Start a new subscription to add storage' });
+    }
+
+    // Storage can be removed only down to what the site uses
+    const usedMb = storageMeteringService.toStorageMb(await storageMeteringService.measureSiteStorage(siteId));
+    const { includedMb } = await storageQuotaService.getSiteQuotaLimits(siteId);
+    if (usedMb > includedMb + units * config.storage.unitMb) {
+      return res.status(409).json({ error: `The site uses ${usedMb} MB: delete files before removing storage` });
+    }
+
+    await stripeService.reportStorageUsage(billingData.subscriptionId, units);
+
+    await siteBillingDoc.docs[0].ref.update({
+      storageAddOnUnits: units,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    const quota = await storageQuotaService.applySiteQuota({ siteId, userId }, usedMb);
+
+    console.log(`[Billing] Storage add-on of site ${siteId} set to ${units} unit(s) (quota: ${quota.quotaMb} MB)`);
+
+    return res.json({ success: true, quota });
+  } catch (error) {
+    if (error instanceof stripeService.StoragePaymentError) {
+      return res.status(402).json({ error: `The payment for the extra storage failed: ${error.message}` });
+    }
+    console.error('Set storage add-on error:', error);
+    return res.status(500).json({ error: 'Failed to update storage' });
+  }
+});
+
 /**
  * GET /billing/subscriptions
  * Get all subscriptions for the current user
@@ -364,6 +443,12 @@ router.get('/subscriptions', authMiddleware, async (req: AuthenticatedRequest, r
         ...data,
         currentPeriodStart: data.currentPeriodStart?.toDate?.()?.toISOString() || null,
         currentPeriodEnd: data.currentPeriodEnd?.toDate?.()?.toISOString() || null,
+        pastDueAt: data.pastDueAt?.toDate?.()?.toISOString() || null,
+        graceEndsAt: data.graceEndsAt?.toDate?.()?.toISOString() || null,
+        suspendedAt: data.suspendedAt?.toDate?.()?.toISOString() || null,
+        trialStartedAt: data.trialStartedAt?.toDate?.()?.toISOString() || null,
+        trialEndsAt: data.trialEndsAt?.toDate?.()?.toISOString() || null,
+        trialExpiredAt: data.trialExpiredAt?.toDate?.()?.toISOString() || null,
         createdAt: data.createdAt?.toDate?.()?.toISOString() || null,
         updatedAt: data.updatedAt?.toDate?.()?.toISOString() || null,
       };
@@ -412,21 +497,30 @@ router.get('/usage/:siteId', authMiddleware, async (req: AuthenticatedRequest, r
       storage: doc.data().storage, // in MB
       pageViews: doc.data().pageViews,
       bandwidth: doc.data().bandwidth, // in GB
+      measuredAt: doc.data().measuredAt?.toDate?.()?.toISOString() || null,
     }));
 
-    // Calculate current billing
-    const currentUsage = usage[0] || { storage: 0 };
-    const freeStorageMb = 250;
-    const billableStorage = Math.max(0, currentUsage.storage - freeStorageMb);
-    const storageUnits = Math.ceil(billableStorage / 500);
-    const estimatedCharge = storageUnits * 1.0; // EUR 1 per 500MB
+    // Storage of the current month (the metering worker measures it daily)
+    const currentDoc = usageDocs.docs.find((doc) => doc.data().month === storageMeteringService.getUsageMonth());
+    const currentStorage = currentDoc?.data().storage || 0;
+    const quota = await storageQuotaService.getSiteQuota(siteId, currentStorage);
+    const charge = storageMeteringService.getStorageCharge(currentStorage, quota.includedMb);
+    // Add-on units bought for the site
+    const storageUnits = quota.addOnUnits;
+    // Sites without a subscription of their own are measured but not billed
+    const billed = Boolean(currentDoc?.data().reportedSubscriptionId);
 
     return res.json({
       usage,
-      currentStorage: currentUsage.storage,
-      freeStorageMb,
-      billableStorageMb: billableStorage,
-      estimatedCharge: estimatedCharge,
+      currentStorage,
+      includedStorageMb: quota.includedMb,
+      quotaMb: quota.quotaMb,
+      billableStorageMb: charge.billableStorageMb,
+      storageUnits,
+      // Charged with the next invoice of the subscription
+      estimatedCharge: billed ? storageUnits * config.storage.unitPrice : 0,
+      billed,
+      measuredAt: currentDoc?.data().measuredAt?.toDate?.()?.toISOString() || null,
       currency: 'EUR',
     });
   } catch (error) {
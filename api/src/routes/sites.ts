@@ -1,22 +1,54 @@
-import { Router, Response } from 'express';
-import pg from 'pg';
+import express, { Router, Response } from 'express';
 import admin from 'firebase-admin';
 import { AuthenticatedRequest, authMiddleware } from '../middleware/auth.js';
 import * as sitesService from '../services/sites.js';
-import * as renderService from '../services/render.js';
+import * as provisioningService from '../services/provisioning.js';
+import * as teardownService from '../services/teardown.js';
+import * as siteRenameService from '../services/siteRename.js';
+import * as siteTransferService from '../services/siteTransfer.js';
+import * as stagingService from '../services/staging.js';
+import * as backupsService from '../services/backups.js';
+import * as siteArchiveService from '../services/siteArchive.js';
+import * as wordpressImportService from '../services/wordpressImport.js';
 import * as flyService from '../services/fly.js';
-import * as databaseService from '../services/database.js';
 import * as masterDbService from '../services/masterDb.js';
 import * as siteBootstrap from '../services/siteBootstrap.js';
+import * as themeService from '../services/theme.js';
 import * as namecheap from '../services/namecheap.js';
 import * as stripeService from '../services/stripe.js';
+import * as trialsService from '../services/trials.js';
+import * as storageMeteringService from '../services/storageMetering.js';
+import * as storageQuotaService from '../services/storageQuota.js';
 import { config } from '../config/index.js';
 import { generateScreenshotUrl } from '../utils/screenshot.js';
 
 const router = Router();
 
-// Multi-tenant mode flag
-const MULTI_TENANT = process.env.MULTI_TENANT === 'true';
+// Provisioning progress stream: how often to check for new events, and keep-alive interval
+const PROVISIONING_EVENTS_POLL_MS = 1000;
+const SSE_HEARTBEAT_MS = 15000;
+
+// Transfer as returned to the frontend
+function formatTransfer(transfer: siteTransferService.SiteTransfer) {
+  return {
+    id: transfer.id,
+    siteId: transfer.siteId,
+    siteName: transfer.siteName,
+    fromEmail: transfer.fromEmail,
+    toEmail: transfer.toEmail,
+    status: transfer.status,
+    createdAt: transfer.createdAt.toDate().toISOString(),
+    expiresAt: transfer.expiresAt.toDate().toISOString(),
+    respondedAt: transfer.respondedAt?.toDate().toISOString(),
+    // Accepted, but the sender's subscription is not set to cancel yet (retried)
+    cancellationPending: Boolean(transfer.cancellationPending),
+  };
+}
+
+// Email the user receives transfers at: only a verified one (anyone can sign up with an unverified address)
+function getTransferEmail(user: AuthenticatedRequest['user']): string | undefined {
+  return user?.email && user.email_verified ? user.email.toLowerCase() : undefined;
+}
 
 // Check site availability (public endpoint)
 router.post('/check-availability/:siteId', async (req, res) => {
@@ -27,62 +59,1277 @@ router.post('/check-availability/:siteId', async (req, res) => {
       return res.status(400).json({ error: 'Invalid site ID' });
     }
 
-    const available = await sitesService.checkSiteAvailability(siteId);
+    const available = await siteRenameService.isSiteIdAvailable(siteId);
+
+    return res.json({
+      site_id: siteId,
+      available,
+      domain: available ? `${siteId}.${config.baseDomain}` : undefined,
+    });
+  } catch (error) {
+    console.error('Check availability error:', error);
+    return res.status(500).json({ error: 'Failed to check availability' });
+  }
+});
+
+// Get user's sites
+router.get(
+  '/',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.uid;
+      const sites = await sitesService.getSitesByUserId(userId);
+
+      // Transform for frontend
+      const transformed = sites.map((site) => {
+        let screenshotUrl: string | undefined;
+        try {
+          screenshotUrl = generateScreenshotUrl(site.siteId);
+        } catch {
+          // Ignore if screenshot URL generation fails
+        }
+
+        return {
+          id: site.id,
+          siteId: site.siteId,
+          userId: site.userId,
+          name: site.name,
+          domain: site.domain,
+          status: site.status,
+          renderUrl: site.renderUrl,
+          screenshotUrl,
+          deletedAt: site.deletedAt?.toDate().toISOString(),
+          purgeAt: site.purgeAt?.toDate().toISOString(),
+          createdAt: site.createdAt.toDate().toISOString(),
+          updatedAt: site.updatedAt.toDate().toISOString(),
+        };
+      });
+
+      return res.json(transformed);
+    } catch (error) {
+      console.error('Get sites error:', error);
+      return res.status(500).json({ error: 'Failed to get sites' });
+    }
+  }
+);
+
+// Get ownership transfers waiting for the user, and outcomes of the user's own transfers
+router.get(
+  '/transfers',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { incoming, outgoing } = await siteTransferService.getTransfersForUser(
+        req.user!.uid,
+        getTransferEmail(req.user)
+      );
+
+      return res.json({
+        incoming: incoming.map(formatTransfer),
+        outgoing: outgoing.map(formatTransfer),
+      });
+    } catch (error) {
+      console.error('Get transfers error:', error);
+      return res.status(500).json({ error: 'Failed to get transfers' });
+    }
+  }
+);
+
+// Accept an ownership transfer (recipient)
+router.post(
+  '/transfers/:transferId/accept',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { transferId } = req.params;
+      const user = req.user!;
+      const email = getTransferEmail(user);
+
+      if (!email) {
+        return res.status(403).json({ error: 'Verify your email address to accept transfers' });
+      }
+
+      const transfer = await siteTransferService.getTransferById(transferId);
+
+      if (!transfer || transfer.toEmail !== email) {
+        return res.status(404).json({ error: 'Transfer not found' });
+      }
+
+      if (transfer.status !== 'pending') {
+        return res.status(409).json({ error: `Transfer is ${transfer.status}` });
+      }
+
+      const site = await sitesService.getSiteById(transfer.siteDocId);
+
+      // Site was deleted, or its owner changed since the transfer was started
+      if (!site || site.userId !== transfer.fromUserId || site.status !== 'active') {
+        return res.status(409).json({ error: 'This site can no longer be transferred' });
+      }
+
+      await siteTransferService.acceptTransfer(transfer, site, {
+        uid: user.uid,
+        email: user.email!,
+        name: user.name as string | undefined,
+      });
+
+      return res.json({
+        success: true,
+        message: 'Site transferred',
+        siteId: site.siteId,
+      });
+    } catch (error) {
+      if (error instanceof siteTransferService.TransferNotPendingError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error('Accept transfer error:', error);
+      return res.status(500).json({ error: 'Failed to accept transfer' });
+    }
+  }
+);
+
+// Decline an ownership transfer (recipient)
+router.post(
+  '/transfers/:transferId/decline',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { transferId } = req.params;
+      const email = getTransferEmail(req.user);
+
+      if (!email) {
+        return res.status(403).json({ error: 'Verify your email address to decline transfers' });
+      }
+
+      const transfer = await siteTransferService.getTransferById(transferId);
+
+      if (!transfer || transfer.toEmail !== email) {
+        return res.status(404).json({ error: 'Transfer not found' });
+      }
+
+      if (transfer.status !== 'pending') {
+        return res.status(409).json({ error: `Transfer is ${transfer.status}` });
+      }
+
+      await siteTransferService.closeTransfer(transfer, 'declined');
+
+      return res.json({ success: true, message: 'Transfer declined' });
+    } catch (error) {
+      if (error instanceof siteTransferService.TransferNotPendingError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error('Decline transfer error:', error);
+      return res.status(500).json({ error: 'Failed to decline transfer' });
+    }
+  }
+);
+
+// Dismiss the outcome of a transfer (sender)
+router.post(
+  '/transfers/:transferId/dismiss',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { transferId } = req.params;
+
+      const transfer = await siteTransferService.getTransferById(transferId);
+
+      if (!transfer || transfer.fromUserId !== req.user!.uid) {
+        return res.status(404).json({ error: 'Transfer not found' });
+      }
+
+      if (transfer.cancellationPending) {
+        return res.status(409).json({ error: 'The subscription of this site is not cancelled yet' });
+      }
+
+      await siteTransferService.dismissTransfer(transfer);
+
+      return res.json({ success: true });
+    } catch (error) {
+      console.error('Dismiss transfer error:', error);
+      return res.status(500).json({ error: 'Failed to dismiss transfer' });
+    }
+  }
+);
+
+// Get specific site
+router.get(
+  '/:siteId',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { siteId } = req.params;
+      const userId = req.user!.uid;
+
+      const site = await sitesService.getSiteBySiteId(siteId);
+
+      if (!site) {
+        return res.status(404).json({ error: 'Site not found' });
+      }
+
+      if (site.userId !== userId) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      return res.json({
+        id: site.id,
+        siteId: site.siteId,
+        userId: site.userId,
+        name: site.name,
+        domain: site.domain,
+        status: site.status,
+        renderUrl: site.renderUrl,
+        createdAt: site.createdAt.toDate().toISOString(),
+        updatedAt: site.updatedAt.toDate().toISOString(),
+      });
+    } catch (error) {
+      console.error('Get site error:', error);
+      return res.status(500).json({ error: 'Failed to get site' });
+    }
+  }
+);
+
+// Stream provisioning progress (Server-Sent Events)
+router.get(
+  '/:siteId/provisioning/events',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { siteId } = req.params;
+      const userId = req.user!.uid;
+
+      const site = await sitesService.getSiteBySiteId(siteId);
+
+      if (!site) {
+        return res.status(404).json({ error: 'Site not found' });
+      }
+
+      if (site.userId !== userId) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const job = await masterDbService.getLatestProvisioningJob(siteId);
+      if (!job) {
+        return res.status(404).json({ error: 'No provisioning job found for this site' });
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+
+      let closed = false;
+      req.on('close', () => {
+        closed = true;
+      });
+
+      // Resume after the last event the client saw (sent automatically on reconnect)
+      let lastEventId = req.header('Last-Event-ID') || undefined;
+      let lastWriteAt = Date.now();
+
+      while (!closed) {
+        // Read the status before the events: the final event is recorded before the job is finished
+        const current = await masterDbService.getProvisioningJobById(job.id);
+        const events = await masterDbService.getProvisioningEvents(job.id, lastEventId);
+
+        for (const event of events) {
+          res.write(`id: ${event.id}\n`);
+          res.write('event: provisioning\n');
+          res.write(`data: ${JSON.stringify({
+            id: event.id,
+            step: event.step,
+            event: event.event,
+            attempt: event.attempt,
+            durationMs: event.duration_ms,
+            error: event.error,
+            createdAt: event.created_at,
+          })}\n\n`);
+          lastEventId = event.id;
+          lastWriteAt = Date.now();
+        }
+
+        if (!current || current.status === 'completed' || current.status === 'failed') {
+          res.write('event: done\n');
+          res.write(`data: ${JSON.stringify({
+            status: current?.status || 'failed',
+            step: current?.current_step || null,
+            error: current?.last_error || null,
+          })}\n\n`);
+          break;
+        }
+
+        if (Date.now() - lastWriteAt >= SSE_HEARTBEAT_MS) {
+          res.write(': keep-alive\n\n');
+          lastWriteAt = Date.now();
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, PROVISIONING_EVENTS_POLL_MS));
+      }
+
+      return res.end();
+    } catch (error) {
+      console.error('Provisioning events error:', error);
+      if (res.headersSent) {
+        return res.end();
+      }
+      return res.status(500).json({ error: 'Failed to stream provisioning events' });
+    }
+  }
+);
+
+// Create new site
+router.post(
+  '/',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.uid;
+      const { site_id, name, template_id, wordpress_import_id, theme, profile } = req.body;
+
+      if (!site_id || !name) {
+        return res.status(400).json({ error: 'site_id and name are required' });
+      }
+
+      // Starter profile seeded on top of core (ignored when cloning a template)
+      if (profile !== undefined && (typeof profile !== 'string' || !siteBootstrap.getStarterProfile(profile))) {
+        return res.status(400).json({ error: 'Unknown profile' });
+      }
+
+      // WordPress export uploaded for this site beforehand (POST /sites/wordpress-imports)
+      if (wordpress_import_id) {
+        const wordpressImport = await masterDbService.getWordPressImportById(wordpress_import_id);
+        if (
+          !wordpressImport ||
+          wordpressImport.user_id !== userId ||
+          wordpressImport.site_id !== site_id ||
+          wordpressImport.status !== 'uploaded'
+        ) {
+          return res.status(400).json({ error: 'Invalid WordPress import' });
+        }
+      }
+
+      // Check availability
+      const available = await siteRenameService.isSiteIdAvailable(site_id);
+      if (!available) {
+        return res.status(409).json({ error: 'Site ID already taken' });
+      }
+
+      const domain = `${site_id}.${config.baseDomain}`;
+
+      // Create site record in Firestore
+      const site = await sitesService.createSite({
+        siteId: site_id,
+        userId,
+        name,
+        domain,
+      });
+
+      // Queue provisioning (runs in the background worker) - pass Firebase user info for owner creation
+      await provisioningService.enqueueProvisioning({
+        siteDocId: site.id,
+        siteId: site_id,
+        siteName: name,
+        userId,
+        ownerEmail: req.user!.email,
+        ownerName: req.user!.name || name,
+        templateId: template_id,
+        wordpressImportId: wordpress_import_id,
+        theme,
+        profile,
+      });
+      // Free trial until the owner chooses a plan (if this fails, yarn trials:backfill records it)
+      trialsService.startTrial(site).catch((error) => console.error(`[Trials] Failed to start the trial of ${site.siteId}:`, error));
+
+      return res.status(201).json({
+        success: true,
+        message: 'Site creation started',
+        site: {
+          id: site.id,
+          siteId: site.siteId,
+          userId: site.userId,
+          name: site.name,
+          domain: site.domain,
+          status: site.status,
+          createdAt: site.createdAt.toDate().toISOString(),
+          updatedAt: site.updatedAt.toDate().toISOString(),
+        },
+      });
+    } catch (error) {
+      console.error('Create site error:', error);
+      return res.status(500).json({ error: 'Failed to create site' });
+    }
+  }
+);
+
+// Duplicate site (clone its database into a new site owned by the same user)
+router.post(
+  '/:siteId/duplicate',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { siteId } = req.params;
+      const { name } = req.body;
+      const newSiteId = typeof req.body.newSiteId === 'string' ? req.body.newSiteId.toLowerCase() : '';
+      const userId = req.user!.uid;
+
+      if (!newSiteId || !name) {
+        return res.status(400).json({ error: 'newSiteId and name are required' });
+      }
+
+      if (!siteRenameService.isValidSiteId(newSiteId)) {
+        return res.status(400).json({ error: 'Invalid site ID' });
+      }
+
+      const source = await sitesService.getSiteBySiteId(siteId);
+
+      if (!source) {
+        return res.status(404).json({ error: 'Site not found' });
+      }
+
+      if (source.userId !== userId) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      if (source.status !== 'active') {
+        return res.status(400).json({ error: 'Only active sites can be duplicated' });
+      }
+
+      const available = await siteRenameService.isSiteIdAvailable(newSiteId);
+      if (!available) {
+        return res.status(409).json({ error: 'Site ID already taken' });
+      }
+
+      const site = await sitesService.createSite({
+        siteId: newSiteId,
+        userId,
+        name,
+        domain: `${newSiteId}.${config.baseDomain}`,
+      });
+      await provisioningService.enqueueProvisioning({
+        siteDocId: site.id,
+        siteId: newSiteId,
+        siteName: name,
+        userId,
+        ownerEmail: req.user!.email,
+        ownerName: req.user!.name || name,
+        sourceSiteId: source.siteId,
+      });
+      trialsService.startTrial(site).catch((error) => console.error(`[Trials] Failed to start the trial of ${site.siteId}:`, error));
+
+      return res.status(201).json({
+        success: true,
+        message: 'Site duplication started',
+        site: {
+          id: site.id,
+          siteId: site.siteId,
+          userId: site.userId,
+          name: site.name,
+          domain: site.domain,
+          status: site.status,
+          createdAt: site.createdAt.toDate().toISOString(),
+          updatedAt: site.updatedAt.toDate().toISOString(),
+        },
+      });
+    } catch (error) {
+      console.error('Duplicate site error:', error);
+      return res.status(500).json({ error: 'Failed to duplicate site' });
+    }
+  }
+);
+
+// Download a site as a portable archive (content, theme, users and roles)
+router.get(
+  '/:siteId/export',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { siteId } = req.params;
+      const userId = req.user!.uid;
+
+      const site = await sitesService.getSiteBySiteId(siteId);
+
+      if (!site) {
+        return res.status(404).json({ error: 'Site not found' });
+      }
+
+      if (site.userId !== userId) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      if (site.status !== 'active') {
+        return res.status(400).json({ error: 'Only active sites can be exported' });
+      }
+
+      const archive = await siteArchiveService.exportSiteArchive(site);
+      const filename = `${site.siteId}-${new Date().toISOString().slice(0, 10)}.lunasite.json.gz`;
+
+      res.setHeader('Content-Type', 'application/gzip');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      return res.send(archive);
+    } catch (error) {
+      console.error('Export site error:', error);
+      return res.status(500).json({ error: 'Failed to export site' });
+    }
+  }
+);
+
+// Create a new site from an uploaded archive (body: the archive file, newSiteId and name as query parameters)
+router.post(
+  '/import',
+  authMiddleware,
+  express.raw({ type: 'application/gzip', limit: `${config.archive.maxUploadMb}mb` }),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const name = typeof req.query.name === 'string' ? req.query.name.trim() : '';
+      const newSiteId = typeof req.query.newSiteId === 'string' ? req.query.newSiteId.toLowerCase() : '';
+      const userId = req.user!.uid;
+
+      if (!newSiteId || !name) {
+        return res.status(400).json({ error: 'newSiteId and name are required' });
+      }
+
+      if (!siteRenameService.isValidSiteId(newSiteId)) {
+        return res.status(400).json({ error: 'Invalid site ID' });
+      }
+
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ error: 'Upload the archive as application/gzip' });
+      }
+
+      // Validate before creating anything
+      siteArchiveService.parseSiteArchive(req.body);
+
+      const available = await siteRenameService.isSiteIdAvailable(newSiteId);
+      if (!available) {
+        return res.status(409).json({ error: 'Site ID already taken' });
+      }
+
+      const importKey = await siteArchiveService.saveArchiveUpload(newSiteId, req.body);
+
+      const site = await sitesService.createSite({
+        siteId: newSiteId,
+        userId,
+        name,
+        domain: `${newSiteId}.${config.baseDomain}`,
+      });
+      await provisioningService.enqueueProvisioning({
+        siteDocId: site.id,
+        siteId: newSiteId,
+        siteName: name,
+        userId,
+        ownerEmail: req.user!.email,
+        ownerName: req.user!.name || name,
+        importKey,
+      });
+      trialsService.startTrial(site).catch((error) => console.error(`[Trials] Failed to start the trial of ${site.siteId}:`, error));
+
+      return res.status(201).json({
+        success: true,
+        message: 'Site import started',
+        site: {
+          id: site.id,
+          siteId: site.siteId,
+          userId: site.userId,
+          name: site.name,
+          domain: site.domain,
+          status: site.status,
+          createdAt: site.createdAt.toDate().toISOString(),
+          updatedAt: site.updatedAt.toDate().toISOString(),
+        },
+      });
+    } catch (error) {
+      if (error instanceof siteArchiveService.InvalidArchiveError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Import site error:', error);
+      return res.status(500).json({ error: 'Failed to import site' });
+    }
+  }
+);
+
+// WordPress import as returned to the frontend (the per-item log only with withLog)
+function formatWordPressImport(record: masterDbService.WordPressImportRecord, withLog = false) {
+  return {
+    id: record.id,
+    siteId: record.site_id,
+    status: record.status,
+    summary: record.summary,
+    error: record.error,
+    createdAt: record.created_at.toISOString(),
+    completedAt: record.completed_at?.toISOString() || null,
+    ...(withLog ? { log: record.log } : {}),
+  };
+}
+
+const wordpressUpload = express.raw({
+  type: ['application/xml', 'text/xml'],
+  limit: `${config.wordpressImport.maxUploadMb}mb`,
+});
+
+// Upload a WordPress export (WXR) for a site about to be created (body: the file, siteId as query parameter).
+// The returned import ID is passed as wordpress_import_id when creating the site.
+router.post(
+  '/wordpress-imports',
+  authMiddleware,
+  wordpressUpload,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const siteId = typeof req.query.siteId === 'string' ? req.query.siteId.toLowerCase() : '';
+      const userId = req.user!.uid;
+
+      if (!siteId || !siteRenameService.isValidSiteId(siteId)) {
+        return res.status(400).json({ error: 'A valid siteId is required' });
+      }
+
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ error: 'Upload the export file as application/xml' });
+      }
+
+      const available = await siteRenameService.isSiteIdAvailable(siteId);
+      if (!available) {
+        return res.status(409).json({ error: 'Site ID already taken' });
+      }
+
+      const record = await wordpressImportService.createImport(siteId, userId, req.body);
+
+      return res.status(201).json({
+        success: true,
+        import: formatWordPressImport(record),
+      });
+    } catch (error) {
+      if (error instanceof wordpressImportService.InvalidWxrError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Upload WordPress export error:', error);
+      return res.status(500).json({ error: 'Failed to upload WordPress export' });
+    }
+  }
+);
+
+// Delete site (soft delete - purged by the teardown worker once the restore window is over)
+router.delete(
+  '/:siteId',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { siteId } = req.params;
+      const userId = req.user!.uid;
+
+      const site = await sitesService.getSiteBySiteId(siteId);
+
+      if (!site) {
+        return res.status(404).json({ error: 'Site not found' });
+      }
+
+      if (site.userId !== userId) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      if (site.status === 'deleted') {
+        return res.status(409).json({ error: 'Site is already deleted' });
+      }
+
+      const latestJob = await masterDbService.getLatestProvisioningJob(siteId);
+      if (latestJob && (latestJob.status === 'pending' || latestJob.status === 'running')) {
+        return res.status(409).json({ error: 'Site setup is in progress, try again once it finishes' });
+      }
+
+      const teardown = await teardownService.scheduleSiteDeletion(site, userId);
+
+      return res.json({
+        success: true,
+        message: 'Site deleted',
+        purgeAt: teardown.purge_at.toISOString(),
+      });
+    } catch (error) {
+      console.error('Delete site error:', error);
+      return res.status(500).json({ error: 'Failed to delete site' });
+    }
+  }
+);
+
+// Get the pending ownership transfer of a site
+router.get(
+  '/:siteId/transfer',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { siteId } = req.params;
+      const userId = req.user!.uid;
+
+      const site = await sitesService.getSiteBySiteId(siteId);
+
+      if (!site) {
+        return res.status(404).json({ error: 'Site not found' });
+      }
+
+      if (site.userId !== userId) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const transfer = await siteTransferService.getPendingTransfer(site.id);
+
+      return res.json({ transfer: transfer ? formatTransfer(transfer) : null });
+    } catch (error) {
+      console.error('Get transfer error:', error);
+      return res.status(500).json({ error: 'Failed to get transfer' });
+    }
+  }
+);
+
+// Start an ownership transfer to another platform user
+router.post(
+  '/:siteId/transfer',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { siteId } = req.params;
+      const email = typeof req.body.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+      const user = req.user!;
+
+      if (!email || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+        return res.status(400).json({ error: 'Invalid email' });
+      }
+
+      const site = await sitesService.getSiteBySiteId(siteId);
+
+      if (!site) {
+        return res.status(404).json({ error: 'Site not found' });
+      }
+
+      if (site.userId !== user.uid) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      if (site.status !== 'active') {
+        return res.status(400).json({ error: 'Only active sites can be transferred' });
+      }
+
+      if (email === user.email?.toLowerCase()) {
+        return res.status(400).json({ error: 'You already own this site' });
+      }
+
+      // Recipient must already have an account
+      try {
+        await admin.auth().getUserByEmail(email);
+      } catch {
+        return res.status(404).json({ error: 'No Luna Sites account found for this email' });
+      }
+
+      if (await siteTransferService.getPendingTransfer(site.id)) {
+        return res.status(409).json({ error: 'A transfer is already pending for this site' });
+      }
+
+      const transfer = await siteTransferService.createTransfer(site, user.email || '', email);
+
+      return res.status(201).json({
+        success: true,
+        message: 'Transfer started',
+        transfer: formatTransfer(transfer),
+      });
+    } catch (error) {
+      console.error('Start transfer error:', error);
+      return res.status(500).json({ error: 'Failed to start transfer' });
+    }
+  }
+);
+
+// Cancel a pending ownership transfer
+router.delete(
+  '/:siteId/transfer',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { siteId } = req.params;
+      const userId = req.user!.uid;
+
+      const site = await sitesService.getSiteBySiteId(siteId);
+
+      if (!site) {
+        return res.status(404).json({ error: 'Site not found' });
+      }
+
+      if (site.userId !== userId) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const transfer = await siteTransferService.getPendingTransfer(site.id);
+      if (!transfer) {
+        return res.status(404).json({ error: 'No pending transfer' });
+      }
+
+      await siteTransferService.closeTransfer(transfer, 'cancelled');
+
+      return res.json({ success: true, message: 'Transfer cancelled' });
+    } catch (error) {
+      if (error instanceof siteTransferService.TransferNotPendingError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error('Cancel transfer error:', error);
+      return res.status(500).json({ error: 'Failed to cancel transfer' });
+    }
+  }
+);
+
+// Staging copy as returned to the frontend
+function formatStaging(staging: masterDbService.SiteStagingRecord) {
+  return {
+    siteId: staging.staging_site_id,
+    domain: `${staging.staging_site_id}.${config.baseDomain}`,
+    rollbackAvailable: staging.rollback_available,
+    refreshedAt: staging.refreshed_at?.toISOString() || null,
+    promotedAt: staging.promoted_at?.toISOString() || null,
+    createdAt: staging.created_at.toISOString(),
+  };
+}
+
+// Get the staging copy of a site
+router.get(
+  '/:siteId/staging',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { siteId } = req.params;
+      const userId = req.user!.uid;
+
+      const site = await sitesService.getSiteBySiteId(siteId);
+
+      if (!site) {
+        return res.status(404).json({ error: 'Site not found' });
+      }
+
+      if (site.userId !== userId) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const staging = await masterDbService.getSiteStaging(siteId);
+
+      return res.json({ staging: staging ? formatStaging(staging) : null });
+    } catch (error) {
+      console.error('Get staging error:', error);
+      return res.status(500).json({ error: 'Failed to get staging copy' });
+    }
+  }
+);
+
+// Create the staging copy of a site
+router.post(
+  '/:siteId/staging',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { siteId } = req.params;
+      const { password } = req.body;
+      const userId = req.user!.uid;
+
+      if (typeof password !== 'string' || password.length < 6) {
+        return res.status(400).json({ error: 'Password must be at least 6 characters' });
+      }
+
+      const site = await sitesService.getSiteBySiteId(siteId);
+
+      if (!site) {
+        return res.status(404).json({ error: 'Site not found' });
+      }
+
+      if (site.userId !== userId) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      if (site.status !== 'active') {
+        return res.status(400).json({ error: 'Only active sites can have a staging copy' });
+      }
+
+      if (site.renderServiceId && site.renderServiceId !== 'multi-tenant') {
+        return res.status(400).json({ error: 'Staging is not supported for this site' });
+      }
+
+      if (await masterDbService.getSiteStaging(siteId)) {
+        return res.status(409).json({ error: 'This site already has a staging copy' });
+      }
+
+      if (!(await siteRenameService.isSiteIdAvailable(stagingService.getStagingSiteId(siteId)))) {
+        return res.status(409).json({ error: 'The staging address is already taken' });
+      }
+
+      const staging = await stagingService.createStaging(site, password, userId);
+
+      return res.status(201).json({
+        success: true,
+        message: 'Staging copy created',
+        staging: formatStaging(staging),
+      });
+    } catch (error) {
+      console.error('Create staging error:', error);
+      return res.status(500).json({ error: 'Failed to create staging copy' });
+    }
+  }
+);
+
+// Refresh the staging copy from production, promote it, or roll the last promotion back
+router.post(
+  '/:siteId/staging/:action(refresh|promote|rollback)',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { siteId, action } = req.params;
+      const userId = req.user!.uid;
+
+      const site = await sitesService.getSiteBySiteId(siteId);
+
+      if (!site) {
+        return res.status(404).json({ error: 'Site not found' });
+      }
+
+      if (site.userId !== userId) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const staging = await masterDbService.getSiteStaging(siteId);
+      if (!staging) {
+        return res.status(404).json({ error: 'This site has no staging copy' });
+      }
+
+      if (action === 'refresh') {
+        await stagingService.refreshStaging(staging);
+      } else if (action === 'promote') {
+        await stagingService.promoteStaging(staging);
+      } else {
+        if (!staging.rollback_available) {
+          return res.status(409).json({ error: 'Nothing to roll back' });
+        }
+        await stagingService.rollbackPromotion(staging);
+      }
+
+      const updated = await masterDbService.getSiteStaging(siteId);
+
+      return res.json({
+        success: true,
+        message: action === 'refresh'
+          ? 'Staging refreshed from production'
+          : action === 'promote' ? 'Staging promoted to production' : 'Promotion rolled back',
+        staging: updated ? formatStaging(updated) : null,
+      });
+    } catch (error) {
+      console.error(`Staging ${req.params.action} error:`, error);
+      return res.status(500).json({ error: `Failed to ${req.params.action} staging copy` });
+    }
+  }
+);
+
+// Change the staging access password
+router.put(
+  '/:siteId/staging/password',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { siteId } = req.params;
+      const { password } = req.body;
+      const userId = req.user!.uid;
+
+      if (typeof password !== 'string' || password.length < 6) {
+        return res.status(400).json({ error: 'Password must be at least 6 characters' });
+      }
+
+      const site = await sitesService.getSiteBySiteId(siteId);
+
+      if (!site) {
+        return res.status(404).json({ error: 'Site not found' });
+      }
+
+      if (site.userId !== userId) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const staging = await masterDbService.getSiteStaging(siteId);
+      if (!staging) {
+        return res.status(404).json({ error: 'This site has no staging copy' });
+      }
+
+      await stagingService.setStagingPassword(staging, password);
+
+      return res.json({ success: true, message: 'Staging password updated' });
+    } catch (error) {
+      console.error('Update staging password error:', error);
+      return res.status(500).json({ error: 'Failed to update staging password' });
+    }
+  }
+);
+
+// Delete the staging copy of a site
+router.delete(
+  '/:siteId/staging',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { siteId } = req.params;
+      const userId = req.user!.uid;
+
+      const site = await sitesService.getSiteBySiteId(siteId);
+
+      if (!site) {
+        return res.status(404).json({ error: 'Site not found' });
+      }
+
+      if (site.userId !== userId) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      if (!(await masterDbService.getSiteStaging(siteId))) {
+        return res.status(404).json({ error: 'This site has no staging copy' });
+      }
+
+      await stagingService.deleteStaging(siteId);
+
+      return res.json({ success: true, message: 'Staging copy deleted' });
+    } catch (error) {
+      console.error('Delete staging error:', error);
+      return res.status(500).json({ error: 'Failed to delete staging copy' });
+    }
+  }
+);
+
+// Storage quota of a site and how much of it is used (measured now)
+router.get(
+  '/:siteId/quota',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { siteId } = req.params;
+      const userId = req.user!.uid;
+
+      const site = await sitesService.getSiteBySiteId(siteId);
+
+      if (!site) {
+        return res.status(404).json({ error: 'Site not found' });
+      }
+
+      if (site.userId !== userId) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      if (site.status !== 'active') {
+        return res.status(400).json({ error: 'Only active sites have a storage quota' });
+      }
+
+      const usedMb = storageMeteringService.toStorageMb(await storageMeteringService.measureSiteStorage(siteId));
+      const quota = await storageQuotaService.getSiteQuota(siteId, usedMb);
+
+      return res.json({
+        ...quota,
+        warningPercent: config.storage.warningPercent,
+        unitMb: config.storage.unitMb,
+        unitPrice: config.storage.unitPrice,
+        currency: 'EUR',
+      });
+    } catch (error) {
+      console.error('Get storage quota error:', error);
+      return res.status(500).json({ error: 'Failed to get storage quota' });
+    }
+  }
+);
+
+// Backup as returned to the frontend
+function formatBackup(backup: masterDbService.SiteBackupRecord) {
+  return {
+    id: backup.id,
+    trigger: backup.trigger,
+    status: backup.status,
+    sizeBytes: backup.size_bytes === null ? null : Number(backup.size_bytes),
+    error: backup.error,
+    createdAt: backup.created_at.toISOString(),
+    completedAt: backup.completed_at?.toISOString() || null,
+  };
+}
+
+// List the backups of a site and its backup schedule
+router.get(
+  '/:siteId/backups',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { siteId } = req.params;
+      const userId = req.user!.uid;
+
+      const site = await sitesService.getSiteBySiteId(siteId);
+
+      if (!site) {
+        return res.status(404).json({ error: 'Site not found' });
+      }
+
+      if (site.userId !== userId) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const plan = await backupsService.getSitePlan(siteId);
+      const backups = await masterDbService.getSiteBackups(siteId);
+
+      return res.json({
+        backups: backups.map(formatBackup),
+        schedule: { plan, ...backupsService.getBackupSchedule(plan) },
+      });
+    } catch (error) {
+      console.error('Get backups error:', error);
+      return res.status(500).json({ error: 'Failed to get backups' });
+    }
+  }
+);
+
+// Back up a site now (runs in the background)
+router.post(
+  '/:siteId/backups',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { siteId } = req.params;
+      const userId = req.user!.uid;
+
+      const site = await sitesService.getSiteBySiteId(siteId);
+
+      if (!site) {
+        return res.status(404).json({ error: 'Site not found' });
+      }
+
+      if (site.userId !== userId) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      if (site.status !== 'active') {
+        return res.status(400).json({ error: 'Only active sites can be backed up' });
+      }
+
+      const backup = await backupsService.beginBackup(siteId, site.userId, 'manual');
+      if (!backup) {
+        return res.status(409).json({ error: 'A backup of this site is already running' });
+      }
 
-    return res.json({
-      site_id: siteId,
-      available,
-      domain: available ? `${siteId}.${config.baseDomain}` : undefined,
-    });
-  } catch (error) {
-    console.error('Check availability error:', error);
-    return res.status(500).json({ error: 'Failed to check availability' });
+      backupsService.runBackup(backup).catch(() => {});
+
+      return res.status(202).json({
+        success: true,
+        message: 'Backup started',
+        backup: formatBackup(backup),
+      });
+    } catch (error) {
+      console.error('Create backup error:', error);
+      return res.status(500).json({ error: 'Failed to start backup' });
+    }
   }
-});
+);
 
-// Get user's sites
-router.get(
-  '/',
+// Restore a backup into the site itself (target: 'site') or into a new site (target: 'new')
+router.post(
+  '/:siteId/backups/:backupId/restore',
   authMiddleware,
   async (req: AuthenticatedRequest, res: Response) => {
     try {
+      const { siteId, backupId } = req.params;
+      const { target, name } = req.body;
       const userId = req.user!.uid;
-      const sites = await sitesService.getSitesByUserId(userId);
 
-      // Transform for frontend
-      const transformed = sites.map((site) => {
-        let screenshotUrl: string | undefined;
-        try {
-          screenshotUrl = generateScreenshotUrl(site.siteId);
-        } catch {
-          // Ignore if screenshot URL generation fails
+      if (target !== 'site' && target !== 'new') {
+        return res.status(400).json({ error: "target must be 'site' or 'new'" });
+      }
+
+      const site = await sitesService.getSiteBySiteId(siteId);
+
+      if (!site) {
+        return res.status(404).json({ error: 'Site not found' });
+      }
+
+      if (site.userId !== userId) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const backup = await masterDbService.getSiteBackupById(backupId);
+      if (!backup || backup.site_id !== siteId) {
+        return res.status(404).json({ error: 'Backup not found' });
+      }
+
+      if (backup.status !== 'completed') {
+        return res.status(400).json({ error: 'Only completed backups can be restored' });
+      }
+
+      if (target === 'site') {
+        if (site.status !== 'active') {
+          return res.status(400).json({ error: 'Only active sites can be restored' });
         }
 
-        return {
-          id: site.id,
-          siteId: site.siteId,
-          userId: site.userId,
-          name: site.name,
-          domain: site.domain,
-          status: site.status,
-          renderUrl: site.renderUrl,
-          screenshotUrl,
-          createdAt: site.createdAt.toDate().toISOString(),
-          updatedAt: site.updatedAt.toDate().toISOString(),
-        };
+        const backups = await masterDbService.getSiteBackups(siteId);
+        if (backups.some((b) => b.status === 'running')) {
+          return res.status(409).json({ error: 'A backup of this site is running, try again once it is done' });
+        }
+
+        const preRestore = await backupsService.restoreBackup(site, backup, {
+          email: req.user!.email,
+          name: req.user!.name,
+        });
+
+        return res.json({
+          success: true,
+          message: 'Site restored from backup',
+          preRestoreBackup: formatBackup(preRestore),
+        });
+      }
+
+      const newSiteId = typeof req.body.newSiteId === 'string' ? req.body.newSiteId.toLowerCase() : '';
+
+      if (!newSiteId || !name) {
+        return res.status(400).json({ error: 'newSiteId and name are required' });
+      }
+
+      if (!siteRenameService.isValidSiteId(newSiteId)) {
+        return res.status(400).json({ error: 'Invalid site ID' });
+      }
+
+      const available = await siteRenameService.isSiteIdAvailable(newSiteId);
+      if (!available) {
+        return res.status(409).json({ error: 'Site ID already taken' });
+      }
+
+      const newSite = await sitesService.createSite({
+        siteId: newSiteId,
+        userId,
+        name,
+        domain: `${newSiteId}.${config.baseDomain}`,
       });
+      await provisioningService.enqueueProvisioning({
+        siteDocId: newSite.id,
+        siteId: newSiteId,
+        siteName: name,
+        userId,
+        ownerEmail: req.user!.email,
+        ownerName: req.user!.name || name,
+        backupId: backup.id,
+      });
+      trialsService.startTrial(newSite).catch((error) => console.error(`[Trials] Failed to start the trial of ${newSite.siteId}:`, error));
 
-      return res.json(transformed);
+      return res.status(201).json({
+        success: true,
+        message: 'Restore into a new site started',
+        site: {
+          id: newSite.id,
+          siteId: newSite.siteId,
+          userId: newSite.userId,
+          name: newSite.name,
+          domain: newSite.domain,
+          status: newSite.status,
+          createdAt: newSite.createdAt.toDate().toISOString(),
+          updatedAt: newSite.updatedAt.toDate().toISOString(),
+        },
+      });
     } catch (error) {
-      console.error('Get sites error:', error);
-      return res.status(500).json({ error: 'Failed to get sites' });
+      console.error('Restore backup error:', error);
+      return res.status(500).json({ error: 'Failed to restore backup' });
     }
   }
 );
 
-// Get specific site
+// List the WordPress imports of a site
 router.get(
-  '/:siteId',
+  '/:siteId/wordpress-imports',
   authMiddleware,
   async (req: AuthenticatedRequest, res: Response) => {
     try {
@@ -99,91 +1346,110 @@ router.get(
         return res.status(403).json({ error: 'Access denied' });
       }
 
+      const imports = await masterDbService.getWordPressImports(siteId);
+
       return res.json({
-        id: site.id,
-        siteId: site.siteId,
-        userId: site.userId,
-        name: site.name,
-        domain: site.domain,
-        status: site.status,
-        renderUrl: site.renderUrl,
-        createdAt: site.createdAt.toDate().toISOString(),
-        updatedAt: site.updatedAt.toDate().toISOString(),
+        imports: imports.map((record) => formatWordPressImport(record)),
       });
     } catch (error) {
-      console.error('Get site error:', error);
-      return res.status(500).json({ error: 'Failed to get site' });
+      console.error('List WordPress imports error:', error);
+      return res.status(500).json({ error: 'Failed to list WordPress imports' });
     }
   }
 );
 
-// Create new site
+// Get a WordPress import with its per-item log
+router.get(
+  '/:siteId/wordpress-imports/:importId',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { siteId, importId } = req.params;
+      const userId = req.user!.uid;
+
+      const site = await sitesService.getSiteBySiteId(siteId);
+
+      if (!site) {
+        return res.status(404).json({ error: 'Site not found' });
+      }
+
+      if (site.userId !== userId) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const record = await masterDbService.getWordPressImportById(importId);
+      if (!record || record.site_id !== siteId) {
+        return res.status(404).json({ error: 'Import not found' });
+      }
+
+      return res.json({ import: formatWordPressImport(record, true) });
+    } catch (error) {
+      console.error('Get WordPress import error:', error);
+      return res.status(500).json({ error: 'Failed to get WordPress import' });
+    }
+  }
+);
+
+// Import a WordPress export (WXR) into an existing site (body: the file) - runs in the background
 router.post(
-  '/',
+  '/:siteId/wordpress-imports',
   authMiddleware,
+  wordpressUpload,
   async (req: AuthenticatedRequest, res: Response) => {
     try {
+      const { siteId } = req.params;
       const userId = req.user!.uid;
-      const { site_id, name, template_id } = req.body;
 
-      if (!site_id || !name) {
-        return res.status(400).json({ error: 'site_id and name are required' });
+      const site = await sitesService.getSiteBySiteId(siteId);
+
+      if (!site) {
+        return res.status(404).json({ error: 'Site not found' });
       }
 
-      // Check availability
-      const available = await sitesService.checkSiteAvailability(site_id);
-      if (!available) {
-        return res.status(409).json({ error: 'Site ID already taken' });
+      if (site.userId !== userId) {
+        return res.status(403).json({ error: 'Access denied' });
       }
 
-      const domain = `${site_id}.${config.baseDomain}`;
+      if (site.status !== 'active') {
+        return res.status(400).json({ error: 'Only active sites can import content' });
+      }
 
-      // Create site record in Firestore
-      const site = await sitesService.createSite({
-        siteId: site_id,
-        userId,
-        name,
-        domain,
-      });
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ error: 'Upload the export file as application/xml' });
+      }
 
-      // Deploy site (async) - pass Firebase user info for owner creation
-      const ownerEmail = req.user!.email;
-      const ownerName = req.user!.name || name;
-      deploySite(site.id, site_id, name, userId, ownerEmail, ownerName, template_id).catch((error: Error) => {
-        console.error('Site deployment failed:', error);
-        sitesService.setSiteError(site.id);
-      });
+      const record = await wordpressImportService.createImport(siteId, userId, req.body);
+      wordpressImportService.importIntoSite(site, record).catch(() => {});
 
-      return res.status(201).json({
+      return res.status(202).json({
         success: true,
-        message: 'Site creation started',
-        site: {
-          id: site.id,
-          siteId: site.siteId,
-          userId: site.userId,
-          name: site.name,
-          domain: site.domain,
-          status: site.status,
-          createdAt: site.createdAt.toDate().toISOString(),
-          updatedAt: site.updatedAt.toDate().toISOString(),
-        },
+        message: 'WordPress import started',
+        import: formatWordPressImport(record),
       });
     } catch (error) {
-      console.error('Create site error:', error);
-      return res.status(500).json({ error: 'Failed to create site' });
+      if (error instanceof wordpressImportService.InvalidWxrError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Import WordPress export error:', error);
+      return res.status(500).json({ error: 'Failed to import WordPress export' });
     }
   }
 );
 
-// Delete site
-router.delete(
-  '/:siteId',
+// Rename site (change its subdomain - the old one redirects to the new one for a while)
+router.post(
+  '/:siteId/rename',
   authMiddleware,
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const { siteId } = req.params;
+      const { newSiteId } = req.body;
       const userId = req.user!.uid;
 
+      if (!newSiteId || !siteRenameService.isValidSiteId(newSiteId)) {
+        return res.status(400).json({ error: 'Invalid site ID' });
+      }
+
       const site = await sitesService.getSiteBySiteId(siteId);
 
       if (!site) {
@@ -194,167 +1460,126 @@ router.delete(
         return res.status(403).json({ error: 'Access denied' });
       }
 
-      // Delete Render service
-      if (site.renderServiceId) {
-        await renderService.deleteService(site.renderServiceId).catch(console.error);
+      if (site.status !== 'active') {
+        return res.status(400).json({ error: 'Only active sites can be renamed' });
       }
 
-      // Drop database for this site
-      await databaseService.dropDatabase(siteId).catch((err) => {
-        console.error(`Failed to drop database for site ${siteId}:`, err);
-      });
+      // Single-tenant sites have the database URL baked into their Render service
+      if (site.renderServiceId && site.renderServiceId !== 'multi-tenant') {
+        return res.status(400).json({ error: 'Renaming is not supported for this site' });
+      }
+
+      if (newSiteId === siteId) {
+        return res.status(400).json({ error: 'New site ID is the same as the current one' });
+      }
+
+      // The staging copy's subdomain and database follow the site ID
+      if (await masterDbService.getSiteStaging(siteId)) {
+        return res.status(400).json({ error: 'Delete the staging copy before renaming the site' });
+      }
+
+      const available = await siteRenameService.isSiteIdAvailable(newSiteId, siteId);
+      if (!available) {
+        return res.status(409).json({ error: 'Site ID already taken' });
+      }
 
-      // Delete from Firestore
-      await sitesService.deleteSite(site.id);
+      const { domain, redirectUntil } = await siteRenameService.renameSite(site, newSiteId);
 
-      return res.json({ success: true, message: 'Site deleted' });
+      return res.json({
+        success: true,
+        message: 'Site renamed',
+        siteId: newSiteId,
+        domain,
+        redirectFrom: redirectUntil ? site.domain : null,
+        redirectUntil: redirectUntil?.toISOString() || null,
+      });
     } catch (error) {
-      console.error('Delete site error:', error);
-      return res.status(500).json({ error: 'Failed to delete site' });
+      console.error('Rename site error:', error);
+      return res.status(500).json({ error: 'Failed to rename site' });
     }
   }
 );
 
-// Helper function to deploy site
-async function deploySite(
-  docId: string,
-  siteId: string,
-  siteName: string,
-  userId: string,
-  ownerEmail?: string,
-  ownerName?: string,
-  templateId?: string
-) {
-  console.log(`Starting deployment for site: ${siteId} (multi-tenant: ${MULTI_TENANT}, template: ${templateId || 'none'})`);
-
-  let databaseUrl: string;
-  let dbInfo: { host: string; port: string; database: string; user: string; password: string };
-
-  // Check if we should clone from a template
-  if (templateId) {
-    const template = await masterDbService.getTemplateById(templateId);
-    if (template && template.source_site_id) {
-      // Clone database from source site
-      console.log(`Cloning database from ${template.source_site_id} for site: ${siteId}`);
-      databaseUrl = await databaseService.cloneDatabase(template.source_site_id, siteId);
-      dbInfo = databaseService.parseDatabaseUrl(databaseUrl);
-      console.log(`Database cloned for site: ${siteId}`);
-
-      // Update owner to new user
-      console.log(`Updating owner for site: ${siteId}`);
-      await databaseService.updateDatabaseOwner(siteId, userId, ownerEmail, ownerName);
-      console.log(`Owner updated for site: ${siteId}`);
-    } else {
-      // Template not found or no source site, fall back to normal creation
-      console.log(`Template ${templateId} not found, creating empty database`);
-      databaseUrl = await databaseService.createDatabase(siteId);
-      dbInfo = databaseService.parseDatabaseUrl(databaseUrl);
-
-      await siteBootstrap.bootstrapSite(
-        {
-          host: dbInfo.host,
-          port: parseInt(dbInfo.port),
-          database: dbInfo.database,
-          user: dbInfo.user,
-          password: dbInfo.password,
-        },
-        { siteId, firebaseUid: userId, ownerEmail, ownerName }
-      );
-    }
-  } else {
-    // No template - create new database and bootstrap
-    console.log(`Creating database for site: ${siteId}`);
-    databaseUrl = await databaseService.createDatabase(siteId);
-    dbInfo = databaseService.parseDatabaseUrl(databaseUrl);
-    console.log(`Database created for site: ${siteId}`);
-
-    console.log(`Running bootstrap for site: ${siteId}`);
-    await siteBootstrap.bootstrapSite(
-      {
-        host: dbInfo.host,
-        port: parseInt(dbInfo.port),
-        database: dbInfo.database,
-        user: dbInfo.user,
-        password: dbInfo.password,
-      },
-      { siteId, firebaseUid: userId, ownerEmail, ownerName }
-    );
-    console.log(`Bootstrap completed for site: ${siteId}`);
-  }
+// Restore a deleted site (only during the restore window)
+router.post(
+  '/:siteId/restore',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { siteId } = req.params;
+      const userId = req.user!.uid;
 
-  if (MULTI_TENANT) {
-    // Multi-tenant mode: register in master DB, no Render service needed
-    const domain = `${siteId}.${config.baseDomain}`;
-
-    await masterDbService.registerMasterSite({
-      siteId,
-      siteName,
-      domain,
-      userId,
-      dbHost: dbInfo.host,
-      dbPort: parseInt(dbInfo.port),
-      dbName: dbInfo.database,
-      dbUser: dbInfo.user,
-      dbPassword: dbInfo.password,
-    });
+      const site = await sitesService.getSiteBySiteId(siteId);
 
-    const workerUrl = process.env.MULTI_TENANT_WORKER_URL || `https://${config.baseDomain}`;
-    await sitesService.updateSiteRenderInfo(docId, 'multi-tenant', workerUrl);
-    await sitesService.setSiteActive(docId);
-
-    console.log(`Site ${siteId} registered in multi-tenant mode at ${domain}`);
-  } else {
-    // Single-tenant mode: create separate Render service
-    const service = await renderService.createSiteService({
-      siteId,
-      siteName,
-      userId,
-      databaseUrl,
-    });
+      if (!site) {
+        return res.status(404).json({ error: 'Site not found' });
+      }
 
-    const renderUrl = `https://${service.slug}.onrender.com`;
+      if (site.userId !== userId) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
 
-    await sitesService.updateSiteRenderInfo(docId, service.id, renderUrl);
+      if (site.status !== 'deleted') {
+        return res.status(400).json({ error: 'Site is not deleted' });
+      }
 
-    console.log(`Render service created: ${service.id} - ${renderUrl}`);
+      const restored = await teardownService.restoreSite(site, userId);
+      if (!restored) {
+        return res.status(409).json({ error: 'Site is already being permanently deleted and can no longer be restored' });
+      }
 
-    // Poll for deployment status
-    pollDeploymentStatus(docId, service.id);
+      return res.json({ success: true, message: 'Site restored' });
+    } catch (error) {
+      console.error('Restore site error:', error);
+      return res.status(500).json({ error: 'Failed to restore site' });
+    }
   }
-}
+);
+
+// Repair a site whose setup failed (re-runs only the missing provisioning steps)
+router.post(
+  '/:siteId/repair',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { siteId } = req.params;
+      const userId = req.user!.uid;
 
-// Poll deployment status
-function pollDeploymentStatus(siteDocId: string, serviceId: string) {
-  const maxAttempts = 60;
-  let attempts = 0;
+      const site = await sitesService.getSiteBySiteId(siteId);
 
-  const poll = async () => {
-    attempts++;
+      if (!site) {
+        return res.status(404).json({ error: 'Site not found' });
+      }
 
-    try {
-      const service = await renderService.getServiceStatus(serviceId);
+      if (site.userId !== userId) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
 
-      if (service.suspended === 'not_suspended') {
-        await sitesService.setSiteActive(siteDocId);
-        console.log(`Site ${siteDocId} is now active`);
-        return;
+      if (site.status !== 'error') {
+        return res.status(400).json({ error: 'Only sites whose setup failed can be repaired' });
       }
 
-      if (attempts < maxAttempts) {
-        setTimeout(poll, 10000);
-      } else {
-        console.log(`Deployment polling timed out for site ${siteDocId}`);
+      const latestJob = await masterDbService.getLatestProvisioningJob(siteId);
+      if (latestJob && (latestJob.status === 'pending' || latestJob.status === 'running')) {
+        return res.status(409).json({ error: 'Site setup is already in progress' });
       }
+
+      const { remainingSteps } = await provisioningService.repairSite(site, {
+        email: req.user!.email,
+        name: req.user!.name,
+      });
+
+      return res.json({
+        success: true,
+        message: 'Site repair started',
+        steps: remainingSteps,
+      });
     } catch (error) {
-      console.error(`Error polling status for ${siteDocId}:`, error);
-      if (attempts < maxAttempts) {
-        setTimeout(poll, 10000);
-      }
+      console.error('Repair site error:', error);
+      return res.status(500).json({ error: 'Failed to repair site' });
     }
-  };
-
-  setTimeout(poll, 30000);
-}
+  }
+);
 
 // Re-bootstrap a site (admin endpoint - re-runs migrations and seed)
 router.post(
@@ -381,7 +1606,8 @@ router.post(
         return res.status(404).json({ error: 'Site database config not found' });
       }
 
-      // Run bootstrap
+      // Run bootstrap (with the starter profile the site was created with)
+      const provisioningJob = await masterDbService.getLatestProvisioningJob(siteId);
       await siteBootstrap.bootstrapSite(
         {
           host: dbConfig.host,
@@ -390,7 +1616,7 @@ router.post(
           user: dbConfig.user,
           password: dbConfig.password,
         },
-        { siteId }
+        { siteId, profile: provisioningJob?.profile || undefined }
       );
 
       return res.json({
@@ -1000,75 +2226,12 @@ router.patch(
         return res.status(403).json({ error: 'Access denied' });
       }
 
-      // Get database connection for this site
-      const dbConfig = await masterDbService.getMasterSiteDbConnection(siteId);
-      if (!dbConfig) {
-        return res.status(404).json({ error: 'Site database config not found' });
-      }
-
-      // Connect to site's database
-      const sitePool = new pg.Pool({
-        connectionString: dbConfig.connectionString,
-        ssl: dbConfig.host.includes('render.com') ? { rejectUnauthorized: false } : false,
-      });
-
-      try {
-        // Get current controlpanel data
-        const result = await sitePool.query(
-          "SELECT data FROM controlpanel WHERE id = 'site'"
-        );
-
-        let currentData: Record<string, unknown> = {};
-        if (result.rows.length > 0 && result.rows[0].data) {
-          currentData = result.rows[0].data;
-        }
-
-        // Get existing theme to merge typography
-        const existingTheme = (currentData.theme as Record<string, unknown>) || {};
-
-        // Update theme in data (merge typography with existing)
-        const updatedData = {
-          ...currentData,
-          theme: {
-            presetId: presetId ?? existingTheme.presetId ?? 'default',
-            overrides: overrides ?? existingTheme.overrides ?? {},
-            darkMode: darkMode ?? existingTheme.darkMode ?? false,
-            typography: typography
-              ? { ...(existingTheme.typography as Record<string, unknown> || {}), ...typography }
-              : existingTheme.typography ?? {
-                  fontPresetId: 'modern',
-                  fontHeading: 'inter',
-                  fontBody: 'inter',
-                  baseFontSize: 16,
-                  baseFontSizeMobile: 14,
-                  headingWeight: 700,
-                  bodyWeight: 400,
-                },
-          },
-        };
+      await themeService.updateSiteTheme(siteId, { presetId, overrides, darkMode, typography });
 
-        // Upsert the controlpanel record
-        const upsertResult = await sitePool.query(
-          `INSERT INTO controlpanel (id, title, "group", schema, data)
-           VALUES ('site', 'Site Settings', 'site', '{}', $1)
-           ON CONFLICT (id) DO UPDATE SET data = $1`,
-          [updatedData]
-        );
-        console.log(`Theme upserted for ${siteId}, rows affected:`, upsertResult.rowCount);
-
-        // Verify what was saved
-        const verifyResult = await sitePool.query(
-          "SELECT data FROM controlpanel WHERE id = 'site'"
-        );
-        console.log(`Verify controlpanel data for ${siteId}:`, JSON.stringify(verifyResult.rows[0]?.data, null, 2));
-
-        // Update the site's updatedAt timestamp in Firestore
-        await sitesService.updateSite(site.id, {});
+      // Update the site's updatedAt timestamp in Firestore
+      await sitesService.updateSite(site.id, {});
 
-        return res.json({ success: true, message: 'Theme updated' });
-      } finally {
-        await sitePool.end();
-      }
+      return res.json({ success: true, message: 'Theme updated' });
     } catch (error) {
       console.error('Update theme error:', error);
       return res.status(500).json({ error: 'Failed to update theme' });
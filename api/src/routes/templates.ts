@@ -1,38 +1,223 @@
 /**
  * Templates API Routes
  * Only admins can create/manage templates. All users can view public templates.
+ * New sites are cloned from a template's pinned version (a snapshot of its source site).
  */
 
 import { Router, Response } from 'express';
 import { AuthenticatedRequest, authMiddleware, adminMiddleware } from '../middleware/auth.js';
 import * as masterDbService from '../services/masterDb.js';
+import * as siteBootstrap from '../services/siteBootstrap.js';
+import * as templateVersionsService from '../services/templateVersions.js';
 import { generateScreenshotUrl } from '../utils/screenshot.js';
+import type { TemplateCatalogFields, TemplateRecord, TemplateSort, TemplateVersionRecord } from '../services/masterDb.js';
 
 const router = Router();
 
+// Builder categories a template can be listed under (same IDs as the starter profiles' categories)
+const TEMPLATE_CATEGORIES = [
+  { id: 'portfolio', name: 'Portfolio' },
+  { id: 'business', name: 'Business' },
+  { id: 'photography', name: 'Photography' },
+  { id: 'restaurant', name: 'Restaurant & Food' },
+  { id: 'ecommerce', name: 'E-commerce' },
+  { id: 'blog', name: 'Blog & Writing' },
+  { id: 'events', name: 'Events' },
+  { id: 'creative', name: 'Creative & Arts' },
+];
+
+const TEMPLATE_SORTS: TemplateSort[] = ['featured', 'newest', 'name'];
+
+// Public catalog page size
+const DEFAULT_PAGE_SIZE = 24;
+const MAX_PAGE_SIZE = 48;
+
+// Limits on the catalog fields admins edit
+const MAX_TAGS = 20;
+const MAX_FEATURES = 10;
+const MAX_PREVIEW_PAGES = 10;
+
+// Template as listed in the catalog
+function formatTemplate(t: TemplateRecord) {
+  return {
+    id: t.id,
+    name: t.name,
+    description: t.description,
+    thumbnailUrl: t.thumbnail_url,
+    sourceSiteId: t.source_site_id,
+    isPublic: t.is_public,
+    categories: t.categories,
+    tags: t.tags,
+    featured: t.featured,
+    sortOrder: t.sort_order,
+    previewPages: t.preview_pages,
+    features: t.features,
+    pinnedVersionId: t.pinned_version_id,
+    createdAt: t.created_at,
+  };
+}
+
+function formatTemplateVersion(v: TemplateVersionRecord, template: TemplateRecord) {
+  return {
+    id: v.id,
+    version: v.version,
+    sourceSiteId: v.source_site_id,
+    notes: v.notes,
+    createdBy: v.created_by,
+    ready: v.ready,
+    pinned: v.id === template.pinned_version_id,
+    createdAt: v.created_at,
+  };
+}
+
+/**
+ * Template the admin may manage (they own it), else null
+ */
+async function getOwnedTemplate(templateId: string, userId: string): Promise<TemplateRecord | null> {
+  const template = await masterDbService.getTemplateById(templateId);
+  return template && template.user_id === userId ? template : null;
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
 /**
- * Get all public templates (no auth required - for builder)
+ * Validate the catalog fields of a create/update request body (only those present)
+ */
+function parseCatalogFields(body: any): { fields: TemplateCatalogFields } | { error: string } {
+  const fields: TemplateCatalogFields = {};
+
+  const { categories, tags, features } = body as Record<string, unknown>;
+
+  if (categories !== undefined) {
+    const known = TEMPLATE_CATEGORIES.map((category) => category.id);
+    if (!isStringArray(categories) || categories.some((category) => !known.includes(category))) {
+      return { error: `categories must be a list of: ${known.join(', ')}` };
+    }
+    fields.categories = Array.from(new Set(categories));
+  }
+
+  if (tags !== undefined) {
+    if (!isStringArray(tags) || tags.length > MAX_TAGS) {
+      return { error: `tags must be a list of at most ${MAX_TAGS} strings` };
+    }
+    fields.tags = Array.from(new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean)));
+  }
+
+  if (body.featured !== undefined) {
+    if (typeof body.featured !== 'boolean') {
+      return { error: 'featured must be a boolean' };
+    }
+    fields.featured = body.featured;
+  }
+
+  if (body.sortOrder !== undefined) {
+    if (!Number.isInteger(body.sortOrder)) {
+      return { error: 'sortOrder must be an integer' };
+    }
+    fields.sortOrder = body.sortOrder;
+  }
+
+  if (features !== undefined) {
+    if (!isStringArray(features) || features.length > MAX_FEATURES) {
+      return { error: `features must be a list of at most ${MAX_FEATURES} strings` };
+    }
+    fields.features = features.map((feature) => feature.trim()).filter(Boolean);
+  }
+
+  if (body.previewPages !== undefined) {
+    const pages = body.previewPages;
+    if (
+      !Array.isArray(pages) ||
+      pages.length > MAX_PREVIEW_PAGES ||
+      !pages.every((page) => typeof page?.title === 'string' && typeof page?.path === 'string' && page.path.startsWith('/'))
+    ) {
+      return { error: `previewPages must be a list of at most ${MAX_PREVIEW_PAGES} { title, path } with paths starting with /` };
+    }
+    fields.previewPages = pages.map((page) => ({ title: page.title.trim(), path: page.path.trim() }));
+  }
+
+  return { fields };
+}
+
+/**
+ * Search public templates (no auth required - for builder)
+ * Query: category, tag, featured, q (search), sort (featured|newest|name), limit, offset
  */
 router.get(
   '/public',
   async (req, res: Response) => {
     try {
-      const templates = await masterDbService.getPublicTemplates();
+      const { category, tag, featured, q, sort } = req.query as Record<string, string | undefined>;
+      const limit = req.query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(req.query.limit);
+      const offset = req.query.offset === undefined ? 0 : Number(req.query.offset);
+
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+        return res.status(400).json({ error: `limit must be between 1 and ${MAX_PAGE_SIZE}` });
+      }
+      if (!Number.isInteger(offset) || offset < 0) {
+        return res.status(400).json({ error: 'offset must be a positive integer' });
+      }
+      if (sort && !TEMPLATE_SORTS.includes(sort as TemplateSort)) {
+        return res.status(400).json({ error: `sort must be one of: ${TEMPLATE_SORTS.join(', ')}` });
+      }
+
+      const { templates, total } = await masterDbService.searchPublicTemplates({
+        category: category || undefined,
+        tag: tag || undefined,
+        featured: featured === undefined ? undefined : featured === 'true',
+        search: q?.trim() || undefined,
+        sort: sort as TemplateSort | undefined,
+        limit,
+        offset,
+      });
+
+      return res.json({
+        templates: templates.map(formatTemplate),
+        total,
+        limit,
+        offset,
+      });
+    } catch (error) {
+      console.error('Get public templates error:', error);
+      return res.status(500).json({ error: 'Failed to get templates' });
+    }
+  }
+);
+
+/**
+ * Get template categories with their number of public templates (no auth required - for builder)
+ */
+router.get(
+  '/categories',
+  async (req, res: Response) => {
+    try {
+      const counts = await masterDbService.getPublicTemplateCategoryCounts();
 
       return res.json(
-        templates.map((t) => ({
-          id: t.id,
-          name: t.name,
-          description: t.description,
-          thumbnailUrl: t.thumbnail_url,
-          sourceSiteId: t.source_site_id,
-          isPublic: true,
-          createdAt: t.created_at,
+        TEMPLATE_CATEGORIES.map((category) => ({
+          ...category,
+          count: counts[category.id] || 0,
         }))
       );
     } catch (error) {
-      console.error('Get public templates error:', error);
-      return res.status(500).json({ error: 'Failed to get templates' });
+      console.error('Get template categories error:', error);
+      return res.status(500).json({ error: 'Failed to get template categories' });
+    }
+  }
+);
+
+/**
+ * Get the starter profiles a new site can be seeded with (no auth required - for builder)
+ */
+router.get(
+  '/profiles',
+  async (req, res: Response) => {
+    try {
+      return res.json(siteBootstrap.listStarterProfiles());
+    } catch (error) {
+      console.error('Get starter profiles error:', error);
+      return res.status(500).json({ error: 'Failed to get starter profiles' });
     }
   }
 );
@@ -50,15 +235,9 @@ router.get(
 
       return res.json(
         templates.map((t) => ({
-          id: t.id,
-          name: t.name,
-          description: t.description,
-          thumbnailUrl: t.thumbnail_url,
-          sourceSiteId: t.source_site_id,
+          ...formatTemplate(t),
           userId: t.user_id,
-          isPublic: t.is_public,
           isOwner: t.user_id === userId,
-          createdAt: t.created_at,
           updatedAt: t.updated_at,
         }))
       );
@@ -92,15 +271,9 @@ router.get(
       }
 
       return res.json({
-        id: template.id,
-        name: template.name,
-        description: template.description,
-        thumbnailUrl: template.thumbnail_url,
-        sourceSiteId: template.source_site_id,
+        ...formatTemplate(template),
         userId: template.user_id,
-        isPublic: template.is_public,
         isOwner: template.user_id === userId,
-        createdAt: template.created_at,
         updatedAt: template.updated_at,
       });
     } catch (error) {
@@ -112,7 +285,7 @@ router.get(
 
 /**
  * Create template from existing site (ADMIN ONLY)
- * Templates now just store reference to source site - database is cloned on site creation
+ * Publishes the site as the template's first version, which new sites are cloned from
  */
 router.post(
   '/',
@@ -127,6 +300,11 @@ router.post(
         return res.status(400).json({ error: 'siteId and name are required' });
       }
 
+      const catalog = parseCatalogFields(req.body);
+      if ('error' in catalog) {
+        return res.status(400).json({ error: catalog.error });
+      }
+
       // Verify site exists
       const dbConfig = await masterDbService.getMasterSiteDbConnection(siteId);
       if (!dbConfig) {
@@ -142,7 +320,6 @@ router.post(
         // Continue without screenshot if it fails
       }
 
-      // Create template (just stores reference to source site)
       const template = await masterDbService.createTemplate({
         name,
         description,
@@ -150,19 +327,24 @@ router.post(
         sourceSiteId: siteId,
         userId,
         isPublic: isPublic || false,
+        ...catalog.fields,
       });
 
+      let version: TemplateVersionRecord;
+      try {
+        version = await templateVersionsService.publishTemplateVersion(template, {
+          createdBy: userId,
+          notes: 'Initial version',
+        });
+      } catch (error) {
+        await masterDbService.deleteTemplate(template.id, userId);
+        throw error;
+      }
+
       return res.status(201).json({
         success: true,
         message: 'Template created successfully',
-        template: {
-          id: template.id,
-          name: template.name,
-          description: template.description,
-          sourceSiteId: template.source_site_id,
-          isPublic: template.is_public,
-          createdAt: template.created_at,
-        },
+        template: formatTemplate({ ...template, pinned_version_id: version.id }),
       });
     } catch (error) {
       console.error('Create template error:', error);
@@ -184,10 +366,16 @@ router.patch(
       const userId = req.user!.uid;
       const { name, description, isPublic } = req.body;
 
+      const catalog = parseCatalogFields(req.body);
+      if ('error' in catalog) {
+        return res.status(400).json({ error: catalog.error });
+      }
+
       await masterDbService.updateTemplate(templateId, userId, {
         name,
         description,
         isPublic,
+        ...catalog.fields,
       });
 
       return res.json({ success: true, message: 'Template updated' });
@@ -199,7 +387,134 @@ router.patch(
 );
 
 /**
- * Delete template (ADMIN ONLY)
+ * Get the versions of a template, newest first (ADMIN ONLY)
+ */
+router.get(
+  '/:templateId/versions',
+  authMiddleware,
+  adminMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const template = await getOwnedTemplate(req.params.templateId, req.user!.uid);
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found or access denied' });
+      }
+
+      const versions = await masterDbService.getTemplateVersions(template.id);
+      return res.json(versions.map((v) => formatTemplateVersion(v, template)));
+    } catch (error) {
+      console.error('Get template versions error:', error);
+      return res.status(500).json({ error: 'Failed to get template versions' });
+    }
+  }
+);
+
+/**
+ * Publish a new version: snapshot the source site as it is now (ADMIN ONLY)
+ * Body: notes?, pin? (make it the version new sites are cloned from)
+ */
+router.post(
+  '/:templateId/versions',
+  authMiddleware,
+  adminMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user!.uid;
+      const { notes, pin } = req.body;
+
+      const template = await getOwnedTemplate(req.params.templateId, userId);
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found or access denied' });
+      }
+
+      if (notes !== undefined && typeof notes !== 'string') {
+        return res.status(400).json({ error: 'notes must be a string' });
+      }
+
+      if (!(await masterDbService.getMasterSiteDbConnection(template.source_site_id))) {
+        return res.status(409).json({ error: 'Source site no longer exists' });
+      }
+
+      const version = await templateVersionsService.publishTemplateVersion(template, {
+        createdBy: userId,
+        notes: notes?.trim(),
+        pin: pin === true,
+      });
+      const updated = (await masterDbService.getTemplateById(template.id))!;
+
+      return res.status(201).json(formatTemplateVersion(version, updated));
+    } catch (error) {
+      console.error('Publish template version error:', error);
+      return res.status(500).json({ error: 'Failed to publish template version' });
+    }
+  }
+);
+
+/**
+ * Pin the version new sites are cloned from (ADMIN ONLY)
+ */
+router.post(
+  '/:templateId/versions/:versionId/pin',
+  authMiddleware,
+  adminMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { versionId } = req.params;
+
+      const template = await getOwnedTemplate(req.params.templateId, req.user!.uid);
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found or access denied' });
+      }
+
+      if (!(await masterDbService.pinTemplateVersion(template.id, versionId))) {
+        return res.status(404).json({ error: 'Version not found' });
+      }
+
+      return res.json({ success: true, message: 'Version pinned' });
+    } catch (error) {
+      console.error('Pin template version error:', error);
+      return res.status(500).json({ error: 'Failed to pin template version' });
+    }
+  }
+);
+
+/**
+ * Delete a version and its snapshot (ADMIN ONLY). The pinned version cannot be deleted.
+ */
+router.delete(
+  '/:templateId/versions/:versionId',
+  authMiddleware,
+  adminMiddleware,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const template = await getOwnedTemplate(req.params.templateId, req.user!.uid);
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found or access denied' });
+      }
+
+      const version = await masterDbService.getTemplateVersionById(req.params.versionId);
+      if (!version || version.template_id !== template.id) {
+        return res.status(404).json({ error: 'Version not found' });
+      }
+      if (version.id === template.pinned_version_id) {
+        return res.status(409).json({ error: 'Pin another version before deleting this one' });
+      }
+      if (!version.ready) {
+        return res.status(409).json({ error: 'Version is still being published' });
+      }
+
+      await templateVersionsService.deleteTemplateVersion(version);
+
+      return res.json({ success: true, message: 'Version deleted' });
+    } catch (error) {
+      console.error('Delete template version error:', error);
+      return res.status(500).json({ error: 'Failed to delete template version' });
+    }
+  }
+);
+
+/**
+ * Delete template and its snapshots (ADMIN ONLY)
  */
 router.delete(
   '/:templateId',
@@ -210,7 +525,7 @@ router.delete(
       const { templateId } = req.params;
       const userId = req.user!.uid;
 
-      const deleted = await masterDbService.deleteTemplate(templateId, userId);
+      const deleted = await templateVersionsService.deleteTemplate(templateId, userId);
 
       if (!deleted) {
         return res.status(404).json({ error: 'Template not found or access denied' });
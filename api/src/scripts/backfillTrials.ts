@@ -0,0 +1,22 @@
+/**
+ * Record a trial for the active sites that have none (created before trials were recorded)
+ *
+ * Each one gets a trial ending no earlier than the first reminder from now
+ * (TRIAL_REMINDER_DAYS). When it ends the site is suspended, unless its owner
+ * subscribes to a plan: run it only once the owners of these sites were told.
+ *
+ *   yarn build && yarn trials:backfill
+ */
+
+// Initializes Firebase Admin, before the services use it
+import '../middleware/auth.js';
+import { backfillTrials } from '../services/trials.js';
+
+try {
+  const count = await backfillTrials();
+  console.log(`[Trials] Done, ${count} trial(s) recorded`);
+  process.exit(0);
+} catch (error) {
+  console.error('[Trials] Backfill failed:', error);
+  process.exit(1);
+}
@@ -0,0 +1,20 @@
+/**
+ * Re-encrypt the site secrets of the master database with the active master key
+ *
+ * Run after adding a new key to SECRETS_MASTER_KEYS and making it active
+ * (SECRETS_ACTIVE_KEY_ID). Once it finished, the old key can be removed.
+ * Rows that are not encrypted yet are encrypted as well.
+ *
+ *   yarn build && yarn secrets:reencrypt
+ */
+
+import { encryptMasterSiteSecrets } from '../services/masterDb.js';
+
+try {
+  const count = await encryptMasterSiteSecrets({ rewrap: true });
+  console.log(`[Secrets] Done, ${count} site(s) changed`);
+  process.exit(0);
+} catch (error) {
+  console.error('[Secrets] Re-encryption failed:', error);
+  process.exit(1);
+}
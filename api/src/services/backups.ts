@@ -0,0 +1,334 @@
+/**
+ * Backups Service - Scheduled logical snapshots of site databases
+ *
+ * A backup is a pg_dump archive (custom format) of the site database, kept in
+ * the blob store under <siteId>/<backupId>.dump and recorded in site_backups.
+ *
+ * A worker started on boot takes a scheduled backup of every active site once
+ * its plan's interval has passed (config.backups.schedule) and keeps the plan's
+ * number of most recent backups. Owners can also back up on demand.
+ *
+ * A backup can be restored:
+ *   - into the site itself: the current database is backed up first
+ *     (pre_restore), the snapshot is restored into a temporary database which
+ *     then replaces the site database
+ *   - into a new site: the provisioning database step restores it instead of
+ *     creating an empty database (see provisioning.runDatabaseStep)
+ */
+
+import { spawn, spawnSync } from 'child_process';
+import type { ChildProcess } from 'child_process';
+import { pipeline } from 'stream/promises';
+import admin from 'firebase-admin';
+import { config } from '../config/index.js';
+import * as sitesService from './sites.js';
+import * as databaseService from './database.js';
+import * as masterDbService from './masterDb.js';
+import { getBlobStore } from './blobStore.js';
+import type { Site } from './sites.js';
+import type { SiteBackupRecord, SiteBackupTrigger } from './masterDb.js';
+
+// Backups still running after this long were interrupted (e.g. the API restarted mid-dump)
+const STALE_BACKUP_MS = 3 * 60 * 60 * 1000;
+
+/**
+ * Backup interval and retention for a plan (unknown plans get the free schedule)
+ */
+export function getBackupSchedule(plan: string): { intervalHours: number; retention: number } {
+  return config.backups.schedule[plan] || config.backups.schedule.free;
+}
+
+/**
+ * Plan of a site, from its billing record ('free' without a live subscription)
+ */
+export async function getSitePlan(siteId: string): Promise<string> {
+  const snapshot = await admin.firestore()
+    .collection('siteBilling')
+    .where('siteId', '==', siteId)
+    .limit(1)
+    .get();
+
+  if (snapshot.empty) return 'free';
+  const { plan, status } = snapshot.docs[0].data();
+  return plan && status !== 'cancelled' ? plan : 'free';
+}
+
+/**
+ * Environment for pg_dump/pg_restore: credentials of the shared database cluster
+ */
+function getPgEnv(): NodeJS.ProcessEnv {
+  const info = databaseService.parseDatabaseUrl(config.sharedDatabaseUrl);
+  return {
+    ...process.env,
+    PGHOST: info.host,
+    PGPORT: info.port,
+    PGUSER: info.user,
+    PGPASSWORD: info.password,
+    ...(info.host.includes('render.com') ? { PGSSLMODE: 'require' } : {}),
+  };
+}
+
+/**
+ * Wait for a pg_dump/pg_restore process to exit (rejects with its stderr on failure)
+ */
+function waitForExit(child: ChildProcess, name: string): Promise<void> {
+  let stderr = '';
+  child.stderr?.on('data', (chunk) => {
+    stderr += chunk.toString();
+  });
+
+  return new Promise((resolve, reject) => {
+    child.on('error', reject);
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`${name} exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+  });
+}
+
+/**
+ * Wait for all tasks to settle and throw the first failure (so nothing is left running)
+ */
+async function settleAll(tasks: Promise<unknown>[]): Promise<void> {
+  const results = await Promise.allSettled(tasks);
+  const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+  if (failure) throw failure.reason;
+}
+
+/**
+ * Start a backup of a site. Returns null if one is already running
+ * (or, with notSince, if the site was backed up after notSince).
+ */
+export async function beginBackup(
+  siteId: string,
+  userId: string,
+  trigger: SiteBackupTrigger,
+  notSince?: Date
+): Promise<SiteBackupRecord | null> {
+  return masterDbService.createSiteBackup({ siteId, userId, trigger, notSince });
+}
+
+/**
+ * Dump the site database of a started backup into the blob store
+ */
+export async function runBackup(backup: SiteBackupRecord): Promise<SiteBackupRecord> {
+  const store = getBlobStore();
+  const blobKey = `${backup.site_id}/${backup.id}.dump`;
+  const startedAt = Date.now();
+
+  try {
+    const dbName = await databaseService.getSiteDatabaseName(backup.site_id);
+    console.log(`[Backups] Backing up ${backup.site_id} (${dbName}, ${backup.trigger})`);
+
+    const dump = spawn(
+      config.backups.pgDumpPath,
+      ['--format=custom', '--no-owner', '--no-acl', dbName],
+      { env: getPgEnv(), stdio: ['ignore', 'pipe', 'pipe'] }
+    );
+    const upload = store.put(blobKey, dump.stdout!);
+    await settleAll([upload, waitForExit(dump, 'pg_dump')]);
+    const sizeBytes = await upload;
+
+    await masterDbService.completeSiteBackup(backup.id, blobKey, sizeBytes);
+    console.log(`[Backups] Backup ${backup.id} of ${backup.site_id} completed (${sizeBytes} bytes, ${Date.now() - startedAt}ms)`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[Backups] Backup ${backup.id} of ${backup.site_id} failed:`, error);
+    await store.delete(blobKey).catch(() => {});
+    await masterDbService.failSiteBackup(backup.id, message);
+    throw error;
+  }
+
+  // Not before a restore: the backup about to be restored could be pruned
+  if (backup.trigger !== 'pre_restore') {
+    await pruneBackups(backup.site_id).catch((error) => {
+      console.error(`[Backups] Failed to prune backups of ${backup.site_id}:`, error);
+    });
+  }
+
+  return (await masterDbService.getSiteBackupById(backup.id))!;
+}
+
+/**
+ * Delete a backup (blob and record)
+ */
+export async function deleteBackup(backup: SiteBackupRecord): Promise<void> {
+  if (backup.blob_key) {
+    await getBlobStore().delete(backup.blob_key);
+  }
+  await masterDbService.deleteSiteBackupRecord(backup.id);
+}
+
+/**
+ * Keep the plan's number of most recent backups of a site. Failed backups are
+ * only kept while they are newer than the latest completed one.
+ */
+export async function pruneBackups(siteId: string): Promise<number> {
+  const { retention } = getBackupSchedule(await getSitePlan(siteId));
+  const backups = await masterDbService.getSiteBackups(siteId);
+  const completed = backups.filter((backup) => backup.status === 'completed');
+  const latestCompletedAt = completed[0]?.created_at;
+
+  const expired = [
+    ...completed.slice(Math.max(retention, 1)),
+    ...backups.filter((backup) =>
+      backup.status === 'failed' && latestCompletedAt && backup.created_at < latestCompletedAt
+    ),
+  ];
+
+  for (const backup of expired) {
+    await deleteBackup(backup);
+  }
+
+  if (expired.length > 0) {
+    console.log(`[Backups] Pruned ${expired.length} backup(s) of ${siteId}`);
+  }
+  return expired.length;
+}
+
+/**
+ * Delete every backup of a site (used when the site is purged)
+ */
+export async function deleteSiteBackups(siteId: string): Promise<number> {
+  const backups = await masterDbService.getSiteBackups(siteId);
+  for (const backup of backups) {
+    await deleteBackup(backup);
+  }
+  return backups.length;
+}
+
+/**
+ * Restore a completed backup into an existing, empty database
+ */
+export async function restoreBackupIntoDatabase(backup: SiteBackupRecord, dbName: string): Promise<void> {
+  if (backup.status !== 'completed' || !backup.blob_key) {
+    throw new Error(`Backup ${backup.id} is not completed`);
+  }
+
+  const archive = await getBlobStore().get(backup.blob_key);
+  const restore = spawn(
+    config.backups.pgRestorePath,
+    ['--no-owner', '--no-acl', '--exit-on-error', `--dbname=${dbName}`],
+    { env: getPgEnv(), stdio: ['pipe', 'ignore', 'pipe'] }
+  );
+
+  await settleAll([
+    pipeline(archive, restore.stdin!),
+    waitForExit(restore, 'pg_restore'),
+  ]);
+  console.log(`[Backups] Backup ${backup.id} restored into ${dbName}`);
+}
+
+/**
+ * Restore a backup into the site it was taken from. The current database is
+ * backed up first; returns that pre-restore backup.
+ */
+export async function restoreBackup(
+  site: Site,
+  backup: SiteBackupRecord,
+  owner: { email?: string; name?: string }
+): Promise<SiteBackupRecord> {
+  const preRestore = await beginBackup(site.siteId, site.userId, 'pre_restore');
+  if (!preRestore) {
+    throw new Error(`A backup of ${site.siteId} is already running`);
+  }
+  await runBackup(preRestore);
+
+  // Short name: database names are limited to 63 characters
+  const restoreDbName = `luna_restore_${backup.id.slice(0, 8)}`;
+  console.log(`[Backups] Restoring backup ${backup.id} into ${site.siteId}`);
+
+  await databaseService.dropDatabaseByName(restoreDbName);
+  await databaseService.createDatabaseByName(restoreDbName);
+  try {
+    await restoreBackupIntoDatabase(backup, restoreDbName);
+  } catch (error) {
+    await databaseService.dropDatabaseByName(restoreDbName).catch(() => {});
+    throw error;
+  }
+
+  const dbName = await databaseService.getSiteDatabaseName(site.siteId);
+  await databaseService.replaceDatabase(dbName, restoreDbName);
+
+  // Restored objects belong to the superuser (--no-owner): hand them back to the site's role
+  const masterSite = await masterDbService.getMasterSiteBySiteId(site.siteId);
+  if (masterSite) {
+    await databaseService.assignDatabaseToRole(dbName, masterSite.db_user);
+  }
+
+  // The site changed hands since the backup: give the snapshot's owner rows to the current owner
+  if (backup.user_id !== site.userId) {
+    await databaseService.updateDatabaseOwner(site.siteId, site.userId, owner.email, owner.name, backup.user_id);
+  }
+
+  console.log(`[Backups] Site ${site.siteId} restored from backup ${backup.id}`);
+  return preRestore;
+}
+
+let running = false;
+
+/**
+ * Back up every active site whose plan interval has passed since its last backup
+ */
+async function runDueBackups(): Promise<void> {
+  // Backups run one at a time per API process
+  if (running) return;
+  running = true;
+
+  try {
+    const stale = await masterDbService.failStaleSiteBackups(STALE_BACKUP_MS);
+    if (stale > 0) {
+      console.log(`[Backups] Marked ${stale} interrupted backup(s) as failed`);
+    }
+
+    const sites = await sitesService.getSitesByStatus('active');
+    for (const site of sites) {
+      const { intervalHours } = getBackupSchedule(await getSitePlan(site.siteId));
+      const notSince = new Date(Date.now() - intervalHours * 60 * 60 * 1000);
+
+      const backup = await beginBackup(site.siteId, site.userId, 'scheduled', notSince);
+      if (!backup) continue;
+
+      // One failing site must not stop the others
+      await runBackup(backup).catch(() => {});
+    }
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Check that pg_dump and pg_restore can be run (backups all fail without them)
+ */
+function hasBackupTools(): boolean {
+  return [config.backups.pgDumpPath, config.backups.pgRestorePath].every((command) => {
+    const result = spawnSync(command, ['--version'], { stdio: 'ignore' });
+    if (result.error || result.status !== 0) {
+      console.error(`[Backups] ${command} cannot be run: ${result.error?.message || `exit code ${result.status}`}`);
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Start the backup worker (not started without the PostgreSQL client tools)
+ */
+export function startBackupWorker(): void {
+  if (!hasBackupTools()) {
+    console.error('[Backups] Worker not started: install the PostgreSQL client tools (see PG_DUMP_PATH, PG_RESTORE_PATH)');
+    return;
+  }
+
+  console.log(`[Backups] Worker started (store: ${config.backups.store}, poll interval: ${config.backups.pollIntervalMs}ms)`);
+
+  const tick = () => {
+    runDueBackups().catch((error) => console.error('[Backups] Worker run failed:', error));
+  };
+
+  tick();
+  setInterval(tick, config.backups.pollIntervalMs);
+}
@@ -0,0 +1,83 @@
+/**
+ * Blob Store - Where large files (site backups) are kept
+ *
+ * Stores are selected with config.backups.store. Only the local filesystem
+ * store exists for now; other stores (S3, R2, ...) implement the same interface.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import type { Readable } from 'stream';
+import { config } from '../config/index.js';
+
+export interface BlobStore {
+  /** Write a blob from a stream, returns its size in bytes */
+  put(key: string, body: Readable): Promise<number>;
+  /** Open a blob for reading (throws if it does not exist) */
+  get(key: string): Promise<Readable>;
+  /** Delete a blob (no-op if it does not exist) */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Blob store on the local filesystem (keys are paths relative to baseDir)
+ */
+export function createLocalBlobStore(baseDir: string): BlobStore {
+  const root = path.resolve(baseDir);
+
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    async put(key, body) {
+      const filePath = resolveKey(key);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+      // Write to a temporary file first so a failed upload never leaves a partial blob
+      const tmpPath = `${filePath}.tmp`;
+      try {
+        await pipeline(body, fs.createWriteStream(tmpPath));
+        await fs.promises.rename(tmpPath, filePath);
+      } catch (error) {
+        await fs.promises.rm(tmpPath, { force: true });
+        throw error;
+      }
+
+      return (await fs.promises.stat(filePath)).size;
+    },
+
+    async get(key) {
+      const filePath = resolveKey(key);
+      await fs.promises.access(filePath);
+      return fs.createReadStream(filePath);
+    },
+
+    async delete(key) {
+      await fs.promises.rm(resolveKey(key), { force: true });
+    },
+  };
+}
+
+let blobStore: BlobStore | null = null;
+
+/**
+ * Get the configured blob store
+ */
+export function getBlobStore(): BlobStore {
+  if (!blobStore) {
+    switch (config.backups.store) {
+      case 'local':
+        blobStore = createLocalBlobStore(config.backups.localDir);
+        break;
+      default:
+        throw new Error(`Unknown blob store: ${config.backups.store}`);
+    }
+  }
+  return blobStore;
+}
@@ -1,5 +1,8 @@
+import crypto from 'crypto';
 import pg from 'pg';
 import { config } from '../config/index.js';
+import * as masterDbService from './masterDb.js';
+import * as tenantConnections from './tenantConnections.js';
 
 const { Client } = pg;
 
@@ -60,8 +63,14 @@ function buildInternalConnectionString(info: DatabaseConnectionInfo): string {
 }
 
 export async function createDatabase(siteId: string): Promise<string> {
+  return createDatabaseByName(`luna_${siteId.toLowerCase().replace(/[^a-z0-9]/g, '_')}`);
+}
+
+/**
+ * Create an empty database by name (no-op if it already exists)
+ */
+export async function createDatabaseByName(dbName: string): Promise<string> {
   const baseInfo = parseConnectionString(config.sharedDatabaseUrl);
-  const dbName = `luna_${siteId.toLowerCase().replace(/[^a-z0-9]/g, '_')}`;
 
   // Connect to the default database to create the new one
   const client = new Client({
@@ -99,9 +108,24 @@ export async function createDatabase(siteId: string): Promise<string> {
   }
 }
 
+/**
+ * Name of the database a site runs on: the one master_sites routes to (staging
+ * promotions swap databases between sites), else the luna_<siteId> convention
+ */
+export async function getSiteDatabaseName(siteId: string): Promise<string> {
+  const masterSite = await masterDbService.getMasterSiteBySiteId(siteId);
+  return masterSite?.db_name || `luna_${siteId.toLowerCase().replace(/[^a-z0-9]/g, '_')}`;
+}
+
 export async function dropDatabase(siteId: string): Promise<void> {
+  await dropDatabaseByName(await getSiteDatabaseName(siteId));
+}
+
+/**
+ * Drop a database by name. Open connections are terminated.
+ */
+export async function dropDatabaseByName(dbName: string): Promise<void> {
   const baseInfo = parseConnectionString(config.sharedDatabaseUrl);
-  const dbName = `luna_${siteId.toLowerCase().replace(/[^a-z0-9]/g, '_')}`;
 
   const client = new Client({
     host: baseInfo.host,
@@ -112,6 +136,9 @@ export async function dropDatabase(siteId: string): Promise<void> {
     ssl: baseInfo.host.includes('render.com') ? { rejectUnauthorized: false } : false,
   });
 
+  // Close the API's own pools first, their clients are terminated below
+  await tenantConnections.closeDatabasePools(dbName);
+
   try {
     await client.connect();
 
@@ -156,13 +183,118 @@ export async function databaseExists(siteId: string): Promise<boolean> {
   }
 }
 
+/**
+ * Rename a site database (used when a site's ID changes). Open connections are terminated.
+ */
+export async function renameDatabase(oldSiteId: string, newSiteId: string): Promise<string> {
+  const baseInfo = parseConnectionString(config.sharedDatabaseUrl);
+  const oldDbName = await getSiteDatabaseName(oldSiteId);
+  const newDbName = `luna_${newSiteId.toLowerCase().replace(/[^a-z0-9]/g, '_')}`;
+
+  const client = new Client({
+    host: baseInfo.host,
+    port: baseInfo.port,
+    user: baseInfo.user,
+    password: baseInfo.password,
+    database: baseInfo.database,
+    ssl: baseInfo.host.includes('render.com') ? { rejectUnauthorized: false } : false,
+  });
+
+  await tenantConnections.closeDatabasePools(oldDbName);
+
+  try {
+    await client.connect();
+
+    // Terminate existing connections (required for ALTER DATABASE ... RENAME)
+    await client.query(`
+      SELECT pg_terminate_backend(pg_stat_activity.pid)
+      FROM pg_stat_activity
+      WHERE pg_stat_activity.datname = $1
+      AND pid <> pg_backend_pid()
+    `, [oldDbName]);
+
+    // Database names cannot be parameterized, but we sanitize them
+    await client.query(`ALTER DATABASE "${oldDbName}" RENAME TO "${newDbName}"`);
+    console.log(`Renamed database ${oldDbName} to ${newDbName}`);
+
+    return buildConnectionString({ ...baseInfo, database: newDbName });
+  } finally {
+    await client.end();
+  }
+}
+
+/**
+ * Swap a database for another one: replacementDbName takes over dbName and the
+ * previous dbName is dropped. Open connections to both are terminated.
+ */
+export async function replaceDatabase(dbName: string, replacementDbName: string): Promise<void> {
+  const baseInfo = parseConnectionString(config.sharedDatabaseUrl);
+  // Short name: database names are limited to 63 characters
+  const retiredDbName = `luna_old_${crypto.randomBytes(4).toString('hex')}`;
+
+  const client = new Client({
+    host: baseInfo.host,
+    port: baseInfo.port,
+    user: baseInfo.user,
+    password: baseInfo.password,
+    database: baseInfo.database,
+    ssl: baseInfo.host.includes('render.com') ? { rejectUnauthorized: false } : false,
+  });
+
+  await tenantConnections.closeDatabasePools(dbName, replacementDbName);
+
+  try {
+    await client.connect();
+
+    await client.query(`
+      SELECT pg_terminate_backend(pg_stat_activity.pid)
+      FROM pg_stat_activity
+      WHERE pg_stat_activity.datname = ANY($1)
+      AND pid <> pg_backend_pid()
+    `, [[dbName, replacementDbName]]);
+
+    await client.query(`ALTER DATABASE "${dbName}" RENAME TO "${retiredDbName}"`);
+    try {
+      await client.query(`ALTER DATABASE "${replacementDbName}" RENAME TO "${dbName}"`);
+    } catch (error) {
+      await client.query(`ALTER DATABASE "${retiredDbName}" RENAME TO "${dbName}"`);
+      throw error;
+    }
+    console.log(`Replaced database ${dbName} with ${replacementDbName}`);
+  } finally {
+    await client.end();
+  }
+
+  await dropDatabaseByName(retiredDbName);
+}
+
+/**
+ * Build the connection string for an existing site database (does not create it)
+ */
+export function getDatabaseUrl(siteId: string): string {
+  const baseInfo = parseConnectionString(config.sharedDatabaseUrl);
+  const dbName = `luna_${siteId.toLowerCase().replace(/[^a-z0-9]/g, '_')}`;
+  return buildConnectionString({ ...baseInfo, database: dbName });
+}
+
 /**
  * Clone an existing database to create a new site database
  */
 export async function cloneDatabase(sourceSiteId: string, targetSiteId: string): Promise<string> {
-  const baseInfo = parseConnectionString(config.sharedDatabaseUrl);
-  const sourceDbName = `luna_${sourceSiteId.toLowerCase().replace(/[^a-z0-9]/g, '_')}`;
+  const sourceDbName = await getSiteDatabaseName(sourceSiteId);
   const targetDbName = `luna_${targetSiteId.toLowerCase().replace(/[^a-z0-9]/g, '_')}`;
+  return cloneDatabaseByName(sourceDbName, targetDbName);
+}
+
+/**
+ * Clone a database by name. The target is replaced if it already exists.
+ */
+export async function cloneDatabaseByName(sourceDbName: string, targetDbName: string): Promise<string> {
+  const baseInfo = parseConnectionString(config.sharedDatabaseUrl);
+
+  if (sourceDbName === targetDbName) {
+    throw new Error(`Cannot clone database ${sourceDbName} onto itself`);
+  }
 
   const client = new Client({
     host: baseInfo.host,
@@ -173,6 +305,9 @@ export async function cloneDatabase(sourceSiteId: string, targetSiteId: string):
     ssl: baseInfo.host.includes('render.com') ? { rejectUnauthorized: false } : false,
   });
 
+  // A pooled connection to the source would make CREATE DATABASE ... TEMPLATE fail
+  await tenantConnections.closeDatabasePools(sourceDbName, targetDbName);
+
   try {
     await client.connect();
 
@@ -232,36 +367,28 @@ export async function cloneDatabase(sourceSiteId: string, targetSiteId: string):
 }
 
 /**
- * Update owner in a cloned database
+ * Update owner in a cloned database, or hand a site to a new owner
+ * (previousOwnerId given, e.g. ownership transfer)
  */
 export async function updateDatabaseOwner(
   siteId: string,
   newOwnerId: string,
   ownerEmail?: string,
-  ownerName?: string
+  ownerName?: string,
+  previousOwnerId?: string
 ): Promise<void> {
-  const baseInfo = parseConnectionString(config.sharedDatabaseUrl);
-  const dbName = `luna_${siteId.toLowerCase().replace(/[^a-z0-9]/g, '_')}`;
-
-  const client = new Client({
-    host: baseInfo.host,
-    port: baseInfo.port,
-    user: baseInfo.user,
-    password: baseInfo.password,
-    database: dbName,
-    ssl: baseInfo.host.includes('render.com') ? { rejectUnauthorized: false } : false,
-  });
-
-  try {
-    await client.connect();
+  const dbName = await getSiteDatabaseName(siteId);
 
+  await tenantConnections.withTenantClient(siteId, async (client) => {
     // Get current user id (from template) - skip system users like 'anonymous' and 'admin'
-    const oldUserResult = await client.query(`
-      SELECT id FROM "user"
-      WHERE id NOT IN ('anonymous', 'admin')
-      ORDER BY id
-      LIMIT 1
-    `);
+    const oldUserResult = previousOwnerId
+      ? await client.query(`SELECT id FROM "user" WHERE id = $1`, [previousOwnerId])
+      : await client.query(`
+          SELECT id FROM "user"
+          WHERE id NOT IN ('anonymous', 'admin')
+          ORDER BY id
+          LIMIT 1
+        `);
     const oldUserId = oldUserResult.rows[0]?.id;
 
     // Skip if same user (user is creating site from their own template)
@@ -271,6 +398,15 @@ export async function updateDatabaseOwner(
     }
 
     if (oldUserId) {
+      // New owner may already be a user of the site (e.g. an editor): hand their
+      // content to the old owner and drop the row, so the rename below takes over both
+      const newUserResult = await client.query(`SELECT id FROM "user" WHERE id = $1`, [newOwnerId]);
+      if (newUserResult.rows.length > 0) {
+        await client.query(`UPDATE document SET owner = $1 WHERE owner = $2`, [oldUserId, newOwnerId]);
+        await client.query(`UPDATE version SET actor = $1 WHERE actor = $2`, [oldUserId, newOwnerId]);
+        await client.query(`DELETE FROM "user" WHERE id = $1`, [newOwnerId]);
+      }
+
       // Update user table with new owner
       await client.query(`
         UPDATE "user" SET id = $1, email = $2, fullname = $3 WHERE id = $4
@@ -336,6 +472,205 @@ export async function updateDatabaseOwner(
 
       console.log(`Created new owner ${newOwnerId} in ${dbName}`);
     }
+  });
+}
+
+// ============================================
+// SITE ROLES (a login role per site database)
+// ============================================
+
+/**
+ * Client of the shared cluster superuser, connected to the given database
+ */
+function createSuperuserClient(database?: string): pg.Client {
+  const baseInfo = parseConnectionString(config.sharedDatabaseUrl);
+  return new Client({
+    host: baseInfo.host,
+    port: baseInfo.port,
+    user: baseInfo.user,
+    password: baseInfo.password,
+    database: database || baseInfo.database,
+    ssl: baseInfo.host.includes('render.com') ? { rejectUnauthorized: false } : false,
+  });
+}
+
+/**
+ * Whether a database user is the shared cluster superuser (sites registered before site roles)
+ */
+export function isSharedDatabaseUser(user: string): boolean {
+  return user === parseConnectionString(config.sharedDatabaseUrl).user;
+}
+
+/**
+ * Name for a new site role. The suffix keeps it unique: a role outlives renames of its database.
+ */
+export function getSiteRoleName(dbName: string, suffix: string = crypto.randomBytes(4).toString('hex')): string {
+  // Role names are limited to 63 characters
+  return `${dbName.slice(0, 50)}_${suffix.replace(/[^a-z0-9]/g, '').slice(0, 8)}`;
+}
+
+/**
+ * Random password for a site role
+ */
+export function generateDatabasePassword(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+/**
+ * Create a site login role, or reset its password if it already exists. The
+ * role can only log in: no superuser, database or role creation.
+ */
+export async function createSiteRole(roleName: string, password: string): Promise<void> {
+  const client = createSuperuserClient();
+
+  try {
+    await client.connect();
+
+    const role = client.escapeIdentifier(roleName);
+    const exists = await client.query('SELECT 1 FROM pg_roles WHERE rolname = $1', [roleName]);
+    if (exists.rows.length > 0) {
+      await client.query(`ALTER ROLE ${role} WITH LOGIN PASSWORD ${client.escapeLiteral(password)}`);
+      console.log(`Reset password of role ${roleName}`);
+    } else {
+      await client.query(`
+        CREATE ROLE ${role} WITH LOGIN PASSWORD ${client.escapeLiteral(password)}
+        NOSUPERUSER NOCREATEDB NOCREATEROLE NOREPLICATION NOBYPASSRLS
+        CONNECTION LIMIT ${config.databaseRoles.connectionLimit}
+      `);
+      console.log(`Created role ${roleName}`);
+    }
+  } finally {
+    await client.end();
+  }
+}
+
+/**
+ * Hand a database to a site role: the role owns the database and everything in
+ * its public schema, and is the only role (besides superusers) allowed to connect.
+ * Run again whenever objects were created by another role (clones, restores, migrations).
+ * No-op for the shared superuser.
+ */
+export async function assignDatabaseToRole(dbName: string, roleName: string): Promise<void> {
+  if (isSharedDatabaseUser(roleName)) return;
+
+  const client = createSuperuserClient();
+
+  try {
+    await client.connect();
+
+    const database = client.escapeIdentifier(dbName);
+    const role = client.escapeIdentifier(roleName);
+    await client.query(`ALTER DATABASE ${database} OWNER TO ${role}`);
+    await client.query(`REVOKE ALL ON DATABASE ${database} FROM PUBLIC`);
+    await client.query(`GRANT CONNECT, TEMPORARY ON DATABASE ${database} TO ${role}`);
+  } finally {
+    await client.end();
+  }
+
+  // Objects inside the database (superuser connection to it)
+  const dbClient = createSuperuserClient(dbName);
+
+  try {
+    await dbClient.connect();
+
+    // Extension members and sequences owned by a table (they follow the table) are left alone
+    await dbClient.query(`
+      DO $$
+      DECLARE
+        target text := ${dbClient.escapeLiteral(roleName)};
+        object record;
+      BEGIN
+        EXECUTE format('ALTER SCHEMA public OWNER TO %I', target);
+
+        FOR object IN
+          SELECT c.oid::regclass AS name, c.relkind
+          FROM pg_class c
+          JOIN pg_namespace n ON n.oid = c.relnamespace
+          WHERE n.nspname = 'public'
+            AND c.relkind IN ('r', 'p', 'v', 'm', 'f', 'S')
+            AND pg_get_userbyid(c.relowner) <> target
+            AND NOT EXISTS (
+              SELECT 1 FROM pg_depend d
+              WHERE d.classid = 'pg_class'::regclass AND d.objid = c.oid AND d.deptype IN ('a', 'i', 'e')
+            )
+        LOOP
+          EXECUTE format(
+            'ALTER %s %s OWNER TO %I',
+            CASE object.relkind
+              WHEN 'v' THEN 'VIEW'
+              WHEN 'm' THEN 'MATERIALIZED VIEW'
+              WHEN 'f' THEN 'FOREIGN TABLE'
+              WHEN 'S' THEN 'SEQUENCE'
+              ELSE 'TABLE'
+            END,
+            object.name,
+            target
+          );
+        END LOOP;
+
+        FOR object IN
+          SELECT t.oid::regtype AS name
+          FROM pg_type t
+          JOIN pg_namespace n ON n.oid = t.typnamespace
+          WHERE n.nspname = 'public'
+            AND t.typtype IN ('e', 'd', 'r')
+            AND pg_get_userbyid(t.typowner) <> target
+            AND NOT EXISTS (
+              SELECT 1 FROM pg_depend d
+              WHERE d.classid = 'pg_type'::regclass AND d.objid = t.oid AND d.deptype = 'e'
+            )
+        LOOP
+          EXECUTE format('ALTER TYPE %s OWNER TO %I', object.name, target);
+        END LOOP;
+
+        FOR object IN
+          SELECT p.oid::regprocedure AS name
+          FROM pg_proc p
+          JOIN pg_namespace n ON n.oid = p.pronamespace
+          WHERE n.nspname = 'public'
+            AND pg_get_userbyid(p.proowner) <> target
+            AND NOT EXISTS (
+              SELECT 1 FROM pg_depend d
+              WHERE d.classid = 'pg_proc'::regclass AND d.objid = p.oid AND d.deptype = 'e'
+            )
+        LOOP
+          EXECUTE format('ALTER ROUTINE %s OWNER TO %I', object.name, target);
+        END LOOP;
+      END
+      $$
+    `);
+    console.log(`Assigned database ${dbName} to role ${roleName}`);
+  } finally {
+    await dbClient.end();
+  }
+}
+
+/**
+ * Leave a database to superusers only (e.g. template snapshots, which no site role may open)
+ */
+export async function revokeDatabaseAccess(dbName: string): Promise<void> {
+  const client = createSuperuserClient();
+
+  try {
+    await client.connect();
+    await client.query(`REVOKE ALL ON DATABASE ${client.escapeIdentifier(dbName)} FROM PUBLIC`);
+  } finally {
+    await client.end();
+  }
+}
+
+/**
+ * Drop a site role once its database was dropped (no-op for the shared superuser)
+ */
+export async function dropSiteRole(roleName: string): Promise<void> {
+  if (isSharedDatabaseUser(roleName)) return;
+
+  const client = createSuperuserClient();
+
+  try {
+    await client.connect();
+    await client.query(`DROP ROLE IF EXISTS ${client.escapeIdentifier(roleName)}`);
+    console.log(`Dropped role ${roleName}`);
   } finally {
     await client.end();
   }
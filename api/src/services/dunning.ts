@@ -0,0 +1,248 @@
+/**
+ * Dunning Service - Billing state of a site and what it does to the site
+ *
+ *   trialing -> expired (trial over, see trials.ts) -> active (new subscription)
+ *   active -> past_due (payment failed) -> suspended (grace period over) -> active (invoice paid)
+ *   past_due / suspended -> cancelled (subscription deleted) -> active (new subscription)
+ *
+ * The state is the status of the site's siteBilling document, with pastDueAt,
+ * graceEndsAt and suspendedAt. Suspending a site stops routing it (production
+ * and staging) and its custom domains, and the edge shows a suspension page
+ * instead (master_sites.suspended_reason). A paid invoice or a new subscription
+ * restores everything, unless the site is being deleted. Expired trials are
+ * suspended the same way.
+ *
+ * Plans without custom domains (starter, free after a cancellation) disable
+ * them until the site is on a plan that has them again. The storage quota
+ * follows the plan too (see storageQuota.ts); add-on storage ends with the
+ * subscription.
+ *
+ * A worker suspends the sites whose grace period is over.
+ */
+
+import admin from 'firebase-admin';
+import { config } from '../config/index.js';
+import * as masterDbService from './masterDb.js';
+import * as stagingService from './staging.js';
+import * as storageQuotaService from './storageQuota.js';
+import * as stripeService from './stripe.js';
+
+export type BillingStatus = 'trialing' | 'expired' | 'active' | 'past_due' | 'suspended' | 'cancelled';
+
+// Statuses each status may move to
+const TRANSITIONS: Record<BillingStatus, BillingStatus[]> = {
+  trialing: ['active', 'expired'],
+  expired: ['active'],
+  active: ['past_due', 'cancelled'],
+  past_due: ['active', 'suspended', 'cancelled'],
+  suspended: ['active', 'cancelled'],
+  cancelled: ['active'],
+};
+
+// master_sites.suspended_reason and site_custom_domains.disabled_reason
+export type SuspensionReason = 'billing' | 'trial';
+const SUSPENSION_REASONS: SuspensionReason[] = ['billing', 'trial'];
+const PLAN_REASON = 'plan';
+
+export type BillingDoc = FirebaseFirestore.DocumentSnapshot;
+
+/**
+ * Status of a siteBilling document (records older than the state machine count as active)
+ */
+export function getStatus(doc: BillingDoc): BillingStatus {
+  const status = doc.data()?.status;
+  return status in TRANSITIONS ? status : 'active';
+}
+
+/**
+ * Move a siteBilling document to a status, with extra fields. The document is
+ * read again in a transaction, so the transition (and the condition, checked on
+ * the current document) never applies to a stale status. Returns the status it
+ * moved from, or null if the transition is not allowed or the condition fails.
+ */
+export async function transition(
+  doc: BillingDoc,
+  to: BillingStatus,
+  fields: Record<string, unknown> = {},
+  condition?: (current: BillingDoc) => boolean
+): Promise<BillingStatus | null> {
+  const siteId = doc.data()?.siteId;
+
+  const result = await admin.firestore().runTransaction(async (tx) => {
+    const current = await tx.get(doc.ref);
+    const from = getStatus(current);
+
+    if (from !== to && !TRANSITIONS[from].includes(to)) {
+      return { from, allowed: false, moved: false };
+    }
+    if (condition && !condition(current)) {
+      return { from, allowed: true, moved: false };
+    }
+
+    tx.update(doc.ref, {
+      status: to,
+      ...fields,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return { from, allowed: true, moved: true };
+  });
+
+  if (!result.allowed) {
+    console.warn(`[Dunning] ${siteId}: ${result.from} -> ${to} is not allowed, ignored`);
+  }
+  if (!result.moved) return null;
+
+  if (result.from !== to) {
+    console.log(`[Dunning] ${siteId}: ${result.from} -> ${to}`);
+  }
+  return result.from;
+}
+
+/**
+ * End of the grace period of a past due siteBilling document (ms), if it has one
+ */
+function getGraceEndsAt(doc: BillingDoc): number | undefined {
+  return doc.data()?.graceEndsAt?.toMillis?.();
+}
+
+/**
+ * Stop serving a site (production and staging) and its custom domains
+ */
+export async function suspendSite(siteId: string, reason: SuspensionReason): Promise<void> {
+  for (const id of [siteId, stagingService.getStagingSiteId(siteId)]) {
+    await masterDbService.deactivateMasterSite(id);
+    await masterDbService.setMasterSiteSuspension(id, reason);
+  }
+  const domains = await masterDbService.disableSiteCustomDomains(siteId, reason);
+  console.log(`[Dunning] Suspended ${siteId}: ${reason} (${domains} custom domain(s) disabled)`);
+}
+
+/**
+ * Serve a site suspended for non-payment or an expired trial again (no-op for sites that are not)
+ */
+export async function restoreSite(siteId: string): Promise<void> {
+  const masterSite = await masterDbService.getMasterSiteBySiteId(siteId);
+  const reason = masterSite?.suspended_reason as SuspensionReason | null | undefined;
+  if (!reason || !SUSPENSION_REASONS.includes(reason)) return;
+
+  // A site being deleted stays deactivated: restoring it from the teardown reactivates it
+  const teardown = await masterDbService.getActiveSiteTeardown(siteId);
+
+  for (const id of [siteId, stagingService.getStagingSiteId(siteId)]) {
+    await masterDbService.setMasterSiteSuspension(id, null);
+    if (!teardown) {
+      await masterDbService.reactivateMasterSite(id);
+    }
+  }
+  const domains = await masterDbService.restoreSiteCustomDomains(siteId, reason);
+  console.log(`[Dunning] Restored ${siteId} (${domains} custom domain(s) enabled)`);
+}
+
+/**
+ * Disable or restore the custom domains of a site for its (new) plan, and update its storage quota
+ */
+export async function applyPlan(siteId: string, plan: string): Promise<void> {
+  if (stripeService.planAllowsCustomDomain(plan)) {
+    const domains = await masterDbService.restoreSiteCustomDomains(siteId, PLAN_REASON);
+    if (domains > 0) console.log(`[Dunning] ${siteId} on ${plan}: ${domains} custom domain(s) enabled`);
+  } else {
+    const domains = await masterDbService.disableSiteCustomDomains(siteId, PLAN_REASON);
+    if (domains > 0) console.log(`[Dunning] ${siteId} on ${plan}: ${domains} custom domain(s) disabled`);
+  }
+  await storageQuotaService.syncSiteQuota(siteId);
+}
+
+/**
+ * A payment failed: start the grace period (once, later failures keep it)
+ */
+export async function recordPaymentFailed(doc: BillingDoc): Promise<void> {
+  const graceEndsAt = Date.now() + config.dunning.gracePeriodDays * 24 * 60 * 60 * 1000;
+  await transition(doc, 'past_due', {
+    pastDueAt: admin.firestore.FieldValue.serverTimestamp(),
+    graceEndsAt: admin.firestore.Timestamp.fromMillis(graceEndsAt),
+  }, (current) => getStatus(current) === 'active');
+}
+
+/**
+ * An invoice was paid: back to active (with the new billing period) and restore the site.
+ * A cancelled subscription stays cancelled (a new subscription reactivates the site).
+ */
+export async function recordPaymentSucceeded(doc: BillingDoc, fields: Record<string, unknown> = {}): Promise<void> {
+  const moved = await transition(doc, 'active', {
+    ...fields,
+    pastDueAt: admin.firestore.FieldValue.delete(),
+    graceEndsAt: admin.firestore.FieldValue.delete(),
+    suspendedAt: admin.firestore.FieldValue.delete(),
+  }, (current) => getStatus(current) !== 'cancelled');
+
+  if (moved) {
+    await restoreSite(doc.data()!.siteId);
+  }
+}
+
+/**
+ * The subscription ended: the site is on the free plan, and suspended if it ended unpaid
+ */
+export async function recordSubscriptionCancelled(doc: BillingDoc): Promise<void> {
+  const siteId = doc.data()!.siteId;
+
+  const from = await transition(doc, 'cancelled', {
+    plan: 'free',
+    storageAddOnUnits: admin.firestore.FieldValue.delete(),
+  });
+  if (!from) return;
+
+  if (from === 'past_due') {
+    await suspendSite(siteId, 'billing');
+  }
+  await applyPlan(siteId, 'free');
+}
+
+/**
+ * Suspend the sites whose grace period is over
+ */
+async function suspendOverdueSites(): Promise<void> {
+  // Filtered here: an equality and a range on two fields would need a composite index
+  const snapshot = await admin.firestore()
+    .collection('siteBilling')
+    .where('status', '==', 'past_due')
+    .get();
+
+  const now = Date.now();
+  const isOverdue = (doc: BillingDoc) => {
+    const graceEndsAt = getGraceEndsAt(doc);
+    return graceEndsAt !== undefined && graceEndsAt <= now;
+  };
+
+  for (const doc of snapshot.docs) {
+    if (!isOverdue(doc)) continue;
+
+    try {
+      const suspended = await transition(
+        doc,
+        'suspended',
+        { suspendedAt: admin.firestore.FieldValue.serverTimestamp() },
+        (current) => getStatus(current) === 'past_due' && isOverdue(current)
+      );
+      if (suspended) {
+        await suspendSite(doc.data().siteId, 'billing');
+      }
+    } catch (error) {
+      console.error(`[Dunning] Failed to suspend ${doc.data().siteId}:`, error);
+    }
+  }
+}
+
+/**
+ * Start the dunning worker
+ */
+export function startDunningWorker(): void {
+  console.log(`[Dunning] Worker started (grace period: ${config.dunning.gracePeriodDays} days)`);
+
+  const tick = () => {
+    suspendOverdueSites().catch((error) => console.error('[Dunning] Worker run failed:', error));
+  };
+
+  tick();
+  setInterval(tick, config.dunning.pollIntervalMs);
+}
@@ -0,0 +1,31 @@
+/**
+ * Mail Service - Emails to site owners
+ *
+ * Emails are queued as Firestore documents ({ to, message: { subject, text } })
+ * in the collection read by the Trigger Email extension, which sends them.
+ */
+
+import admin from 'firebase-admin';
+import { config } from '../config/index.js';
+
+/**
+ * Queue an email to a platform user. Returns false for accounts without an email.
+ */
+export async function sendMail(userId: string, subject: string, text: string): Promise<boolean> {
+  const user = await admin.auth().getUser(userId);
+  if (!user.email) return false;
+
+  await admin.firestore().collection(config.mail.collection).add({
+    to: user.email,
+    message: { subject, text },
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  return true;
+}
+
+/**
+ * Link to a site's settings page in the dashboard (plans, storage)
+ */
+export function getSiteSettingsUrl(siteId: string): string {
+  return `${config.mail.dashboardUrl}/sites/${siteId}/settings`;
+}
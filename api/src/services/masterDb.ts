@@ -8,6 +8,7 @@
 import pg from 'pg';
 import crypto from 'crypto';
 import { config } from '../config/index.js';
+import * as secretsService from './secrets.js';
 
 const { Pool } = pg;
 
@@ -35,6 +36,7 @@ export interface MasterSiteRecord {
   db_port: number;
   db_name: string;
   db_user: string;
+  // Secret columns are decrypted when read and encrypted when written (see sealMasterSiteSecrets)
   db_password: string;
   user_id: string;
   jwt_secret: string;
@@ -47,6 +49,77 @@ export interface MasterSiteRecord {
   custom_domain_active: boolean;
   custom_domain_verified_at?: Date;
   custom_domain_activated_at?: Date;
+  // Visitors must enter this password (bcrypt hash) before seeing the site, e.g. staging copies
+  access_password_hash?: string | null;
+  // Secret replaced by the last rotation: tokens it signed stay valid until they expire
+  previous_jwt_secret?: string | null;
+  credentials_rotated_at?: Date | null;
+  // Why the site is deactivated, if suspended (e.g. 'billing': unpaid). The edge shows a suspension page.
+  suspended_reason?: string | null;
+  suspended_at?: Date | null;
+  // Storage quota (MB): the worker rejects blob uploads that would take the site's
+  // storage (blobs, document JSON, versions) over it. Null: no quota.
+  storage_quota_mb?: number | null;
+  // Master key ID and wrapped data key the secrets are encrypted with (null: not encrypted yet)
+  secrets_key_id: string | null;
+  secrets_data_key: string | null;
+}
+
+/*
+ * The routing worker reads db_password (to connect to the site database) and
+ * jwt_secret / previous_jwt_secret (to sign and verify site tokens) from
+ * master_sites, so it decrypts them with the same SECRETS_MASTER_KEYS (set on
+ * both services, see render.yaml). Encrypted values are
+ * "v1:<iv>:<tag>:<ciphertext>", base64 parts, AES-256-GCM with a 12-byte IV:
+ *
+ *   - secrets_data_key: the row's 32-byte data key, encrypted with the master
+ *     key secrets_key_id, associated data "data-key:<secrets_key_id>"
+ *   - db_password, jwt_secret, previous_jwt_secret: the UTF-8 value encrypted
+ *     with the data key, associated data the column name
+ *
+ * Rows with a null secrets_key_id hold the values in plain text.
+ */
+
+type MasterSiteSecrets = Pick<MasterSiteRecord, 'db_password' | 'jwt_secret' | 'previous_jwt_secret'>;
+
+// Secret columns of master_sites, encrypted with the row's data key
+const MASTER_SITE_SECRET_COLUMNS = ['db_password', 'jwt_secret', 'previous_jwt_secret'] as const;
+
+/**
+ * Encrypt the secret columns of a master_sites row with a new data key
+ */
+function sealMasterSiteSecrets(secrets: MasterSiteSecrets): MasterSiteSecrets & {
+  secrets_key_id: string;
+  secrets_data_key: string;
+} {
+  const { dataKey, wrapped } = secretsService.createDataKey();
+  const encrypt = (column: string, value: string | null | undefined) =>
+    value ? secretsService.encryptSecret(dataKey, column, value) : null;
+
+  return {
+    db_password: encrypt('db_password', secrets.db_password)!,
+    jwt_secret: encrypt('jwt_secret', secrets.jwt_secret)!,
+    previous_jwt_secret: encrypt('previous_jwt_secret', secrets.previous_jwt_secret),
+    secrets_key_id: wrapped.keyId,
+    secrets_data_key: wrapped.wrappedKey,
+  };
+}
+
+/**
+ * Decrypt the secret columns of a master_sites row (rows not encrypted yet are returned as they are)
+ */
+function openMasterSite<T extends Partial<MasterSiteRecord>>(row: T): T {
+  if (!row.secrets_key_id || !row.secrets_data_key) return row;
+
+  const dataKey = secretsService.unwrapDataKey({ keyId: row.secrets_key_id, wrappedKey: row.secrets_data_key });
+  const opened = { ...row };
+  for (const column of MASTER_SITE_SECRET_COLUMNS) {
+    const value = row[column];
+    if (value) {
+      opened[column] = secretsService.decryptSecret(dataKey, column, value);
+    }
+  }
+  return opened;
 }
 
 /**
@@ -100,6 +173,21 @@ export async function initMasterSitesTable(): Promise<void> {
     CREATE UNIQUE INDEX IF NOT EXISTS idx_master_sites_custom_domain
       ON master_sites(custom_domain)
       WHERE custom_domain IS NOT NULL;
+
+    ALTER TABLE master_sites ADD COLUMN IF NOT EXISTS access_password_hash TEXT;
+    ALTER TABLE master_sites ADD COLUMN IF NOT EXISTS previous_jwt_secret VARCHAR(255);
+    ALTER TABLE master_sites ADD COLUMN IF NOT EXISTS credentials_rotated_at TIMESTAMP;
+    ALTER TABLE master_sites ADD COLUMN IF NOT EXISTS suspended_reason VARCHAR(20);
+    ALTER TABLE master_sites ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMP;
+    ALTER TABLE master_sites ADD COLUMN IF NOT EXISTS storage_quota_mb INTEGER;
+
+    -- Envelope encryption of the secret columns (encrypted values are longer)
+    ALTER TABLE master_sites ADD COLUMN IF NOT EXISTS secrets_key_id VARCHAR(50);
+    ALTER TABLE master_sites ADD COLUMN IF NOT EXISTS secrets_data_key TEXT;
+    ALTER TABLE master_sites
+      ALTER COLUMN db_password TYPE TEXT,
+      ALTER COLUMN jwt_secret TYPE TEXT,
+      ALTER COLUMN previous_jwt_secret TYPE TEXT;
   `);
 
   console.log('[MasterDB] Sites table initialized');
@@ -120,11 +208,20 @@ export async function registerMasterSite(params: {
   dbPassword: string;
 }): Promise<{ jwtSecret: string }> {
   const pool = getMasterPool();
-  const jwtSecret = crypto.randomUUID() + crypto.randomUUID();
+
+  // Registering again (retries, repairs) keeps the JWT secret: all secrets are sealed with one data key
+  const existing = await getMasterSiteBySiteId(params.siteId);
+  const jwtSecret = existing?.jwt_secret || crypto.randomUUID() + crypto.randomUUID();
+  const sealed = sealMasterSiteSecrets({
+    db_password: params.dbPassword,
+    jwt_secret: jwtSecret,
+    previous_jwt_secret: existing?.previous_jwt_secret,
+  });
 
   await pool.query(
-    `INSERT INTO master_sites (site_id, domain, site_name, db_host, db_port, db_name, db_user, db_password, user_id, jwt_secret)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+    `INSERT INTO master_sites (site_id, domain, site_name, db_host, db_port, db_name, db_user, db_password, user_id,
+       jwt_secret, previous_jwt_secret, secrets_key_id, secrets_data_key)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
      ON CONFLICT (site_id) DO UPDATE SET
        domain = EXCLUDED.domain,
        site_name = EXCLUDED.site_name,
@@ -133,6 +230,10 @@ export async function registerMasterSite(params: {
        db_name = EXCLUDED.db_name,
        db_user = EXCLUDED.db_user,
        db_password = EXCLUDED.db_password,
+       jwt_secret = EXCLUDED.jwt_secret,
+       previous_jwt_secret = EXCLUDED.previous_jwt_secret,
+       secrets_key_id = EXCLUDED.secrets_key_id,
+       secrets_data_key = EXCLUDED.secrets_data_key,
        updated_at = NOW()`,
     [
       params.siteId,
@@ -142,9 +243,12 @@ export async function registerMasterSite(params: {
       params.dbPort || 5432,
       params.dbName,
       params.dbUser,
-      params.dbPassword,
+      sealed.db_password,
       params.userId,
-      jwtSecret,
+      sealed.jwt_secret,
+      sealed.previous_jwt_secret,
+      sealed.secrets_key_id,
+      sealed.secrets_data_key,
     ]
   );
 
@@ -160,7 +264,7 @@ export async function getMasterSiteByDomain(domain: string): Promise<MasterSiteR
     'SELECT * FROM master_sites WHERE domain = $1 AND active = true',
     [domain]
   );
-  return result.rows[0] || null;
+  return result.rows[0] ? openMasterSite(result.rows[0]) : null;
 }
 
 /**
@@ -172,7 +276,7 @@ export async function getMasterSiteBySiteId(siteId: string): Promise<MasterSiteR
     'SELECT * FROM master_sites WHERE site_id = $1',
     [siteId]
   );
-  return result.rows[0] || null;
+  return result.rows[0] ? openMasterSite(result.rows[0]) : null;
 }
 
 /**
@@ -197,6 +301,151 @@ export async function deactivateMasterSite(siteId: string): Promise<void> {
   );
 }
 
+/**
+ * Set (or clear with null) the password visitors must enter to see a site
+ */
+export async function setMasterSiteAccessPassword(siteId: string, passwordHash: string | null): Promise<void> {
+  const pool = getMasterPool();
+  await pool.query(
+    'UPDATE master_sites SET access_password_hash = $1, updated_at = NOW() WHERE site_id = $2',
+    [passwordHash, siteId]
+  );
+}
+
+/**
+ * Swap the databases (and their credentials) two sites are routed to, in one transaction
+ */
+export async function swapMasterSiteDatabases(siteIdA: string, siteIdB: string): Promise<void> {
+  const pool = getMasterPool();
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query(
+      'SELECT * FROM master_sites WHERE site_id = ANY($1) FOR UPDATE',
+      [[siteIdA, siteIdB]]
+    );
+    const siteA = result.rows.find((row) => row.site_id === siteIdA);
+    const siteB = result.rows.find((row) => row.site_id === siteIdB);
+    if (!siteA || !siteB) {
+      throw new Error(`Cannot swap databases of ${siteIdA} and ${siteIdB}: site not registered`);
+    }
+
+    // The password moves to a row with another data key: re-seal both rows
+    const pairs: Array<[MasterSiteRecord, MasterSiteRecord]> = [
+      [openMasterSite(siteA), openMasterSite(siteB)],
+      [openMasterSite(siteB), openMasterSite(siteA)],
+    ];
+    for (const [site, other] of pairs) {
+      const sealed = sealMasterSiteSecrets({
+        db_password: other.db_password,
+        jwt_secret: site.jwt_secret,
+        previous_jwt_secret: site.previous_jwt_secret,
+      });
+      await client.query(
+        `UPDATE master_sites SET
+           db_host = $1, db_port = $2, db_name = $3, db_user = $4, db_password = $5,
+           jwt_secret = $6, previous_jwt_secret = $7, secrets_key_id = $8, secrets_data_key = $9,
+           updated_at = NOW()
+         WHERE site_id = $10`,
+        [
+          other.db_host,
+          other.db_port,
+          other.db_name,
+          other.db_user,
+          sealed.db_password,
+          sealed.jwt_secret,
+          sealed.previous_jwt_secret,
+          sealed.secrets_key_id,
+          sealed.secrets_data_key,
+          site.site_id,
+        ]
+      );
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Set a new database password and JWT secret for a site. The role's password
+ * changes in the same transaction as the stored credentials (the master
+ * database is on the same cluster), so new connections never see a mismatch.
+ * Open connections are not affected; the previous JWT secret is kept.
+ */
+export async function rotateMasterSiteCredentials(params: {
+  siteId: string;
+  dbUser: string;
+  dbPassword: string;
+}): Promise<MasterSiteRecord> {
+  const pool = getMasterPool();
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const current = await client.query('SELECT * FROM master_sites WHERE site_id = $1 FOR UPDATE', [params.siteId]);
+    if (current.rows.length === 0) {
+      throw new Error(`Site ${params.siteId} is not registered for routing`);
+    }
+    const sealed = sealMasterSiteSecrets({
+      db_password: params.dbPassword,
+      jwt_secret: crypto.randomUUID() + crypto.randomUUID(),
+      previous_jwt_secret: openMasterSite(current.rows[0]).jwt_secret,
+    });
+
+    await client.query(
+      `ALTER ROLE ${client.escapeIdentifier(params.dbUser)} WITH PASSWORD ${client.escapeLiteral(params.dbPassword)}`
+    );
+    const result = await client.query(
+      `UPDATE master_sites SET
+         db_user = $1,
+         db_password = $2,
+         jwt_secret = $3,
+         previous_jwt_secret = $4,
+         secrets_key_id = $5,
+         secrets_data_key = $6,
+         credentials_rotated_at = NOW(),
+         updated_at = NOW()
+       WHERE site_id = $7
+       RETURNING *`,
+      [
+        params.dbUser,
+        sealed.db_password,
+        sealed.jwt_secret,
+        sealed.previous_jwt_secret,
+        sealed.secrets_key_id,
+        sealed.secrets_data_key,
+        params.siteId,
+      ]
+    );
+    await client.query('COMMIT');
+    return openMasterSite(result.rows[0]);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Change the owner of a site
+ */
+export async function updateMasterSiteOwner(siteId: string, userId: string): Promise<void> {
+  const pool = getMasterPool();
+  await pool.query(
+    'UPDATE master_sites SET user_id = $1, updated_at = NOW() WHERE site_id = $2',
+    [userId, siteId]
+  );
+}
+
 /**
  * Reactivate a site
  */
@@ -208,6 +457,33 @@ export async function reactivateMasterSite(siteId: string): Promise<void> {
   );
 }
 
+/**
+ * Record why a site is suspended (null: not suspended). Routing is stopped and
+ * resumed separately with deactivateMasterSite/reactivateMasterSite.
+ */
+export async function setMasterSiteSuspension(siteId: string, reason: string | null): Promise<void> {
+  const pool = getMasterPool();
+  await pool.query(
+    `UPDATE master_sites SET
+       suspended_reason = $1,
+       suspended_at = CASE WHEN $1::text IS NULL THEN NULL ELSE NOW() END,
+       updated_at = NOW()
+     WHERE site_id = $2`,
+    [reason, siteId]
+  );
+}
+
+/**
+ * Set the storage quota of a site (MB)
+ */
+export async function setMasterSiteStorageQuota(siteId: string, quotaMb: number): Promise<void> {
+  const pool = getMasterPool();
+  await pool.query(
+    'UPDATE master_sites SET storage_quota_mb = $1, updated_at = NOW() WHERE site_id = $2',
+    [quotaMb, siteId]
+  );
+}
+
 /**
  * Delete site from master database
  */
@@ -227,6 +503,8 @@ export interface SiteCustomDomain {
   active: boolean;
   verified_at?: Date;
   activated_at?: Date;
+  // Why an activated domain stopped routing (e.g. 'billing', 'plan'), null otherwise
+  disabled_reason?: string | null;
   created_at: Date;
 }
 
@@ -249,6 +527,23 @@ export async function initCustomDomainsTable(): Promise<void> {
     CREATE INDEX IF NOT EXISTS idx_site_custom_domains_site_id ON site_custom_domains(site_id);
     CREATE INDEX IF NOT EXISTS idx_site_custom_domains_domain ON site_custom_domains(domain);
     CREATE INDEX IF NOT EXISTS idx_site_custom_domains_active ON site_custom_domains(active);
+
+    ALTER TABLE site_custom_domains ADD COLUMN IF NOT EXISTS disabled_reason VARCHAR(20);
+  `);
+
+  // Follow site ID changes (renamed sites) - older tables were created without ON UPDATE CASCADE
+  await pool.query(`
+    DO $$
+    BEGIN
+      IF EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'site_custom_domains_site_id_fkey' AND confupdtype <> 'c'
+      ) THEN
+        ALTER TABLE site_custom_domains DROP CONSTRAINT site_custom_domains_site_id_fkey;
+        ALTER TABLE site_custom_domains ADD CONSTRAINT site_custom_domains_site_id_fkey
+          FOREIGN KEY (site_id) REFERENCES master_sites(site_id) ON DELETE CASCADE ON UPDATE CASCADE;
+      END IF;
+    END $$;
   `);
   console.log('[MasterDB] Custom domains table initialized');
 }
@@ -317,18 +612,42 @@ export async function activateMasterSiteCustomDomain(siteId: string, domain?: st
   const pool = getMasterPool();
   if (domain) {
     await pool.query(
-      `UPDATE site_custom_domains SET active = true, activated_at = NOW() WHERE site_id = $1 AND domain = $2`,
+      `UPDATE site_custom_domains SET active = true, activated_at = NOW(), disabled_reason = NULL WHERE site_id = $1 AND domain = $2`,
       [siteId, domain]
     );
   } else {
     // Legacy: activate all domains for site
     await pool.query(
-      `UPDATE site_custom_domains SET active = true, activated_at = NOW() WHERE site_id = $1`,
+      `UPDATE site_custom_domains SET active = true, activated_at = NOW(), disabled_reason = NULL WHERE site_id = $1`,
       [siteId]
     );
   }
 }
 
+/**
+ * Stop routing the active custom domains of a site, remembering why. Returns the number disabled.
+ */
+export async function disableSiteCustomDomains(siteId: string, reason: string): Promise<number> {
+  const pool = getMasterPool();
+  const result = await pool.query(
+    `UPDATE site_custom_domains SET active = false, disabled_reason = $2 WHERE site_id = $1 AND active = true`,
+    [siteId, reason]
+  );
+  return result.rowCount ?? 0;
+}
+
+/**
+ * Route again the custom domains disabled for a reason. Returns the number restored.
+ */
+export async function restoreSiteCustomDomains(siteId: string, reason: string): Promise<number> {
+  const pool = getMasterPool();
+  const result = await pool.query(
+    `UPDATE site_custom_domains SET active = true, disabled_reason = NULL WHERE site_id = $1 AND disabled_reason = $2`,
+    [siteId, reason]
+  );
+  return result.rowCount ?? 0;
+}
+
 /**
  * Remove a specific custom domain from a site
  */
@@ -362,7 +681,7 @@ export async function getMasterSiteByCustomDomain(customDomain: string): Promise
     [customDomain]
   );
   if (newResult.rows.length > 0) {
-    return newResult.rows[0];
+    return openMasterSite(newResult.rows[0]);
   }
 
   // Fallback to legacy column
@@ -370,7 +689,7 @@ export async function getMasterSiteByCustomDomain(customDomain: string): Promise
     'SELECT * FROM master_sites WHERE custom_domain = $1 AND custom_domain_active = true AND active = true',
     [customDomain]
   );
-  return legacyResult.rows[0] || null;
+  return legacyResult.rows[0] ? openMasterSite(legacyResult.rows[0]) : null;
 }
 
 /**
@@ -409,31 +728,110 @@ export async function getMasterSiteDbConnection(siteId: string): Promise<{
   database: string;
   user: string;
   password: string;
-  connectionString: string;
 } | null> {
   const pool = getMasterPool();
   const result = await pool.query(
-    'SELECT db_host, db_port, db_name, db_user, db_password FROM master_sites WHERE site_id = $1',
+    `SELECT db_host, db_port, db_name, db_user, db_password, secrets_key_id, secrets_data_key
+     FROM master_sites WHERE site_id = $1`,
     [siteId]
   );
 
   if (result.rows.length === 0) return null;
 
-  const row = result.rows[0];
+  const row = openMasterSite(result.rows[0] as Partial<MasterSiteRecord>);
   return {
-    host: row.db_host,
-    port: row.db_port,
-    database: row.db_name,
-    user: row.db_user,
-    password: row.db_password,
-    connectionString: `postgresql://${row.db_user}:${row.db_password}@${row.db_host}:${row.db_port}/${row.db_name}`,
+    host: row.db_host!,
+    port: row.db_port!,
+    database: row.db_name!,
+    user: row.db_user!,
+    password: row.db_password!,
   };
 }
 
+/**
+ * Encrypt the secrets of master_sites rows written before encryption (one-time
+ * migration) and, with rewrap, re-wrap the data keys of rows whose master key
+ * is not the active one (master key rotation). Returns the number of rows changed.
+ */
+export async function encryptMasterSiteSecrets(options: { rewrap?: boolean } = {}): Promise<number> {
+  const pool = getMasterPool();
+  const [condition, params] = options.rewrap
+    ? ['secrets_key_id IS DISTINCT FROM $1', [secretsService.getActiveKeyId()]]
+    : ['secrets_key_id IS NULL', []];
+  let changed = 0;
+
+  for (;;) {
+    const client = await pool.connect();
+    let batch = 0;
+
+    try {
+      await client.query('BEGIN');
+      const result = await client.query(
+        `SELECT site_id, db_password, jwt_secret, previous_jwt_secret, secrets_key_id, secrets_data_key
+         FROM master_sites
+         WHERE ${condition}
+         ORDER BY site_id
+         LIMIT 100
+         FOR UPDATE SKIP LOCKED`,
+        params
+      );
+
+      for (const row of result.rows) {
+        if (row.secrets_key_id) {
+          // Only the data key changes, the encrypted values stay valid
+          const dataKey = secretsService.unwrapDataKey({ keyId: row.secrets_key_id, wrappedKey: row.secrets_data_key });
+          const wrapped = secretsService.wrapDataKey(dataKey);
+          await client.query(
+            'UPDATE master_sites SET secrets_key_id = $1, secrets_data_key = $2 WHERE site_id = $3',
+            [wrapped.keyId, wrapped.wrappedKey, row.site_id]
+          );
+        } else {
+          const sealed = sealMasterSiteSecrets(row);
+          await client.query(
+            `UPDATE master_sites SET
+               db_password = $1, jwt_secret = $2, previous_jwt_secret = $3, secrets_key_id = $4, secrets_data_key = $5
+             WHERE site_id = $6`,
+            [
+              sealed.db_password,
+              sealed.jwt_secret,
+              sealed.previous_jwt_secret,
+              sealed.secrets_key_id,
+              sealed.secrets_data_key,
+              row.site_id,
+            ]
+          );
+        }
+      }
+
+      await client.query('COMMIT');
+      batch = result.rows.length;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    changed += batch;
+    if (batch === 0) break;
+  }
+
+  if (changed > 0) {
+    console.log(`[MasterDB] ${options.rewrap ? 'Re-encrypted' : 'Encrypted'} secrets of ${changed} site(s)`);
+  }
+  return changed;
+}
+
 // ============================================
 // TEMPLATES
 // ============================================
 
+export interface TemplatePreviewPage {
+  title: string;
+  // Path on the source site, e.g. /about
+  path: string;
+}
+
 export interface TemplateRecord {
   id: string;
   name: string;
@@ -443,10 +841,42 @@ export interface TemplateRecord {
   user_id: string;
   is_public: boolean;
   documents: object; // JSON blob with all documents
+  // Catalog: builder categories (e.g. blog, restaurant), free tags, ordering
+  categories: string[];
+  tags: string[];
+  featured: boolean;
+  sort_order: number;
+  preview_pages: TemplatePreviewPage[];
+  // Short selling points shown in the builder
+  features: string[];
+  // Snapshot new sites are cloned from (null: legacy template, cloned from the live source site)
+  pinned_version_id: string | null;
   created_at: Date;
   updated_at: Date;
 }
 
+// Catalog fields of a template, as accepted by createTemplate and updateTemplate
+export interface TemplateCatalogFields {
+  categories?: string[];
+  tags?: string[];
+  featured?: boolean;
+  sortOrder?: number;
+  previewPages?: TemplatePreviewPage[];
+  features?: string[];
+}
+
+export type TemplateSort = 'featured' | 'newest' | 'name';
+
+const TEMPLATE_ORDER_BY: Record<TemplateSort, string> = {
+  featured: 'featured DESC, sort_order ASC, created_at DESC',
+  newest: 'created_at DESC',
+  name: 'LOWER(name) ASC, created_at DESC',
+};
+
+// Columns listed (everything but the documents blob)
+const TEMPLATE_LIST_COLUMNS = `id, name, description, thumbnail_url, source_site_id, user_id, is_public,
+  categories, tags, featured, sort_order, preview_pages, features, pinned_version_id, created_at, updated_at`;
+
 /**
  * Initialize the templates table
  */
@@ -469,6 +899,31 @@ export async function initTemplatesTable(): Promise<void> {
 
     CREATE INDEX IF NOT EXISTS idx_templates_user_id ON templates(user_id);
     CREATE INDEX IF NOT EXISTS idx_templates_is_public ON templates(is_public);
+
+    ALTER TABLE templates ADD COLUMN IF NOT EXISTS categories TEXT[] NOT NULL DEFAULT '{}';
+    ALTER TABLE templates ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+    ALTER TABLE templates ADD COLUMN IF NOT EXISTS featured BOOLEAN NOT NULL DEFAULT false;
+    ALTER TABLE templates ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0;
+    ALTER TABLE templates ADD COLUMN IF NOT EXISTS preview_pages JSONB NOT NULL DEFAULT '[]';
+    ALTER TABLE templates ADD COLUMN IF NOT EXISTS features TEXT[] NOT NULL DEFAULT '{}';
+
+    CREATE INDEX IF NOT EXISTS idx_templates_categories ON templates USING GIN (categories);
+    CREATE INDEX IF NOT EXISTS idx_templates_tags ON templates USING GIN (tags);
+
+    CREATE TABLE IF NOT EXISTS template_versions (
+      id UUID PRIMARY KEY,
+      template_id UUID NOT NULL REFERENCES templates(id) ON DELETE CASCADE,
+      version INTEGER NOT NULL,
+      db_name VARCHAR(100) NOT NULL,
+      source_site_id VARCHAR(100) NOT NULL,
+      notes TEXT NOT NULL DEFAULT '',
+      created_by VARCHAR(100) NOT NULL,
+      ready BOOLEAN NOT NULL DEFAULT false,
+      created_at TIMESTAMP DEFAULT NOW(),
+      UNIQUE (template_id, version)
+    );
+
+    ALTER TABLE templates ADD COLUMN IF NOT EXISTS pinned_version_id UUID REFERENCES template_versions(id) ON DELETE SET NULL;
   `);
 
   console.log('[MasterDB] Templates table initialized');
@@ -485,12 +940,13 @@ export async function createTemplate(params: {
   sourceSiteId: string;
   userId: string;
   isPublic?: boolean;
-}): Promise<TemplateRecord> {
+} & TemplateCatalogFields): Promise<TemplateRecord> {
   const pool = getMasterPool();
 
   const result = await pool.query(
-    `INSERT INTO templates (name, description, thumbnail_url, source_site_id, user_id, is_public, documents)
-     VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `INSERT INTO templates (name, description, thumbnail_url, source_site_id, user_id, is_public, documents,
+       categories, tags, featured, sort_order, preview_pages, features)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
      RETURNING *`,
     [
       params.name,
@@ -500,6 +956,12 @@ export async function createTemplate(params: {
       params.userId,
       params.isPublic || false,
       JSON.stringify({}), // No longer storing documents - we clone the database directly
+      params.categories || [],
+      params.tags || [],
+      params.featured || false,
+      params.sortOrder || 0,
+      JSON.stringify(params.previewPages || []),
+      params.features || [],
     ]
   );
 
@@ -507,19 +969,72 @@ export async function createTemplate(params: {
 }
 
 /**
- * Get all public templates (no auth required)
+ * Search public templates (no auth required), returns a page and the total number of matches
+ */
+export async function searchPublicTemplates(params: {
+  category?: string;
+  tag?: string;
+  featured?: boolean;
+  // Matched against name, description and tags
+  search?: string;
+  sort?: TemplateSort;
+  limit: number;
+  offset: number;
+}): Promise<{ templates: TemplateRecord[]; total: number }> {
+  const pool = getMasterPool();
+
+  const conditions = ['is_public = true'];
+  const values: any[] = [];
+  let paramIndex = 1;
+
+  if (params.category) {
+    conditions.push(`$${paramIndex++} = ANY(categories)`);
+    values.push(params.category);
+  }
+  if (params.tag) {
+    conditions.push(`$${paramIndex++} = ANY(tags)`);
+    values.push(params.tag.toLowerCase());
+  }
+  if (params.featured !== undefined) {
+    conditions.push(`featured = $${paramIndex++}`);
+    values.push(params.featured);
+  }
+  if (params.search) {
+    const search = `$${paramIndex++}`;
+    conditions.push(`(name ILIKE ${search} OR description ILIKE ${search} OR array_to_string(tags, ' ') ILIKE ${search})`);
+    values.push(`%${params.search.replace(/[\\%_]/g, '\\$&')}%`);
+  }
+
+  const where = conditions.join(' AND ');
+  const [result, count] = await Promise.all([
+    pool.query(
+      `SELECT ${TEMPLATE_LIST_COLUMNS}
+       FROM templates
+       WHERE ${where}
+       ORDER BY ${TEMPLATE_ORDER_BY[params.sort || 'featured']}
+       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
+      [...values, params.limit, params.offset]
+    ),
+    pool.query(`SELECT COUNT(*)::int AS total FROM templates WHERE ${where}`, values),
+  ]);
+
+  return { templates: result.rows, total: count.rows[0].total };
+}
+
+/**
+ * Number of public templates per category
  */
-export async function getPublicTemplates(): Promise<TemplateRecord[]> {
+export async function getPublicTemplateCategoryCounts(): Promise<Record<string, number>> {
   const pool = getMasterPool();
 
   const result = await pool.query(
-    `SELECT id, name, description, thumbnail_url, source_site_id, user_id, is_public, created_at, updated_at
-     FROM templates
+    `SELECT category, COUNT(*)::int AS count
+     FROM templates, UNNEST(categories) AS category
      WHERE is_public = true
-     ORDER BY created_at DESC`
+     GROUP BY category`
   );
 
-  return result.rows;
+  return Object.fromEntries(result.rows.map((row) => [row.category, row.count]));
 }
 
 /**
@@ -529,10 +1044,10 @@ export async function getTemplates(userId: string): Promise<TemplateRecord[]> {
   const pool = getMasterPool();
 
   const result = await pool.query(
-    `SELECT id, name, description, thumbnail_url, source_site_id, user_id, is_public, created_at, updated_at
+    `SELECT ${TEMPLATE_LIST_COLUMNS}
      FROM templates
      WHERE is_public = true OR user_id = $1
-     ORDER BY created_at DESC`,
+     ORDER BY ${TEMPLATE_ORDER_BY.featured}`,
     [userId]
   );
 
@@ -559,7 +1074,7 @@ export async function getTemplateById(templateId: string): Promise<TemplateRecor
 export async function updateTemplate(
   templateId: string,
   userId: string,
-  params: { name?: string; description?: string; thumbnailUrl?: string; isPublic?: boolean }
+  params: { name?: string; description?: string; thumbnailUrl?: string; isPublic?: boolean } & TemplateCatalogFields
 ): Promise<void> {
   const pool = getMasterPool();
 
@@ -583,6 +1098,30 @@ export async function updateTemplate(
     updates.push(`is_public = $${paramIndex++}`);
     values.push(params.isPublic);
   }
+  if (params.categories !== undefined) {
+    updates.push(`categories = $${paramIndex++}`);
+    values.push(params.categories);
+  }
+  if (params.tags !== undefined) {
+    updates.push(`tags = $${paramIndex++}`);
+    values.push(params.tags);
+  }
+  if (params.featured !== undefined) {
+    updates.push(`featured = $${paramIndex++}`);
+    values.push(params.featured);
+  }
+  if (params.sortOrder !== undefined) {
+    updates.push(`sort_order = $${paramIndex++}`);
+    values.push(params.sortOrder);
+  }
+  if (params.previewPages !== undefined) {
+    updates.push(`preview_pages = $${paramIndex++}`);
+    values.push(JSON.stringify(params.previewPages));
+  }
+  if (params.features !== undefined) {
+    updates.push(`features = $${paramIndex++}`);
+    values.push(params.features);
+  }
 
   if (updates.length === 0) return;
 
@@ -608,3 +1147,1746 @@ export async function deleteTemplate(templateId: string, userId: string): Promis
 
   return (result.rowCount ?? 0) > 0;
 }
+
+/**
+ * Get the templates published from a site
+ */
+export async function getTemplatesBySourceSite(siteId: string): Promise<TemplateRecord[]> {
+  const pool = getMasterPool();
+
+  const result = await pool.query(
+    `SELECT ${TEMPLATE_LIST_COLUMNS} FROM templates WHERE source_site_id = $1`,
+    [siteId]
+  );
+
+  return result.rows;
+}
+
+// ============================================
+// TEMPLATE VERSIONS (snapshots new sites are cloned from)
+// ============================================
+
+export interface TemplateVersionRecord {
+  id: string;
+  template_id: string;
+  // 1, 2, ... per template
+  version: number;
+  // Snapshot database
+  db_name: string;
+  // Site the snapshot was taken from
+  source_site_id: string;
+  notes: string;
+  created_by: string;
+  // false while the snapshot is being cloned
+  ready: boolean;
+  created_at: Date;
+}
+
+/**
+ * Record a new version of a template (numbered after the last one), not ready until its snapshot is cloned
+ */
+export async function createTemplateVersion(params: {
+  id: string;
+  templateId: string;
+  dbName: string;
+  sourceSiteId: string;
+  notes?: string;
+  createdBy: string;
+}): Promise<TemplateVersionRecord> {
+  const pool = getMasterPool();
+
+  const result = await pool.query(
+    `INSERT INTO template_versions (id, template_id, version, db_name, source_site_id, notes, created_by)
+     VALUES ($1, $2, (SELECT COALESCE(MAX(version), 0) + 1 FROM template_versions WHERE template_id = $2), $3, $4, $5, $6)
+     RETURNING *`,
+    [params.id, params.templateId, params.dbName, params.sourceSiteId, params.notes || '', params.createdBy]
+  );
+
+  return result.rows[0];
+}
+
+/**
+ * Mark a template version's snapshot as cloned
+ */
+export async function markTemplateVersionReady(versionId: string): Promise<void> {
+  const pool = getMasterPool();
+  await pool.query('UPDATE template_versions SET ready = true WHERE id = $1', [versionId]);
+}
+
+/**
+ * Get the versions of a template, newest first
+ */
+export async function getTemplateVersions(templateId: string): Promise<TemplateVersionRecord[]> {
+  const pool = getMasterPool();
+
+  const result = await pool.query(
+    'SELECT * FROM template_versions WHERE template_id = $1 ORDER BY version DESC',
+    [templateId]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Get a template version by ID
+ */
+export async function getTemplateVersionById(versionId: string): Promise<TemplateVersionRecord | null> {
+  const pool = getMasterPool();
+
+  const result = await pool.query('SELECT * FROM template_versions WHERE id = $1', [versionId]);
+  return result.rows[0] || null;
+}
+
+/**
+ * Pin the version new sites of a template are cloned from. Returns false unless
+ * the version belongs to the template and is ready.
+ */
+export async function pinTemplateVersion(templateId: string, versionId: string): Promise<boolean> {
+  const pool = getMasterPool();
+
+  const result = await pool.query(
+    `UPDATE templates SET pinned_version_id = $2, updated_at = NOW()
+     WHERE id = $1
+       AND EXISTS (SELECT 1 FROM template_versions WHERE id = $2 AND template_id = $1 AND ready = true)`,
+    [templateId, versionId]
+  );
+
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Delete a template version record (its snapshot database is dropped by the caller)
+ */
+export async function deleteTemplateVersion(versionId: string): Promise<void> {
+  const pool = getMasterPool();
+  await pool.query('DELETE FROM template_versions WHERE id = $1', [versionId]);
+}
+
+// ============================================
+// PROVISIONING JOBS
+// ============================================
+
+export type ProvisioningStep = 'database' | 'bootstrap' | 'theme' | 'register' | 'activate';
+
+export type ProvisioningJobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface ProvisioningJobContext {
+  // Database was cloned from a template (bootstrap is skipped)
+  cloned?: boolean;
+  // Template version the database was cloned from
+  templateVersionId?: string;
+  // Single-tenant mode: Render service created during the register step
+  renderServiceId?: string;
+  renderUrl?: string;
+}
+
+export interface ProvisioningJobRecord {
+  id: string;
+  site_id: string;
+  site_doc_id: string;
+  site_name: string;
+  user_id: string;
+  owner_email: string | null;
+  owner_name: string | null;
+  template_id: string | null;
+  // Site being duplicated (cloned like a template's source site)
+  source_site_id: string | null;
+  // Backup restored as the new site's database
+  backup_id: string | null;
+  // Uploaded site archive (blob store key) imported after seeding
+  import_key: string | null;
+  // WordPress import (WXR upload) run after seeding
+  wordpress_import_id: string | null;
+  // Theme chosen in the builder, applied during the theme step
+  theme: Record<string, unknown> | null;
+  // Starter profile seeded during the bootstrap step (null: default)
+  profile: string | null;
+  status: ProvisioningJobStatus;
+  current_step: ProvisioningStep | null;
+  completed_steps: ProvisioningStep[];
+  attempts: number;
+  next_run_at: Date;
+  last_error: string | null;
+  context: ProvisioningJobContext;
+  locked_by: string | null;
+  locked_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Initialize the provisioning_jobs table
+ */
+export async function initProvisioningJobsTable(): Promise<void> {
+  const pool = getMasterPool();
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS provisioning_jobs (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      site_id VARCHAR(100) NOT NULL,
+      site_doc_id VARCHAR(100) NOT NULL,
+      site_name VARCHAR(255) NOT NULL,
+      user_id VARCHAR(100) NOT NULL,
+      owner_email VARCHAR(255),
+      owner_name VARCHAR(255),
+      template_id VARCHAR(100),
+      status VARCHAR(20) NOT NULL DEFAULT 'pending',
+      current_step VARCHAR(50),
+      completed_steps TEXT[] NOT NULL DEFAULT '{}',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_run_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      last_error TEXT,
+      context JSONB NOT NULL DEFAULT '{}',
+      locked_by VARCHAR(100),
+      locked_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_provisioning_jobs_site_id ON provisioning_jobs(site_id);
+    CREATE INDEX IF NOT EXISTS idx_provisioning_jobs_due ON provisioning_jobs(status, next_run_at);
+
+    ALTER TABLE provisioning_jobs ADD COLUMN IF NOT EXISTS theme JSONB;
+    ALTER TABLE provisioning_jobs ADD COLUMN IF NOT EXISTS source_site_id VARCHAR(100);
+    ALTER TABLE provisioning_jobs ADD COLUMN IF NOT EXISTS backup_id UUID;
+    ALTER TABLE provisioning_jobs ADD COLUMN IF NOT EXISTS import_key VARCHAR(255);
+    ALTER TABLE provisioning_jobs ADD COLUMN IF NOT EXISTS wordpress_import_id UUID;
+    ALTER TABLE provisioning_jobs ADD COLUMN IF NOT EXISTS profile VARCHAR(100);
+
+    CREATE TABLE IF NOT EXISTS provisioning_events (
+      id BIGSERIAL PRIMARY KEY,
+      job_id UUID NOT NULL REFERENCES provisioning_jobs(id) ON DELETE CASCADE,
+      site_id VARCHAR(100) NOT NULL,
+      step VARCHAR(50),
+      event VARCHAR(50) NOT NULL,
+      attempt INTEGER,
+      duration_ms INTEGER,
+      error TEXT,
+      created_at TIMESTAMP DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_provisioning_events_job_id ON provisioning_events(job_id, id);
+  `);
+
+  console.log('[MasterDB] Provisioning jobs table initialized');
+}
+
+/**
+ * Create a provisioning job for a new site
+ */
+export async function createProvisioningJob(params: {
+  siteId: string;
+  siteDocId: string;
+  siteName: string;
+  userId: string;
+  ownerEmail?: string;
+  ownerName?: string;
+  templateId?: string;
+  sourceSiteId?: string;
+  backupId?: string;
+  importKey?: string;
+  wordpressImportId?: string;
+  theme?: object;
+  profile?: string;
+  completedSteps?: ProvisioningStep[];
+  context?: ProvisioningJobContext;
+}): Promise<ProvisioningJobRecord> {
+  const pool = getMasterPool();
+
+  const result = await pool.query(
+    `INSERT INTO provisioning_jobs (site_id, site_doc_id, site_name, user_id, owner_email, owner_name, template_id, source_site_id, backup_id, import_key, wordpress_import_id, theme, profile, completed_steps, context)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+     RETURNING *`,
+    [
+      params.siteId,
+      params.siteDocId,
+      params.siteName,
+      params.userId,
+      params.ownerEmail || null,
+      params.ownerName || null,
+      params.templateId || null,
+      params.sourceSiteId || null,
+      params.backupId || null,
+      params.importKey || null,
+      params.wordpressImportId || null,
+      params.theme ? JSON.stringify(params.theme) : null,
+      params.profile || null,
+      params.completedSteps || [],
+      JSON.stringify(params.context || {}),
+    ]
+  );
+
+  return result.rows[0];
+}
+
+/**
+ * Claim the next due provisioning job for a worker.
+ * Jobs whose lock is older than lockTimeoutMs are considered abandoned (e.g. the API restarted mid-step).
+ */
+export async function claimNextProvisioningJob(
+  workerId: string,
+  lockTimeoutMs: number
+): Promise<ProvisioningJobRecord | null> {
+  const pool = getMasterPool();
+
+  const result = await pool.query(
+    `UPDATE provisioning_jobs SET
+       status = 'running',
+       locked_by = $1,
+       locked_at = NOW(),
+       updated_at = NOW()
+     WHERE id = (
+       SELECT id FROM provisioning_jobs
+       WHERE status IN ('pending', 'running')
+         AND next_run_at <= NOW()
+         AND (locked_at IS NULL OR locked_at < NOW() - ($2 || ' milliseconds')::interval)
+       ORDER BY next_run_at
+       FOR UPDATE SKIP LOCKED
+       LIMIT 1
+     )
+     RETURNING *`,
+    [workerId, String(lockTimeoutMs)]
+  );
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Record a completed step and move the job on to the next one
+ */
+export async function completeProvisioningStep(
+  jobId: string,
+  step: ProvisioningStep,
+  nextStep: ProvisioningStep | null,
+  context: ProvisioningJobContext
+): Promise<void> {
+  const pool = getMasterPool();
+  await pool.query(
+    `UPDATE provisioning_jobs SET
+       completed_steps = array_append(completed_steps, $2),
+       current_step = $3,
+       attempts = 0,
+       last_error = NULL,
+       context = $4,
+       locked_at = NOW(),
+       updated_at = NOW()
+     WHERE id = $1`,
+    [jobId, step, nextStep, JSON.stringify(context)]
+  );
+}
+
+/**
+ * Release a job after a failed step so it is retried at nextRunAt
+ */
+export async function scheduleProvisioningRetry(
+  jobId: string,
+  step: ProvisioningStep,
+  attempts: number,
+  nextRunAt: Date,
+  error: string
+): Promise<void> {
+  const pool = getMasterPool();
+  await pool.query(
+    `UPDATE provisioning_jobs SET
+       current_step = $2,
+       attempts = $3,
+       next_run_at = $4,
+       last_error = $5,
+       locked_by = NULL,
+       locked_at = NULL,
+       updated_at = NOW()
+     WHERE id = $1`,
+    [jobId, step, attempts, nextRunAt, error]
+  );
+}
+
+/**
+ * Mark a job as finished (completed or permanently failed)
+ */
+export async function finishProvisioningJob(
+  jobId: string,
+  status: 'completed' | 'failed',
+  failure?: { step: ProvisioningStep; error: string }
+): Promise<void> {
+  const pool = getMasterPool();
+  await pool.query(
+    `UPDATE provisioning_jobs SET
+       status = $2,
+       current_step = $3,
+       last_error = $4,
+       locked_by = NULL,
+       locked_at = NULL,
+       updated_at = NOW()
+     WHERE id = $1`,
+    [jobId, status, failure?.step || null, failure?.error || null]
+  );
+}
+
+/**
+ * Get the most recent provisioning job for a site
+ */
+export async function getLatestProvisioningJob(siteId: string): Promise<ProvisioningJobRecord | null> {
+  const pool = getMasterPool();
+  const result = await pool.query(
+    'SELECT * FROM provisioning_jobs WHERE site_id = $1 ORDER BY created_at DESC LIMIT 1',
+    [siteId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Get a provisioning job by ID
+ */
+export async function getProvisioningJobById(jobId: string): Promise<ProvisioningJobRecord | null> {
+  const pool = getMasterPool();
+  const result = await pool.query('SELECT * FROM provisioning_jobs WHERE id = $1', [jobId]);
+  return result.rows[0] || null;
+}
+
+export type ProvisioningEventType =
+  | 'database_created'
+  | 'database_cloned'
+  | 'database_restored'
+  | 'owner_rewritten'
+  | 'template_personalized'
+  | 'migrations_applied'
+  | 'profile_seeded'
+  | 'archive_imported'
+  | 'wordpress_imported'
+  | 'theme_applied'
+  | 'routing_registered'
+  | 'site_activated'
+  | 'step_failed'
+  | 'job_completed'
+  | 'job_failed';
+
+export interface ProvisioningEventRecord {
+  id: string; // BIGSERIAL is returned as a string by pg
+  job_id: string;
+  site_id: string;
+  step: ProvisioningStep | null;
+  event: ProvisioningEventType;
+  attempt: number | null;
+  duration_ms: number | null;
+  error: string | null;
+  created_at: Date;
+}
+
+/**
+ * Record a provisioning progress event (consumed by the provisioning SSE stream)
+ */
+export async function recordProvisioningEvent(params: {
+  jobId: string;
+  siteId: string;
+  step?: ProvisioningStep;
+  event: ProvisioningEventType;
+  attempt?: number;
+  durationMs?: number;
+  error?: string;
+}): Promise<void> {
+  const pool = getMasterPool();
+  await pool.query(
+    `INSERT INTO provisioning_events (job_id, site_id, step, event, attempt, duration_ms, error)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [
+      params.jobId,
+      params.siteId,
+      params.step || null,
+      params.event,
+      params.attempt ?? null,
+      params.durationMs ?? null,
+      params.error || null,
+    ]
+  );
+}
+
+/**
+ * Get events for a provisioning job, optionally only those after a given event ID
+ */
+export async function getProvisioningEvents(
+  jobId: string,
+  afterId?: string
+): Promise<ProvisioningEventRecord[]> {
+  const pool = getMasterPool();
+  const result = await pool.query(
+    'SELECT * FROM provisioning_events WHERE job_id = $1 AND id > $2 ORDER BY id',
+    [jobId, afterId || '0']
+  );
+  return result.rows;
+}
+
+// ============================================
+// SITE TEARDOWNS (soft delete + purge)
+// ============================================
+
+export type SiteTeardownStep =
+  | 'custom_domains'
+  | 'billing'
+  | 'templates'
+  | 'render'
+  | 'backups'
+  | 'database'
+  | 'master_site'
+  | 'site_record';
+
+export type SiteTeardownStatus = 'scheduled' | 'running' | 'completed' | 'failed' | 'restored';
+
+export interface SiteTeardownLogEntry {
+  action: string;
+  at: string;
+  detail?: string;
+}
+
+export interface SiteTeardownRecord {
+  id: string;
+  site_id: string;
+  site_doc_id: string;
+  user_id: string;
+  requested_by: string;
+  status: SiteTeardownStatus;
+  purge_at: Date;
+  completed_steps: SiteTeardownStep[];
+  attempts: number;
+  next_run_at: Date;
+  last_error: string | null;
+  // Audit trail of everything done to the site since deletion was requested
+  log: SiteTeardownLogEntry[];
+  locked_by: string | null;
+  locked_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+  finished_at: Date | null;
+}
+
+/**
+ * Initialize the site_teardowns table
+ */
+export async function initSiteTeardownsTable(): Promise<void> {
+  const pool = getMasterPool();
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS site_teardowns (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      site_id VARCHAR(100) NOT NULL,
+      site_doc_id VARCHAR(100) NOT NULL,
+      user_id VARCHAR(100) NOT NULL,
+      requested_by VARCHAR(100) NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'scheduled',
+      purge_at TIMESTAMP NOT NULL,
+      completed_steps TEXT[] NOT NULL DEFAULT '{}',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_run_at TIMESTAMP NOT NULL,
+      last_error TEXT,
+      log JSONB NOT NULL DEFAULT '[]',
+      locked_by VARCHAR(100),
+      locked_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW(),
+      finished_at TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_site_teardowns_site_id ON site_teardowns(site_id);
+    CREATE INDEX IF NOT EXISTS idx_site_teardowns_due ON site_teardowns(status, next_run_at);
+  `);
+
+  console.log('[MasterDB] Site teardowns table initialized');
+}
+
+/**
+ * Schedule a site for purging once the restore window is over
+ */
+export async function createSiteTeardown(params: {
+  siteId: string;
+  siteDocId: string;
+  userId: string;
+  requestedBy: string;
+  purgeAt: Date;
+}): Promise<SiteTeardownRecord> {
+  const pool = getMasterPool();
+
+  const result = await pool.query(
+    `INSERT INTO site_teardowns (site_id, site_doc_id, user_id, requested_by, purge_at, next_run_at, log)
+     VALUES ($1, $2, $3, $4, $5, $5, $6)
+     RETURNING *`,
+    [
+      params.siteId,
+      params.siteDocId,
+      params.userId,
+      params.requestedBy,
+      params.purgeAt,
+      JSON.stringify([{ action: 'deletion_requested', at: new Date().toISOString(), detail: `by ${params.requestedBy}` }]),
+    ]
+  );
+
+  return result.rows[0];
+}
+
+/**
+ * Get the scheduled or running teardown for a site, if any
+ */
+export async function getActiveSiteTeardown(siteId: string): Promise<SiteTeardownRecord | null> {
+  const pool = getMasterPool();
+  const result = await pool.query(
+    `SELECT * FROM site_teardowns
+     WHERE site_id = $1 AND status IN ('scheduled', 'running')
+     ORDER BY created_at DESC LIMIT 1`,
+    [siteId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Append an entry to a teardown's audit log
+ */
+export async function appendSiteTeardownLog(
+  teardownId: string,
+  action: string,
+  detail?: string
+): Promise<void> {
+  const pool = getMasterPool();
+  await pool.query(
+    `UPDATE site_teardowns SET
+       log = log || $2::jsonb,
+       updated_at = NOW()
+     WHERE id = $1`,
+    [teardownId, JSON.stringify([{ action, at: new Date().toISOString(), ...(detail ? { detail } : {}) }])]
+  );
+}
+
+/**
+ * Claim the next teardown whose restore window is over.
+ * Teardowns whose lock is older than lockTimeoutMs are considered abandoned.
+ */
+export async function claimNextSiteTeardown(
+  workerId: string,
+  lockTimeoutMs: number
+): Promise<SiteTeardownRecord | null> {
+  const pool = getMasterPool();
+
+  const result = await pool.query(
+    `UPDATE site_teardowns SET
+       status = 'running',
+       locked_by = $1,
+       locked_at = NOW(),
+       updated_at = NOW()
+     WHERE id = (
+       SELECT id FROM site_teardowns
+       WHERE status IN ('scheduled', 'running')
+         AND next_run_at <= NOW()
+         AND (locked_at IS NULL OR locked_at < NOW() - ($2 || ' milliseconds')::interval)
+       ORDER BY next_run_at
+       FOR UPDATE SKIP LOCKED
+       LIMIT 1
+     )
+     RETURNING *`,
+    [workerId, String(lockTimeoutMs)]
+  );
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Record a completed teardown step
+ */
+export async function completeSiteTeardownStep(
+  teardownId: string,
+  step: SiteTeardownStep,
+  detail?: string
+): Promise<void> {
+  const pool = getMasterPool();
+  await pool.query(
+    `UPDATE site_teardowns SET
+       completed_steps = array_append(completed_steps, $2),
+       attempts = 0,
+       last_error = NULL,
+       log = log || $3::jsonb,
+       locked_at = NOW(),
+       updated_at = NOW()
+     WHERE id = $1`,
+    [
+      teardownId,
+      step,
+      JSON.stringify([{ action: `${step}_removed`, at: new Date().toISOString(), ...(detail ? { detail } : {}) }]),
+    ]
+  );
+}
+
+/**
+ * Release a teardown after a failed step so it is retried at nextRunAt
+ */
+export async function scheduleSiteTeardownRetry(
+  teardownId: string,
+  step: SiteTeardownStep,
+  attempts: number,
+  nextRunAt: Date,
+  error: string
+): Promise<void> {
+  const pool = getMasterPool();
+  await pool.query(
+    `UPDATE site_teardowns SET
+       attempts = $2,
+       next_run_at = $3,
+       last_error = $4,
+       log = log || $5::jsonb,
+       locked_by = NULL,
+       locked_at = NULL,
+       updated_at = NOW()
+     WHERE id = $1`,
+    [
+      teardownId,
+      attempts,
+      nextRunAt,
+      error,
+      JSON.stringify([{ action: `${step}_failed`, at: new Date().toISOString(), detail: error }]),
+    ]
+  );
+}
+
+/**
+ * Mark a teardown as finished (completed or permanently failed)
+ */
+export async function finishSiteTeardown(
+  teardownId: string,
+  status: 'completed' | 'failed',
+  error?: string
+): Promise<void> {
+  const pool = getMasterPool();
+  await pool.query(
+    `UPDATE site_teardowns SET
+       status = $2,
+       last_error = $3,
+       log = log || $4::jsonb,
+       locked_by = NULL,
+       locked_at = NULL,
+       finished_at = NOW(),
+       updated_at = NOW()
+     WHERE id = $1`,
+    [
+      teardownId,
+      status,
+      error || null,
+      JSON.stringify([{ action: status === 'completed' ? 'purged' : 'purge_failed', at: new Date().toISOString(), ...(error ? { detail: error } : {}) }]),
+    ]
+  );
+}
+
+/**
+ * Cancel a scheduled teardown (site restored). Fails if the purge already started.
+ */
+export async function restoreSiteTeardown(
+  teardownId: string,
+  restoredBy: string
+): Promise<boolean> {
+  const pool = getMasterPool();
+  const result = await pool.query(
+    `UPDATE site_teardowns SET
+       status = 'restored',
+       log = log || $2::jsonb,
+       finished_at = NOW(),
+       updated_at = NOW()
+     WHERE id = $1 AND status = 'scheduled' AND locked_by IS NULL`,
+    [teardownId, JSON.stringify([{ action: 'restored', at: new Date().toISOString(), detail: `by ${restoredBy}` }])]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+// ============================================
+// SITE RENAMES (old subdomain redirects)
+// ============================================
+
+// Read by the worker like master_sites: a request for from_domain is answered
+// with a 301 to https://<to_domain> (same path and query) until expires_at.
+// The edge passes the redirect through (fly/Caddyfile).
+export interface DomainRedirectRecord {
+  id: string;
+  // Old <siteId>.<baseDomain> host, no longer in master_sites
+  from_domain: string;
+  // Current domain of the site (kept up to date when it is renamed again)
+  to_domain: string;
+  site_id: string;
+  expires_at: Date;
+  created_at: Date;
+}
+
+/**
+ * Initialize the site_domain_redirects table
+ */
+export async function initDomainRedirectsTable(): Promise<void> {
+  const pool = getMasterPool();
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS site_domain_redirects (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      from_domain VARCHAR(255) UNIQUE NOT NULL,
+      to_domain VARCHAR(255) NOT NULL,
+      site_id VARCHAR(100) NOT NULL,
+      expires_at TIMESTAMP NOT NULL,
+      created_at TIMESTAMP DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_site_domain_redirects_site_id ON site_domain_redirects(site_id);
+  `);
+
+  console.log('[MasterDB] Domain redirects table initialized');
+}
+
+/**
+ * Get the active redirect for an old site domain (the worker runs the same lookup to answer with a 301)
+ */
+export async function getDomainRedirect(domain: string): Promise<DomainRedirectRecord | null> {
+  const pool = getMasterPool();
+  const result = await pool.query(
+    'SELECT * FROM site_domain_redirects WHERE from_domain = $1 AND expires_at > NOW()',
+    [domain]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Move a site to a new site ID in one transaction: master_sites (custom domains follow
+ * via ON UPDATE CASCADE), templates, provisioning, teardown and backup history, and redirects
+ * from the old domain to the new one.
+ */
+export async function renameMasterSite(params: {
+  oldSiteId: string;
+  newSiteId: string;
+  oldDomain: string;
+  newDomain: string;
+  newDbName: string;
+  redirectUntil: Date | null;
+}): Promise<void> {
+  const pool = getMasterPool();
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    await client.query(
+      `UPDATE master_sites SET site_id = $2, domain = $3, db_name = $4, updated_at = NOW()
+       WHERE site_id = $1`,
+      [params.oldSiteId, params.newSiteId, params.newDomain, params.newDbName]
+    );
+    await client.query('UPDATE templates SET source_site_id = $2 WHERE source_site_id = $1', [params.oldSiteId, params.newSiteId]);
+    await client.query('UPDATE provisioning_jobs SET site_id = $2 WHERE site_id = $1', [params.oldSiteId, params.newSiteId]);
+    await client.query('UPDATE provisioning_jobs SET source_site_id = $2 WHERE source_site_id = $1', [params.oldSiteId, params.newSiteId]);
+    await client.query('UPDATE provisioning_events SET site_id = $2 WHERE site_id = $1', [params.oldSiteId, params.newSiteId]);
+    await client.query('UPDATE site_teardowns SET site_id = $2 WHERE site_id = $1', [params.oldSiteId, params.newSiteId]);
+    await client.query('UPDATE site_backups SET site_id = $2 WHERE site_id = $1', [params.oldSiteId, params.newSiteId]);
+    await client.query('UPDATE wordpress_imports SET site_id = $2 WHERE site_id = $1', [params.oldSiteId, params.newSiteId]);
+    await client.query('UPDATE migration_rollout_sites SET site_id = $2 WHERE site_id = $1', [params.oldSiteId, params.newSiteId]);
+
+    // Renaming back to a previous name: that domain no longer redirects
+    await client.query('DELETE FROM site_domain_redirects WHERE from_domain = $1', [params.newDomain]);
+
+    // Earlier names of this site now point straight at the new domain
+    await client.query(
+      'UPDATE site_domain_redirects SET to_domain = $2, site_id = $3 WHERE site_id = $1',
+      [params.oldSiteId, params.newDomain, params.newSiteId]
+    );
+
+    if (params.redirectUntil) {
+      await client.query(
+        `INSERT INTO site_domain_redirects (from_domain, to_domain, site_id, expires_at)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (from_domain) DO UPDATE SET
+           to_domain = EXCLUDED.to_domain,
+           site_id = EXCLUDED.site_id,
+           expires_at = EXCLUDED.expires_at`,
+        [params.oldDomain, params.newDomain, params.newSiteId, params.redirectUntil]
+      );
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// ============================================
+// SITE STAGINGS (password-gated staging copies)
+// ============================================
+
+export interface SiteStagingRecord {
+  site_id: string;
+  staging_site_id: string;
+  created_by: string;
+  // Staging currently holds the production database from before the last promotion
+  rollback_available: boolean;
+  refreshed_at: Date | null;
+  promoted_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Initialize the site_stagings table
+ */
+export async function initSiteStagingsTable(): Promise<void> {
+  const pool = getMasterPool();
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS site_stagings (
+      site_id VARCHAR(100) PRIMARY KEY,
+      staging_site_id VARCHAR(100) UNIQUE NOT NULL,
+      created_by VARCHAR(100) NOT NULL,
+      rollback_available BOOLEAN NOT NULL DEFAULT false,
+      refreshed_at TIMESTAMP,
+      promoted_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+  `);
+
+  console.log('[MasterDB] Site stagings table initialized');
+}
+
+/**
+ * Record the staging copy of a site
+ */
+export async function createSiteStaging(params: {
+  siteId: string;
+  stagingSiteId: string;
+  createdBy: string;
+}): Promise<SiteStagingRecord> {
+  const pool = getMasterPool();
+  const result = await pool.query(
+    `INSERT INTO site_stagings (site_id, staging_site_id, created_by)
+     VALUES ($1, $2, $3)
+     RETURNING *`,
+    [params.siteId, params.stagingSiteId, params.createdBy]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Get the staging copy of a site, if any
+ */
+export async function getSiteStaging(siteId: string): Promise<SiteStagingRecord | null> {
+  const pool = getMasterPool();
+  const result = await pool.query('SELECT * FROM site_stagings WHERE site_id = $1', [siteId]);
+  return result.rows[0] || null;
+}
+
+/**
+ * Record that staging was overwritten with a fresh copy of production (the rollback point is gone)
+ */
+export async function markSiteStagingRefreshed(siteId: string): Promise<void> {
+  const pool = getMasterPool();
+  await pool.query(
+    `UPDATE site_stagings SET refreshed_at = NOW(), rollback_available = false, updated_at = NOW()
+     WHERE site_id = $1`,
+    [siteId]
+  );
+}
+
+/**
+ * Record a promotion (staging now holds the previous production database) or its rollback
+ */
+export async function markSiteStagingPromoted(siteId: string, promoted: boolean): Promise<void> {
+  const pool = getMasterPool();
+  await pool.query(
+    `UPDATE site_stagings SET
+       rollback_available = $2,
+       promoted_at = CASE WHEN $2 THEN NOW() ELSE promoted_at END,
+       updated_at = NOW()
+     WHERE site_id = $1`,
+    [siteId, promoted]
+  );
+}
+
+/**
+ * Remove the staging record of a site
+ */
+export async function deleteSiteStaging(siteId: string): Promise<void> {
+  const pool = getMasterPool();
+  await pool.query('DELETE FROM site_stagings WHERE site_id = $1', [siteId]);
+}
+
+// ============================================
+// SITE BACKUPS (database snapshots in the blob store)
+// ============================================
+
+export type SiteBackupTrigger = 'scheduled' | 'manual' | 'pre_restore';
+
+export type SiteBackupStatus = 'running' | 'completed' | 'failed';
+
+export interface SiteBackupRecord {
+  id: string;
+  site_id: string;
+  // Site owner when the backup was taken (owner of the user rows in the snapshot)
+  user_id: string;
+  trigger: SiteBackupTrigger;
+  status: SiteBackupStatus;
+  // Key of the pg_dump archive in the blob store
+  blob_key: string | null;
+  size_bytes: number | null;
+  error: string | null;
+  created_at: Date;
+  completed_at: Date | null;
+}
+
+/**
+ * Initialize the site_backups table
+ */
+export async function initSiteBackupsTable(): Promise<void> {
+  const pool = getMasterPool();
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS site_backups (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      site_id VARCHAR(100) NOT NULL,
+      user_id VARCHAR(100) NOT NULL,
+      trigger VARCHAR(20) NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'running',
+      blob_key VARCHAR(255),
+      size_bytes BIGINT,
+      error TEXT,
+      created_at TIMESTAMP DEFAULT NOW(),
+      completed_at TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_site_backups_site_id ON site_backups(site_id, created_at DESC);
+  `);
+
+  console.log('[MasterDB] Site backups table initialized');
+}
+
+/**
+ * Start a backup record. Returns null if a backup of the site is already running,
+ * or (notSince given) one was started or completed after notSince.
+ */
+export async function createSiteBackup(params: {
+  siteId: string;
+  userId: string;
+  trigger: SiteBackupTrigger;
+  notSince?: Date;
+}): Promise<SiteBackupRecord | null> {
+  const pool = getMasterPool();
+  const result = await pool.query(
+    `INSERT INTO site_backups (site_id, user_id, trigger)
+     SELECT $1, $2, $3
+     WHERE NOT EXISTS (
+       SELECT 1 FROM site_backups
+       WHERE site_id = $1
+         AND (status = 'running' OR ($4::timestamp IS NOT NULL AND status = 'completed' AND created_at > $4))
+     )
+     RETURNING *`,
+    [params.siteId, params.userId, params.trigger, params.notSince || null]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Mark a backup as completed
+ */
+export async function completeSiteBackup(id: string, blobKey: string, sizeBytes: number): Promise<void> {
+  const pool = getMasterPool();
+  await pool.query(
+    `UPDATE site_backups SET status = 'completed', blob_key = $2, size_bytes = $3, completed_at = NOW()
+     WHERE id = $1`,
+    [id, blobKey, sizeBytes]
+  );
+}
+
+/**
+ * Mark a backup as failed
+ */
+export async function failSiteBackup(id: string, error: string): Promise<void> {
+  const pool = getMasterPool();
+  await pool.query(
+    `UPDATE site_backups SET status = 'failed', error = $2, completed_at = NOW()
+     WHERE id = $1`,
+    [id, error]
+  );
+}
+
+/**
+ * Fail backups left running for longer than timeoutMs (e.g. the API restarted mid-dump)
+ */
+export async function failStaleSiteBackups(timeoutMs: number): Promise<number> {
+  const pool = getMasterPool();
+  const result = await pool.query(
+    `UPDATE site_backups SET status = 'failed', error = 'Interrupted', completed_at = NOW()
+     WHERE status = 'running' AND created_at < NOW() - ($1 || ' milliseconds')::interval`,
+    [String(timeoutMs)]
+  );
+  return result.rowCount || 0;
+}
+
+/**
+ * Get the backups of a site, newest first
+ */
+export async function getSiteBackups(siteId: string): Promise<SiteBackupRecord[]> {
+  const pool = getMasterPool();
+  const result = await pool.query(
+    'SELECT * FROM site_backups WHERE site_id = $1 ORDER BY created_at DESC',
+    [siteId]
+  );
+  return result.rows;
+}
+
+/**
+ * Get a backup by ID
+ */
+export async function getSiteBackupById(id: string): Promise<SiteBackupRecord | null> {
+  const pool = getMasterPool();
+  const result = await pool.query('SELECT * FROM site_backups WHERE id = $1', [id]);
+  return result.rows[0] || null;
+}
+
+/**
+ * Delete a backup record (the blob is removed by the caller)
+ */
+export async function deleteSiteBackupRecord(id: string): Promise<void> {
+  const pool = getMasterPool();
+  await pool.query('DELETE FROM site_backups WHERE id = $1', [id]);
+}
+
+// ============================================
+// WORDPRESS IMPORTS (WXR files imported into site content)
+// ============================================
+
+export type WordPressImportStatus = 'uploaded' | 'running' | 'completed' | 'failed';
+
+export type WordPressImportItemStatus = 'imported' | 'skipped' | 'failed';
+
+export interface WordPressImportLogEntry {
+  // WordPress post or term ID
+  wpId: string;
+  kind: 'category' | 'attachment' | 'page' | 'post' | 'other';
+  title: string;
+  status: WordPressImportItemStatus;
+  // Path of the created document
+  path?: string;
+  message?: string;
+}
+
+export interface WordPressImportRecord {
+  id: string;
+  // Site the content goes into (for new sites: the site ID being created)
+  site_id: string;
+  user_id: string;
+  status: WordPressImportStatus;
+  // Key of the uploaded WXR file in the blob store
+  upload_key: string;
+  // Title and item counts of the export, read on upload
+  summary: Record<string, unknown>;
+  log: WordPressImportLogEntry[];
+  error: string | null;
+  created_at: Date;
+  started_at: Date | null;
+  completed_at: Date | null;
+}
+
+/**
+ * Initialize the wordpress_imports table
+ */
+export async function initWordPressImportsTable(): Promise<void> {
+  const pool = getMasterPool();
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS wordpress_imports (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      site_id VARCHAR(100) NOT NULL,
+      user_id VARCHAR(100) NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'uploaded',
+      upload_key VARCHAR(255) NOT NULL,
+      summary JSONB NOT NULL DEFAULT '{}',
+      log JSONB NOT NULL DEFAULT '[]',
+      error TEXT,
+      created_at TIMESTAMP DEFAULT NOW(),
+      started_at TIMESTAMP,
+      completed_at TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_wordpress_imports_site_id ON wordpress_imports(site_id, created_at DESC);
+  `);
+
+  console.log('[MasterDB] WordPress imports table initialized');
+}
+
+/**
+ * Record an uploaded WXR file
+ */
+export async function createWordPressImport(params: {
+  siteId: string;
+  userId: string;
+  uploadKey: string;
+  summary: Record<string, unknown>;
+}): Promise<WordPressImportRecord> {
+  const pool = getMasterPool();
+  const result = await pool.query(
+    `INSERT INTO wordpress_imports (site_id, user_id, upload_key, summary)
+     VALUES ($1, $2, $3, $4)
+     RETURNING *`,
+    [params.siteId, params.userId, params.uploadKey, JSON.stringify(params.summary)]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Mark an import as running. Returns false if it already ran (or is running).
+ */
+export async function startWordPressImport(id: string): Promise<boolean> {
+  const pool = getMasterPool();
+  const result = await pool.query(
+    `UPDATE wordpress_imports SET status = 'running', started_at = NOW()
+     WHERE id = $1 AND status = 'uploaded'`,
+    [id]
+  );
+  return (result.rowCount || 0) > 0;
+}
+
+/**
+ * Record the outcome of an import with its per-item log
+ */
+export async function finishWordPressImport(
+  id: string,
+  status: 'completed' | 'failed',
+  log: WordPressImportLogEntry[],
+  error?: string
+): Promise<void> {
+  const pool = getMasterPool();
+  await pool.query(
+    `UPDATE wordpress_imports SET status = $2, log = $3, error = $4, completed_at = NOW()
+     WHERE id = $1`,
+    [id, status, JSON.stringify(log), error || null]
+  );
+}
+
+/**
+ * Fail imports left running for longer than timeoutMs (e.g. the API restarted mid-import).
+ * Returns them so their uploads can be removed.
+ */
+export async function failStaleWordPressImports(timeoutMs: number): Promise<WordPressImportRecord[]> {
+  const pool = getMasterPool();
+  const result = await pool.query(
+    `UPDATE wordpress_imports SET status = 'failed', error = 'Interrupted', completed_at = NOW()
+     WHERE status = 'running' AND started_at < NOW() - ($1 || ' milliseconds')::interval
+     RETURNING *`,
+    [String(timeoutMs)]
+  );
+  return result.rows;
+}
+
+/**
+ * Get the WordPress imports of a site, newest first
+ */
+export async function getWordPressImports(siteId: string): Promise<WordPressImportRecord[]> {
+  const pool = getMasterPool();
+  const result = await pool.query(
+    'SELECT * FROM wordpress_imports WHERE site_id = $1 ORDER BY created_at DESC',
+    [siteId]
+  );
+  return result.rows;
+}
+
+/**
+ * Get a WordPress import by ID
+ */
+export async function getWordPressImportById(id: string): Promise<WordPressImportRecord | null> {
+  const pool = getMasterPool();
+  const result = await pool.query('SELECT * FROM wordpress_imports WHERE id = $1', [id]);
+  return result.rows[0] || null;
+}
+
+// ============================================
+// MIGRATION ROLLOUTS (schema migrations run across all site databases)
+// ============================================
+
+export type MigrationRolloutStatus = 'running' | 'paused' | 'completed';
+
+// pending: dry run, the site has migrations to apply
+export type MigrationRolloutSiteStatus = 'queued' | 'running' | 'migrated' | 'up_to_date' | 'pending' | 'skipped' | 'failed';
+
+export interface MigrationRolloutRecord {
+  id: string;
+  status: MigrationRolloutStatus;
+  // Only list the pending migrations of each site
+  dry_run: boolean;
+  // Sites migrated at once
+  batch_size: number;
+  // The rollout pauses itself once this many sites failed
+  max_failures: number;
+  // Migrations shipped by the API that started the rollout
+  migrations: string[];
+  created_by: string;
+  pause_reason: string | null;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+}
+
+export interface MigrationRolloutSiteRecord {
+  rollout_id: string;
+  site_id: string;
+  db_name: string;
+  status: MigrationRolloutSiteStatus;
+  pending_migrations: string[];
+  applied_migrations: string[];
+  error: string | null;
+  started_at: Date | null;
+  completed_at: Date | null;
+}
+
+/**
+ * Initialize the migration_rollouts tables
+ */
+export async function initMigrationRolloutsTable(): Promise<void> {
+  const pool = getMasterPool();
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS migration_rollouts (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      status VARCHAR(20) NOT NULL DEFAULT 'running',
+      dry_run BOOLEAN NOT NULL DEFAULT false,
+      batch_size INTEGER NOT NULL,
+      max_failures INTEGER NOT NULL,
+      migrations TEXT[] NOT NULL DEFAULT '{}',
+      created_by VARCHAR(100) NOT NULL,
+      pause_reason TEXT,
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW(),
+      completed_at TIMESTAMP
+    );
+
+    -- One rollout at a time
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_migration_rollouts_active
+      ON migration_rollouts ((true))
+      WHERE status IN ('running', 'paused');
+
+    CREATE TABLE IF NOT EXISTS migration_rollout_sites (
+      rollout_id UUID NOT NULL REFERENCES migration_rollouts(id) ON DELETE CASCADE,
+      site_id VARCHAR(100) NOT NULL,
+      db_name VARCHAR(100) NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'queued',
+      pending_migrations TEXT[] NOT NULL DEFAULT '{}',
+      applied_migrations TEXT[] NOT NULL DEFAULT '{}',
+      error TEXT,
+      started_at TIMESTAMP,
+      completed_at TIMESTAMP,
+      PRIMARY KEY (rollout_id, site_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_migration_rollout_sites_status ON migration_rollout_sites(rollout_id, status);
+  `);
+
+  console.log('[MasterDB] Migration rollouts table initialized');
+}
+
+/**
+ * Start a rollout over every site in master_sites. Returns null if a rollout
+ * is already running or paused.
+ */
+export async function createMigrationRollout(params: {
+  createdBy: string;
+  dryRun: boolean;
+  batchSize: number;
+  maxFailures: number;
+  migrations: string[];
+}): Promise<MigrationRolloutRecord | null> {
+  const pool = getMasterPool();
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query(
+      `INSERT INTO migration_rollouts (dry_run, batch_size, max_failures, migrations, created_by)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [params.dryRun, params.batchSize, params.maxFailures, params.migrations, params.createdBy]
+    );
+    const rollout: MigrationRolloutRecord = result.rows[0];
+
+    await client.query(
+      `INSERT INTO migration_rollout_sites (rollout_id, site_id, db_name)
+       SELECT $1, site_id, db_name FROM master_sites`,
+      [rollout.id]
+    );
+
+    await client.query('COMMIT');
+    return rollout;
+  } catch (error: any) {
+    await client.query('ROLLBACK');
+    // Unique violation of idx_migration_rollouts_active
+    if (error.code === '23505') return null;
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get the rollout that is running or paused, if any
+ */
+export async function getActiveMigrationRollout(): Promise<MigrationRolloutRecord | null> {
+  const pool = getMasterPool();
+  const result = await pool.query(
+    "SELECT * FROM migration_rollouts WHERE status IN ('running', 'paused') LIMIT 1"
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Get the most recent rollouts, newest first
+ */
+export async function getMigrationRollouts(limit: number): Promise<MigrationRolloutRecord[]> {
+  const pool = getMasterPool();
+  const result = await pool.query(
+    'SELECT * FROM migration_rollouts ORDER BY created_at DESC LIMIT $1',
+    [limit]
+  );
+  return result.rows;
+}
+
+/**
+ * Get a rollout by ID
+ */
+export async function getMigrationRolloutById(id: string): Promise<MigrationRolloutRecord | null> {
+  const pool = getMasterPool();
+  const result = await pool.query('SELECT * FROM migration_rollouts WHERE id = $1', [id]);
+  return result.rows[0] || null;
+}
+
+/**
+ * Pause a running rollout (sites already started finish). Returns null if it was not running.
+ */
+export async function pauseMigrationRollout(id: string, reason: string): Promise<MigrationRolloutRecord | null> {
+  const pool = getMasterPool();
+  const result = await pool.query(
+    `UPDATE migration_rollouts SET status = 'paused', pause_reason = $2, updated_at = NOW()
+     WHERE id = $1 AND status = 'running'
+     RETURNING *`,
+    [id, reason]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Resume a paused rollout. Returns null if it was not paused.
+ */
+export async function resumeMigrationRollout(id: string): Promise<MigrationRolloutRecord | null> {
+  const pool = getMasterPool();
+  const result = await pool.query(
+    `UPDATE migration_rollouts SET status = 'running', pause_reason = NULL, updated_at = NOW()
+     WHERE id = $1 AND status = 'paused'
+     RETURNING *`,
+    [id]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Mark a running rollout completed once no site is queued or running. Returns whether it was.
+ */
+export async function completeMigrationRollout(id: string): Promise<boolean> {
+  const pool = getMasterPool();
+  const result = await pool.query(
+    `UPDATE migration_rollouts SET status = 'completed', completed_at = NOW(), updated_at = NOW()
+     WHERE id = $1 AND status = 'running'
+       AND NOT EXISTS (
+         SELECT 1 FROM migration_rollout_sites
+         WHERE rollout_id = $1 AND status IN ('queued', 'running')
+       )`,
+    [id]
+  );
+  return result.rowCount === 1;
+}
+
+/**
+ * Claim the next batch of sites of a rollout. Sites running for longer than
+ * timeoutMs were interrupted (e.g. the API restarted) and are claimed again.
+ */
+export async function claimMigrationRolloutSites(
+  rolloutId: string,
+  limit: number,
+  timeoutMs: number
+): Promise<MigrationRolloutSiteRecord[]> {
+  const pool = getMasterPool();
+  const result = await pool.query(
+    `UPDATE migration_rollout_sites SET status = 'running', started_at = NOW()
+     WHERE rollout_id = $1 AND site_id IN (
+       SELECT site_id FROM migration_rollout_sites
+       WHERE rollout_id = $1
+         AND (status = 'queued' OR (status = 'running' AND started_at < NOW() - ($3 || ' milliseconds')::interval))
+       ORDER BY site_id
+       FOR UPDATE SKIP LOCKED
+       LIMIT $2
+     )
+     RETURNING *`,
+    [rolloutId, limit, String(timeoutMs)]
+  );
+  return result.rows;
+}
+
+/**
+ * Record the outcome of a site in a rollout
+ */
+export async function finishMigrationRolloutSite(params: {
+  rolloutId: string;
+  siteId: string;
+  status: MigrationRolloutSiteStatus;
+  pendingMigrations?: string[];
+  appliedMigrations?: string[];
+  error?: string;
+}): Promise<void> {
+  const pool = getMasterPool();
+  await pool.query(
+    `UPDATE migration_rollout_sites SET
+       status = $3,
+       pending_migrations = $4,
+       applied_migrations = $5,
+       error = $6,
+       completed_at = NOW()
+     WHERE rollout_id = $1 AND site_id = $2`,
+    [
+      params.rolloutId,
+      params.siteId,
+      params.status,
+      params.pendingMigrations || [],
+      params.appliedMigrations || [],
+      params.error || null,
+    ]
+  );
+}
+
+/**
+ * Number of sites of a rollout by status
+ */
+export async function getMigrationRolloutCounts(
+  rolloutId: string
+): Promise<Record<MigrationRolloutSiteStatus, number>> {
+  const pool = getMasterPool();
+  const result = await pool.query(
+    'SELECT status, COUNT(*)::int AS count FROM migration_rollout_sites WHERE rollout_id = $1 GROUP BY status',
+    [rolloutId]
+  );
+
+  const counts: Record<MigrationRolloutSiteStatus, number> = {
+    queued: 0,
+    running: 0,
+    migrated: 0,
+    up_to_date: 0,
+    pending: 0,
+    skipped: 0,
+    failed: 0,
+  };
+  for (const row of result.rows) {
+    counts[row.status as MigrationRolloutSiteStatus] = row.count;
+  }
+  return counts;
+}
+
+/**
+ * Get the sites of a rollout, optionally only those with the given status
+ */
+export async function getMigrationRolloutSites(
+  rolloutId: string,
+  status?: MigrationRolloutSiteStatus
+): Promise<MigrationRolloutSiteRecord[]> {
+  const pool = getMasterPool();
+  const result = status
+    ? await pool.query(
+        'SELECT * FROM migration_rollout_sites WHERE rollout_id = $1 AND status = $2 ORDER BY site_id',
+        [rolloutId, status]
+      )
+    : await pool.query(
+        'SELECT * FROM migration_rollout_sites WHERE rollout_id = $1 ORDER BY site_id',
+        [rolloutId]
+      );
+  return result.rows;
+}
+
+// ============================================
+// STRIPE EVENTS (webhook events, processed once)
+// ============================================
+
+export type StripeEventStatus = 'received' | 'processing' | 'processed' | 'skipped' | 'failed';
+
+export interface StripeEventRecord {
+  // Stripe event ID (evt_...)
+  id: string;
+  type: string;
+  // Subscription the event is about, if any (events are applied in order per subscription)
+  subscription_id: string | null;
+  // When Stripe created the event
+  stripe_created_at: Date;
+  payload: Record<string, unknown>;
+  status: StripeEventStatus;
+  attempts: number;
+  error: string | null;
+  received_at: Date;
+  locked_at: Date | null;
+  processed_at: Date | null;
+}
+
+/**
+ * Initialize the stripe_events and stripe_subscription_versions tables
+ */
+export async function initStripeEventsTable(): Promise<void> {
+  const pool = getMasterPool();
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS stripe_events (
+      id VARCHAR(255) PRIMARY KEY,
+      type VARCHAR(100) NOT NULL,
+      subscription_id VARCHAR(255),
+      stripe_created_at TIMESTAMP NOT NULL,
+      payload JSONB NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'received',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      error TEXT,
+      received_at TIMESTAMP DEFAULT NOW(),
+      locked_at TIMESTAMP,
+      processed_at TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_stripe_events_status ON stripe_events(status, received_at DESC);
+
+    CREATE TABLE IF NOT EXISTS stripe_subscription_versions (
+      subscription_id VARCHAR(255) PRIMARY KEY,
+      stripe_created_at TIMESTAMP NOT NULL,
+      event_id VARCHAR(255) NOT NULL,
+      updated_at TIMESTAMP DEFAULT NOW()
+    );
+  `);
+
+  console.log('[MasterDB] Stripe events table initialized');
+}
+
+/**
+ * Record a received event. Returns false if it was already recorded (Stripe retry).
+ */
+export async function recordStripeEvent(params: {
+  id: string;
+  type: string;
+  subscriptionId: string | null;
+  stripeCreatedAt: Date;
+  payload: unknown;
+}): Promise<boolean> {
+  const pool = getMasterPool();
+  const result = await pool.query(
+    `INSERT INTO stripe_events (id, type, subscription_id, stripe_created_at, payload)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (id) DO NOTHING`,
+    [params.id, params.type, params.subscriptionId, params.stripeCreatedAt, JSON.stringify(params.payload)]
+  );
+  return (result.rowCount || 0) > 0;
+}
+
+/**
+ * Lock an event for processing: only if it was not processed yet, failed, or
+ * its processing was abandoned (locked longer than lockTimeoutMs). Returns null
+ * if it is processed or being processed.
+ */
+export async function claimStripeEvent(id: string, lockTimeoutMs: number): Promise<StripeEventRecord | null> {
+  const pool = getMasterPool();
+  const result = await pool.query(
+    `UPDATE stripe_events
+     SET status = 'processing', attempts = attempts + 1, locked_at = NOW(), error = NULL
+     WHERE id = $1
+       AND (status IN ('received', 'failed')
+         OR (status = 'processing' AND locked_at < NOW() - ($2 || ' milliseconds')::interval))
+     RETURNING *`,
+    [id, String(lockTimeoutMs)]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Record the outcome of processing an event
+ */
+export async function finishStripeEvent(
+  id: string,
+  status: 'processed' | 'skipped' | 'failed',
+  error?: string
+): Promise<void> {
+  const pool = getMasterPool();
+  await pool.query(
+    `UPDATE stripe_events SET status = $2, error = $3, locked_at = NULL, processed_at = NOW()
+     WHERE id = $1`,
+    [id, status, error || null]
+  );
+}
+
+/**
+ * Get a Stripe event by ID
+ */
+export async function getStripeEventById(id: string): Promise<StripeEventRecord | null> {
+  const pool = getMasterPool();
+  const result = await pool.query('SELECT * FROM stripe_events WHERE id = $1', [id]);
+  return result.rows[0] || null;
+}
+
+/**
+ * Get the latest Stripe events, optionally only those with the given status
+ */
+export async function getStripeEvents(limit: number, status?: StripeEventStatus): Promise<StripeEventRecord[]> {
+  const pool = getMasterPool();
+  const result = status
+    ? await pool.query(
+        'SELECT * FROM stripe_events WHERE status = $1 ORDER BY received_at DESC LIMIT $2',
+        [status, limit]
+      )
+    : await pool.query('SELECT * FROM stripe_events ORDER BY received_at DESC LIMIT $1', [limit]);
+  return result.rows;
+}
+
+export interface StripeSubscriptionVersion {
+  // Creation time (Stripe, to the second) and ID of the latest event applied to the subscription
+  stripeCreatedAt: Date;
+  eventId: string;
+}
+
+/**
+ * Apply an event to a subscription while holding the subscription's lock (an
+ * advisory lock for the transaction), so its events are checked and applied
+ * one at a time. apply gets the latest version applied and returns whether it
+ * applied the event, which then becomes the version.
+ */
+export async function withStripeSubscriptionLock(
+  subscriptionId: string,
+  event: StripeSubscriptionVersion,
+  apply: (version: StripeSubscriptionVersion | null) => Promise<boolean>
+): Promise<boolean> {
+  const pool = getMasterPool();
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`stripe_subscription:${subscriptionId}`]);
+
+    const current = await client.query(
+      'SELECT stripe_created_at, event_id FROM stripe_subscription_versions WHERE subscription_id = $1',
+      [subscriptionId]
+    );
+    const version = current.rows[0]
+      ? { stripeCreatedAt: current.rows[0].stripe_created_at, eventId: current.rows[0].event_id }
+      : null;
+
+    const applied = await apply(version);
+    if (applied) {
+      await client.query(
+        `INSERT INTO stripe_subscription_versions (subscription_id, stripe_created_at, event_id)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (subscription_id) DO UPDATE SET
+           stripe_created_at = EXCLUDED.stripe_created_at,
+           event_id = EXCLUDED.event_id,
+           updated_at = NOW()`,
+        [subscriptionId, event.stripeCreatedAt, event.eventId]
+      );
+    }
+
+    await client.query('COMMIT');
+    return applied;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Migration Rollouts Service - Schema migrations across every site database
+ *
+ * New sites get all migrations during bootstrap; existing sites only get new
+ * ones through a rollout. An admin starts a rollout, which queues every site in
+ * master_sites. The worker migrates the queued sites in batches
+ * (migration_rollouts.batch_size at once) with the site's own credentials, and
+ * records per site what was pending, what got applied and why it failed.
+ *
+ * A dry run only lists the pending migrations of each site. A rollout can be
+ * paused and resumed; it pauses itself once max_failures sites failed. Failed
+ * sites are not retried by the same rollout: start a new one once fixed (sites
+ * already up to date are quick).
+ */
+
+import { config } from '../config/index.js';
+import * as masterDbService from './masterDb.js';
+import * as siteBootstrap from './siteBootstrap.js';
+import type {
+  MigrationRolloutRecord,
+  MigrationRolloutSiteRecord,
+  MigrationRolloutSiteStatus,
+} from './masterDb.js';
+
+export interface MigrationRolloutProgress {
+  rollout: MigrationRolloutRecord;
+  counts: Record<MigrationRolloutSiteStatus, number>;
+  total: number;
+  // Sites done (whatever the outcome), in percent
+  percent: number;
+}
+
+/**
+ * Start a rollout over all sites. Returns null if another one is running or paused.
+ */
+export async function startRollout(params: {
+  createdBy: string;
+  dryRun?: boolean;
+  batchSize?: number;
+  maxFailures?: number;
+}): Promise<MigrationRolloutRecord | null> {
+  const rollout = await masterDbService.createMigrationRollout({
+    createdBy: params.createdBy,
+    dryRun: !!params.dryRun,
+    batchSize: params.batchSize || config.migrationRollouts.batchSize,
+    maxFailures: params.maxFailures || config.migrationRollouts.maxFailures,
+    migrations: siteBootstrap.listMigrations(),
+  });
+
+  if (rollout) {
+    console.log(`[Migrations] Rollout ${rollout.id} started by ${params.createdBy}${rollout.dry_run ? ' (dry run)' : ''}, batches of ${rollout.batch_size}`);
+  }
+  return rollout;
+}
+
+/**
+ * Counts of a rollout's sites by status
+ */
+export async function getRolloutProgress(rollout: MigrationRolloutRecord): Promise<MigrationRolloutProgress> {
+  const counts = await masterDbService.getMigrationRolloutCounts(rollout.id);
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+  const done = total - counts.queued - counts.running;
+
+  return {
+    rollout,
+    counts,
+    total,
+    percent: total > 0 ? Math.floor((done / total) * 100) : 100,
+  };
+}
+
+/**
+ * Migrate (or, in a dry run, inspect) one site of a rollout and record the outcome
+ */
+async function migrateSite(rollout: MigrationRolloutRecord, site: MigrationRolloutSiteRecord): Promise<MigrationRolloutSiteStatus> {
+  const finish = async (
+    status: MigrationRolloutSiteStatus,
+    details: { pendingMigrations?: string[]; appliedMigrations?: string[]; error?: string } = {}
+  ) => {
+    await masterDbService.finishMigrationRolloutSite({ rolloutId: rollout.id, siteId: site.site_id, status, ...details });
+    return status;
+  };
+
+  let pendingMigrations: string[] = [];
+
+  try {
+    const dbConfig = await masterDbService.getMasterSiteDbConnection(site.site_id);
+    if (!dbConfig) {
+      // Deleted since the rollout started
+      return await finish('skipped', { error: 'Site is no longer registered' });
+    }
+
+    pendingMigrations = await siteBootstrap.listPendingMigrations(dbConfig);
+    if (pendingMigrations.length === 0) {
+      return await finish('up_to_date');
+    }
+    if (rollout.dry_run) {
+      return await finish('pending', { pendingMigrations });
+    }
+
+    const appliedMigrations = await siteBootstrap.runMigrations(dbConfig, { siteId: site.site_id });
+    console.log(`[Migrations] ${site.site_id}: applied ${appliedMigrations.join(', ')}`);
+    return await finish('migrated', { pendingMigrations, appliedMigrations });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[Migrations] Rollout ${rollout.id}: ${site.site_id} failed:`, error);
+    return finish('failed', { pendingMigrations, error: message });
+  }
+}
+
+let running = false;
+
+/**
+ * Run the next batch of the active rollout
+ */
+async function runNextBatch(): Promise<void> {
+  // One batch at a time per API process
+  if (running) return;
+  running = true;
+
+  try {
+    const rollout = await masterDbService.getActiveMigrationRollout();
+    if (!rollout || rollout.status !== 'running') return;
+
+    const sites = await masterDbService.claimMigrationRolloutSites(
+      rollout.id,
+      rollout.batch_size,
+      config.migrationRollouts.siteTimeoutMs
+    );
+
+    if (sites.length === 0) {
+      if (await masterDbService.completeMigrationRollout(rollout.id)) {
+        const { counts } = await getRolloutProgress(rollout);
+        console.log(`[Migrations] Rollout ${rollout.id} completed:`, counts);
+      }
+      return;
+    }
+
+    await Promise.all(sites.map((site) => migrateSite(rollout, site)));
+
+    const { counts } = await getRolloutProgress(rollout);
+    if (counts.failed >= rollout.max_failures) {
+      await masterDbService.pauseMigrationRollout(rollout.id, `${counts.failed} site(s) failed`);
+      console.warn(`[Migrations] Rollout ${rollout.id} paused after ${counts.failed} failure(s)`);
+    }
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Start the migration rollout worker
+ */
+export function startMigrationRolloutWorker(): void {
+  console.log(`[Migrations] Rollout worker started (poll interval: ${config.migrationRollouts.pollIntervalMs}ms)`);
+
+  const tick = () => {
+    runNextBatch().catch((error) => console.error('[Migrations] Worker run failed:', error));
+  };
+
+  tick();
+  setInterval(tick, config.migrationRollouts.pollIntervalMs);
+}
@@ -0,0 +1,202 @@
+/**
+ * Profile Upgrade Service - Apply profile changes to existing sites
+ *
+ * runSeed installs the profiles of a new site from scratch. When profiles/core
+ * or the site's starter profile changes afterwards (behaviors, types,
+ * controlpanels, actions, catalog indexes), existing sites are upgraded by
+ * comparing their rows with the profile definitions: missing definitions are
+ * added and changed ones updated.
+ * Nothing is deleted and content is never touched. Controlpanel data only
+ * gains the keys it lacks, values set on the site are kept.
+ *
+ * The _schema of every type (including types created on the site) is
+ * recomputed against the upgraded behaviors.
+ */
+
+import { Knex } from 'knex';
+import _ from 'lodash';
+import * as masterDbService from './masterDb.js';
+import * as siteBootstrap from './siteBootstrap.js';
+import type { BehaviorData, ProfileDefinitionTable, ProfileDefinitions, Schema } from './siteBootstrap.js';
+
+// Columns compared with the profile (an index's type is never changed: it is its catalog column's type)
+const COMPARED_FIELDS: Record<ProfileDefinitionTable, string[]> = {
+  behavior: ['title', 'description', 'schema'],
+  type: ['title', 'description', 'global_allow', 'filter_content_types', 'allowed_content_types', 'schema', 'workflow'],
+  controlpanel: ['title', 'group', 'schema'],
+  action: ['title', 'category', 'order', 'permission'],
+  index: ['name', 'title', 'attr', 'metadata', 'description', 'group', 'enabled', 'sortable', 'operators', 'vocabulary'],
+};
+
+// Order the changes are applied in (types reference behaviors)
+const TABLES: ProfileDefinitionTable[] = ['behavior', 'type', 'controlpanel', 'action', 'index'];
+
+export interface ProfileChange {
+  table: ProfileDefinitionTable;
+  id: string;
+  action: 'add' | 'update';
+  // Columns that change (updates only)
+  fields: string[];
+}
+
+export interface ProfileUpgradePlan {
+  profiles: Array<{ id: string; installedVersion: number | null; version: number }>;
+  changes: ProfileChange[];
+}
+
+interface PlannedChange extends ProfileChange {
+  // Values to write
+  row: Record<string, any>;
+}
+
+/**
+ * Compare a site database with the profile definitions
+ */
+async function diffProfile(
+  db: Knex | Knex.Transaction,
+  definitions: ProfileDefinitions
+): Promise<{ profiles: ProfileUpgradePlan['profiles']; changes: PlannedChange[] }> {
+  const current = {} as Record<ProfileDefinitionTable, Map<string, Record<string, any>>>;
+  for (const table of TABLES) {
+    const rows: Record<string, any>[] = await db(table).select();
+    current[table] = new Map(rows.map((row) => [row.id, row]));
+  }
+
+  const changes: PlannedChange[] = [];
+
+  for (const table of TABLES) {
+    for (const [id, definition] of definitions.rows[table]) {
+      const existing = current[table].get(id);
+      if (!existing) {
+        changes.push({ table, id, action: 'add', fields: [], row: definition });
+        continue;
+      }
+
+      const fields = COMPARED_FIELDS[table].filter((field) => !_.isEqual(existing[field], definition[field]));
+      const row = _.pick(definition, fields);
+
+      if (table === 'controlpanel') {
+        const missingKeys = _.difference(Object.keys(definition.data), Object.keys(existing.data || {}));
+        if (missingKeys.length > 0) {
+          fields.push('data');
+          row.data = { ...definition.data, ...existing.data };
+        }
+      }
+
+      if (fields.length > 0) {
+        changes.push({ table, id, action: 'update', fields, row });
+      }
+    }
+  }
+
+  // Behaviors as they will be after the upgrade, to compute the types' _schema with
+  const behaviors = new Map<string, BehaviorData>();
+  for (const row of [...current.behavior.values(), ...definitions.rows.behavior.values()]) {
+    behaviors.set(row.id, { id: row.id, title: row.title, description: row.description || '', schema: row.schema });
+  }
+
+  const typeIds = new Set([...current.type.keys(), ...definitions.rows.type.keys()]);
+  for (const id of typeIds) {
+    const change = changes.find((candidate) => candidate.table === 'type' && candidate.id === id);
+    const schema: Schema = (change?.row.schema ?? current.type.get(id)!.schema) || {};
+    const cachedSchema = siteBootstrap.computeTypeSchema(schema, behaviors);
+
+    if (change?.action === 'add') {
+      change.row = { ...change.row, _schema: cachedSchema };
+    } else if (!_.isEqual(current.type.get(id)!._schema, cachedSchema)) {
+      if (change) {
+        change.fields.push('_schema');
+        change.row._schema = cachedSchema;
+      } else {
+        changes.push({ table: 'type', id, action: 'update', fields: ['_schema'], row: { _schema: cachedSchema } });
+      }
+    }
+  }
+
+  const installed: Array<{ id: string; version: number | null }> = await db('profile').select('id', 'version');
+  const profiles = definitions.profiles.map((profile) => ({
+    id: profile.id,
+    installedVersion: installed.find((row) => row.id === profile.id)?.version ?? null,
+    version: profile.version,
+  }));
+
+  changes.sort((a, b) => TABLES.indexOf(a.table) - TABLES.indexOf(b.table));
+  return { profiles, changes };
+}
+
+/**
+ * Definitions of the profiles a site was seeded with (core, default and its starter profile)
+ */
+async function loadSiteProfileDefinitions(db: Knex | Knex.Transaction): Promise<ProfileDefinitions> {
+  const installedIds: string[] = await db('profile').pluck('id');
+  return siteBootstrap.loadProfileDefinitions(siteBootstrap.findInstalledStarterProfile(installedIds));
+}
+
+/**
+ * Row values as Knex writes them (JSON columns stringified, arrays are Postgres arrays)
+ */
+function toDbRow(row: Record<string, any>): Record<string, any> {
+  return _.mapValues(row, (value) => (_.isPlainObject(value) ? JSON.stringify(value) : value));
+}
+
+/**
+ * Run fn against a site database with the site's own credentials (null if the site is not registered)
+ */
+async function withSiteDb<T>(siteId: string, fn: (db: Knex) => Promise<T>): Promise<T | null> {
+  const dbConfig = await masterDbService.getMasterSiteDbConnection(siteId);
+  if (!dbConfig) return null;
+
+  const db = siteBootstrap.createKnexInstance(dbConfig);
+  try {
+    return await fn(db);
+  } finally {
+    await db.destroy();
+  }
+}
+
+function toPlan({ profiles, changes }: { profiles: ProfileUpgradePlan['profiles']; changes: PlannedChange[] }): ProfileUpgradePlan {
+  return {
+    profiles,
+    changes: changes.map(({ table, id, action, fields }) => ({ table, id, action, fields })),
+  };
+}
+
+/**
+ * What upgrading a site to the current profiles would change (read-only)
+ */
+export async function planProfileUpgrade(siteId: string): Promise<ProfileUpgradePlan | null> {
+  return withSiteDb(siteId, async (db) => toPlan(await diffProfile(db, await loadSiteProfileDefinitions(db))));
+}
+
+/**
+ * Upgrade a site to the current profiles in one transaction, returns what was changed
+ */
+export async function applyProfileUpgrade(siteId: string): Promise<ProfileUpgradePlan | null> {
+  return withSiteDb(siteId, (db) => db.transaction(async (trx) => {
+    const definitions = await loadSiteProfileDefinitions(trx);
+    const diff = await diffProfile(trx, definitions);
+
+    for (const change of diff.changes) {
+      if (change.action === 'add') {
+        await trx(change.table).insert(toDbRow(change.row));
+      } else {
+        await trx(change.table).where('id', change.id).update(toDbRow(change.row));
+      }
+
+      // A failed ALTER TABLE would abort the transaction, so only add columns that are missing
+      if (change.table === 'index' && change.action === 'add') {
+        const { name, type, metadata } = change.row;
+        if (!(await trx.schema.hasColumn('catalog', metadata ? name : `_${name}`))) {
+          await siteBootstrap.addCatalogColumn(trx, { name, type }, metadata);
+        }
+      }
+    }
+
+    for (const profile of definitions.profiles) {
+      await trx('profile').insert(profile).onConflict('id').merge();
+    }
+
+    console.log(`[ProfileUpgrade] ${siteId}: ${diff.changes.length} change(s) applied`);
+    return toPlan(diff);
+  }));
+}
@@ -0,0 +1,630 @@
+/**
+ * Provisioning Service - Durable site creation pipeline
+ *
+ * Site creation is modelled as a persisted job in the master database
+ * (provisioning_jobs) that runs step by step:
+ *   database -> bootstrap -> theme -> register -> activate
+ *
+ * A worker started on boot claims due jobs, retries failed steps with
+ * exponential backoff and resumes from the last completed step, so an API
+ * restart mid-provisioning no longer leaves sites stuck in pending/deploying.
+ *
+ * Each unit of work records a timed event in provisioning_events, which the
+ * builder follows live through GET /sites/:siteId/provisioning/events.
+ *
+ * Sites left in the error state can be repaired: repairSite() inspects what
+ * actually exists and queues a new job that only runs the missing steps.
+ */
+
+import crypto from 'crypto';
+import { config } from '../config/index.js';
+import * as sitesService from './sites.js';
+import * as renderService from './render.js';
+import * as databaseService from './database.js';
+import * as masterDbService from './masterDb.js';
+import * as siteBootstrap from './siteBootstrap.js';
+import * as themeService from './theme.js';
+import * as backupsService from './backups.js';
+import * as siteArchiveService from './siteArchive.js';
+import * as wordpressImportService from './wordpressImport.js';
+import * as templateVersionsService from './templateVersions.js';
+import * as templateCloneService from './templateClone.js';
+import * as storageQuotaService from './storageQuota.js';
+import type {
+  ProvisioningJobRecord,
+  ProvisioningJobContext,
+  ProvisioningStep,
+  ProvisioningEventType,
+} from './masterDb.js';
+import type { SiteThemeInput } from './theme.js';
+import type { Site } from './sites.js';
+
+// Multi-tenant mode flag
+const MULTI_TENANT = process.env.MULTI_TENANT === 'true';
+
+export const PROVISIONING_STEPS: ProvisioningStep[] = ['database', 'bootstrap', 'theme', 'register', 'activate'];
+
+// Single-tenant mode: how often and how long to wait for the Render service to come up
+const RENDER_POLL_INTERVAL_MS = 10000;
+const RENDER_MAX_POLLS = 60;
+
+// Unique ID for this API process (used to lock jobs)
+const WORKER_ID = `worker-${crypto.randomUUID()}`;
+
+/**
+ * Thrown by a step that is not finished yet but did not fail (e.g. waiting on Render).
+ * The step is re-run after retryAfterMs, up to maxPolls times instead of the failure retry limit.
+ */
+class StepPendingError extends Error {
+  constructor(message: string, public retryAfterMs: number, public maxPolls: number) {
+    super(message);
+    this.name = 'StepPendingError';
+  }
+}
+
+/**
+ * Queue provisioning for a newly created site and wake the worker. If the job
+ * cannot be queued, the site is marked as failed (it can then be repaired).
+ */
+export async function enqueueProvisioning(params: {
+  siteDocId: string;
+  siteId: string;
+  siteName: string;
+  userId: string;
+  ownerEmail?: string;
+  ownerName?: string;
+  templateId?: string;
+  sourceSiteId?: string;
+  backupId?: string;
+  importKey?: string;
+  wordpressImportId?: string;
+  theme?: SiteThemeInput;
+  profile?: string;
+}): Promise<ProvisioningJobRecord> {
+  let job: ProvisioningJobRecord;
+  try {
+    job = await masterDbService.createProvisioningJob(params);
+  } catch (error) {
+    // Without a job the site would stay pending for good
+    await sitesService.setSiteError(params.siteDocId).catch((markError) =>
+      console.error(`[Provisioning] Failed to mark ${params.siteId} as failed:`, markError)
+    );
+    throw error;
+  }
+  const origin = params.backupId
+    ? `restore of backup ${params.backupId}`
+    : params.importKey ? 'archive import'
+    : params.wordpressImportId ? `WordPress import ${params.wordpressImportId}`
+    : params.sourceSiteId ? `duplicate of ${params.sourceSiteId}`
+    : params.templateId ? `template: ${params.templateId}` : `profile: ${params.profile || siteBootstrap.DEFAULT_PROFILE}`;
+  console.log(`[Provisioning] Job ${job.id} queued for site ${params.siteId} (${origin})`);
+
+  runDueJobs().catch((error) => console.error('[Provisioning] Worker run failed:', error));
+
+  return job;
+}
+
+/**
+ * Work out which provisioning steps already completed for a site, from what actually exists
+ */
+async function inspectCompletedSteps(
+  site: Site,
+  context: ProvisioningJobContext,
+  previousJob: ProvisioningJobRecord | null
+): Promise<ProvisioningStep[]> {
+  const completed: ProvisioningStep[] = [];
+
+  // Database and bootstrap: check the database itself
+  if (await databaseService.databaseExists(site.siteId)) {
+    const status = await siteBootstrap.getBootstrapStatus(getSiteDbConfig(site.siteId), site.userId);
+    console.log(`[Provisioning] Repair ${site.siteId}: database exists, migrations applied: ${status.migrationsApplied}, seeded: ${status.seeded}, owner: ${status.ownerExists}`);
+
+    if (context.cloned) {
+      // Cloned databases are only usable once the owner was rewritten, otherwise clone again
+      if (status.ownerExists) {
+        completed.push('database', 'bootstrap');
+      }
+    } else {
+      completed.push('database');
+      if (status.migrationsApplied && status.seeded && status.ownerExists) {
+        completed.push('bootstrap');
+      }
+    }
+  }
+
+  // Theme: only kept if the database is untouched and the theme was applied (or there was none)
+  const databaseReady = completed.includes('bootstrap');
+  if (databaseReady && (!previousJob?.theme || previousJob.completed_steps.includes('theme'))) {
+    completed.push('theme');
+  }
+
+  // Routing: master_sites row (multi-tenant) or Render service (single-tenant)
+  if (MULTI_TENANT) {
+    const masterSite = await masterDbService.getMasterSiteBySiteId(site.siteId);
+    console.log(`[Provisioning] Repair ${site.siteId}: master_sites row: ${!!masterSite}, bootstrapped: ${!!masterSite?.bootstrapped}`);
+    // The register step also hands the database to the site role: a database
+    // created or bootstrapped again is owned by the superuser until it re-runs
+    if (masterSite && masterSite.bootstrapped && databaseReady) {
+      completed.push('register');
+    }
+  } else if (site.renderServiceId && site.renderUrl) {
+    context.renderServiceId = site.renderServiceId;
+    context.renderUrl = site.renderUrl;
+    completed.push('register');
+  }
+
+  // Activation is always re-run: the site is in the error state
+  return completed;
+}
+
+/**
+ * Queue a job that completes provisioning for a site in the error state, skipping steps already done
+ */
+export async function repairSite(
+  site: Site,
+  owner: { email?: string; name?: string }
+): Promise<{ job: ProvisioningJobRecord; remainingSteps: ProvisioningStep[] }> {
+  const previousJob = await masterDbService.getLatestProvisioningJob(site.siteId);
+  const context: ProvisioningJobContext = { ...previousJob?.context };
+
+  const completedSteps = await inspectCompletedSteps(site, context, previousJob);
+  const remainingSteps = PROVISIONING_STEPS.filter((step) => !completedSteps.includes(step));
+
+  await sitesService.setSitePending(site.id);
+
+  const job = await masterDbService.createProvisioningJob({
+    siteId: site.siteId,
+    siteDocId: site.id,
+    siteName: site.name,
+    userId: site.userId,
+    ownerEmail: previousJob?.owner_email || owner.email,
+    ownerName: previousJob?.owner_name || owner.name || site.name,
+    templateId: previousJob?.template_id || undefined,
+    sourceSiteId: previousJob?.source_site_id || undefined,
+    backupId: previousJob?.backup_id || undefined,
+    importKey: previousJob?.import_key || undefined,
+    wordpressImportId: previousJob?.wordpress_import_id || undefined,
+    theme: previousJob?.theme || undefined,
+    profile: previousJob?.profile || undefined,
+    completedSteps,
+    context,
+  });
+  console.log(`[Provisioning] Repair job ${job.id} queued for site ${site.siteId}, remaining steps: ${remainingSteps.join(', ')}`);
+
+  runDueJobs().catch((error) => console.error('[Provisioning] Worker run failed:', error));
+
+  return { job, remainingSteps };
+}
+
+/**
+ * Compute the delay before the next attempt of a failed step
+ */
+function getBackoffDelay(attempts: number): number {
+  const { backoffBaseMs, backoffMaxMs } = config.provisioning;
+  return Math.min(backoffBaseMs * 2 ** (attempts - 1), backoffMaxMs);
+}
+
+/**
+ * Run a unit of provisioning work and record it as a progress event with its duration
+ */
+async function timed<T>(
+  job: ProvisioningJobRecord,
+  step: ProvisioningStep,
+  event: ProvisioningEventType,
+  fn: () => Promise<T>
+): Promise<T> {
+  const startedAt = Date.now();
+  const result = await fn();
+
+  await masterDbService.recordProvisioningEvent({
+    jobId: job.id,
+    siteId: job.site_id,
+    step,
+    event,
+    attempt: job.attempts + 1,
+    durationMs: Date.now() - startedAt,
+  });
+
+  return result;
+}
+
+/**
+ * Database connection info for the site, parsed from its connection string
+ */
+function getSiteDbConfig(siteId: string) {
+  const dbInfo = databaseService.parseDatabaseUrl(databaseService.getDatabaseUrl(siteId));
+  return {
+    host: dbInfo.host,
+    port: parseInt(dbInfo.port),
+    database: dbInfo.database,
+    user: dbInfo.user,
+    password: dbInfo.password,
+  };
+}
+
+/**
+ * Step 1: create an empty database, restore it from a backup, or clone it from
+ * the duplicated site / the template's pinned snapshot (then personalized)
+ */
+async function runDatabaseStep(
+  job: ProvisioningJobRecord,
+  context: ProvisioningJobContext
+): Promise<void> {
+  const siteId = job.site_id;
+
+  if (job.backup_id) {
+    const backup = await masterDbService.getSiteBackupById(job.backup_id);
+    if (!backup) {
+      throw new Error(`Backup ${job.backup_id} no longer exists`);
+    }
+
+    console.log(`[Provisioning] Restoring backup ${backup.id} of ${backup.site_id} for site: ${siteId}`);
+    await timed(job, 'database', 'database_restored', async () => {
+      // Start from an empty database (a previous attempt may have restored part of it)
+      await databaseService.dropDatabase(siteId);
+      await databaseService.createDatabase(siteId);
+      await backupsService.restoreBackupIntoDatabase(backup, getSiteDbConfig(siteId).database);
+    });
+
+    console.log(`[Provisioning] Updating owner for site: ${siteId}`);
+    await timed(job, 'database', 'owner_rewritten', () =>
+      databaseService.updateDatabaseOwner(
+        siteId,
+        job.user_id,
+        job.owner_email || undefined,
+        job.owner_name || undefined,
+        backup.user_id
+      )
+    );
+
+    context.cloned = true;
+    return;
+  }
+
+  let cloneSourceDbName: string | null = null;
+
+  if (job.source_site_id) {
+    cloneSourceDbName = await databaseService.getSiteDatabaseName(job.source_site_id);
+  } else if (job.template_id) {
+    const cloneSource = await templateVersionsService.getTemplateCloneSource(job.template_id);
+
+    if (cloneSource) {
+      cloneSourceDbName = cloneSource.dbName;
+      context.templateVersionId = cloneSource.versionId || undefined;
+    } else {
+      // Template not found or no source site, fall back to normal creation
+      console.log(`[Provisioning] Template ${job.template_id} not found, creating empty database`);
+    }
+  }
+
+  if (cloneSourceDbName) {
+    const sourceDbName = cloneSourceDbName;
+
+    console.log(`[Provisioning] Cloning database from ${sourceDbName} for site: ${siteId}`);
+    await timed(job, 'database', 'database_cloned', () =>
+      databaseService.cloneDatabaseByName(sourceDbName, getSiteDbConfig(siteId).database)
+    );
+
+    console.log(`[Provisioning] Updating owner for site: ${siteId}`);
+    await timed(job, 'database', 'owner_rewritten', () =>
+      databaseService.updateDatabaseOwner(
+        siteId,
+        job.user_id,
+        job.owner_email || undefined,
+        job.owner_name || undefined,
+        // Duplicates are of the user's own site: keep their user row as the owner
+        job.source_site_id ? job.user_id : undefined
+      )
+    );
+
+    if (!job.source_site_id) {
+      console.log(`[Provisioning] Personalizing template content for site: ${siteId}`);
+      await timed(job, 'database', 'template_personalized', () =>
+        templateCloneService.personalizeTemplateClone(siteId, {
+          ownerId: job.user_id,
+          values: {
+            site_title: job.site_name,
+            site_id: siteId,
+            site_url: `https://${siteId}.${config.baseDomain}`,
+            owner_email: job.owner_email || '',
+            owner_name: job.owner_name || '',
+          },
+        })
+      );
+    }
+
+    context.cloned = true;
+    return;
+  }
+
+  console.log(`[Provisioning] Creating database for site: ${siteId}`);
+  await timed(job, 'database', 'database_created', () => databaseService.createDatabase(siteId));
+  context.cloned = false;
+}
+
+/**
+ * Step 2: run migrations, seed (with the starter profile picked, if any), import
+ * the uploaded archive (if any) and create the owner, then import the uploaded
+ * WordPress export (if any). Skipped for databases cloned from a template.
+ */
+async function runBootstrapStep(
+  job: ProvisioningJobRecord,
+  context: ProvisioningJobContext
+): Promise<void> {
+  if (context.cloned) {
+    console.log(`[Provisioning] Database for ${job.site_id} was cloned, skipping bootstrap`);
+    return;
+  }
+
+  const dbConfig = getSiteDbConfig(job.site_id);
+  const options = {
+    siteId: job.site_id,
+    profile: job.profile || undefined,
+    firebaseUid: job.user_id,
+    ownerEmail: job.owner_email || undefined,
+    ownerName: job.owner_name || undefined,
+  };
+
+  await timed(job, 'bootstrap', 'migrations_applied', () => siteBootstrap.runMigrations(dbConfig, options));
+  await timed(job, 'bootstrap', 'profile_seeded', () => siteBootstrap.runSeed(dbConfig, options.profile));
+
+  if (job.import_key) {
+    const importKey = job.import_key;
+    const archive = await siteArchiveService.loadArchiveUpload(importKey);
+
+    await timed(job, 'bootstrap', 'archive_imported', () =>
+      siteArchiveService.importSiteArchive(dbConfig, archive)
+    );
+    // The archive's owner rows become the new owner's
+    await timed(job, 'bootstrap', 'owner_rewritten', () =>
+      databaseService.updateDatabaseOwner(
+        job.site_id,
+        job.user_id,
+        job.owner_email || undefined,
+        job.owner_name || undefined,
+        archive.site.ownerId
+      )
+    );
+
+    await siteArchiveService.deleteArchiveUpload(importKey).catch((error) => {
+      console.error(`[Provisioning] Failed to delete imported archive ${importKey}:`, error);
+    });
+    return;
+  }
+
+  await timed(job, 'bootstrap', 'owner_rewritten', () => siteBootstrap.createOwnerUser(dbConfig, options));
+
+  if (job.wordpress_import_id) {
+    const record = await masterDbService.getWordPressImportById(job.wordpress_import_id);
+    // Items that fail are in the import log, the site is created either way
+    if (record) {
+      await timed(job, 'bootstrap', 'wordpress_imported', () =>
+        wordpressImportService.runImport(record, dbConfig, job.user_id)
+      );
+    }
+  }
+}
+
+/**
+ * Step 3: apply the theme picked in the builder (skipped if none was sent)
+ */
+async function runThemeStep(
+  job: ProvisioningJobRecord,
+  _context: ProvisioningJobContext
+): Promise<void> {
+  if (!job.theme) {
+    return;
+  }
+
+  await timed(job, 'theme', 'theme_applied', () =>
+    themeService.updateSiteTheme(job.site_id, job.theme as SiteThemeInput)
+  );
+}
+
+/**
+ * Step 4: register the site for routing (master_sites, or a Render service in single-tenant mode)
+ */
+async function runRegisterStep(
+  job: ProvisioningJobRecord,
+  context: ProvisioningJobContext
+): Promise<void> {
+  const siteId = job.site_id;
+
+  if (MULTI_TENANT) {
+    const dbConfig = getSiteDbConfig(siteId);
+
+    await timed(job, 'register', 'routing_registered', async () => {
+      // The site gets its own login role owning its database (named after the job: stable across retries)
+      const masterSite = await masterDbService.getMasterSiteBySiteId(siteId);
+      const dbUser = masterSite && !databaseService.isSharedDatabaseUser(masterSite.db_user)
+        ? masterSite.db_user
+        : databaseService.getSiteRoleName(dbConfig.database, job.id);
+      const dbPassword = databaseService.generateDatabasePassword();
+      await databaseService.createSiteRole(dbUser, dbPassword);
+      await databaseService.assignDatabaseToRole(dbConfig.database, dbUser);
+
+      await masterDbService.registerMasterSite({
+        siteId,
+        siteName: job.site_name,
+        domain: `${siteId}.${config.baseDomain}`,
+        userId: job.user_id,
+        dbHost: dbConfig.host,
+        dbPort: dbConfig.port,
+        dbName: dbConfig.database,
+        dbUser,
+        dbPassword,
+      });
+      await masterDbService.markMasterSiteBootstrapped(siteId);
+      await storageQuotaService.syncSiteQuota(siteId);
+    });
+    return;
+  }
+
+  // Single-tenant mode: create separate Render service (only once, even if the step is retried)
+  await timed(job, 'register', 'routing_registered', async () => {
+    if (!context.renderServiceId) {
+      const service = await renderService.createSiteService({
+        siteId,
+        siteName: job.site_name,
+        userId: job.user_id,
+        databaseUrl: databaseService.getDatabaseUrl(siteId),
+      });
+
+      context.renderServiceId = service.id;
+      context.renderUrl = `https://${service.slug}.onrender.com`;
+      console.log(`[Provisioning] Render service created: ${service.id} - ${context.renderUrl}`);
+    }
+
+    await sitesService.updateSiteRenderInfo(job.site_doc_id, context.renderServiceId, context.renderUrl!);
+  });
+}
+
+/**
+ * Step 5: mark the site active (waits for the Render deploy in single-tenant mode)
+ */
+async function runActivateStep(
+  job: ProvisioningJobRecord,
+  context: ProvisioningJobContext
+): Promise<void> {
+  if (MULTI_TENANT) {
+    const workerUrl = process.env.MULTI_TENANT_WORKER_URL || `https://${config.baseDomain}`;
+    await timed(job, 'activate', 'site_activated', async () => {
+      await sitesService.updateSiteRenderInfo(job.site_doc_id, 'multi-tenant', workerUrl);
+      await sitesService.setSiteActive(job.site_doc_id);
+    });
+    console.log(`[Provisioning] Site ${job.site_id} registered in multi-tenant mode at ${job.site_id}.${config.baseDomain}`);
+    return;
+  }
+
+  const service = await renderService.getServiceStatus(context.renderServiceId!);
+  if (service.suspended !== 'not_suspended') {
+    throw new StepPendingError('Render service is still deploying', RENDER_POLL_INTERVAL_MS, RENDER_MAX_POLLS);
+  }
+
+  await timed(job, 'activate', 'site_activated', () => sitesService.setSiteActive(job.site_doc_id));
+}
+
+const stepHandlers: Record<
+  ProvisioningStep,
+  (job: ProvisioningJobRecord, context: ProvisioningJobContext) => Promise<void>
+> = {
+  database: runDatabaseStep,
+  bootstrap: runBootstrapStep,
+  theme: runThemeStep,
+  register: runRegisterStep,
+  activate: runActivateStep,
+};
+
+/**
+ * Run the remaining steps of a claimed job until it completes or a step fails
+ */
+async function processJob(job: ProvisioningJobRecord): Promise<void> {
+  const context: ProvisioningJobContext = { ...job.context };
+  const remaining = PROVISIONING_STEPS.filter((step) => !job.completed_steps.includes(step));
+
+  console.log(`[Provisioning] Processing job ${job.id} for site ${job.site_id}, remaining steps: ${remaining.join(', ') || 'none'}`);
+
+  for (let i = 0; i < remaining.length; i++) {
+    const step = remaining[i];
+
+    try {
+      console.log(`[Provisioning] Running step '${step}' for site ${job.site_id} (attempt ${job.attempts + 1})`);
+      await stepHandlers[step](job, context);
+      await masterDbService.completeProvisioningStep(job.id, step, remaining[i + 1] || null, context);
+      job.attempts = 0;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const attempts = job.attempts + 1;
+
+      const isPending = error instanceof StepPendingError;
+      const maxAttempts = isPending ? error.maxPolls : config.provisioning.maxAttempts;
+
+      // Waiting on Render is not a failure, only report real errors to the progress stream
+      if (!isPending) {
+        await masterDbService.recordProvisioningEvent({
+          jobId: job.id,
+          siteId: job.site_id,
+          step,
+          event: 'step_failed',
+          attempt: attempts,
+          error: message,
+        });
+      }
+
+      if (attempts >= maxAttempts) {
+        console.error(`[Provisioning] Step '${step}' failed permanently for site ${job.site_id}:`, error);
+        // Record the final event before finishing so stream readers never see a finished job without it
+        await masterDbService.recordProvisioningEvent({
+          jobId: job.id,
+          siteId: job.site_id,
+          step,
+          event: 'job_failed',
+          attempt: attempts,
+          error: message,
+        });
+        await masterDbService.finishProvisioningJob(job.id, 'failed', { step, error: message });
+        await sitesService.setSiteError(job.site_doc_id);
+        return;
+      }
+
+      const delay = isPending ? error.retryAfterMs : getBackoffDelay(attempts);
+      if (isPending) {
+        console.log(`[Provisioning] Step '${step}' pending for site ${job.site_id}, checking again in ${delay}ms`);
+      } else {
+        console.error(`[Provisioning] Step '${step}' failed for site ${job.site_id} (attempt ${attempts}/${maxAttempts}), retrying in ${delay}ms:`, error);
+      }
+      await masterDbService.scheduleProvisioningRetry(
+        job.id,
+        step,
+        attempts,
+        new Date(Date.now() + delay),
+        message
+      );
+      return;
+    }
+  }
+
+  await masterDbService.recordProvisioningEvent({
+    jobId: job.id,
+    siteId: job.site_id,
+    event: 'job_completed',
+    durationMs: Date.now() - new Date(job.created_at).getTime(),
+  });
+  await masterDbService.finishProvisioningJob(job.id, 'completed');
+  console.log(`[Provisioning] Job ${job.id} completed, site ${job.site_id} is active`);
+}
+
+let running = false;
+
+/**
+ * Claim and process due jobs until none are left
+ */
+async function runDueJobs(): Promise<void> {
+  // Jobs are processed one at a time per API process
+  if (running) return;
+  running = true;
+
+  try {
+    let job = await masterDbService.claimNextProvisioningJob(WORKER_ID, config.provisioning.lockTimeoutMs);
+    while (job) {
+      await processJob(job);
+      job = await masterDbService.claimNextProvisioningJob(WORKER_ID, config.provisioning.lockTimeoutMs);
+    }
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Start the provisioning worker (picks up jobs left over from a previous run)
+ */
+export function startProvisioningWorker(): void {
+  console.log(`[Provisioning] Worker ${WORKER_ID} started (poll interval: ${config.provisioning.pollIntervalMs}ms)`);
+
+  const tick = () => {
+    runDueJobs().catch((error) => console.error('[Provisioning] Worker run failed:', error));
+  };
+
+  tick();
+  setInterval(tick, config.provisioning.pollIntervalMs);
+}
@@ -0,0 +1,143 @@
+/**
+ * Secrets Service - Envelope encryption of secrets kept in the master database
+ *
+ * A record's secret columns are encrypted (AES-256-GCM) with a random data key
+ * of its own. The data key is stored wrapped with a master key, next to the ID
+ * of that master key. Master keys come from config.secrets.masterKeys
+ * ("id:base64key,..." with 32-byte keys); new data keys are wrapped with the
+ * active one. Rotating the master key only re-wraps the data keys
+ * (scripts/reencryptSecrets.ts), the encrypted values stay as they are.
+ *
+ * The routing worker decrypts the master_sites secrets itself: the format is
+ * its contract (see MasterSiteRecord in masterDb.ts).
+ */
+
+import crypto from 'crypto';
+import { config } from '../config/index.js';
+
+const ALGORITHM = 'aes-256-gcm';
+const FORMAT_VERSION = 'v1';
+
+export interface WrappedDataKey {
+  keyId: string;
+  wrappedKey: string;
+}
+
+let masterKeys: Map<string, Buffer> | null = null;
+
+/**
+ * Configured master keys by ID (throws if none or one is malformed)
+ */
+function getMasterKeys(): Map<string, Buffer> {
+  if (!masterKeys) {
+    const keys = new Map<string, Buffer>();
+
+    for (const entry of config.secrets.masterKeys.split(',').map((value) => value.trim()).filter(Boolean)) {
+      const separator = entry.indexOf(':');
+      const keyId = entry.slice(0, separator);
+      const key = Buffer.from(entry.slice(separator + 1), 'base64');
+      if (separator <= 0 || key.length !== 32) {
+        throw new Error('SECRETS_MASTER_KEYS entries must be id:key with a base64 encoded 32-byte key');
+      }
+      keys.set(keyId, key);
+    }
+
+    if (keys.size === 0) {
+      throw new Error('SECRETS_MASTER_KEYS is not configured');
+    }
+    masterKeys = keys;
+  }
+  return masterKeys;
+}
+
+/**
+ * ID of the master key new data keys are wrapped with (the last configured one unless set)
+ */
+export function getActiveKeyId(): string {
+  const keys = getMasterKeys();
+  const keyId = config.secrets.activeKeyId || Array.from(keys.keys()).pop()!;
+  if (!keys.has(keyId)) {
+    throw new Error(`Active master key ${keyId} is not in SECRETS_MASTER_KEYS`);
+  }
+  return keyId;
+}
+
+/**
+ * Check the master keys at boot, so a missing or malformed key stops the API
+ * before it stores or reads any secret (throws like getActiveKeyId)
+ */
+export function assertMasterKeysConfigured(): void {
+  getActiveKeyId();
+}
+
+function getMasterKey(keyId: string): Buffer {
+  const key = getMasterKeys().get(keyId);
+  if (!key) {
+    throw new Error(`Master key ${keyId} is not configured`);
+  }
+  return key;
+}
+
+/**
+ * Encrypt with AES-256-GCM, returns v1:iv:tag:ciphertext (base64 parts).
+ * The associated data binds the ciphertext to where it is used.
+ */
+function encrypt(key: Buffer, plaintext: Buffer, associatedData: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(associatedData));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return [FORMAT_VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => (typeof part === 'string' ? part : part.toString('base64')))
+    .join(':');
+}
+
+function decrypt(key: Buffer, value: string, associatedData: string): Buffer {
+  const [version, iv, tag, ciphertext] = value.split(':');
+  if (version !== FORMAT_VERSION || ciphertext === undefined) {
+    throw new Error(`Unsupported encrypted value (${version})`);
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+  decipher.setAAD(Buffer.from(associatedData));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]);
+}
+
+/**
+ * Wrap a data key with the active master key
+ */
+export function wrapDataKey(dataKey: Buffer): WrappedDataKey {
+  const keyId = getActiveKeyId();
+  return { keyId, wrappedKey: encrypt(getMasterKey(keyId), dataKey, `data-key:${keyId}`) };
+}
+
+/**
+ * Unwrap a stored data key (throws if its master key is not configured)
+ */
+export function unwrapDataKey({ keyId, wrappedKey }: WrappedDataKey): Buffer {
+  return decrypt(getMasterKey(keyId), wrappedKey, `data-key:${keyId}`);
+}
+
+/**
+ * New random data key, with its wrapped form to store
+ */
+export function createDataKey(): { dataKey: Buffer; wrapped: WrappedDataKey } {
+  const dataKey = crypto.randomBytes(32);
+  return { dataKey, wrapped: wrapDataKey(dataKey) };
+}
+
+/**
+ * Encrypt a secret with a data key. name (e.g. the column) must be the same to decrypt.
+ */
+export function encryptSecret(dataKey: Buffer, name: string, value: string): string {
+  return encrypt(dataKey, Buffer.from(value, 'utf-8'), name);
+}
+
+/**
+ * Decrypt a secret encrypted with encryptSecret
+ */
+export function decryptSecret(dataKey: Buffer, name: string, value: string): string {
+  return decrypt(dataKey, value, name).toString('utf-8');
+}
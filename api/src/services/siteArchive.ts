@@ -0,0 +1,292 @@
+/**
+ * Site Archive Service - Portable export/import of a whole site
+ *
+ * An archive is a single gzipped JSON document (format 'lunasites-site',
+ * versioned) with the rows of every table that makes up a site: users, groups
+ * and roles, custom types, controlpanels (including the 'site' theme data),
+ * the document tree with its versions, redirects, local roles, catalog and
+ * blobs. Binary columns (blob.data) are base64 encoded.
+ *
+ * Archives are imported into a freshly bootstrapped database (migrations and
+ * profiles seeded, see provisioning.runBootstrapStep): the archive content
+ * replaces the seeded content, profile data it does not carry (workflows,
+ * permissions, behaviors) stays as seeded.
+ */
+
+import crypto from 'crypto';
+import { constants as bufferConstants } from 'buffer';
+import { Readable } from 'stream';
+import { gzipSync, gunzipSync } from 'zlib';
+import _ from 'lodash';
+import { config } from '../config/index.js';
+import * as siteBootstrap from './siteBootstrap.js';
+import * as tenantConnections from './tenantConnections.js';
+import { getBlobStore } from './blobStore.js';
+import type { Knex } from 'knex';
+import type { DatabaseConfig } from './siteBootstrap.js';
+import type { Site } from './sites.js';
+
+export const ARCHIVE_FORMAT = 'lunasites-site';
+export const ARCHIVE_VERSION = 1;
+
+// Rows inserted per statement on import
+const IMPORT_CHUNK_SIZE = 100;
+
+// Largest decompressed archive, as a multiple of the largest upload (archive JSON compresses about 5-10x)
+const MAX_UNPACKED_FACTOR = 10;
+
+type ArchiveRow = Record<string, unknown>;
+
+export interface SiteArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  site: {
+    siteId: string;
+    name: string;
+    // Site owner (user row) at export time
+    ownerId: string;
+  };
+  // Migrations applied to the source database (all must be known to the importing API)
+  migrations: string[];
+  tables: Record<string, ArchiveRow[]>;
+}
+
+/**
+ * Thrown for uploads that are not a usable site archive
+ */
+export class InvalidArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidArchiveError';
+  }
+}
+
+interface ArchiveTable {
+  name: string;
+  // Primary key, used to resolve rows that already exist after seeding
+  key: string[];
+  onConflict: 'merge' | 'ignore';
+  // Rows referencing seeded data that does not exist in the target are skipped
+  requires?: { column: string; table: string; key: string };
+}
+
+// In import order: rows come after the rows they reference
+const ARCHIVE_TABLES: ArchiveTable[] = [
+  { name: 'user', key: ['id'], onConflict: 'merge' },
+  { name: 'group', key: ['id'], onConflict: 'merge' },
+  { name: 'role', key: ['id'], onConflict: 'merge' },
+  {
+    name: 'role_permission',
+    key: ['role', 'permission'],
+    onConflict: 'ignore',
+    requires: { column: 'permission', table: 'permission', key: 'id' },
+  },
+  { name: 'group_role', key: ['group', 'role'], onConflict: 'ignore' },
+  { name: 'user_role', key: ['user', 'role'], onConflict: 'ignore' },
+  { name: 'user_group', key: ['user', 'group'], onConflict: 'ignore' },
+  // Custom types only: types seeded from the profiles are kept as they are
+  {
+    name: 'type',
+    key: ['id'],
+    onConflict: 'ignore',
+    requires: { column: 'workflow', table: 'workflow', key: 'id' },
+  },
+  { name: 'controlpanel', key: ['id'], onConflict: 'merge' },
+  { name: 'document', key: ['uuid'], onConflict: 'merge' },
+  { name: 'version', key: ['document', 'version'], onConflict: 'merge' },
+  { name: 'redirect', key: ['document', 'path'], onConflict: 'ignore' },
+  { name: 'user_role_document', key: ['user', 'role', 'document'], onConflict: 'ignore' },
+  { name: 'group_role_document', key: ['group', 'role', 'document'], onConflict: 'ignore' },
+  { name: 'catalog', key: ['document'], onConflict: 'merge' },
+  { name: 'blob', key: ['uuid'], onConflict: 'merge' },
+];
+
+/**
+ * Migration name without its extension (.js when built, .ts in development)
+ */
+function migrationName(name: string): string {
+  return name.replace(/\.(js|ts)$/, '');
+}
+
+/**
+ * Make a database row JSON-safe (binary values become { $base64 })
+ */
+function encodeRow(row: ArchiveRow): ArchiveRow {
+  return _.mapValues(row, (value) =>
+    Buffer.isBuffer(value) ? { $base64: value.toString('base64') } : value
+  );
+}
+
+/**
+ * Turn an archive row back into insertable values for the target table's columns
+ */
+function decodeRow(row: ArchiveRow, columns: Record<string, Knex.ColumnInfo>): ArchiveRow {
+  const decoded: ArchiveRow = {};
+
+  for (const [column, value] of Object.entries(row)) {
+    // Columns the target schema does not have (e.g. catalog indexes of another profile)
+    if (!columns[column]) continue;
+
+    if (value && typeof value === 'object' && '$base64' in value) {
+      decoded[column] = Buffer.from(String((value as { $base64: string }).$base64), 'base64');
+    } else if (value !== null && (columns[column].type === 'jsonb' || columns[column].type === 'json')) {
+      // pg would turn JS arrays into Postgres arrays
+      decoded[column] = JSON.stringify(value);
+    } else {
+      decoded[column] = value;
+    }
+  }
+
+  return decoded;
+}
+
+/**
+ * Export a site as a gzipped archive
+ */
+export async function exportSiteArchive(site: Site): Promise<Buffer> {
+  console.log(`[Archive] Exporting ${site.siteId}`);
+
+  const { migrations, tables } = await tenantConnections.withTenantClient(site.siteId, async (client) => {
+    const migrationRows = await client.query('SELECT name FROM knex_migrations ORDER BY id');
+    const tables: Record<string, ArchiveRow[]> = {};
+    for (const table of ARCHIVE_TABLES) {
+      const result = await client.query(`SELECT * FROM "${table.name}"`);
+      tables[table.name] = result.rows.map(encodeRow);
+    }
+    return { migrations: migrationRows.rows.map((row) => row.name as string), tables };
+  });
+
+  const archive: SiteArchive = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    site: { siteId: site.siteId, name: site.name, ownerId: site.userId },
+    migrations: migrations.map(migrationName),
+    tables,
+  };
+
+  const data = gzipSync(JSON.stringify(archive));
+  console.log(`[Archive] Exported ${site.siteId}: ${tables.document.length} documents, ${tables.blob.length} blobs, ${data.length} bytes`);
+
+  return data;
+}
+
+/**
+ * Read and validate an uploaded archive (throws InvalidArchiveError)
+ */
+export function parseSiteArchive(data: Buffer): SiteArchive {
+  // Capped: a small gzip bomb must not decompress into all the memory there is
+  const maxOutputLength = Math.min(
+    config.archive.maxUploadMb * MAX_UNPACKED_FACTOR * 1024 * 1024,
+    bufferConstants.MAX_STRING_LENGTH
+  );
+
+  let archive: SiteArchive;
+  try {
+    archive = JSON.parse(gunzipSync(data, { maxOutputLength }).toString('utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new InvalidArchiveError(`The archive is too large once decompressed (over ${Math.floor(maxOutputLength / (1024 * 1024))} MB)`);
+    }
+    throw new InvalidArchiveError('The file is not a site archive');
+  }
+
+  if (archive?.format !== ARCHIVE_FORMAT || typeof archive.tables !== 'object' || !archive.site?.ownerId) {
+    throw new InvalidArchiveError('The file is not a site archive');
+  }
+
+  if (typeof archive.version !== 'number' || archive.version > ARCHIVE_VERSION) {
+    throw new InvalidArchiveError(`Archive version ${archive.version} is not supported (up to ${ARCHIVE_VERSION})`);
+  }
+
+  if (!Array.isArray(archive.tables.document) || archive.tables.document.length === 0) {
+    throw new InvalidArchiveError('The archive contains no documents');
+  }
+
+  const known = new Set(siteBootstrap.listMigrations());
+  const unknown = (archive.migrations || []).filter((name) => !known.has(name));
+  if (unknown.length > 0) {
+    throw new InvalidArchiveError(`The archive was exported from a newer version (unknown migrations: ${unknown.join(', ')})`);
+  }
+
+  return archive;
+}
+
+/**
+ * Keep an uploaded archive in the blob store until provisioning imports it, returns its key
+ */
+export async function saveArchiveUpload(siteId: string, data: Buffer): Promise<string> {
+  const key = `imports/${siteId}/${crypto.randomUUID()}.json.gz`;
+  await getBlobStore().put(key, Readable.from([data]));
+  return key;
+}
+
+/**
+ * Read an uploaded archive back from the blob store
+ */
+export async function loadArchiveUpload(key: string): Promise<SiteArchive> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of await getBlobStore().get(key)) {
+    chunks.push(chunk as Buffer);
+  }
+  return parseSiteArchive(Buffer.concat(chunks));
+}
+
+/**
+ * Delete an uploaded archive once it was imported
+ */
+export async function deleteArchiveUpload(key: string): Promise<void> {
+  await getBlobStore().delete(key);
+}
+
+/**
+ * Import an archive into a freshly bootstrapped site database, replacing the seeded content.
+ * Runs in one transaction.
+ */
+export async function importSiteArchive(dbConfig: DatabaseConfig, archive: SiteArchive): Promise<void> {
+  const db = siteBootstrap.createKnexInstance(dbConfig);
+
+  try {
+    console.log(`[Archive] Importing ${archive.site.siteId} (exported ${archive.exportedAt}) into ${dbConfig.database}`);
+
+    await db.transaction(async (trx) => {
+      // Seeded content and users make way for the archive's (cascades to versions, catalog, local roles)
+      await trx('document').del();
+      await trx('blob').del();
+      await trx('user').del();
+
+      for (const table of ARCHIVE_TABLES) {
+        const archived = archive.tables[table.name] || [];
+        if (archived.length === 0) continue;
+
+        const columns = await trx(table.name).columnInfo();
+        let rows = archived.map((row) => decodeRow(row, columns));
+
+        if (table.requires) {
+          const { column, table: referenced, key } = table.requires;
+          const existing = new Set(await trx(referenced).pluck(key));
+          rows = rows.filter((row) => existing.has(row[column]));
+        }
+
+        if (table.name === 'document') {
+          // Parents before children
+          rows = _.sortBy(rows, (row) => String(row.path).length);
+        }
+
+        for (const chunk of _.chunk(rows, IMPORT_CHUNK_SIZE)) {
+          const query = trx(table.name).insert(chunk).onConflict(table.key);
+          await (table.onConflict === 'merge' ? query.merge() : query.ignore());
+        }
+
+        if (rows.length < archived.length) {
+          console.warn(`[Archive] Skipped ${archived.length - rows.length} ${table.name} row(s) referencing missing ${table.requires?.table} rows`);
+        }
+      }
+    });
+
+    console.log(`[Archive] Imported ${archive.tables.document.length} documents into ${dbConfig.database}`);
+  } finally {
+    await db.destroy();
+  }
+}
@@ -21,6 +21,10 @@ const __dirname = dirname(__filename);
 const MIGRATIONS_DIR = join(__dirname, '../migrations');
 const PROFILES_DIR = join(__dirname, '../profiles');
 
+// Profiles every site gets; a starter profile is seeded on top of them
+const BASE_PROFILES = ['core', 'default'];
+export const DEFAULT_PROFILE = 'default';
+
 // Schema types (from Nick)
 interface Fieldset {
   id: string;
@@ -40,7 +44,7 @@ interface Property {
   [key: string]: any;
 }
 
-interface Schema {
+export interface Schema {
   fieldsets?: Fieldset[];
   properties?: { [key: string]: Property };
   required?: string[];
@@ -48,7 +52,7 @@ interface Schema {
   layouts?: string[];
 }
 
-interface BehaviorData {
+export interface BehaviorData {
   id: string;
   title: string;
   description: string;
@@ -147,8 +151,8 @@ let behaviorCache: Map<string, BehaviorData> = new Map();
 /**
  * Recursively fetch schema for a behavior (same as Nick's Behavior.fetchSchema)
  */
-function fetchBehaviorSchema(behaviorId: string): Schema {
-  const behavior = behaviorCache.get(behaviorId);
+function fetchBehaviorSchema(behaviorId: string, behaviors: Map<string, BehaviorData>): Schema {
+  const behavior = behaviors.get(behaviorId);
   if (!behavior) {
     console.warn(`[Bootstrap] Behavior not found: ${behaviorId}`);
     return { fieldsets: [], properties: {}, required: [], behaviors: [], layouts: [] };
@@ -160,7 +164,7 @@ function fetchBehaviorSchema(behaviorId: string): Schema {
   if (schema.behaviors && schema.behaviors.length > 0) {
     const subSchemas = schema.behaviors.map(subId => ({
       name: subId,
-      data: fetchBehaviorSchema(subId),
+      data: fetchBehaviorSchema(subId, behaviors),
     }));
 
     return mergeSchemas(
@@ -175,12 +179,15 @@ function fetchBehaviorSchema(behaviorId: string): Schema {
 /**
  * Compute _schema for a type (same as Nick's Type.cacheSchema)
  */
-function computeTypeSchema(typeSchema: Schema): Schema {
+export function computeTypeSchema(
+  typeSchema: Schema,
+  behaviors: Map<string, BehaviorData> = behaviorCache
+): Schema {
   if (typeSchema.behaviors && typeSchema.behaviors.length > 0) {
     // Fetch schemas for all behaviors
     const behaviorSchemas = typeSchema.behaviors.map(behaviorId => ({
       name: behaviorId,
-      data: fetchBehaviorSchema(behaviorId),
+      data: fetchBehaviorSchema(behaviorId, behaviors),
     }));
 
     // Merge: default + behaviors + type's own schema
@@ -210,7 +217,7 @@ function computeTypeSchema(typeSchema: Schema): Schema {
   return typeSchema;
 }
 
-interface DatabaseConfig {
+export interface DatabaseConfig {
   host: string;
   port: number;
   database: string;
@@ -220,6 +227,8 @@ interface DatabaseConfig {
 
 interface BootstrapOptions {
   siteId: string;
+  // Starter profile seeded on top of core + default (see listStarterProfiles)
+  profile?: string;
   firebaseUid?: string;
   ownerEmail?: string;
   ownerName?: string;
@@ -228,7 +237,7 @@ interface BootstrapOptions {
 /**
  * Create a Knex instance for the given database config
  */
-function createKnexInstance(dbConfig: DatabaseConfig): Knex {
+export function createKnexInstance(dbConfig: DatabaseConfig): Knex {
   return knex({
     client: 'pg',
     connection: {
@@ -247,25 +256,102 @@ function createKnexInstance(dbConfig: DatabaseConfig): Knex {
 }
 
 /**
- * Run database migrations for a site
+ * Run database migrations for a site, returns the names of the migrations applied
  */
 export async function runMigrations(
   dbConfig: DatabaseConfig,
   _options: BootstrapOptions
-): Promise<void> {
+): Promise<string[]> {
   const db = createKnexInstance(dbConfig);
 
   try {
     console.log(`[Bootstrap] Running migrations for database: ${dbConfig.database}`);
 
     // Run migrations using Knex's migrate API
-    await db.migrate.latest({
+    const [, applied] = await db.migrate.latest({
       directory: MIGRATIONS_DIR,
       tableName: 'knex_migrations',
       loadExtensions: ['.js'],
     });
 
     console.log(`[Bootstrap] Migrations completed for: ${dbConfig.database}`);
+    return (applied as string[]).map((file) => file.replace(/\.(js|ts)$/, ''));
+  } finally {
+    await db.destroy();
+  }
+}
+
+/**
+ * Names of the migrations not applied to a site database yet (read-only)
+ */
+export async function listPendingMigrations(dbConfig: DatabaseConfig): Promise<string[]> {
+  const db = createKnexInstance(dbConfig);
+
+  try {
+    if (!(await db.schema.hasTable('knex_migrations'))) {
+      return listMigrations();
+    }
+
+    const [, pending] = await db.migrate.list({
+      directory: MIGRATIONS_DIR,
+      tableName: 'knex_migrations',
+      loadExtensions: ['.js'],
+    });
+    return (pending as Array<{ file: string }>).map(({ file }) => file.replace(/\.(js|ts)$/, ''));
+  } finally {
+    await db.destroy();
+  }
+}
+
+/**
+ * Names of the migrations this API ships (without extension)
+ */
+export function listMigrations(): string[] {
+  return readdirSync(MIGRATIONS_DIR)
+    .filter((file) => /\.(js|ts)$/.test(file) && !file.endsWith('.d.ts'))
+    .map((file) => file.replace(/\.(js|ts)$/, ''))
+    .sort();
+}
+
+export interface BootstrapStatus {
+  // All migrations in MIGRATIONS_DIR are recorded in knex_migrations
+  migrationsApplied: boolean;
+  // Profiles were seeded (seeding runs in a single transaction, so any type means it completed)
+  seeded: boolean;
+  ownerExists: boolean;
+}
+
+/**
+ * Inspect how far bootstrap got for a site database (read-only)
+ */
+export async function getBootstrapStatus(
+  dbConfig: DatabaseConfig,
+  firebaseUid?: string
+): Promise<BootstrapStatus> {
+  const db = createKnexInstance(dbConfig);
+
+  try {
+    let migrationsApplied = false;
+    if (await db.schema.hasTable('knex_migrations')) {
+      const [, pending] = await db.migrate.list({
+        directory: MIGRATIONS_DIR,
+        tableName: 'knex_migrations',
+        loadExtensions: ['.js'],
+      });
+      migrationsApplied = pending.length === 0;
+    }
+
+    let seeded = false;
+    if (await db.schema.hasTable('type')) {
+      seeded = !!(await db('type').first('id'));
+    }
+
+    let ownerExists = false;
+    if (firebaseUid && await db.schema.hasTable('user')) {
+      ownerExists = !!(await db('user').where('id', firebaseUid).first('id'));
+    }
+
+    return { migrationsApplied, seeded, ownerExists };
   } finally {
     await db.destroy();
   }
@@ -283,33 +369,227 @@ function loadProfileJson(profilePath: string, filename: string): any {
   return null;
 }
 
+export interface StarterProfile {
+  // Directory name in profiles/, sent as `profile` when creating a site
+  id: string;
+  title: string;
+  description: string;
+  // Builder category the profile is meant for (null for the default profile)
+  category: string | null;
+  version: number;
+}
+
+/**
+ * Starter profiles available for new sites (the default profile first)
+ */
+export function listStarterProfiles(): StarterProfile[] {
+  const ids = readdirSync(PROFILES_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && entry.name !== 'core')
+    .map((entry) => entry.name)
+    .sort((a, b) => Number(b === DEFAULT_PROFILE) - Number(a === DEFAULT_PROFILE) || a.localeCompare(b));
+
+  const profiles: StarterProfile[] = [];
+  for (const id of ids) {
+    const metadata = loadProfileJson(join(PROFILES_DIR, id), 'metadata');
+    if (!metadata) continue;
+
+    profiles.push({
+      id,
+      title: metadata.title,
+      description: metadata.description || '',
+      category: metadata.category || null,
+      version: metadata.version,
+    });
+  }
+  return profiles;
+}
+
+/**
+ * Get a starter profile by ID (null if there is none)
+ */
+export function getStarterProfile(id: string): StarterProfile | null {
+  return listStarterProfiles().find((profile) => profile.id === id) || null;
+}
+
+/**
+ * Starter profile a site was seeded with, from the IDs in its profile table
+ */
+export function findInstalledStarterProfile(installedIds: string[]): string {
+  const starter = listStarterProfiles().find((profile) =>
+    profile.id !== DEFAULT_PROFILE &&
+    installedIds.includes(loadProfileJson(join(PROFILES_DIR, profile.id), 'metadata').id)
+  );
+  return starter?.id || DEFAULT_PROFILE;
+}
+
+/**
+ * Profiles seeded for a starter profile, in order
+ */
+function getProfileLayers(profile: string): string[] {
+  if (!getStarterProfile(profile)) {
+    throw new Error(`Unknown profile: ${profile}`);
+  }
+  return profile === DEFAULT_PROFILE ? BASE_PROFILES : [...BASE_PROFILES, profile];
+}
+
+export type ProfileDefinitionTable = 'behavior' | 'type' | 'controlpanel' | 'action' | 'index';
+
+export interface ProfileDefinitions {
+  profiles: Array<{ id: string; title: string; description: string; version: number }>;
+  // Rows as runSeed inserts them (JSON columns not stringified, types without _schema), by ID
+  rows: Record<ProfileDefinitionTable, Map<string, Record<string, any>>>;
+}
+
+/**
+ * Read the definitions of a site's profiles (later profiles win, like runSeed)
+ */
+export function loadProfileDefinitions(profile: string = DEFAULT_PROFILE): ProfileDefinitions {
+  const definitions: ProfileDefinitions = {
+    profiles: [],
+    rows: {
+      behavior: new Map(),
+      type: new Map(),
+      controlpanel: new Map(),
+      action: new Map(),
+      index: new Map(),
+    },
+  };
+  const readDir = (dir: string) => existsSync(dir)
+    ? readdirSync(dir).filter(f => f.endsWith('.json')).map(f => stripI18n(JSON.parse(readFileSync(join(dir, f), 'utf-8'))))
+    : [];
+
+  for (const layer of getProfileLayers(profile)) {
+    const profilePath = join(PROFILES_DIR, layer);
+    const { rows } = definitions;
+
+    const metadata = loadProfileJson(profilePath, 'metadata');
+    if (metadata) {
+      definitions.profiles.push({
+        id: metadata.id,
+        title: metadata.title,
+        description: metadata.description,
+        version: metadata.version,
+      });
+    }
+
+    for (const behaviorData of readDir(join(profilePath, 'behaviors'))) {
+      rows.behavior.set(behaviorData.id, {
+        id: behaviorData.id,
+        title: behaviorData.title || behaviorData.id,
+        description: behaviorData.description || '',
+        schema: behaviorData.schema || {},
+      });
+    }
+
+    for (const typeData of readDir(join(profilePath, 'types'))) {
+      rows.type.set(typeData.id, {
+        id: typeData.id,
+        title: typeData.title || typeData.id,
+        description: typeData.description || '',
+        global_allow: typeData.global_allow ?? true,
+        filter_content_types: typeData.filter_content_types ?? false,
+        allowed_content_types: typeData.allowed_content_types || [],
+        schema: typeData.schema || {},
+        workflow: typeData.workflow || 'simple_publication_workflow',
+      });
+    }
+
+    for (const cpData of readDir(join(profilePath, 'controlpanels'))) {
+      const base = rows.controlpanel.get(cpData.id);
+      if (base && !cpData.schema) {
+        rows.controlpanel.set(cpData.id, { ...base, data: { ...base.data, ...cpData.data } });
+        continue;
+      }
+      rows.controlpanel.set(cpData.id, {
+        id: cpData.id,
+        title: cpData.title || cpData.id,
+        group: cpData.group || 'General',
+        schema: cpData.schema || {},
+        data: cpData.data || {},
+      });
+    }
+
+    const actionsData = loadProfileJson(profilePath, 'actions');
+    for (const category of ['object', 'site_actions', 'object_buttons', 'user']) {
+      const actions = actionsData?.[category] || [];
+      actions.forEach((action: any, i: number) => {
+        rows.action.set(action.id, {
+          id: action.id,
+          title: action.title || action.id,
+          category,
+          order: action.order ?? i,
+          permission: action.permission || 'View',
+        });
+      });
+    }
+
+    const catalogData = loadProfileJson(profilePath, 'catalog');
+    for (const index of catalogData?.indexes || []) {
+      rows.index.set(`_${index.name}`, {
+        id: `_${index.name}`,
+        name: index.name,
+        title: index.title || index.name,
+        type: index.type,
+        attr: index.attr || null,
+        metadata: false,
+        description: index.description || '',
+        group: index.group || null,
+        enabled: index.enabled ?? true,
+        sortable: index.sortable ?? false,
+        operators: index.operators || {},
+        vocabulary: index.vocabulary || null,
+      });
+    }
+    for (const meta of catalogData?.metadata || []) {
+      rows.index.set(meta.name, {
+        id: meta.name,
+        name: meta.name,
+        type: meta.type,
+        attr: meta.attr || null,
+        metadata: true,
+        title: meta.name,
+        description: '',
+        group: null,
+        enabled: meta.enabled ?? true,
+        sortable: false,
+        operators: {},
+        vocabulary: null,
+      });
+    }
+  }
+
+  return definitions;
+}
+
 /**
- * Seed the database with initial data from profiles
+ * Seed the database with initial data from profiles (core, default, then the starter profile)
  */
-export async function runSeed(dbConfig: DatabaseConfig): Promise<void> {
+export async function runSeed(dbConfig: DatabaseConfig, profile: string = DEFAULT_PROFILE): Promise<void> {
+  const profilePaths = getProfileLayers(profile).map((layer) => join(PROFILES_DIR, layer));
   const db = createKnexInstance(dbConfig);
 
   // Clear behavior cache for fresh seeding
   behaviorCache = new Map();
 
   try {
-    console.log(`[Bootstrap] Seeding database: ${dbConfig.database}`);
+    console.log(`[Bootstrap] Seeding database: ${dbConfig.database} (profile: ${profile})`);
 
     // Start transaction
     await db.transaction(async (trx) => {
-      // Seed core profile (behaviors + everything except types)
-      await seedProfile(trx, join(PROFILES_DIR, 'core'), { skipTypes: true });
-
-      // Seed default profile (behaviors only first)
-      await seedProfile(trx, join(PROFILES_DIR, 'default'), { skipTypes: true });
+      // Seed behaviors and everything except types, profile by profile
+      for (const profilePath of profilePaths) {
+        await seedProfile(trx, profilePath, { skipTypes: true });
+      }
 
-      // Now seed types from both profiles (all behaviors are in cache now)
-      await seedTypes(trx, join(PROFILES_DIR, 'core'));
-      await seedTypes(trx, join(PROFILES_DIR, 'default'));
+      // Now seed types from all profiles (all behaviors are in cache now)
+      for (const profilePath of profilePaths) {
+        await seedTypes(trx, profilePath);
+      }
 
-      // Seed remaining parts of core and default profiles
-      await seedProfile(trx, join(PROFILES_DIR, 'core'), { onlyRemaining: true });
-      await seedProfile(trx, join(PROFILES_DIR, 'default'), { onlyRemaining: true });
+      // Seed remaining parts (a starter's documents and controlpanel data go on top of default's)
+      for (const profilePath of profilePaths) {
+        await seedProfile(trx, profilePath, { onlyRemaining: true });
+      }
     });
 
     console.log(`[Bootstrap] Seeding completed for: ${dbConfig.database}`);
@@ -318,6 +598,56 @@ export async function runSeed(dbConfig: DatabaseConfig): Promise<void> {
   }
 }
 
+/**
+ * Add the catalog column of an index (_<name>, indexed) or metadata (<name>) if missing
+ */
+export async function addCatalogColumn(
+  trx: Knex.Transaction,
+  index: { name: string; type: string },
+  metadata: boolean
+): Promise<void> {
+  const field = metadata ? index.name : `_${index.name}`;
+  try {
+    await trx.schema.alterTable('catalog', (table) => {
+      if (metadata) {
+        switch (index.type) {
+          case 'uuid': table.uuid(field); break;
+          case 'string': table.string(field); break;
+          case 'date': table.dateTime(field); break;
+          case 'integer': table.integer(field); break;
+          case 'boolean': table.boolean(field); break;
+          case 'json': table.json(field); break;
+          case 'string[]': table.specificType(field, 'character varying(255)[]'); break;
+          case 'text': table.text(field); break;
+          default: console.log(`[Bootstrap] Unhandled metadata type: ${index.type}`);
+        }
+        return;
+      }
+
+      switch (index.type) {
+        case 'string': table.string(field).index(); break;
+        case 'integer': table.integer(field).index(); break;
+        case 'path': table.string(field).index(); break;
+        case 'uuid': table.uuid(field).index(); break;
+        case 'boolean': table.boolean(field).index(); break;
+        case 'date': table.dateTime(field).index(); break;
+        case 'string[]': table.specificType(field, 'character varying(255)[]').index(); break;
+        case 'uuid[]': table.specificType(field, 'uuid[]').index(); break;
+        case 'text': table.specificType(field, 'tsvector'); break;
+        default: console.log(`[Bootstrap] Unhandled index type: ${index.type}`);
+      }
+    });
+    // Add GIN index for tsvector columns
+    if (!metadata && index.type === 'text') {
+      await trx.raw(`CREATE INDEX IF NOT EXISTS catalog_${field}_gin_idx ON catalog USING GIN ("${field}")`);
+    }
+  } catch (err: any) {
+    if (!err.message?.includes('already exists')) {
+      console.warn(`[Bootstrap] Error adding catalog column ${field}:`, err.message);
+    }
+  }
+}
+
 interface SeedOptions {
   skipTypes?: boolean;
   onlyRemaining?: boolean;
@@ -382,31 +712,7 @@ async function seedProfile(trx: Knex.Transaction, profilePath: string, options:
           vocabulary: index.vocabulary || null,
         }).onConflict('id').merge();
 
-        const field = `_${index.name}`;
-        try {
-          await trx.schema.alterTable('catalog', (table) => {
-            switch (index.type) {
-              case 'string': table.string(field).index(); break;
-              case 'integer': table.integer(field).index(); break;
-              case 'path': table.string(field).index(); break;
-              case 'uuid': table.uuid(field).index(); break;
-              case 'boolean': table.boolean(field).index(); break;
-              case 'date': table.dateTime(field).index(); break;
-              case 'string[]': table.specificType(field, 'character varying(255)[]').index(); break;
-              case 'uuid[]': table.specificType(field, 'uuid[]').index(); break;
-              case 'text': table.specificType(field, 'tsvector'); break;
-              default: console.log(`[Bootstrap] Unhandled index type: ${index.type}`);
-            }
-          });
-          // Add GIN index for tsvector columns
-          if (index.type === 'text') {
-            await trx.raw(`CREATE INDEX IF NOT EXISTS catalog_${field}_gin_idx ON catalog USING GIN ("${field}")`);
-          }
-        } catch (err: any) {
-          if (!err.message?.includes('already exists')) {
-            console.warn(`[Bootstrap] Error adding catalog column ${field}:`, err.message);
-          }
-        }
+        await addCatalogColumn(trx, index, false);
       }
       console.log(`[Bootstrap] Catalog indexes imported: ${indexes.length}`);
     }
@@ -430,25 +736,7 @@ async function seedProfile(trx: Knex.Transaction, profilePath: string, options:
           vocabulary: null,
         }).onConflict('id').merge();
 
-        try {
-          await trx.schema.alterTable('catalog', (table) => {
-            switch (meta.type) {
-              case 'uuid': table.uuid(meta.name); break;
-              case 'string': table.string(meta.name); break;
-              case 'date': table.dateTime(meta.name); break;
-              case 'integer': table.integer(meta.name); break;
-              case 'boolean': table.boolean(meta.name); break;
-              case 'json': table.json(meta.name); break;
-              case 'string[]': table.specificType(meta.name, 'character varying(255)[]'); break;
-              case 'text': table.text(meta.name); break;
-              default: console.log(`[Bootstrap] Unhandled metadata type: ${meta.type}`);
-            }
-          });
-        } catch (err: any) {
-          if (!err.message?.includes('already exists')) {
-            console.warn(`[Bootstrap] Error adding catalog column ${meta.name}:`, err.message);
-          }
-        }
+        await addCatalogColumn(trx, meta, true);
       }
       console.log(`[Bootstrap] Catalog metadata imported: ${catalogMetadata.length}`);
     }
@@ -481,6 +769,18 @@ async function seedProfile(trx: Knex.Transaction, profilePath: string, options:
       const cpFiles = readdirSync(controlpanelsDir).filter(f => f.endsWith('.json'));
       for (const cpFile of cpFiles) {
         const cpData = stripI18n(JSON.parse(readFileSync(join(controlpanelsDir, cpFile), 'utf-8')));
+
+        // Without a schema, the file only sets defaults for a controlpanel of an earlier profile
+        if (!cpData.schema) {
+          const existing = await trx('controlpanel').where('id', cpData.id).first('data');
+          if (existing) {
+            await trx('controlpanel').where('id', cpData.id).update({
+              data: JSON.stringify({ ...existing.data, ...cpData.data }),
+            });
+            continue;
+          }
+        }
+
         await trx('controlpanel').insert({
           id: cpData.id,
           title: cpData.title || cpData.id,
@@ -705,12 +1005,21 @@ async function seedDocuments(
       }
     }
 
-    // Track position in parent
-    const positionKey = parentUuid || 'root';
-    const position = children[positionKey] || 0;
-    children[positionKey] = position + 1;
+    // A document already seeded at this path (by an earlier profile) is replaced
+    const existing = await trx('document').where('path', path).first('uuid', 'position_in_parent');
+    const uuid = existing?.uuid || docData.uuid || crypto.randomUUID();
 
-    const uuid = docData.uuid || crypto.randomUUID();
+    // Track position in parent (after the documents earlier profiles added to it)
+    const positionKey = parentUuid || 'root';
+    if (children[positionKey] === undefined) {
+      const [{ count }] = await trx('document').where('parent', parentUuid).count({ count: '*' });
+      children[positionKey] = Number(count);
+    }
+    let position = existing?.position_in_parent;
+    if (position === undefined) {
+      position = children[positionKey];
+      children[positionKey] = position + 1;
+    }
 
     // Separate document fields from JSON blob
     const documentFields = ['uuid', 'parent', 'id', 'path', 'created', 'modified',
@@ -764,7 +1073,7 @@ export async function bootstrapSite(
   await runMigrations(dbConfig, options);
 
   // Then seed the database
-  await runSeed(dbConfig);
+  await runSeed(dbConfig, options.profile);
 
   // Create owner user with Firebase UID if provided
   if (options.firebaseUid) {
@@ -777,7 +1086,7 @@ export async function bootstrapSite(
 /**
  * Create owner user with Firebase UID for SSO authentication
  */
-async function createOwnerUser(
+export async function createOwnerUser(
   dbConfig: DatabaseConfig,
   options: BootstrapOptions
 ): Promise<void> {
@@ -820,5 +1129,7 @@ async function createOwnerUser(
 export default {
   runMigrations,
   runSeed,
+  createOwnerUser,
+  getBootstrapStatus,
   bootstrapSite,
 };
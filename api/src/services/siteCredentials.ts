@@ -0,0 +1,46 @@
+/**
+ * Site Credentials Service - Database role and JWT secret of a site
+ *
+ * Each site database is owned by its own login role (see
+ * databaseService.assignDatabaseToRole), whose credentials are stored in
+ * master_sites together with the JWT secret the worker signs site tokens with
+ * (both encrypted, the worker decrypts them: see MasterSiteRecord).
+ *
+ * Rotation sets a new role password and JWT secret in one master DB
+ * transaction. Open connections keep working and tokens signed with the
+ * previous secret stay valid (previous_jwt_secret), so there is no downtime.
+ * Sites registered before site roles (shared superuser credentials) get their
+ * own role on their first rotation.
+ */
+
+import * as databaseService from './database.js';
+import * as masterDbService from './masterDb.js';
+import * as tenantConnections from './tenantConnections.js';
+import type { MasterSiteRecord } from './masterDb.js';
+
+/**
+ * Rotate the database password and JWT secret of a registered site.
+ * Returns null if the site is not registered for routing.
+ */
+export async function rotateSiteCredentials(siteId: string): Promise<MasterSiteRecord | null> {
+  const masterSite = await masterDbService.getMasterSiteBySiteId(siteId);
+  if (!masterSite) return null;
+
+  const dbPassword = databaseService.generateDatabasePassword();
+  let dbUser = masterSite.db_user;
+
+  if (databaseService.isSharedDatabaseUser(dbUser)) {
+    dbUser = databaseService.getSiteRoleName(masterSite.db_name);
+    console.log(`[Credentials] Moving ${siteId} from the shared superuser to role ${dbUser}`);
+    await databaseService.createSiteRole(dbUser, dbPassword);
+    await databaseService.assignDatabaseToRole(masterSite.db_name, dbUser);
+  }
+
+  const rotated = await masterDbService.rotateMasterSiteCredentials({ siteId, dbUser, dbPassword });
+
+  // Not needed for correctness (pools are replaced once their credentials change), frees the old clients sooner
+  await tenantConnections.closeTenantPools(siteId);
+
+  console.log(`[Credentials] Rotated credentials of ${siteId} (role ${dbUser})`);
+  return rotated;
+}
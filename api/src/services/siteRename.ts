@@ -0,0 +1,122 @@
+/**
+ * Site Rename Service - Move a site to a new subdomain (site ID)
+ *
+ * The site ID is used in several stores, which are updated in order with
+ * compensation if a later store fails:
+ *   1. site database (luna_<old> renamed to luna_<new>)
+ *   2. master database, in one transaction (master_sites, custom domains,
+ *      templates, job history, redirect from the old domain)
+ *   3. Firestore, in one batch (site, siteBilling, usage, transfers)
+ *   4. Stripe subscription metadata (best effort)
+ *
+ * The old <old>.<baseDomain> host keeps answering with a 301 to the new one
+ * for config.rename.redirectDays: the worker serves the redirects from
+ * site_domain_redirects (see masterDb.DomainRedirectRecord).
+ */
+
+import admin from 'firebase-admin';
+import { config } from '../config/index.js';
+import * as sitesService from './sites.js';
+import * as databaseService from './database.js';
+import * as masterDbService from './masterDb.js';
+import * as stripeService from './stripe.js';
+import type { Site } from './sites.js';
+
+/**
+ * Check the format of a site ID (used as subdomain and database name)
+ */
+export function isValidSiteId(siteId: string): boolean {
+  return /^[a-z0-9-]{3,50}$/.test(siteId);
+}
+
+/**
+ * Check that no site (or staging copy) uses the ID and its subdomain is not still redirecting for another site
+ */
+export async function isSiteIdAvailable(siteId: string, forSiteId?: string): Promise<boolean> {
+  if (!(await sitesService.checkSiteAvailability(siteId))) {
+    return false;
+  }
+
+  if (await masterDbService.getMasterSiteBySiteId(siteId)) {
+    return false;
+  }
+
+  const redirect = await masterDbService.getDomainRedirect(`${siteId}.${config.baseDomain}`);
+  return !redirect || redirect.site_id === forSiteId;
+}
+
+/**
+ * Rename a site to a new site ID. Throws if any store fails (earlier stores are rolled back).
+ */
+export async function renameSite(
+  site: Site,
+  newSiteId: string
+): Promise<{ domain: string; redirectUntil: Date | null }> {
+  const oldSiteId = site.siteId;
+  const oldDomain = `${oldSiteId}.${config.baseDomain}`;
+  const newDomain = `${newSiteId}.${config.baseDomain}`;
+  const redirectUntil = config.rename.redirectDays > 0
+    ? new Date(Date.now() + config.rename.redirectDays * 24 * 60 * 60 * 1000)
+    : null;
+
+  const getDbName = (siteId: string) =>
+    databaseService.parseDatabaseUrl(databaseService.getDatabaseUrl(siteId)).database;
+
+  console.log(`[Rename] Renaming site ${oldSiteId} to ${newSiteId}`);
+
+  // 1. Site database
+  await databaseService.renameDatabase(oldSiteId, newSiteId);
+
+  try {
+    // 2. Master database
+    await masterDbService.renameMasterSite({
+      oldSiteId,
+      newSiteId,
+      oldDomain,
+      newDomain,
+      newDbName: getDbName(newSiteId),
+      redirectUntil,
+    });
+
+    try {
+      // 3. Firestore
+      await sitesService.renameSiteRecords(site.id, oldSiteId, newSiteId, newDomain);
+    } catch (error) {
+      console.error(`[Rename] Firestore update failed for ${oldSiteId}, rolling back master database`);
+      await masterDbService.renameMasterSite({
+        oldSiteId: newSiteId,
+        newSiteId: oldSiteId,
+        oldDomain: newDomain,
+        newDomain: oldDomain,
+        newDbName: getDbName(oldSiteId),
+        redirectUntil: null,
+      }).catch((rollbackError) => {
+        console.error(`[Rename] Failed to roll back master database for ${oldSiteId}:`, rollbackError);
+      });
+      throw error;
+    }
+  } catch (error) {
+    console.error(`[Rename] Rename of ${oldSiteId} failed, restoring database name`);
+    await databaseService.renameDatabase(newSiteId, oldSiteId).catch((rollbackError) => {
+      console.error(`[Rename] Failed to restore database name for ${oldSiteId}:`, rollbackError);
+    });
+    throw error;
+  }
+
+  // 4. Stripe metadata (used by webhooks to find the site) - not worth failing the rename for
+  const billing = await admin.firestore()
+    .collection('siteBilling')
+    .where('siteId', '==', newSiteId)
+    .limit(1)
+    .get();
+  const subscriptionId = billing.empty ? null : billing.docs[0].data().subscriptionId;
+  if (subscriptionId) {
+    await stripeService.updateSubscriptionMetadata(subscriptionId, { siteId: newSiteId }).catch((error) => {
+      console.error(`[Rename] Failed to update subscription metadata for ${newSiteId}:`, error);
+    });
+  }
+
+  console.log(`[Rename] Site ${oldSiteId} renamed to ${newSiteId}${redirectUntil ? `, ${oldDomain} redirects until ${redirectUntil.toISOString()}` : ''}`);
+
+  return { domain: newDomain, redirectUntil };
+}
@@ -0,0 +1,375 @@
+/**
+ * Site Transfer Service - Hand a site over to another platform user
+ *
+ * The owner starts a transfer by email; the recipient accepts it while logged
+ * in with that email, once verified. Accepting, declining and cancelling first
+ * move the transfer out of pending in a Firestore transaction, so only one of
+ * them goes through. Accepting then moves the site in every store (and puts
+ * the transfer back to pending if that fails):
+ *   1. site database and its staging copy (owner user/user_role rows, via updateDatabaseOwner)
+ *   2. master_sites.user_id
+ *   3. Firestore, in one batch (site, siteBilling, transfer)
+ *
+ * A Stripe subscription cannot change customer, so the sender's subscription is
+ * set to cancel at the end of the paid period and the siteBilling record is
+ * re-homed to the recipient (inheritedFromUserId marks the sender's subscription
+ * until the recipient subscribes to keep the plan after that). The transfer
+ * records the cancellation as pending until Stripe accepts it: a worker retries
+ * it, and the sender sees it until then.
+ *
+ * Transfers are kept in Firestore (siteTransfers) and double as the
+ * notifications shown to both parties.
+ */
+
+import admin from 'firebase-admin';
+import { config } from '../config/index.js';
+import * as databaseService from './database.js';
+import * as masterDbService from './masterDb.js';
+import * as stripeService from './stripe.js';
+import * as stagingService from './staging.js';
+import type { Site } from './sites.js';
+
+const db = admin.firestore();
+const transfersCollection = db.collection('siteTransfers');
+
+export type SiteTransferStatus = 'pending' | 'accepted' | 'declined' | 'cancelled' | 'expired';
+
+export interface SiteTransfer {
+  id: string;
+  siteId: string;
+  siteDocId: string;
+  siteName: string;
+  fromUserId: string;
+  fromEmail: string;
+  toEmail: string;
+  toUserId?: string;
+  status: SiteTransferStatus;
+  // Sender has seen the outcome (accepted/declined/expired)
+  senderDismissed: boolean;
+  createdAt: admin.firestore.Timestamp;
+  expiresAt: admin.firestore.Timestamp;
+  respondedAt?: admin.firestore.Timestamp;
+  // Sender's subscription still to be set to cancel at period end (retried until Stripe accepts it)
+  cancellationPending?: boolean;
+  subscriptionId?: string;
+  cancellationError?: string;
+}
+
+export interface TransferRecipient {
+  uid: string;
+  email: string;
+  name?: string;
+}
+
+/**
+ * Thrown when a transfer is no longer pending by the time it is accepted, declined or cancelled
+ */
+export class TransferNotPendingError extends Error {
+  constructor(public status: SiteTransferStatus) {
+    super(`Transfer is ${status}`);
+    this.name = 'TransferNotPendingError';
+  }
+}
+
+/**
+ * Mark a pending transfer as expired if its time is up (returns the current state)
+ */
+async function expireIfDue(transfer: SiteTransfer): Promise<SiteTransfer> {
+  if (transfer.status !== 'pending' || transfer.expiresAt.toMillis() > Date.now()) {
+    return transfer;
+  }
+
+  await transfersCollection.doc(transfer.id).update({ status: 'expired' });
+  return { ...transfer, status: 'expired' };
+}
+
+/**
+ * Get a transfer by ID
+ */
+export async function getTransferById(id: string): Promise<SiteTransfer | null> {
+  const doc = await transfersCollection.doc(id).get();
+  if (!doc.exists) return null;
+  return expireIfDue(doc.data() as SiteTransfer);
+}
+
+/**
+ * Get the pending transfer for a site, if any
+ */
+export async function getPendingTransfer(siteDocId: string): Promise<SiteTransfer | null> {
+  const snapshot = await transfersCollection
+    .where('siteDocId', '==', siteDocId)
+    .where('status', '==', 'pending')
+    .limit(1)
+    .get();
+
+  if (snapshot.empty) return null;
+  const transfer = await expireIfDue(snapshot.docs[0].data() as SiteTransfer);
+  return transfer.status === 'pending' ? transfer : null;
+}
+
+/**
+ * Transfers waiting for a user to accept, and the user's own transfers whose
+ * outcome they have not dismissed yet
+ */
+export async function getTransfersForUser(
+  userId: string,
+  email: string | undefined
+): Promise<{ incoming: SiteTransfer[]; outgoing: SiteTransfer[] }> {
+  const incomingSnapshot = email
+    ? await transfersCollection
+        .where('toEmail', '==', email.toLowerCase())
+        .where('status', '==', 'pending')
+        .get()
+    : null;
+  const outgoingSnapshot = await transfersCollection
+    .where('fromUserId', '==', userId)
+    .where('senderDismissed', '==', false)
+    .get();
+
+  const incoming = await Promise.all(
+    (incomingSnapshot?.docs || []).map((doc) => expireIfDue(doc.data() as SiteTransfer))
+  );
+  const outgoing = await Promise.all(
+    outgoingSnapshot.docs.map((doc) => expireIfDue(doc.data() as SiteTransfer))
+  );
+
+  return {
+    incoming: incoming.filter((transfer) => transfer.status === 'pending'),
+    outgoing,
+  };
+}
+
+/**
+ * Start a transfer of a site to the platform user with the given email
+ */
+export async function createTransfer(
+  site: Site,
+  fromEmail: string,
+  toEmail: string
+): Promise<SiteTransfer> {
+  const docRef = transfersCollection.doc();
+  const now = admin.firestore.Timestamp.now();
+
+  const transfer: SiteTransfer = {
+    id: docRef.id,
+    siteId: site.siteId,
+    siteDocId: site.id,
+    siteName: site.name,
+    fromUserId: site.userId,
+    fromEmail,
+    toEmail: toEmail.toLowerCase(),
+    status: 'pending',
+    senderDismissed: false,
+    createdAt: now,
+    expiresAt: admin.firestore.Timestamp.fromMillis(
+      now.toMillis() + config.transfer.expiryDays * 24 * 60 * 60 * 1000
+    ),
+  };
+
+  await docRef.set(transfer);
+  console.log(`[Transfer] Site ${site.siteId} offered to ${transfer.toEmail} by ${fromEmail}`);
+
+  return transfer;
+}
+
+/**
+ * Update a transfer that is still pending, in a transaction (throws TransferNotPendingError otherwise)
+ */
+async function updatePendingTransfer(transfer: SiteTransfer, fields: Record<string, unknown>): Promise<void> {
+  const docRef = transfersCollection.doc(transfer.id);
+
+  await db.runTransaction(async (tx) => {
+    const current = (await tx.get(docRef)).data() as SiteTransfer;
+    const status = current.status === 'pending' && current.expiresAt.toMillis() <= Date.now()
+      ? 'expired'
+      : current.status;
+    if (status !== 'pending') {
+      throw new TransferNotPendingError(status);
+    }
+    tx.update(docRef, fields);
+  });
+}
+
+/**
+ * Close a pending transfer without moving the site (cancelled by the sender or declined)
+ */
+export async function closeTransfer(
+  transfer: SiteTransfer,
+  status: 'cancelled' | 'declined'
+): Promise<void> {
+  await updatePendingTransfer(transfer, {
+    status,
+    respondedAt: admin.firestore.Timestamp.now(),
+    // The sender cancelled it themselves - nothing to notify them about
+    senderDismissed: status === 'cancelled',
+  });
+  console.log(`[Transfer] Transfer of ${transfer.siteId} to ${transfer.toEmail} ${status}`);
+}
+
+/**
+ * Hide a finished transfer from the sender's notifications
+ */
+export async function dismissTransfer(transfer: SiteTransfer): Promise<void> {
+  await transfersCollection.doc(transfer.id).update({ senderDismissed: true });
+}
+
+/**
+ * Accept a transfer: move the site to the recipient (throws TransferNotPendingError
+ * if it was accepted, declined or cancelled meanwhile)
+ */
+export async function acceptTransfer(
+  transfer: SiteTransfer,
+  site: Site,
+  recipient: TransferRecipient
+): Promise<void> {
+  await updatePendingTransfer(transfer, {
+    status: 'accepted',
+    toUserId: recipient.uid,
+    respondedAt: admin.firestore.Timestamp.now(),
+  });
+
+  let subscriptionId: string | undefined;
+  try {
+    subscriptionId = await moveSite(transfer, site, recipient);
+  } catch (error) {
+    // Pending again, so the recipient can retry
+    await transfersCollection.doc(transfer.id).update({
+      status: 'pending',
+      toUserId: admin.firestore.FieldValue.delete(),
+      respondedAt: admin.firestore.FieldValue.delete(),
+    }).catch((revertError) => console.error(`[Transfer] Failed to reopen transfer ${transfer.id}:`, revertError));
+    throw error;
+  }
+
+  console.log(`[Transfer] Site ${site.siteId} transferred to ${recipient.uid}`);
+
+  // 4. Stop billing the sender after the period they already paid for
+  if (subscriptionId) {
+    await cancelSenderSubscription({ ...transfer, toUserId: recipient.uid, subscriptionId });
+  }
+}
+
+/**
+ * Move a site to the recipient of its accepted transfer in every store.
+ * Returns the sender's live subscription, to cancel.
+ */
+async function moveSite(
+  transfer: SiteTransfer,
+  site: Site,
+  recipient: TransferRecipient
+): Promise<string | undefined> {
+  console.log(`[Transfer] Moving site ${site.siteId} from ${site.userId} to ${recipient.uid}`);
+
+  // 1. Site database
+  await databaseService.updateDatabaseOwner(
+    site.siteId,
+    recipient.uid,
+    recipient.email,
+    recipient.name,
+    site.userId
+  );
+
+  // Staging copy goes with the site
+  const staging = await masterDbService.getSiteStaging(site.siteId);
+  if (staging) {
+    await databaseService.updateDatabaseOwner(
+      staging.staging_site_id,
+      recipient.uid,
+      recipient.email,
+      recipient.name,
+      site.userId
+    );
+  }
+
+  // 2. Master database (no-op for single-tenant sites)
+  await masterDbService.updateMasterSiteOwner(site.siteId, recipient.uid);
+  if (staging) {
+    await masterDbService.updateMasterSiteOwner(staging.staging_site_id, recipient.uid);
+  }
+
+  // 3. Firestore
+  const billingSnapshot = await db
+    .collection('siteBilling')
+    .where('siteId', '==', site.siteId)
+    .limit(1)
+    .get();
+  const billingDoc = billingSnapshot.empty ? null : billingSnapshot.docs[0];
+  const { subscriptionId, status } = billingDoc?.data() || {};
+  const hasLiveSubscription = Boolean(subscriptionId) && status !== 'cancelled';
+  const recipientBilling = await db
+    .collection('userBilling')
+    .where('userId', '==', recipient.uid)
+    .limit(1)
+    .get();
+  const now = admin.firestore.Timestamp.now();
+
+  const batch = db.batch();
+  batch.update(db.collection('sites').doc(site.id), {
+    userId: recipient.uid,
+    updatedAt: now,
+  });
+  if (billingDoc) {
+    batch.update(billingDoc.ref, {
+      userId: recipient.uid,
+      ...(hasLiveSubscription ? { inheritedFromUserId: site.userId } : {}),
+      stripeCustomerId: recipientBilling.empty
+        ? admin.firestore.FieldValue.delete()
+        : recipientBilling.docs[0].data().stripeCustomerId || admin.firestore.FieldValue.delete(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+  if (hasLiveSubscription) {
+    batch.update(transfersCollection.doc(transfer.id), { cancellationPending: true, subscriptionId });
+  }
+  await batch.commit();
+
+  return hasLiveSubscription ? subscriptionId : undefined;
+}
+
+/**
+ * Set the sender's subscription of an accepted transfer to cancel at period
+ * end. Failures are recorded on the transfer, which stays pending for a retry.
+ */
+async function cancelSenderSubscription(transfer: SiteTransfer): Promise<boolean> {
+  try {
+    await stripeService.setSubscriptionCancelAtPeriodEnd(transfer.subscriptionId!, true);
+    await stripeService.updateSubscriptionMetadata(transfer.subscriptionId!, { transferredTo: transfer.toUserId! });
+  } catch (error) {
+    console.error(`[Transfer] Failed to schedule subscription cancellation for ${transfer.siteId}:`, error);
+    await transfersCollection.doc(transfer.id).update({
+      cancellationError: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+
+  await transfersCollection.doc(transfer.id).update({
+    cancellationPending: false,
+    cancellationError: admin.firestore.FieldValue.delete(),
+  });
+  console.log(`[Transfer] Subscription ${transfer.subscriptionId} of ${transfer.siteId} cancels at period end`);
+  return true;
+}
+
+/**
+ * Retry the subscription cancellations of accepted transfers that failed
+ */
+async function retryPendingCancellations(): Promise<void> {
+  const snapshot = await transfersCollection.where('cancellationPending', '==', true).get();
+  for (const doc of snapshot.docs) {
+    await cancelSenderSubscription(doc.data() as SiteTransfer);
+  }
+}
+
+/**
+ * Start the transfer worker
+ */
+export function startTransferWorker(): void {
+  console.log('[Transfer] Worker started');
+
+  const tick = () => {
+    retryPendingCancellations().catch((error) => console.error('[Transfer] Worker run failed:', error));
+  };
+
+  tick();
+  setInterval(tick, config.transfer.pollIntervalMs);
+}
@@ -17,7 +17,7 @@ export interface Site {
   userId: string;
   name: string;
   domain: string;
-  status: 'pending' | 'deploying' | 'active' | 'error' | 'suspended';
+  status: 'pending' | 'deploying' | 'active' | 'error' | 'suspended' | 'deleted';
   renderServiceId?: string;
   renderUrl?: string;
   createdAt: admin.firestore.Timestamp;
@@ -26,6 +26,10 @@ export interface Site {
   customDomains?: CustomDomainInfo[];
   // Legacy single domain (kept for backward compatibility)
   customDomain?: CustomDomainInfo;
+  // Soft delete: site can be restored until purgeAt
+  deletedAt?: admin.firestore.Timestamp;
+  purgeAt?: admin.firestore.Timestamp;
+  statusBeforeDelete?: Site['status'];
 }
 
 const sitesCollection = db.collection('sites');
@@ -87,6 +91,14 @@ export async function getSitesByUserId(userId: string): Promise<Site[]> {
   return snapshot.docs.map((doc) => migrateLegacyDomain(doc.data() as Site));
 }
 
+export async function getSitesByStatus(status: Site['status']): Promise<Site[]> {
+  const snapshot = await sitesCollection
+    .where('status', '==', status)
+    .get();
+
+  return snapshot.docs.map((doc) => migrateLegacyDomain(doc.data() as Site));
+}
+
 export async function updateSite(id: string, data: Partial<Site>): Promise<void> {
   await sitesCollection.doc(id).update({
     ...data,
@@ -114,6 +126,54 @@ export async function setSiteError(id: string): Promise<void> {
   await updateSite(id, { status: 'error' });
 }
 
+export async function setSitePending(id: string): Promise<void> {
+  await updateSite(id, { status: 'pending' });
+}
+
+export async function markSiteDeleted(id: string, purgeAt: Date, previousStatus: Site['status']): Promise<void> {
+  await updateSite(id, {
+    status: 'deleted',
+    deletedAt: admin.firestore.Timestamp.now(),
+    purgeAt: admin.firestore.Timestamp.fromDate(purgeAt),
+    statusBeforeDelete: previousStatus,
+  });
+}
+
+export async function restoreDeletedSite(id: string, status: Site['status']): Promise<void> {
+  await sitesCollection.doc(id).update({
+    status,
+    deletedAt: admin.firestore.FieldValue.delete(),
+    purgeAt: admin.firestore.FieldValue.delete(),
+    statusBeforeDelete: admin.firestore.FieldValue.delete(),
+    updatedAt: admin.firestore.Timestamp.now(),
+  });
+}
+
+/**
+ * Move a site and its billing/usage/transfer records to a new site ID in one batch
+ */
+export async function renameSiteRecords(
+  id: string,
+  oldSiteId: string,
+  newSiteId: string,
+  newDomain: string
+): Promise<void> {
+  const batch = db.batch();
+
+  batch.update(sitesCollection.doc(id), {
+    siteId: newSiteId,
+    domain: newDomain,
+    updatedAt: admin.firestore.Timestamp.now(),
+  });
+
+  for (const collection of ['siteBilling', 'usage', 'siteTransfers']) {
+    const snapshot = await db.collection(collection).where('siteId', '==', oldSiteId).get();
+    snapshot.docs.forEach((doc) => batch.update(doc.ref, { siteId: newSiteId }));
+  }
+
+  await batch.commit();
+}
+
 export async function deleteSite(id: string): Promise<void> {
   await sitesCollection.doc(id).delete();
 }
@@ -0,0 +1,182 @@
+/**
+ * Staging Service - Password-gated staging copy of a site
+ *
+ * A site can own one staging twin, <siteId>-staging.<baseDomain>, registered in
+ * master_sites with a copy of the production database and an access password
+ * (checked by the worker before serving it).
+ *
+ *   refresh:  overwrite the staging database with a fresh copy of production
+ *   promote:  swap the databases of the two master_sites rows - production now
+ *             serves the staging content, staging keeps the old production
+ *             database as the rollback point
+ *   rollback: swap back (only while staging still holds the old production)
+ *
+ * Staging copies are multi-tenant only and are not Firestore sites (no billing).
+ */
+
+import bcrypt from 'bcrypt';
+import { config } from '../config/index.js';
+import * as databaseService from './database.js';
+import * as masterDbService from './masterDb.js';
+import * as tenantConnections from './tenantConnections.js';
+import type { Site } from './sites.js';
+import type { SiteStagingRecord } from './masterDb.js';
+
+export const STAGING_SUFFIX = '-staging';
+
+/**
+ * Site ID of the staging copy of a site
+ */
+export function getStagingSiteId(siteId: string): string {
+  return `${siteId}${STAGING_SUFFIX}`;
+}
+
+/**
+ * Database name a site ID gets by convention (luna_<siteId>)
+ */
+function conventionalDbName(siteId: string): string {
+  return databaseService.parseDatabaseUrl(databaseService.getDatabaseUrl(siteId)).database;
+}
+
+/**
+ * Hash a staging access password (bcrypt, like site user passwords)
+ */
+async function hashAccessPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, 10);
+}
+
+/**
+ * Get the production and staging routing rows (throws if either is missing)
+ */
+async function getMasterSites(staging: SiteStagingRecord) {
+  const [production, stagingSite] = await Promise.all([
+    masterDbService.getMasterSiteBySiteId(staging.site_id),
+    masterDbService.getMasterSiteBySiteId(staging.staging_site_id),
+  ]);
+
+  if (!production || !stagingSite) {
+    throw new Error(`Routing for ${staging.site_id} or its staging copy is missing`);
+  }
+
+  return { production, stagingSite };
+}
+
+/**
+ * Create the staging copy of a site
+ */
+export async function createStaging(
+  site: Site,
+  password: string,
+  createdBy: string
+): Promise<SiteStagingRecord> {
+  const production = await masterDbService.getMasterSiteBySiteId(site.siteId);
+  if (!production) {
+    throw new Error(`Site ${site.siteId} is not registered for routing`);
+  }
+
+  const stagingSiteId = getStagingSiteId(site.siteId);
+  // After a promotion production may run on the staging database name - use the free one
+  const stagingDbName = production.db_name === conventionalDbName(stagingSiteId)
+    ? conventionalDbName(site.siteId)
+    : conventionalDbName(stagingSiteId);
+
+  console.log(`[Staging] Creating ${stagingSiteId} from ${production.db_name}`);
+  await databaseService.cloneDatabaseByName(production.db_name, stagingDbName);
+
+  // Staging has its own role: production credentials must not open the copy and vice versa
+  const dbUser = databaseService.getSiteRoleName(stagingDbName);
+  const dbPassword = databaseService.generateDatabasePassword();
+
+  try {
+    await databaseService.createSiteRole(dbUser, dbPassword);
+    await databaseService.assignDatabaseToRole(stagingDbName, dbUser);
+
+    await masterDbService.registerMasterSite({
+      siteId: stagingSiteId,
+      siteName: `${site.name} (Staging)`,
+      domain: `${stagingSiteId}.${config.baseDomain}`,
+      userId: site.userId,
+      dbHost: production.db_host,
+      dbPort: production.db_port,
+      dbName: stagingDbName,
+      dbUser,
+      dbPassword,
+    });
+    await masterDbService.setMasterSiteAccessPassword(stagingSiteId, await hashAccessPassword(password));
+    await masterDbService.markMasterSiteBootstrapped(stagingSiteId);
+
+    const staging = await masterDbService.createSiteStaging({
+      siteId: site.siteId,
+      stagingSiteId,
+      createdBy,
+    });
+    console.log(`[Staging] ${stagingSiteId} ready`);
+
+    return staging;
+  } catch (error) {
+    console.error(`[Staging] Failed to register ${stagingSiteId}, removing its database`);
+    await masterDbService.deleteMasterSite(stagingSiteId).catch(() => {});
+    await databaseService.dropDatabaseByName(stagingDbName).catch((dropError) => {
+      console.error(`[Staging] Failed to drop ${stagingDbName}:`, dropError);
+    });
+    await databaseService.dropSiteRole(dbUser).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Overwrite the staging database with a fresh copy of production
+ */
+export async function refreshStaging(staging: SiteStagingRecord): Promise<void> {
+  const { production, stagingSite } = await getMasterSites(staging);
+
+  console.log(`[Staging] Refreshing ${staging.staging_site_id} from ${production.db_name}`);
+  await databaseService.cloneDatabaseByName(production.db_name, stagingSite.db_name);
+  await databaseService.assignDatabaseToRole(stagingSite.db_name, stagingSite.db_user);
+  await masterDbService.markSiteStagingRefreshed(staging.site_id);
+}
+
+/**
+ * Make the staging content live. The old production database stays on staging for rollback.
+ */
+export async function promoteStaging(staging: SiteStagingRecord): Promise<void> {
+  await masterDbService.swapMasterSiteDatabases(staging.site_id, staging.staging_site_id);
+  await masterDbService.markSiteStagingPromoted(staging.site_id, true);
+  await tenantConnections.closeTenantPools(staging.site_id, staging.staging_site_id);
+  console.log(`[Staging] ${staging.staging_site_id} promoted to ${staging.site_id}`);
+}
+
+/**
+ * Undo the last promotion (swap the databases back)
+ */
+export async function rollbackPromotion(staging: SiteStagingRecord): Promise<void> {
+  await masterDbService.swapMasterSiteDatabases(staging.site_id, staging.staging_site_id);
+  await masterDbService.markSiteStagingPromoted(staging.site_id, false);
+  await tenantConnections.closeTenantPools(staging.site_id, staging.staging_site_id);
+  console.log(`[Staging] Promotion of ${staging.staging_site_id} rolled back`);
+}
+
+/**
+ * Change the password that gates the staging copy
+ */
+export async function setStagingPassword(staging: SiteStagingRecord, password: string): Promise<void> {
+  await masterDbService.setMasterSiteAccessPassword(staging.staging_site_id, await hashAccessPassword(password));
+}
+
+/**
+ * Delete the staging copy of a site (database, routing, record). Safe to call again.
+ */
+export async function deleteStaging(siteId: string): Promise<void> {
+  const stagingSiteId = getStagingSiteId(siteId);
+  const stagingSite = await masterDbService.getMasterSiteBySiteId(stagingSiteId);
+
+  // Only drop the database the staging row points at - never guess its name
+  if (stagingSite) {
+    await databaseService.dropDatabaseByName(stagingSite.db_name);
+    await databaseService.dropSiteRole(stagingSite.db_user);
+    await masterDbService.deleteMasterSite(stagingSiteId);
+  }
+
+  await masterDbService.deleteSiteStaging(siteId);
+  console.log(`[Staging] Staging copy of ${siteId} deleted`);
+}
@@ -0,0 +1,181 @@
+/**
+ * Storage Metering Service - Storage used by each site, billed over the included storage
+ *
+ * A daily worker measures the storage of every active site in its database:
+ * blob sizes, document JSON and version history. The measure goes into the
+ * site's record of the month in the usage collection (one per site and month,
+ * updated each day with the latest measure).
+ *
+ * Storage over what the plan includes is billed in add-on units of
+ * storage.unitMb, bought for the site (see storageQuota.ts): the unit count is
+ * reported to Stripe as the quantity of the storage item of the site's
+ * subscription (see stripeService.reportStorageUsage). Sites without a
+ * subscription of their own (trials, free plan, inherited from a previous
+ * owner) are measured but not billed.
+ *
+ * Each measure also refreshes the site's quota and warns its owner when the
+ * site is running out of storage (see storageQuota.ts).
+ */
+
+import admin from 'firebase-admin';
+import { config } from '../config/index.js';
+import * as sitesService from './sites.js';
+import * as storageQuotaService from './storageQuota.js';
+import * as stripeService from './stripe.js';
+import * as tenantConnections from './tenantConnections.js';
+import type { Site } from './sites.js';
+
+export interface StorageCharge {
+  billableStorageMb: number;
+  units: number;
+  estimatedCharge: number;
+}
+
+/**
+ * Storage of a site in bytes: blobs, document JSON and version history
+ */
+export async function measureSiteStorage(siteId: string): Promise<number> {
+  const result = await tenantConnections.queryTenant(
+    siteId,
+    `SELECT
+       (SELECT COALESCE(SUM(size), 0) FROM blob)
+       + (SELECT COALESCE(SUM(pg_column_size(d.json)), 0) FROM document d)
+       + (SELECT COALESCE(SUM(pg_column_size(v.*)), 0) FROM version v) AS bytes`
+  );
+  return Number(result.rows[0].bytes);
+}
+
+/**
+ * Bytes in MB, rounded to 2 decimals
+ */
+export function toStorageMb(bytes: number): number {
+  return Math.round((bytes / (1024 * 1024)) * 100) / 100;
+}
+
+/**
+ * Month of a usage record (YYYY-MM, UTC)
+ */
+export function getUsageMonth(date = new Date()): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * What storage over the included storage costs per billing period
+ */
+export function getStorageCharge(storageMb: number, includedMb: number): StorageCharge {
+  const billableStorageMb = Math.max(0, Math.round((storageMb - includedMb) * 100) / 100);
+  const units = Math.ceil(billableStorageMb / config.storage.unitMb);
+  return { billableStorageMb, units, estimatedCharge: units * config.storage.unitPrice };
+}
+
+/**
+ * Subscription the storage of a site is billed with: its own live subscription, if any
+ */
+async function getBilledSubscriptionId(siteId: string): Promise<string | null> {
+  const snapshot = await admin.firestore()
+    .collection('siteBilling')
+    .where('siteId', '==', siteId)
+    .limit(1)
+    .get();
+
+  if (snapshot.empty) return null;
+  const { subscriptionId, status, inheritedFromUserId } = snapshot.docs[0].data();
+  if (!subscriptionId || inheritedFromUserId || status === 'cancelled') return null;
+  return subscriptionId;
+}
+
+/**
+ * Write the measure of a site into its usage record of the month
+ */
+async function recordUsage(
+  site: Site,
+  storageMb: number,
+  charge: StorageCharge,
+  subscriptionId: string | null
+): Promise<void> {
+  const month = getUsageMonth();
+  const usageCollection = admin.firestore().collection('usage');
+  const existing = await usageCollection
+    .where('siteId', '==', site.siteId)
+    .where('month', '==', month)
+    .limit(1)
+    .get();
+
+  const fields = {
+    userId: site.userId,
+    storage: storageMb,
+    billableStorageMb: charge.billableStorageMb,
+    storageUnits: charge.units,
+    // Subscription the units were reported to (null: not billed)
+    reportedSubscriptionId: subscriptionId,
+    measuredAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+
+  if (existing.empty) {
+    await usageCollection.add({
+      siteId: site.siteId,
+      month,
+      pageViews: 0,
+      bandwidth: 0,
+      ...fields,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  } else {
+    await existing.docs[0].ref.update(fields);
+  }
+}
+
+/**
+ * Measure a site, record its usage, report its extra storage to Stripe and apply its quota
+ */
+async function meterSite(site: Site): Promise<void> {
+  const storageMb = toStorageMb(await measureSiteStorage(site.siteId));
+  const limits = await storageQuotaService.getSiteQuotaLimits(site.siteId);
+  // A site over its quota cannot upload more: only the units bought are billed
+  const charge = {
+    ...getStorageCharge(storageMb, limits.includedMb),
+    units: limits.addOnUnits,
+    estimatedCharge: limits.addOnUnits * config.storage.unitPrice,
+  };
+
+  const subscriptionId = stripeService.isConfigured() ? await getBilledSubscriptionId(site.siteId) : null;
+  if (subscriptionId) {
+    await stripeService.reportStorageUsage(subscriptionId, charge.units);
+  }
+
+  await recordUsage(site, storageMb, charge, subscriptionId);
+  await storageQuotaService.applySiteQuota(site, storageMb);
+}
+
+/**
+ * Meter every active site (one failing site does not stop the others)
+ */
+async function meterAllSites(): Promise<void> {
+  const sites = await sitesService.getSitesByStatus('active');
+  let failed = 0;
+
+  for (const site of sites) {
+    try {
+      await meterSite(site);
+    } catch (error) {
+      failed++;
+      console.error(`[Metering] Failed to meter ${site.siteId}:`, error);
+    }
+  }
+
+  console.log(`[Metering] Metered ${sites.length - failed}/${sites.length} site(s)`);
+}
+
+/**
+ * Start the storage metering worker
+ */
+export function startStorageMeteringWorker(): void {
+  console.log(`[Metering] Worker started (units of ${config.storage.unitMb} MB, warning at ${config.storage.warningPercent}%)`);
+
+  const tick = () => {
+    meterAllSites().catch((error) => console.error('[Metering] Worker run failed:', error));
+  };
+
+  tick();
+  setInterval(tick, config.storage.pollIntervalMs);
+}
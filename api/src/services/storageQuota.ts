@@ -0,0 +1,154 @@
+/**
+ * Storage Quota Service - How much storage a site may use
+ *
+ * The quota of a site is the storage its plan includes (storage.includedMb)
+ * plus the add-on units of storage.unitMb bought with its subscription
+ * (siteBilling.storageAddOnUnits, billed as the storage item). It is
+ * written to master_sites.storage_quota_mb for the site and its staging copy:
+ * the worker rejects blob uploads that would take the site over it.
+ *
+ * Owners are emailed when the site reaches storage.warningPercent of its
+ * quota and when it is full; siteBilling.storageWarningLevel records the last
+ * warning so each one is sent once (it is reset when usage drops back).
+ */
+
+import admin from 'firebase-admin';
+import { config } from '../config/index.js';
+import * as mailService from './mail.js';
+import * as masterDbService from './masterDb.js';
+import * as stagingService from './staging.js';
+import type { Site } from './sites.js';
+
+export type StorageQuotaLevel = 'ok' | 'warning' | 'full';
+
+export interface StorageQuotaLimits {
+  plan: string;
+  includedMb: number;
+  addOnUnits: number;
+  quotaMb: number;
+}
+
+export interface StorageQuota extends StorageQuotaLimits {
+  usedMb: number;
+  percent: number;
+  level: StorageQuotaLevel;
+}
+
+// Plans sharing the included storage of a tier
+const PLAN_TIERS: Record<string, string> = {
+  monthly: 'pro',
+  annual: 'pro',
+  biennial: 'pro',
+};
+
+const LEVELS: StorageQuotaLevel[] = ['ok', 'warning', 'full'];
+
+/**
+ * Storage a plan includes (unknown plans get the free storage)
+ */
+export function getIncludedStorageMb(plan: string): number {
+  const { includedMb } = config.storage;
+  return includedMb[PLAN_TIERS[plan] || plan] ?? includedMb.free;
+}
+
+async function getBillingDoc(siteId: string): Promise<FirebaseFirestore.QueryDocumentSnapshot | null> {
+  const snapshot = await admin.firestore()
+    .collection('siteBilling')
+    .where('siteId', '==', siteId)
+    .limit(1)
+    .get();
+  return snapshot.empty ? null : snapshot.docs[0];
+}
+
+/**
+ * Plan, add-on units and quota of a site, from its billing record
+ */
+export async function getSiteQuotaLimits(siteId: string): Promise<StorageQuotaLimits> {
+  const data = (await getBillingDoc(siteId))?.data();
+  const plan = data?.plan && data.status !== 'cancelled' ? data.plan : 'free';
+  const includedMb = getIncludedStorageMb(plan);
+  const addOnUnits = data?.storageAddOnUnits || 0;
+  return { plan, includedMb, addOnUnits, quotaMb: includedMb + addOnUnits * config.storage.unitMb };
+}
+
+/**
+ * Warning level of a site using usedMb of quotaMb
+ */
+export function getQuotaLevel(usedMb: number, quotaMb: number): StorageQuotaLevel {
+  if (usedMb >= quotaMb) return 'full';
+  if (usedMb >= (quotaMb * config.storage.warningPercent) / 100) return 'warning';
+  return 'ok';
+}
+
+function toQuota(limits: StorageQuotaLimits, usedMb: number): StorageQuota {
+  return {
+    ...limits,
+    usedMb,
+    percent: limits.quotaMb > 0 ? Math.round((usedMb / limits.quotaMb) * 1000) / 10 : 100,
+    level: getQuotaLevel(usedMb, limits.quotaMb),
+  };
+}
+
+/**
+ * Quota of a site and how much of it is used
+ */
+export async function getSiteQuota(siteId: string, usedMb: number): Promise<StorageQuota> {
+  return toQuota(await getSiteQuotaLimits(siteId), usedMb);
+}
+
+/**
+ * Write the quota of a site to master_sites (production and staging), for the worker
+ */
+export async function syncSiteQuota(siteId: string): Promise<StorageQuotaLimits> {
+  const limits = await getSiteQuotaLimits(siteId);
+  for (const id of [siteId, stagingService.getStagingSiteId(siteId)]) {
+    await masterDbService.setMasterSiteStorageQuota(id, limits.quotaMb);
+  }
+  return limits;
+}
+
+/**
+ * Email the owner when a site reaches a higher warning level than last warned
+ */
+async function sendWarning(site: Pick<Site, 'siteId' | 'userId'>, quota: StorageQuota): Promise<void> {
+  const billingDoc = await getBillingDoc(site.siteId);
+  if (!billingDoc) return;
+
+  const warnedLevel: StorageQuotaLevel = billingDoc.data().storageWarningLevel || 'ok';
+  if (quota.level === warnedLevel) return;
+
+  if (LEVELS.indexOf(quota.level) > LEVELS.indexOf(warnedLevel)) {
+    const url = mailService.getSiteSettingsUrl(site.siteId);
+    const usage = `${quota.usedMb} MB of ${quota.quotaMb} MB`;
+    if (quota.level === 'full') {
+      await mailService.sendMail(
+        site.userId,
+        `The storage of ${site.siteId} is full`,
+        `${site.siteId}.${config.baseDomain} uses ${usage} of storage: new files can no longer be uploaded. ` +
+          `Delete files or add storage to upload again.\n\nAdd storage: ${url}`
+      );
+    } else {
+      await mailService.sendMail(
+        site.userId,
+        `${site.siteId} has used ${Math.floor(quota.percent)}% of its storage`,
+        `${site.siteId}.${config.baseDomain} uses ${usage} of storage. ` +
+          `Once it is full, new files can no longer be uploaded.\n\nAdd storage: ${url}`
+      );
+    }
+    console.log(`[StorageQuota] ${site.siteId}: ${quota.level} warning sent (${usage})`);
+  }
+
+  await billingDoc.ref.update({
+    storageWarningLevel: quota.level,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * Sync the quota of a measured site and warn its owner if it is running out
+ */
+export async function applySiteQuota(site: Pick<Site, 'siteId' | 'userId'>, usedMb: number): Promise<StorageQuota> {
+  const quota = toQuota(await syncSiteQuota(site.siteId), usedMb);
+  await sendWarning(site, quota);
+  return quota;
+}
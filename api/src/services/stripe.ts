@@ -97,7 +97,8 @@ export async function createSubscriptionCheckout(params: {
   plan: SubscriptionPlan;
   successUrl: string;
   cancelUrl: string;
-  withTrial?: boolean;
+  // Site still in its free trial: billing starts when it ends
+  trialEnd?: Date | null;
 }): Promise<{ sessionId: string; url: string }> {
   const stripe = getStripe();
 
@@ -111,7 +112,7 @@ export async function createSubscriptionCheckout(params: {
   // Build subscription data with optional trial
   const subscriptionData: {
     metadata: { siteId: string; userId: string; plan: string };
-    trial_period_days?: number;
+    trial_end?: number;
   } = {
     metadata: {
       siteId: params.siteId,
@@ -120,9 +121,8 @@ export async function createSubscriptionCheckout(params: {
     },
   };
 
-  // Add trial period if requested (typically for new sites)
-  if (params.withTrial) {
-    subscriptionData.trial_period_days = config.stripe.trialDays;
+  if (params.trialEnd) {
+    subscriptionData.trial_end = Math.floor(params.trialEnd.getTime() / 1000);
   }
 
   const session = await stripe.checkout.sessions.create({
@@ -340,14 +340,104 @@ export async function createDomainCheckoutWithPrice(params: {
 // STORAGE METERING
 // ============================================
 
+// Storage price of each billing interval ("<interval_count> <interval>" of the plan price)
+const STORAGE_PRICES: Record<string, 'storageMonthly' | 'storageAnnual' | 'storageBiennial'> = {
+  '1 month': 'storageMonthly',
+  '1 year': 'storageAnnual',
+  '2 year': 'storageBiennial',
+};
+
+function isStoragePrice(priceId: string): boolean {
+  return Object.values(STORAGE_PRICES).some((key) => config.stripe.prices[key] === priceId);
+}
+
+/**
+ * Storage price matching the billing interval of a plan price (throws if not configured)
+ */
+function getStoragePriceId(planPrice: Stripe.Price): string {
+  const recurring = planPrice.recurring;
+  const interval = recurring ? `${recurring.interval_count} ${recurring.interval}` : 'one-time';
+  const priceId = STORAGE_PRICES[interval] && config.stripe.prices[STORAGE_PRICES[interval]];
+  if (!priceId) {
+    throw new Error(`Storage price not configured for ${interval} subscriptions`);
+  }
+  return priceId;
+}
+
 /**
- * Report storage usage for a site (called periodically)
- * TODO: Implement when Stripe Billing Meters are set up
+ * Item of a subscription for its plan (subscriptions also carry the storage item once a site uses extra storage)
  */
-export async function reportStorageUsage(_siteId: string, _storageUsedMb: number): Promise<void> {
-  // Storage metering requires Stripe Billing Meters setup
-  // For now, this is a placeholder - implement when needed
-  console.log('[Stripe] Storage metering not yet implemented');
+export function getPlanItem(subscription: Stripe.Subscription): Stripe.SubscriptionItem {
+  return (
+    subscription.items.data.find((item) => !isStoragePrice(item.price.id)) ||
+    subscription.items.data[0]
+  );
+}
+
+/**
+ * Storage item of a subscription, if it has one
+ */
+function getStorageItem(subscription: Stripe.Subscription): Stripe.SubscriptionItem | undefined {
+  return subscription.items.data.find((item) => isStoragePrice(item.price.id));
+}
+
+/**
+ * Thrown when the invoice for added storage could not be paid (the storage is not added)
+ */
+export class StoragePaymentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StoragePaymentError';
+  }
+}
+
+/**
+ * Report the extra storage of a site: the quantity of the storage item of its
+ * subscription (its add-on units, see storageQuota.ts), priced for the
+ * billing interval of its plan. The item is added with the first unit and
+ * removed with the last one.
+ *
+ * Added units are invoiced and paid right away, prorated to the end of the
+ * billing period: if the payment fails nothing changes and StoragePaymentError
+ * is thrown. Removed units are credited on the next invoice.
+ */
+export async function reportStorageUsage(subscriptionId: string, units: number): Promise<void> {
+  const stripe = getStripe();
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+  const priceId = getStoragePriceId(getPlanItem(subscription).price);
+  const storageItem = getStorageItem(subscription);
+  const currentUnits = storageItem?.quantity || 0;
+
+  if (units === currentUnits && (!storageItem || storageItem.price.id === priceId)) return;
+
+  const billing: Pick<Stripe.SubscriptionItemUpdateParams, 'proration_behavior' | 'payment_behavior'> =
+    units > currentUnits
+      ? { proration_behavior: 'always_invoice', payment_behavior: 'error_if_incomplete' }
+      : { proration_behavior: 'create_prorations' };
+
+  try {
+    if (!storageItem) {
+      await stripe.subscriptionItems.create({
+        subscription: subscriptionId,
+        price: priceId,
+        quantity: units,
+        ...billing,
+      });
+    } else if (units === 0) {
+      await stripe.subscriptionItems.del(storageItem.id, { proration_behavior: 'create_prorations' });
+    } else {
+      await stripe.subscriptionItems.update(storageItem.id, {
+        price: priceId,
+        quantity: units,
+        ...billing,
+      });
+    }
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeCardError) {
+      throw new StoragePaymentError(error.message);
+    }
+    throw error;
+  }
 }
 
 // ============================================
@@ -362,6 +452,30 @@ export async function cancelSubscription(subscriptionId: string): Promise<void>
   await stripe.subscriptions.cancel(subscriptionId);
 }
 
+/**
+ * Schedule (or undo) cancellation of a subscription at the end of the current period
+ */
+export async function setSubscriptionCancelAtPeriodEnd(
+  subscriptionId: string,
+  cancelAtPeriodEnd: boolean
+): Promise<void> {
+  const stripe = getStripe();
+  await stripe.subscriptions.update(subscriptionId, {
+    cancel_at_period_end: cancelAtPeriodEnd,
+  });
+}
+
+/**
+ * Merge metadata into a subscription (e.g. siteId after a site is renamed)
+ */
+export async function updateSubscriptionMetadata(
+  subscriptionId: string,
+  metadata: Record<string, string>
+): Promise<void> {
+  const stripe = getStripe();
+  await stripe.subscriptions.update(subscriptionId, { metadata });
+}
+
 /**
  * Update subscription plan
  */
@@ -377,15 +491,17 @@ export async function updateSubscriptionPlan(
   }
 
   const subscription = await stripe.subscriptions.retrieve(subscriptionId);
-  const subscriptionItem = subscription.items.data[0];
+  const subscriptionItem = getPlanItem(subscription);
+  const items: Stripe.SubscriptionUpdateParams.Item[] = [{ id: subscriptionItem.id, price: newPriceId }];
+
+  // The storage item moves to the billing interval of the new plan with it
+  const storageItem = getStorageItem(subscription);
+  if (storageItem) {
+    items.push({ id: storageItem.id, price: getStoragePriceId(await stripe.prices.retrieve(newPriceId)) });
+  }
 
   await stripe.subscriptions.update(subscriptionId, {
-    items: [
-      {
-        id: subscriptionItem.id,
-        price: newPriceId,
-      },
-    ],
+    items,
     proration_behavior: 'create_prorations',
   });
 }
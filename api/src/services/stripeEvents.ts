@@ -0,0 +1,587 @@
+/**
+ * Stripe Events Service - Webhook events, each processed exactly once
+ *
+ * Every event is stored (stripe_events) with its ID before it is processed, so
+ * retries from Stripe find it processed and do nothing. Subscription events
+ * (customer.subscription.*) are applied in the order Stripe created them: one
+ * older than the last one applied to its subscription is skipped, so a late
+ * customer.subscription.updated cannot overwrite newer state. They are
+ * applied one at a time per subscription (a lock around check and apply).
+ * Stripe times events to the second: of two events created in the same second,
+ * the one applied second applies the subscription as Stripe has it now
+ * instead of its payload, whatever order they arrive in. Checkout and
+ * invoice events are always applied: each records something that happened
+ * (a purchase, a payment) and a subscription event cannot replace it.
+ *
+ * Failed events keep their payload and error; Stripe retries them, and admins
+ * can replay them (POST /admin/stripe-events/:eventId/replay).
+ */
+
+import Stripe from 'stripe';
+import admin from 'firebase-admin';
+import { config } from '../config/index.js';
+import * as namecheap from './namecheap.js';
+import * as stripeService from './stripe.js';
+import * as dunningService from './dunning.js';
+import * as masterDbService from './masterDb.js';
+import type { StripeEventRecord } from './masterDb.js';
+
+/**
+ * Helper to get subscription period dates
+ * Stripe SDK types can vary, so we safely extract the values
+ */
+function getSubscriptionPeriod(subscription: Stripe.Subscription): {
+  start: number;
+  end: number;
+} {
+  // Access the properties using bracket notation to work around strict types
+  const sub = subscription as unknown as {
+    current_period_start: number;
+    current_period_end: number;
+  };
+  return {
+    start: sub.current_period_start,
+    end: sub.current_period_end,
+  };
+}
+
+/**
+ * Format phone number to Namecheap's required format: +CountryCode.PhoneNumber
+ */
+function formatPhoneForNamecheap(phone: string): string {
+  let cleaned = phone.replace(/[^\d+]/g, '');
+
+  if (!cleaned.startsWith('+')) {
+    cleaned = '+' + cleaned;
+  }
+
+  if (/^\+\d{1,3}\.\d+$/.test(phone)) {
+    return phone;
+  }
+
+  const withoutPlus = cleaned.substring(1);
+  let countryCodeLength = 2;
+
+  if (withoutPlus.startsWith('1') && withoutPlus.length === 11) {
+    countryCodeLength = 1;
+  } else if (
+    /^(35[0-9]|37[0-9]|38[0-9]|42[0-9]|50[0-9]|59[0-9]|67[0-9]|68[0-9]|85[0-9]|88[0-9]|96[0-9]|97[0-9]|99[0-9])/.test(
+      withoutPlus
+    )
+  ) {
+    countryCodeLength = 3;
+  }
+
+  const countryCode = withoutPlus.substring(0, countryCodeLength);
+  const phoneNumber = withoutPlus.substring(countryCodeLength);
+
+  return `+${countryCode}.${phoneNumber}`;
+}
+
+/**
+ * Subscription an event is about: the subscription itself, or the one of an
+ * invoice or subscription checkout. Null for other events (domain purchases).
+ */
+function getEventSubscriptionId(event: Stripe.Event): string | null {
+  const object = event.data.object as unknown as {
+    object: string;
+    id: string;
+    subscription?: string | { id: string } | null;
+  };
+
+  if (object.object === 'subscription') return object.id;
+  if (!object.subscription) return null;
+  return typeof object.subscription === 'string' ? object.subscription : object.subscription.id;
+}
+
+/**
+ * Whether an event carries the state of its subscription (versioned, see processStripeEvent)
+ */
+function isSubscriptionStateEvent(type: string): boolean {
+  return type.startsWith('customer.subscription.');
+}
+
+/**
+ * The subscription event carrying the current state of an event's subscription,
+ * read from Stripe (deleted if the subscription is cancelled)
+ */
+async function getCurrentSubscriptionEvent(event: Stripe.Event): Promise<Stripe.Event> {
+  const subscription = await stripeService.getSubscription((event.data.object as Stripe.Subscription).id);
+  return {
+    ...event,
+    type: subscription.status === 'canceled' ? 'customer.subscription.deleted' : 'customer.subscription.updated',
+    data: { ...event.data, object: subscription },
+  } as Stripe.Event;
+}
+
+/**
+ * Apply an event to Firestore, the sites and the domain registrar
+ */
+async function dispatchEvent(event: Stripe.Event): Promise<void> {
+  const db = admin.firestore();
+
+  switch (event.type) {
+    case 'checkout.session.completed': {
+      const session = event.data.object as Stripe.Checkout.Session;
+      const metadata = session.metadata || {};
+
+      if (metadata.type === 'subscription') {
+        // Handle subscription creation
+        await handleSubscriptionCreated(session, db);
+      } else if (metadata.type === 'domain_purchase') {
+        // Handle domain purchase
+        await handleDomainPurchase(session, db);
+      }
+      break;
+    }
+
+    case 'invoice.paid': {
+      const invoice = event.data.object as Stripe.Invoice;
+      await handleInvoicePaid(invoice, db);
+      break;
+    }
+
+    case 'invoice.payment_failed': {
+      const invoice = event.data.object as Stripe.Invoice;
+      await handleInvoicePaymentFailed(invoice, db);
+      break;
+    }
+
+    case 'customer.subscription.deleted': {
+      const subscription = event.data.object as Stripe.Subscription;
+      await handleSubscriptionDeleted(subscription, db);
+      break;
+    }
+
+    case 'customer.subscription.updated': {
+      const subscription = event.data.object as Stripe.Subscription;
+      await handleSubscriptionUpdated(subscription, db);
+      break;
+    }
+
+    default:
+      console.log(`[Webhook] Unhandled event type: ${event.type}`);
+  }
+}
+
+/**
+ * Process a stored event, unless it is processed or being processed (returns
+ * null then). Returns the event with its outcome: processed, skipped (older
+ * than the subscription's state) or failed.
+ */
+export async function processStripeEvent(eventId: string): Promise<StripeEventRecord | null> {
+  const record = await masterDbService.claimStripeEvent(eventId, config.stripe.eventLockTimeoutMs);
+  if (!record) return null;
+
+  const event = record.payload as unknown as Stripe.Event;
+  // Subscription whose version the event is checked against and sets
+  const versionedSubscriptionId = isSubscriptionStateEvent(event.type) ? record.subscription_id : null;
+
+  try {
+    if (versionedSubscriptionId) {
+      const createdAt = record.stripe_created_at.getTime();
+      const applied = await masterDbService.withStripeSubscriptionLock(
+        versionedSubscriptionId,
+        { stripeCreatedAt: record.stripe_created_at, eventId: event.id },
+        async (version) => {
+          const versionAt = version?.stripeCreatedAt.getTime();
+          if (versionAt !== undefined && createdAt < versionAt) return false;
+
+          if (createdAt === versionAt && version!.eventId !== event.id) {
+            console.log(`[Webhook] ${event.type} ${event.id}: same second as ${version!.eventId}, applying the current subscription`);
+            await dispatchEvent(await getCurrentSubscriptionEvent(event));
+          } else {
+            await dispatchEvent(event);
+          }
+          return true;
+        }
+      );
+
+      if (!applied) {
+        console.log(`[Webhook] Skipped ${event.type} ${event.id}: older than the last event applied to ${versionedSubscriptionId}`);
+        await masterDbService.finishStripeEvent(eventId, 'skipped', 'Older than the last event applied to the subscription');
+        return masterDbService.getStripeEventById(eventId);
+      }
+    } else {
+      await dispatchEvent(event);
+    }
+
+    await masterDbService.finishStripeEvent(eventId, 'processed');
+  } catch (error) {
+    console.error(`[Webhook] Failed to process ${event.type} ${event.id}:`, error);
+    await masterDbService.finishStripeEvent(eventId, 'failed', error instanceof Error ? error.message : 'Unknown error');
+  }
+
+  return masterDbService.getStripeEventById(eventId);
+}
+
+/**
+ * Store a verified webhook event and process it. Returns null for an event
+ * already processed (or being processed).
+ */
+export async function receiveStripeEvent(event: Stripe.Event): Promise<StripeEventRecord | null> {
+  const isNew = await masterDbService.recordStripeEvent({
+    id: event.id,
+    type: event.type,
+    subscriptionId: getEventSubscriptionId(event),
+    stripeCreatedAt: new Date(event.created * 1000),
+    payload: event,
+  });
+
+  console.log(`[Webhook] Received event: ${event.type} ${event.id}${isNew ? '' : ' (retry)'}`);
+  return processStripeEvent(event.id);
+}
+
+/**
+ * Handle subscription creation from checkout
+ */
+async function handleSubscriptionCreated(
+  session: Stripe.Checkout.Session,
+  db: FirebaseFirestore.Firestore
+): Promise<void> {
+  const metadata = session.metadata || {};
+  const subscriptionId = session.subscription as string;
+
+  console.log(`[Webhook] Processing subscription for site ${metadata.siteId}`);
+  console.log(`[Webhook] Subscription ID: ${subscriptionId}`);
+
+  // Get subscription details from Stripe
+  const subscription = await stripeService.getSubscription(subscriptionId);
+  console.log(`[Webhook] Subscription status: ${subscription.status}`);
+
+  const period = getSubscriptionPeriod(subscription);
+  console.log(`[Webhook] Period: start=${period.start}, end=${period.end}`);
+
+  // Validate period values
+  const now = Math.floor(Date.now() / 1000);
+  const periodStart = period.start && Number.isFinite(period.start) ? period.start : now;
+  const periodEnd = period.end && Number.isFinite(period.end) ? period.end : now + (30 * 24 * 60 * 60); // Default 30 days
+
+  console.log(`[Webhook] Using period: start=${periodStart}, end=${periodEnd}`);
+
+  const plan = getPlanFromPriceId(stripeService.getPlanItem(subscription).price.id);
+  console.log(`[Webhook] Mapped plan: ${plan}`);
+
+  // Check if siteBilling already exists
+  const existingDoc = await db
+    .collection('siteBilling')
+    .where('siteId', '==', metadata.siteId)
+    .limit(1)
+    .get();
+
+  const billingData = {
+    siteId: metadata.siteId,
+    userId: metadata.userId,
+    plan: plan,
+    status: 'active',
+    subscriptionId: subscriptionId,
+    stripeCustomerId: session.customer as string,
+    currentPeriodStart: admin.firestore.Timestamp.fromMillis(periodStart * 1000),
+    currentPeriodEnd: admin.firestore.Timestamp.fromMillis(periodEnd * 1000),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+
+  console.log(`[Webhook] Billing data to save:`, JSON.stringify({
+    ...billingData,
+    currentPeriodStart: new Date(periodStart * 1000).toISOString(),
+    currentPeriodEnd: new Date(periodEnd * 1000).toISOString(),
+  }, null, 2));
+
+  if (existingDoc.empty) {
+    console.log(`[Webhook] Creating new siteBilling document`);
+    await db.collection('siteBilling').add({
+      ...billingData,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  } else {
+    console.log(`[Webhook] Updating existing siteBilling document: ${existingDoc.docs[0].id}`);
+    await existingDoc.docs[0].ref.update({
+      ...billingData,
+      // New owner of a transferred site now pays with their own subscription
+      inheritedFromUserId: admin.firestore.FieldValue.delete(),
+      pastDueAt: admin.firestore.FieldValue.delete(),
+      graceEndsAt: admin.firestore.FieldValue.delete(),
+      suspendedAt: admin.firestore.FieldValue.delete(),
+    });
+  }
+
+  // A site suspended for an unpaid subscription runs again on the new one
+  await dunningService.restoreSite(metadata.siteId);
+  await dunningService.applyPlan(metadata.siteId, plan);
+
+  console.log(`[Webhook] Subscription created successfully for site ${metadata.siteId}`);
+}
+
+/**
+ * Handle domain purchase from checkout
+ */
+async function handleDomainPurchase(
+  session: Stripe.Checkout.Session,
+  db: FirebaseFirestore.Firestore
+): Promise<void> {
+  const metadata = session.metadata || {};
+  const domain = metadata.domain;
+  const years = parseInt(metadata.years);
+  const userId = metadata.userId;
+
+  console.log(`[Webhook] Processing domain purchase: ${domain} for ${years} years`);
+
+  // One record per checkout session: a replayed event does not register the domain twice
+  const purchaseRef = db.collection('domainPurchases').doc(session.id);
+  if ((await purchaseRef.get()).data()?.status === 'registered') {
+    console.log(`[Webhook] Domain ${domain} already registered for session ${session.id}`);
+    return;
+  }
+
+  // Build contact info from metadata
+  const contact = {
+    firstName: metadata.contactFirstName || '',
+    lastName: metadata.contactLastName || '',
+    address1: metadata.contactAddress1 || '',
+    city: metadata.contactCity || '',
+    stateProvince: metadata.contactState || '',
+    postalCode: metadata.contactPostalCode || '',
+    country: metadata.contactCountry || 'US',
+    phone: formatPhoneForNamecheap(metadata.contactPhone || '+1.0000000000'),
+    email: metadata.contactEmail || session.customer_email || '',
+  };
+
+  // Validate contact info
+  if (!contact.firstName || !contact.lastName || !contact.email) {
+    console.error('[Webhook] Missing contact information for domain registration');
+
+    await purchaseRef.set({
+      userId,
+      domain,
+      years,
+      stripeSessionId: session.id,
+      stripePaymentIntentId: session.payment_intent,
+      status: 'failed',
+      error: 'Missing contact information',
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return;
+  }
+
+  try {
+    // Register domain with Namecheap
+    const result = await namecheap.registerDomain(domain, years, contact);
+
+    if (result.registered) {
+      console.log(`[Webhook] Domain ${domain} registered successfully`);
+
+      await purchaseRef.set({
+        userId,
+        domain,
+        years,
+        orderId: result.orderId,
+        transactionId: result.transactionId,
+        chargedAmount: result.chargedAmount,
+        stripeSessionId: session.id,
+        stripePaymentIntentId: session.payment_intent,
+        status: 'registered',
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    } else {
+      console.error(`[Webhook] Domain registration failed: ${result.error}`);
+
+      await purchaseRef.set({
+        userId,
+        domain,
+        years,
+        stripeSessionId: session.id,
+        stripePaymentIntentId: session.payment_intent,
+        status: 'failed',
+        error: result.error,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+  } catch (error) {
+    console.error('[Webhook] Domain registration error:', error);
+
+    await purchaseRef.set({
+      userId,
+      domain,
+      years,
+      stripeSessionId: session.id,
+      stripePaymentIntentId: session.payment_intent,
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+}
+
+/**
+ * Handle invoice paid event
+ */
+async function handleInvoicePaid(
+  invoice: Stripe.Invoice,
+  db: FirebaseFirestore.Firestore
+): Promise<void> {
+  // Get subscription ID from invoice (access via bracket notation for compatibility)
+  const invoiceData = invoice as unknown as { subscription?: string | { id: string } | null };
+  const subscriptionId = typeof invoiceData.subscription === 'string'
+    ? invoiceData.subscription
+    : invoiceData.subscription?.id;
+
+  if (!subscriptionId) {
+    console.log(`[Webhook] Invoice paid but no subscription ID found`);
+    return;
+  }
+
+  console.log(`[Webhook] Invoice paid for subscription ${subscriptionId}`);
+
+  const subscription = await stripeService.getSubscription(subscriptionId);
+  const period = getSubscriptionPeriod(subscription);
+  console.log(`[Webhook] Invoice period: start=${period.start}, end=${period.end}`);
+
+  // Validate period values
+  const now = Math.floor(Date.now() / 1000);
+  const periodStart = period.start && Number.isFinite(period.start) ? period.start : now;
+  const periodEnd = period.end && Number.isFinite(period.end) ? period.end : now + (30 * 24 * 60 * 60);
+
+  const siteBillingQuery = await db
+    .collection('siteBilling')
+    .where('subscriptionId', '==', subscriptionId)
+    .limit(1)
+    .get();
+
+  if (!siteBillingQuery.empty) {
+    console.log(`[Webhook] Updating siteBilling for invoice paid`);
+    await dunningService.recordPaymentSucceeded(siteBillingQuery.docs[0], {
+      currentPeriodStart: admin.firestore.Timestamp.fromMillis(periodStart * 1000),
+      currentPeriodEnd: admin.firestore.Timestamp.fromMillis(periodEnd * 1000),
+    });
+  } else {
+    console.log(`[Webhook] No siteBilling found for subscription ${subscriptionId}`);
+  }
+}
+
+/**
+ * Handle invoice payment failed event: starts the grace period before the site is suspended
+ */
+async function handleInvoicePaymentFailed(
+  invoice: Stripe.Invoice,
+  db: FirebaseFirestore.Firestore
+): Promise<void> {
+  // Get subscription ID from invoice (access via bracket notation for compatibility)
+  const invoiceData = invoice as unknown as { subscription?: string | { id: string } | null };
+  const subscriptionId = typeof invoiceData.subscription === 'string'
+    ? invoiceData.subscription
+    : invoiceData.subscription?.id;
+
+  if (!subscriptionId) return;
+
+  console.log(`[Webhook] Invoice payment failed for subscription ${subscriptionId}`);
+
+  const siteBillingQuery = await db
+    .collection('siteBilling')
+    .where('subscriptionId', '==', subscriptionId)
+    .limit(1)
+    .get();
+
+  if (!siteBillingQuery.empty) {
+    await dunningService.recordPaymentFailed(siteBillingQuery.docs[0]);
+  }
+}
+
+/**
+ * Handle subscription deleted event: the site drops to the free plan (suspended if unpaid)
+ */
+async function handleSubscriptionDeleted(
+  subscription: Stripe.Subscription,
+  db: FirebaseFirestore.Firestore
+): Promise<void> {
+  console.log(`[Webhook] Subscription deleted: ${subscription.id}`);
+
+  const siteBillingQuery = await db
+    .collection('siteBilling')
+    .where('subscriptionId', '==', subscription.id)
+    .limit(1)
+    .get();
+
+  if (!siteBillingQuery.empty) {
+    await dunningService.recordSubscriptionCancelled(siteBillingQuery.docs[0]);
+  }
+}
+
+/**
+ * Handle subscription updated event
+ */
+async function handleSubscriptionUpdated(
+  subscription: Stripe.Subscription,
+  db: FirebaseFirestore.Firestore
+): Promise<void> {
+  console.log(`[Webhook] Subscription updated: ${subscription.id}`);
+
+  const period = getSubscriptionPeriod(subscription);
+  console.log(`[Webhook] Update period: start=${period.start}, end=${period.end}`);
+
+  // Validate period values
+  const now = Math.floor(Date.now() / 1000);
+  const periodStart = period.start && Number.isFinite(period.start) ? period.start : now;
+  const periodEnd = period.end && Number.isFinite(period.end) ? period.end : now + (30 * 24 * 60 * 60);
+
+  const siteBillingQuery = await db
+    .collection('siteBilling')
+    .where('subscriptionId', '==', subscription.id)
+    .limit(1)
+    .get();
+
+  if (!siteBillingQuery.empty) {
+    const plan = getPlanFromPriceId(stripeService.getPlanItem(subscription).price.id);
+    console.log(`[Webhook] Updating subscription to plan: ${plan}, status: ${subscription.status}`);
+    const billingDoc = siteBillingQuery.docs[0];
+    const fields = {
+      plan: plan,
+      currentPeriodStart: admin.firestore.Timestamp.fromMillis(periodStart * 1000),
+      currentPeriodEnd: admin.firestore.Timestamp.fromMillis(periodEnd * 1000),
+    };
+
+    // Status changes go through the dunning state machine
+    if (subscription.status === 'active') {
+      await dunningService.recordPaymentSucceeded(billingDoc, fields);
+    } else {
+      await billingDoc.ref.update({ ...fields, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+      if (subscription.status === 'past_due' || subscription.status === 'unpaid') {
+        await dunningService.recordPaymentFailed(billingDoc);
+      }
+    }
+    await dunningService.applyPlan(billingDoc.data().siteId, plan);
+  } else {
+    console.log(`[Webhook] No siteBilling found for subscription ${subscription.id}`);
+  }
+}
+
+/**
+ * Map Stripe price ID to plan name
+ * Plans: free (trial), starter (no custom domain), pro (with custom domain)
+ */
+function getPlanFromPriceId(priceId: string): 'free' | 'starter' | 'pro' {
+  const { prices } = config.stripe;
+
+  console.log(`[Webhook] getPlanFromPriceId called with priceId: ${priceId}`);
+  console.log(`[Webhook] Config prices:`, JSON.stringify(prices, null, 2));
+
+  if (priceId === prices.starter) {
+    console.log(`[Webhook] Matched starter plan (no custom domain)`);
+    return 'starter';
+  }
+  if (priceId === prices.monthly) {
+    console.log(`[Webhook] Matched monthly -> pro plan`);
+    return 'pro';
+  }
+  if (priceId === prices.annual) {
+    console.log(`[Webhook] Matched annual -> pro plan`);
+    return 'pro';
+  }
+  if (priceId === prices.biennial) {
+    console.log(`[Webhook] Matched biennial -> pro plan`);
+    return 'pro';
+  }
+
+  console.log(`[Webhook] No match found, defaulting to free`);
+  return 'free';
+}
@@ -0,0 +1,361 @@
+/**
+ * Teardown Service - Site deletion with a restore window
+ *
+ * Deleting a site is a soft delete first: the site is deactivated (master_sites,
+ * Render service suspended), its subscription is set to cancel at period end and
+ * a teardown is scheduled in the master database (site_teardowns). Until purge_at
+ * the owner can restore the site from the dashboard.
+ *
+ * Once the restore window is over, a worker purges the site from every store,
+ * one idempotent step at a time:
+ *   custom_domains -> billing -> templates -> render -> backups -> database -> master_site -> site_record
+ *
+ * Every action is appended to the teardown's audit log.
+ */
+
+import crypto from 'crypto';
+import admin from 'firebase-admin';
+import { config } from '../config/index.js';
+import * as sitesService from './sites.js';
+import * as renderService from './render.js';
+import * as flyService from './fly.js';
+import * as stripeService from './stripe.js';
+import * as databaseService from './database.js';
+import * as masterDbService from './masterDb.js';
+import * as stagingService from './staging.js';
+import * as backupsService from './backups.js';
+import * as templateVersionsService from './templateVersions.js';
+import type { Site } from './sites.js';
+import type { SiteTeardownRecord, SiteTeardownStep } from './masterDb.js';
+
+export const TEARDOWN_STEPS: SiteTeardownStep[] = [
+  'custom_domains',
+  'billing',
+  'templates',
+  'render',
+  'backups',
+  'database',
+  'master_site',
+  'site_record',
+];
+
+// Same retry policy as provisioning
+const MAX_ATTEMPTS = config.provisioning.maxAttempts;
+const LOCK_TIMEOUT_MS = config.provisioning.lockTimeoutMs;
+
+// Unique ID for this API process (used to lock teardowns)
+const WORKER_ID = `teardown-${crypto.randomUUID()}`;
+
+/**
+ * Get the siteBilling document for a site, if any
+ */
+async function getSiteBillingDoc(siteId: string) {
+  const snapshot = await admin.firestore()
+    .collection('siteBilling')
+    .where('siteId', '==', siteId)
+    .limit(1)
+    .get();
+
+  return snapshot.empty ? null : snapshot.docs[0];
+}
+
+/**
+ * Soft delete a site: deactivate it everywhere and schedule the purge
+ */
+export async function scheduleSiteDeletion(
+  site: Site,
+  requestedBy: string
+): Promise<SiteTeardownRecord> {
+  const purgeAt = new Date(Date.now() + config.teardown.softDeleteDays * 24 * 60 * 60 * 1000);
+
+  const teardown = await masterDbService.createSiteTeardown({
+    siteId: site.siteId,
+    siteDocId: site.id,
+    userId: site.userId,
+    requestedBy,
+    purgeAt,
+  });
+  console.log(`[Teardown] Site ${site.siteId} scheduled for purge at ${purgeAt.toISOString()}`);
+
+  // Stop routing (multi-tenant) - the row and database are kept for restore
+  await masterDbService.deactivateMasterSite(site.siteId);
+  await masterDbService.deactivateMasterSite(stagingService.getStagingSiteId(site.siteId));
+  await masterDbService.appendSiteTeardownLog(teardown.id, 'master_site_deactivated');
+
+  // Single-tenant: suspend the site's Render service
+  if (site.renderServiceId && site.renderServiceId !== 'multi-tenant') {
+    try {
+      await renderService.suspendService(site.renderServiceId);
+      await masterDbService.appendSiteTeardownLog(teardown.id, 'render_service_suspended', site.renderServiceId);
+    } catch (error) {
+      console.error(`[Teardown] Failed to suspend Render service for ${site.siteId}:`, error);
+      await masterDbService.appendSiteTeardownLog(teardown.id, 'render_service_suspend_failed', String(error));
+    }
+  }
+
+  // Stop renewing the subscription (undone on restore)
+  const billingDoc = await getSiteBillingDoc(site.siteId);
+  const subscriptionId = billingDoc?.data().subscriptionId;
+  if (subscriptionId && billingDoc?.data().status !== 'cancelled') {
+    try {
+      await stripeService.setSubscriptionCancelAtPeriodEnd(subscriptionId, true);
+      await masterDbService.appendSiteTeardownLog(teardown.id, 'subscription_cancel_scheduled', subscriptionId);
+    } catch (error) {
+      console.error(`[Teardown] Failed to schedule subscription cancellation for ${site.siteId}:`, error);
+      await masterDbService.appendSiteTeardownLog(teardown.id, 'subscription_cancel_schedule_failed', String(error));
+    }
+  }
+
+  await sitesService.markSiteDeleted(site.id, purgeAt, site.status);
+
+  return teardown;
+}
+
+/**
+ * Restore a soft-deleted site. Returns false if the purge already started.
+ */
+export async function restoreSite(site: Site, restoredBy: string): Promise<boolean> {
+  const teardown = await masterDbService.getActiveSiteTeardown(site.siteId);
+  if (!teardown || !(await masterDbService.restoreSiteTeardown(teardown.id, restoredBy))) {
+    return false;
+  }
+
+  // Sites suspended for non-payment stay deactivated until paid (see dunning)
+  const masterSite = await masterDbService.getMasterSiteBySiteId(site.siteId);
+  if (!masterSite?.suspended_reason) {
+    await masterDbService.reactivateMasterSite(site.siteId);
+    await masterDbService.reactivateMasterSite(stagingService.getStagingSiteId(site.siteId));
+  }
+
+  if (site.renderServiceId && site.renderServiceId !== 'multi-tenant') {
+    try {
+      await renderService.resumeService(site.renderServiceId);
+    } catch (error) {
+      console.error(`[Teardown] Failed to resume Render service for ${site.siteId}:`, error);
+      await masterDbService.appendSiteTeardownLog(teardown.id, 'render_service_resume_failed', String(error));
+    }
+  }
+
+  const billingDoc = await getSiteBillingDoc(site.siteId);
+  const subscriptionId = billingDoc?.data().subscriptionId;
+  if (subscriptionId && billingDoc?.data().status !== 'cancelled') {
+    try {
+      await stripeService.setSubscriptionCancelAtPeriodEnd(subscriptionId, false);
+    } catch (error) {
+      console.error(`[Teardown] Failed to resume subscription for ${site.siteId}:`, error);
+      await masterDbService.appendSiteTeardownLog(teardown.id, 'subscription_resume_failed', String(error));
+    }
+  }
+
+  await sitesService.restoreDeletedSite(site.id, site.statusBeforeDelete || 'active');
+  console.log(`[Teardown] Site ${site.siteId} restored by ${restoredBy}`);
+
+  return true;
+}
+
+/**
+ * Step: remove Fly certificates and custom domain rows
+ */
+async function removeCustomDomains(teardown: SiteTeardownRecord, site: Site | null): Promise<string> {
+  const domains = new Set<string>();
+  for (const domain of site?.customDomains || (site?.customDomain ? [site.customDomain] : [])) {
+    domains.add(domain.domain);
+  }
+  for (const row of await masterDbService.getMasterSiteCustomDomains(teardown.site_id)) {
+    domains.add(row.domain);
+  }
+
+  if (flyService.isConfigured()) {
+    for (const domain of domains) {
+      const hostnames = domain.startsWith('www.') ? [domain] : [domain, `www.${domain}`];
+      for (const hostname of hostnames) {
+        // Already deleted (e.g. by a previous attempt) - nothing to do
+        if (!(await flyService.getCertificate(hostname))) continue;
+        await flyService.deleteCertificate(hostname);
+      }
+    }
+  }
+
+  await masterDbService.removeMasterSiteCustomDomain(teardown.site_id);
+
+  return domains.size > 0 ? Array.from(domains).join(', ') : 'none';
+}
+
+/**
+ * Step: cancel the subscription and remove the billing record
+ */
+async function removeBilling(teardown: SiteTeardownRecord): Promise<string> {
+  const billingDoc = await getSiteBillingDoc(teardown.site_id);
+  if (!billingDoc) {
+    return 'none';
+  }
+
+  const { subscriptionId, status } = billingDoc.data();
+  if (subscriptionId && status !== 'cancelled') {
+    const subscription = await stripeService.getSubscription(subscriptionId);
+    if (subscription.status !== 'canceled') {
+      await stripeService.cancelSubscription(subscriptionId);
+    }
+  }
+
+  await billingDoc.ref.delete();
+
+  return subscriptionId || 'no subscription';
+}
+
+/**
+ * Step: delete templates published from this site, with their snapshots
+ */
+async function removeTemplates(teardown: SiteTeardownRecord): Promise<string> {
+  const count = await templateVersionsService.deleteTemplatesBySourceSite(teardown.site_id);
+  return `${count} template(s)`;
+}
+
+/**
+ * Step: delete the single-tenant Render service
+ */
+async function removeRenderService(_teardown: SiteTeardownRecord, site: Site | null): Promise<string> {
+  if (!site?.renderServiceId || site.renderServiceId === 'multi-tenant') {
+    return 'none';
+  }
+
+  try {
+    await renderService.deleteService(site.renderServiceId);
+  } catch (error) {
+    // Already deleted
+    if (!(error instanceof Error && error.message.endsWith(': 404'))) throw error;
+  }
+
+  return site.renderServiceId;
+}
+
+/**
+ * Step: delete the site's backups (blobs and records)
+ */
+async function removeBackups(teardown: SiteTeardownRecord): Promise<string> {
+  const count = await backupsService.deleteSiteBackups(teardown.site_id);
+  return `${count} backup(s)`;
+}
+
+/**
+ * Step: drop the site database (and its staging copy)
+ */
+async function removeDatabase(teardown: SiteTeardownRecord): Promise<string> {
+  await stagingService.deleteStaging(teardown.site_id);
+
+  const dbName = await databaseService.getSiteDatabaseName(teardown.site_id);
+  const masterSite = await masterDbService.getMasterSiteBySiteId(teardown.site_id);
+  await databaseService.dropDatabase(teardown.site_id);
+  if (masterSite) {
+    await databaseService.dropSiteRole(masterSite.db_user);
+  }
+  return dbName;
+}
+
+/**
+ * Step: delete the master_sites row (routing + credentials)
+ */
+async function removeMasterSite(teardown: SiteTeardownRecord): Promise<string> {
+  await masterDbService.deleteMasterSite(teardown.site_id);
+  return teardown.site_id;
+}
+
+/**
+ * Step: delete the Firestore site document (frees the site ID)
+ */
+async function removeSiteRecord(teardown: SiteTeardownRecord): Promise<string> {
+  await sitesService.deleteSite(teardown.site_doc_id);
+  return teardown.site_doc_id;
+}
+
+const stepHandlers: Record<
+  SiteTeardownStep,
+  (teardown: SiteTeardownRecord, site: Site | null) => Promise<string>
+> = {
+  custom_domains: removeCustomDomains,
+  billing: removeBilling,
+  templates: removeTemplates,
+  render: removeRenderService,
+  backups: removeBackups,
+  database: removeDatabase,
+  master_site: removeMasterSite,
+  site_record: removeSiteRecord,
+};
+
+/**
+ * Run the remaining purge steps of a claimed teardown
+ */
+async function processTeardown(teardown: SiteTeardownRecord): Promise<void> {
+  const site = await sitesService.getSiteById(teardown.site_doc_id);
+  const remaining = TEARDOWN_STEPS.filter((step) => !teardown.completed_steps.includes(step));
+
+  console.log(`[Teardown] Purging site ${teardown.site_id}, remaining steps: ${remaining.join(', ') || 'none'}`);
+
+  for (const step of remaining) {
+    try {
+      const detail = await stepHandlers[step](teardown, site);
+      await masterDbService.completeSiteTeardownStep(teardown.id, step, detail);
+      teardown.attempts = 0;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const attempts = teardown.attempts + 1;
+
+      if (attempts >= MAX_ATTEMPTS) {
+        console.error(`[Teardown] Step '${step}' failed permanently for site ${teardown.site_id}:`, error);
+        await masterDbService.finishSiteTeardown(teardown.id, 'failed', `${step}: ${message}`);
+        return;
+      }
+
+      const delay = Math.min(
+        config.provisioning.backoffBaseMs * 2 ** (attempts - 1),
+        config.provisioning.backoffMaxMs
+      );
+      console.error(`[Teardown] Step '${step}' failed for site ${teardown.site_id} (attempt ${attempts}/${MAX_ATTEMPTS}), retrying in ${delay}ms:`, error);
+      await masterDbService.scheduleSiteTeardownRetry(
+        teardown.id,
+        step,
+        attempts,
+        new Date(Date.now() + delay),
+        message
+      );
+      return;
+    }
+  }
+
+  await masterDbService.finishSiteTeardown(teardown.id, 'completed');
+  console.log(`[Teardown] Site ${teardown.site_id} purged`);
+}
+
+let running = false;
+
+/**
+ * Claim and process due teardowns until none are left
+ */
+async function runDueTeardowns(): Promise<void> {
+  if (running) return;
+  running = true;
+
+  try {
+    let teardown = await masterDbService.claimNextSiteTeardown(WORKER_ID, LOCK_TIMEOUT_MS);
+    while (teardown) {
+      await processTeardown(teardown);
+      teardown = await masterDbService.claimNextSiteTeardown(WORKER_ID, LOCK_TIMEOUT_MS);
+    }
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Start the teardown worker (purges sites whose restore window is over)
+ */
+export function startTeardownWorker(): void {
+  console.log(`[Teardown] Worker ${WORKER_ID} started (soft delete period: ${config.teardown.softDeleteDays} days)`);
+
+  const tick = () => {
+    runDueTeardowns().catch((error) => console.error('[Teardown] Worker run failed:', error));
+  };
+
+  tick();
+  setInterval(tick, config.teardown.pollIntervalMs);
+}
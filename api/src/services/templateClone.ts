@@ -0,0 +1,139 @@
+/**
+ * Template Clone Service - Personalize a site database cloned from a template
+ *
+ * Template content may contain placeholders ({{site_title}}, {{site_id}},
+ * {{site_url}}, {{owner_email}}, {{owner_name}}) in document JSON, controlpanel
+ * data and catalog metadata. Once the owner was rewritten, they are replaced
+ * with what was entered in the builder, and whatever the demo site accumulated
+ * is scrubbed: version history, users other than the owner (their documents
+ * go to the owner), locks and workflow history. Documents get new created and
+ * modified dates.
+ *
+ * Unknown placeholders are left as they are. Search vectors of the catalog are
+ * not rebuilt: they are refreshed when a document is next saved.
+ */
+
+import _ from 'lodash';
+import * as tenantConnections from './tenantConnections.js';
+
+export type TemplatePlaceholder = 'site_title' | 'site_id' | 'site_url' | 'owner_email' | 'owner_name';
+
+export type TemplatePlaceholderValues = Record<TemplatePlaceholder, string>;
+
+// Users every site keeps
+const SYSTEM_USERS = ['anonymous'];
+
+// Catalog date columns (index and metadata) set to the clone date
+const CATALOG_DATE_COLUMNS = ['created', 'modified', '_created', '_modified'];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+/**
+ * Replace the placeholders in every string of a JSON value
+ */
+function substitute(value: unknown, values: TemplatePlaceholderValues): unknown {
+  if (typeof value === 'string') {
+    return value.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+      _.has(values, name) ? values[name as TemplatePlaceholder] : placeholder
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => substitute(item, values));
+  }
+  if (_.isPlainObject(value)) {
+    return _.mapValues(value as Record<string, unknown>, (item) => substitute(item, values));
+  }
+  return value;
+}
+
+/**
+ * Catalog value as a query parameter: string arrays are Postgres arrays, other objects JSON
+ */
+function toCatalogParam(value: unknown): unknown {
+  if (_.isPlainObject(value) || (Array.isArray(value) && !value.every((item) => typeof item === 'string'))) {
+    return JSON.stringify(value);
+  }
+  return value;
+}
+
+/**
+ * Substitute the placeholders of the template and scrub the demo site's users and history
+ */
+export async function personalizeTemplateClone(
+  siteId: string,
+  params: { ownerId: string; values: TemplatePlaceholderValues }
+): Promise<{ documents: number; users: number }> {
+  const { ownerId, values } = params;
+
+  return tenantConnections.withTenantClient(siteId, async (client) => {
+    try {
+      await client.query('BEGIN');
+
+      // Placeholders (only rows that may contain one)
+      let documents = 0;
+      const documentRows = await client.query(`SELECT uuid, json FROM document WHERE json::text LIKE '%{{%'`);
+      for (const row of documentRows.rows) {
+        const json = substitute(row.json, values);
+        if (!_.isEqual(json, row.json)) {
+          await client.query('UPDATE document SET json = $2 WHERE uuid = $1', [row.uuid, JSON.stringify(json)]);
+          documents++;
+        }
+      }
+
+      const controlpanelRows = await client.query(`SELECT id, data FROM controlpanel WHERE data::text LIKE '%{{%'`);
+      for (const row of controlpanelRows.rows) {
+        await client.query('UPDATE controlpanel SET data = $2 WHERE id = $1', [row.id, JSON.stringify(substitute(row.data, values))]);
+      }
+
+      const catalogRows = await client.query('SELECT * FROM catalog');
+      for (const row of catalogRows.rows) {
+        const changed = _.pickBy(
+          _.mapValues(_.omit(row, 'document'), (value) => substitute(value, values)),
+          (value, column) => !_.isEqual(value, row[column])
+        );
+        const columns = Object.keys(changed);
+        if (columns.length === 0) continue;
+
+        await client.query(
+          `UPDATE catalog SET ${columns.map((column, i) => `${client.escapeIdentifier(column)} = $${i + 2}`).join(', ')} WHERE document = $1`,
+          [row.document, ...columns.map((column) => toCatalogParam(changed[column]))]
+        );
+      }
+
+      // History of the demo site
+      await client.query('DELETE FROM version');
+      await client.query(`
+        UPDATE document SET
+          version = 0,
+          created = NOW(),
+          modified = NOW(),
+          lock = '{"locked": false, "stealable": true}',
+          workflow_history = '[]'
+      `);
+      await client.query(`UPDATE document SET json = jsonb_set(json, '{creators}', $1::jsonb) WHERE json ? 'creators'`, [JSON.stringify([ownerId])]);
+
+      const dateColumns = await client.query(
+        `SELECT column_name FROM information_schema.columns
+         WHERE table_schema = 'public' AND table_name = 'catalog' AND column_name = ANY($1)`,
+        [CATALOG_DATE_COLUMNS]
+      );
+      if (dateColumns.rows.length > 0) {
+        await client.query(
+          `UPDATE catalog SET ${dateColumns.rows.map((row) => `${client.escapeIdentifier(row.column_name)} = NOW()`).join(', ')}`
+        );
+      }
+
+      // Users of the demo site (deleting a user cascades to the documents it owns: hand them over first)
+      const keep = [ownerId, ...SYSTEM_USERS];
+      await client.query('UPDATE document SET owner = $1 WHERE owner <> ALL($2)', [ownerId, keep]);
+      const users = await client.query('DELETE FROM "user" WHERE id <> ALL($1)', [keep]);
+
+      await client.query('COMMIT');
+      console.log(`[TemplateClone] ${siteId}: placeholders replaced in ${documents} document(s), ${users.rowCount ?? 0} user(s) removed`);
+      return { documents, users: users.rowCount ?? 0 };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  });
+}
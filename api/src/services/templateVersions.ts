@@ -0,0 +1,119 @@
+/**
+ * Template Versions Service - Immutable snapshots of template source sites
+ *
+ * Publishing a template version clones the source site's database into a
+ * snapshot database of its own (luna_tpl_<versionId>). Admins pin the version
+ * new sites are cloned from, so editing the demo site no longer changes the
+ * template until a new version is published and pinned.
+ *
+ * Templates without a pinned version (created before versions existed) are
+ * still cloned from their live source site.
+ */
+
+import crypto from 'crypto';
+import * as databaseService from './database.js';
+import * as masterDbService from './masterDb.js';
+import type { TemplateRecord, TemplateVersionRecord } from './masterDb.js';
+
+function getSnapshotDbName(versionId: string): string {
+  return `luna_tpl_${versionId.replace(/-/g, '')}`;
+}
+
+/**
+ * Snapshot a template's source site as a new version. The first version (or any
+ * with pin set) becomes the pinned one.
+ */
+export async function publishTemplateVersion(
+  template: TemplateRecord,
+  params: { createdBy: string; notes?: string; pin?: boolean }
+): Promise<TemplateVersionRecord> {
+  const sourceDbName = await databaseService.getSiteDatabaseName(template.source_site_id);
+  const id = crypto.randomUUID();
+
+  const version = await masterDbService.createTemplateVersion({
+    id,
+    templateId: template.id,
+    dbName: getSnapshotDbName(id),
+    sourceSiteId: template.source_site_id,
+    notes: params.notes,
+    createdBy: params.createdBy,
+  });
+
+  try {
+    console.log(`[Templates] Publishing version ${version.version} of ${template.id} from ${sourceDbName}`);
+    await databaseService.cloneDatabaseByName(sourceDbName, version.db_name);
+    await databaseService.revokeDatabaseAccess(version.db_name);
+  } catch (error) {
+    await databaseService.dropDatabaseByName(version.db_name).catch(() => undefined);
+    await masterDbService.deleteTemplateVersion(version.id);
+    throw error;
+  }
+
+  await masterDbService.markTemplateVersionReady(version.id);
+
+  if (params.pin || !template.pinned_version_id) {
+    await masterDbService.pinTemplateVersion(template.id, version.id);
+  }
+
+  return { ...version, ready: true };
+}
+
+/**
+ * Delete a version that is not pinned, with its snapshot database
+ */
+export async function deleteTemplateVersion(version: TemplateVersionRecord): Promise<void> {
+  await masterDbService.deleteTemplateVersion(version.id);
+  await databaseService.dropDatabaseByName(version.db_name);
+}
+
+/**
+ * Delete a template (only its owner can) and drop its snapshots. Returns false if not found.
+ */
+export async function deleteTemplate(templateId: string, userId: string): Promise<boolean> {
+  const versions = await masterDbService.getTemplateVersions(templateId);
+
+  if (!(await masterDbService.deleteTemplate(templateId, userId))) {
+    return false;
+  }
+
+  for (const version of versions) {
+    await databaseService.dropDatabaseByName(version.db_name);
+  }
+  console.log(`[Templates] Deleted ${templateId} and ${versions.length} snapshot(s)`);
+  return true;
+}
+
+/**
+ * Delete the templates published from a site (used when the site is purged)
+ */
+export async function deleteTemplatesBySourceSite(siteId: string): Promise<number> {
+  const templates = await masterDbService.getTemplatesBySourceSite(siteId);
+
+  for (const template of templates) {
+    await deleteTemplate(template.id, template.user_id);
+  }
+  return templates.length;
+}
+
+/**
+ * Database new sites of a template are cloned from: the pinned snapshot, else
+ * (legacy templates) the live source site's. Null if the template no longer exists.
+ */
+export async function getTemplateCloneSource(
+  templateId: string
+): Promise<{ dbName: string; versionId: string | null } | null> {
+  const template = await masterDbService.getTemplateById(templateId);
+  if (!template) return null;
+
+  if (template.pinned_version_id) {
+    const version = await masterDbService.getTemplateVersionById(template.pinned_version_id);
+    if (version?.ready) {
+      return { dbName: version.db_name, versionId: version.id };
+    }
+  }
+
+  if (!template.source_site_id) return null;
+
+  console.warn(`[Templates] ${templateId} has no published version, cloning live site ${template.source_site_id}`);
+  return { dbName: await databaseService.getSiteDatabaseName(template.source_site_id), versionId: null };
+}
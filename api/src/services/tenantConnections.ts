@@ -0,0 +1,330 @@
+/**
+ * Tenant Connections - Shared connection pools to site databases
+ *
+ * Every query the API runs against a site database goes through a pool kept
+ * here, keyed by site ID. The connection is resolved from master_sites on each
+ * checkout (falling back to the luna_<siteId> database with the shared
+ * credentials before the site is registered), so a pool is replaced as soon
+ * as the site moves to another database (staging promotion, rename) or its
+ * credentials change.
+ *
+ * Pools are bounded (config.tenantConnections.maxClientsPerPool) and so is
+ * their number: beyond maxPools the least recently used pool is closed. A
+ * sweeper closes pools unused for idleTimeoutMs and health checks the others.
+ *
+ * Bulk jobs that need Knex (bootstrap, migrations, imports) keep their own
+ * short-lived Knex instance.
+ */
+
+import pg from 'pg';
+import _ from 'lodash';
+import { config } from '../config/index.js';
+import * as databaseService from './database.js';
+import * as masterDbService from './masterDb.js';
+
+// How long closing a pool may wait for its checked out clients
+const CLOSE_TIMEOUT_MS = 5000;
+
+export type TenantPoolEvictionReason = 'lru' | 'idle' | 'unhealthy' | 'stale' | 'closed';
+
+interface TenantConnection {
+  host: string;
+  port: number;
+  database: string;
+  user: string;
+  password: string;
+}
+
+interface TenantPoolEntry {
+  siteId: string;
+  database: string;
+  connection: TenantConnection;
+  pool: pg.Pool;
+  createdAt: Date;
+  lastUsedAt: Date;
+  lastCheckedAt: Date | null;
+}
+
+export interface TenantConnectionMetrics {
+  pools: number;
+  maxPools: number;
+  hits: number;
+  misses: number;
+  errors: number;
+  evictions: Record<TenantPoolEvictionReason, number>;
+  clients: { total: number; idle: number; waiting: number };
+  sites: Array<{
+    siteId: string;
+    database: string;
+    totalCount: number;
+    idleCount: number;
+    waitingCount: number;
+    createdAt: Date;
+    lastUsedAt: Date;
+    lastCheckedAt: Date | null;
+  }>;
+}
+
+// In least recently used order: a Map keeps insertion order, entries are re-inserted on use
+const pools = new Map<string, TenantPoolEntry>();
+
+// Checkouts resolving a site's connection: concurrent ones share it (and one pool)
+const checkouts = new Map<string, Promise<pg.Pool>>();
+
+const counters = {
+  hits: 0,
+  misses: 0,
+  errors: 0,
+  evictions: { lru: 0, idle: 0, unhealthy: 0, stale: 0, closed: 0 } as Record<TenantPoolEvictionReason, number>,
+};
+
+/**
+ * Connection to a site database: its master_sites row, else the conventional database
+ */
+async function resolveConnection(siteId: string): Promise<TenantConnection> {
+  const connection = await masterDbService.getMasterSiteDbConnection(siteId);
+  if (connection) return connection;
+
+  // Not registered yet (provisioning)
+  const info = databaseService.parseDatabaseUrl(databaseService.getDatabaseUrl(siteId));
+  return {
+    host: info.host,
+    port: parseInt(info.port),
+    database: info.database,
+    user: info.user,
+    password: info.password,
+  };
+}
+
+/**
+ * Close a pool without waiting longer than CLOSE_TIMEOUT_MS for clients still checked out
+ */
+async function endPool(entry: TenantPoolEntry): Promise<void> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<void>((resolve) => {
+    timer = setTimeout(resolve, CLOSE_TIMEOUT_MS);
+  });
+
+  try {
+    await Promise.race([entry.pool.end(), timeout]);
+  } catch (error) {
+    console.error(`[TenantConnections] Failed to close pool of ${entry.siteId}:`, error);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Remove a pool from the cache and close it
+ */
+async function evict(entry: TenantPoolEntry, reason: TenantPoolEvictionReason): Promise<void> {
+  if (pools.get(entry.siteId) === entry) {
+    pools.delete(entry.siteId);
+  }
+  counters.evictions[reason]++;
+  console.log(`[TenantConnections] Closing pool of ${entry.siteId} (${entry.database}, ${reason})`);
+  await endPool(entry);
+}
+
+function createPool(siteId: string, connection: TenantConnection): TenantPoolEntry {
+  const { tenantConnections } = config;
+  const pool = new pg.Pool({
+    host: connection.host,
+    port: connection.port,
+    database: connection.database,
+    user: connection.user,
+    password: connection.password,
+    ssl: connection.host.includes('render.com') ? { rejectUnauthorized: false } : false,
+    max: tenantConnections.maxClientsPerPool,
+    idleTimeoutMillis: tenantConnections.clientIdleTimeoutMs,
+    connectionTimeoutMillis: tenantConnections.connectionTimeoutMs,
+  });
+
+  // Idle clients are terminated when a database is dropped or renamed: must not crash the process
+  pool.on('error', (error) => {
+    counters.errors++;
+    console.error(`[TenantConnections] Idle client of ${siteId} failed:`, error.message);
+  });
+
+  const now = new Date();
+  return {
+    siteId,
+    database: connection.database,
+    connection,
+    pool,
+    createdAt: now,
+    lastUsedAt: now,
+    lastCheckedAt: null,
+  };
+}
+
+/**
+ * Get the pool of a site database, opening it if needed
+ */
+function getTenantPool(siteId: string): Promise<pg.Pool> {
+  let checkout = checkouts.get(siteId);
+  if (!checkout) {
+    checkout = checkOutTenantPool(siteId).finally(() => checkouts.delete(siteId));
+    checkouts.set(siteId, checkout);
+  }
+  return checkout;
+}
+
+async function checkOutTenantPool(siteId: string): Promise<pg.Pool> {
+  const connection = await resolveConnection(siteId);
+
+  // No await from here on: the pool found or created is in pools before another checkout looks
+  let entry = pools.get(siteId);
+  if (entry && !_.isEqual(entry.connection, connection)) {
+    // The site moved to another database or its credentials changed
+    void evict(entry, 'stale');
+    entry = undefined;
+  }
+
+  if (entry) {
+    counters.hits++;
+    pools.delete(siteId);
+  } else {
+    counters.misses++;
+    entry = createPool(siteId, connection);
+  }
+
+  entry.lastUsedAt = new Date();
+  pools.set(siteId, entry);
+
+  while (pools.size > config.tenantConnections.maxPools) {
+    const [, leastRecent] = pools.entries().next().value as [string, TenantPoolEntry];
+    void evict(leastRecent, 'lru');
+  }
+
+  return entry.pool;
+}
+
+/**
+ * Run queries on a client checked out from a site's pool. The client is
+ * released afterwards (and discarded if fn failed, it may be broken).
+ */
+export async function withTenantClient<T>(
+  siteId: string,
+  fn: (client: pg.PoolClient) => Promise<T>
+): Promise<T> {
+  const pool = await getTenantPool(siteId);
+  const client = await pool.connect();
+
+  try {
+    const result = await fn(client);
+    client.release();
+    return result;
+  } catch (error) {
+    client.release(error instanceof Error ? error : true);
+    throw error;
+  }
+}
+
+/**
+ * Run a single query on a site database
+ */
+export async function queryTenant(
+  siteId: string,
+  text: string,
+  values?: unknown[]
+): Promise<pg.QueryResult> {
+  return withTenantClient(siteId, (client) => client.query(text, values));
+}
+
+/**
+ * Close the pools of the given sites (e.g. after their databases were swapped)
+ */
+export async function closeTenantPools(...siteIds: string[]): Promise<void> {
+  const entries = siteIds
+    .map((siteId) => pools.get(siteId))
+    .filter((entry): entry is TenantPoolEntry => !!entry);
+  await Promise.all(entries.map((entry) => evict(entry, 'closed')));
+}
+
+/**
+ * Close every pool connected to the given databases (before they are dropped, renamed or cloned)
+ */
+export async function closeDatabasePools(...dbNames: string[]): Promise<void> {
+  const entries = Array.from(pools.values()).filter((entry) => dbNames.includes(entry.database));
+  await Promise.all(entries.map((entry) => evict(entry, 'closed')));
+}
+
+/**
+ * Pool counts and usage counters since the API started
+ */
+export function getTenantConnectionMetrics(): TenantConnectionMetrics {
+  const sites = Array.from(pools.values())
+    .reverse()
+    .map((entry) => ({
+      siteId: entry.siteId,
+      database: entry.database,
+      totalCount: entry.pool.totalCount,
+      idleCount: entry.pool.idleCount,
+      waitingCount: entry.pool.waitingCount,
+      createdAt: entry.createdAt,
+      lastUsedAt: entry.lastUsedAt,
+      lastCheckedAt: entry.lastCheckedAt,
+    }));
+
+  return {
+    pools: pools.size,
+    maxPools: config.tenantConnections.maxPools,
+    hits: counters.hits,
+    misses: counters.misses,
+    errors: counters.errors,
+    evictions: { ...counters.evictions },
+    clients: {
+      total: sites.reduce((sum, site) => sum + site.totalCount, 0),
+      idle: sites.reduce((sum, site) => sum + site.idleCount, 0),
+      waiting: sites.reduce((sum, site) => sum + site.waitingCount, 0),
+    },
+    sites,
+  };
+}
+
+/**
+ * Close pools unused for idleTimeoutMs and health check the others
+ */
+async function sweepTenantPools(): Promise<void> {
+  const idleSince = Date.now() - config.tenantConnections.idleTimeoutMs;
+
+  for (const entry of Array.from(pools.values())) {
+    if (entry.lastUsedAt.getTime() < idleSince && entry.pool.totalCount === entry.pool.idleCount) {
+      await evict(entry, 'idle');
+      continue;
+    }
+
+    // Only pools with an open idle client: checking the others would open a connection just for that
+    if (entry.pool.idleCount === 0) continue;
+
+    try {
+      await entry.pool.query('SELECT 1');
+      entry.lastCheckedAt = new Date();
+    } catch (error) {
+      console.error(`[TenantConnections] Health check of ${entry.siteId} failed:`, error);
+      await evict(entry, 'unhealthy');
+    }
+  }
+}
+
+let sweeping = false;
+
+/**
+ * Start the pool sweeper
+ */
+export function startTenantConnectionSweeper(): void {
+  const { maxPools, maxClientsPerPool, sweepIntervalMs } = config.tenantConnections;
+  console.log(`[TenantConnections] Sweeper started (max ${maxPools} pools of ${maxClientsPerPool} clients, interval: ${sweepIntervalMs}ms)`);
+
+  setInterval(() => {
+    if (sweeping) return;
+    sweeping = true;
+
+    sweepTenantPools()
+      .catch((error) => console.error('[TenantConnections] Sweep failed:', error))
+      .finally(() => {
+        sweeping = false;
+      });
+  }, sweepIntervalMs);
+}
@@ -0,0 +1,78 @@
+/**
+ * Theme Service
+ *
+ * Reads and writes the theme stored in a site's `site` controlpanel.
+ */
+
+import * as tenantConnections from './tenantConnections.js';
+
+export interface SiteThemeTypography {
+  fontPresetId?: string;
+  fontHeading?: string;
+  fontBody?: string;
+  baseFontSize?: number;
+  baseFontSizeMobile?: number;
+  headingWeight?: number;
+  bodyWeight?: number;
+}
+
+export interface SiteThemeInput {
+  presetId?: string;
+  overrides?: Record<string, string>;
+  darkMode?: boolean;
+  typography?: SiteThemeTypography;
+}
+
+const DEFAULT_TYPOGRAPHY: SiteThemeTypography = {
+  fontPresetId: 'modern',
+  fontHeading: 'inter',
+  fontBody: 'inter',
+  baseFontSize: 16,
+  baseFontSizeMobile: 14,
+  headingWeight: 700,
+  bodyWeight: 400,
+};
+
+/**
+ * Merge a theme update into the `site` controlpanel of a site database
+ */
+export async function updateSiteTheme(siteId: string, theme: SiteThemeInput): Promise<void> {
+  const { presetId, overrides, darkMode, typography } = theme;
+
+  await tenantConnections.withTenantClient(siteId, async (client) => {
+    // Get current controlpanel data
+    const result = await client.query(
+      "SELECT data FROM controlpanel WHERE id = 'site'"
+    );
+
+    let currentData: Record<string, unknown> = {};
+    if (result.rows.length > 0 && result.rows[0].data) {
+      currentData = result.rows[0].data;
+    }
+
+    // Get existing theme to merge typography
+    const existingTheme = (currentData.theme as Record<string, unknown>) || {};
+
+    // Update theme in data (merge typography with existing)
+    const updatedData = {
+      ...currentData,
+      theme: {
+        presetId: presetId ?? existingTheme.presetId ?? 'default',
+        overrides: overrides ?? existingTheme.overrides ?? {},
+        darkMode: darkMode ?? existingTheme.darkMode ?? false,
+        typography: typography
+          ? { ...(existingTheme.typography as Record<string, unknown> || {}), ...typography }
+          : existingTheme.typography ?? DEFAULT_TYPOGRAPHY,
+      },
+    };
+
+    // Upsert the controlpanel record
+    const upsertResult = await client.query(
+      `INSERT INTO controlpanel (id, title, "group", schema, data)
+       VALUES ('site', 'Site Settings', 'site', '{}', $1)
+       ON CONFLICT (id) DO UPDATE SET data = $1`,
+      [updatedData]
+    );
+    console.log(`[Theme] Theme upserted for ${siteId}, rows affected:`, upsertResult.rowCount);
+  });
+}
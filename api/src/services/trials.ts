@@ -0,0 +1,177 @@
+/**
+ * Trials Service - Free trial of new sites
+ *
+ * Every new site starts a trial of stripe.trialDays: a siteBilling document on
+ * the free plan with status trialing, trialStartedAt and trialEndsAt. A daily
+ * worker sends reminders before the trial ends (trials.reminderDays) and moves
+ * expired trials to expired, which suspends the site like an unpaid
+ * subscription (see dunning.ts). Subscribing to a plan restores it.
+ *
+ * Reminders are emailed to the owner (see mail.ts); trialRemindersSent records
+ * the ones sent.
+ *
+ * Sites created before trials were recorded have none: backfillTrials
+ * (scripts/backfillTrials.ts, run by hand) gives them one, which suspends them
+ * once it is over unless their owner subscribes.
+ */
+
+import admin from 'firebase-admin';
+import { config } from '../config/index.js';
+import * as dunningService from './dunning.js';
+import * as mailService from './mail.js';
+import * as masterDbService from './masterDb.js';
+import * as sitesService from './sites.js';
+import type { Site } from './sites.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stripe wants the trial of a subscription to end at least 48 hours from now
+const MIN_SUBSCRIPTION_TRIAL_MS = 48 * 60 * 60 * 1000;
+
+/**
+ * Record the trial of a new site
+ */
+export async function startTrial(site: Pick<Site, 'siteId' | 'userId'>, startedAt = Date.now()): Promise<void> {
+  await admin.firestore().collection('siteBilling').add({
+    siteId: site.siteId,
+    userId: site.userId,
+    plan: 'free',
+    status: 'trialing',
+    trialStartedAt: admin.firestore.Timestamp.fromMillis(startedAt),
+    trialEndsAt: admin.firestore.Timestamp.fromMillis(startedAt + config.stripe.trialDays * DAY_MS),
+    trialRemindersSent: [],
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * End of the Stripe trial for a subscription started during the site's trial:
+ * billing starts when the site's trial would have ended. Null if the site is
+ * not in its trial (or it ends too soon for Stripe).
+ */
+export async function getSubscriptionTrialEnd(siteId: string): Promise<Date | null> {
+  const snapshot = await admin.firestore()
+    .collection('siteBilling')
+    .where('siteId', '==', siteId)
+    .limit(1)
+    .get();
+
+  if (snapshot.empty) return null;
+  const { status, trialEndsAt } = snapshot.docs[0].data();
+  if (status !== 'trialing' || !trialEndsAt) return null;
+
+  const trialEnd = trialEndsAt.toMillis();
+  return trialEnd - Date.now() >= MIN_SUBSCRIPTION_TRIAL_MS ? new Date(trialEnd) : null;
+}
+
+/**
+ * Send the reminder due for a trial, if any (only the latest one when several are due)
+ */
+async function sendReminder(doc: dunningService.BillingDoc, daysLeft: number): Promise<void> {
+  const { siteId, userId, trialRemindersSent = [] } = doc.data()!;
+  const due = config.trials.reminderDays.filter((days) => daysLeft <= days && !trialRemindersSent.includes(days));
+  if (due.length === 0) return;
+
+  await mailService.sendMail(
+    userId,
+    `Your Luna Sites trial for ${siteId} ends in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`,
+    `The free trial of ${siteId}.${config.baseDomain} ends in ${daysLeft} day${daysLeft === 1 ? '' : 's'}. ` +
+      `After that the site goes offline until you choose a plan.\n\nChoose a plan: ${mailService.getSiteSettingsUrl(siteId)}`
+  );
+
+  await doc.ref.update({
+    trialRemindersSent: admin.firestore.FieldValue.arrayUnion(...due),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  console.log(`[Trials] Reminder sent for ${siteId} (${daysLeft} day(s) left)`);
+}
+
+/**
+ * Expire a trial that is over and suspend its site
+ */
+async function expireTrial(doc: dunningService.BillingDoc): Promise<void> {
+  const { siteId, userId } = doc.data()!;
+
+  const expired = await dunningService.transition(
+    doc,
+    'expired',
+    { trialExpiredAt: admin.firestore.FieldValue.serverTimestamp() },
+    (current) => dunningService.getStatus(current) === 'trialing'
+  );
+  if (!expired) return;
+  await dunningService.suspendSite(siteId, 'trial');
+
+  await mailService.sendMail(
+    userId,
+    `Your Luna Sites trial for ${siteId} has ended`,
+    `The free trial of ${siteId}.${config.baseDomain} has ended and the site is offline. ` +
+      `Your content is kept: choose a plan to put it back online.\n\nChoose a plan: ${mailService.getSiteSettingsUrl(siteId)}`
+  );
+}
+
+/**
+ * Record a trial for the active sites that have no billing record (created
+ * before trials were recorded), ending no earlier than the first reminder from
+ * now. These sites are suspended when it ends. Returns the number of trials recorded.
+ */
+export async function backfillTrials(): Promise<number> {
+  const billingSnapshot = await admin.firestore().collection('siteBilling').select('siteId').get();
+  const billed = new Set(billingSnapshot.docs.map((doc) => doc.data().siteId));
+
+  const sites = await sitesService.getSitesByStatus('active');
+  // Owners get every reminder before the trial of an old site ends
+  const earliestEnd = Date.now() + Math.max(0, ...config.trials.reminderDays) * DAY_MS;
+
+  const unbilled = sites.filter((site) => !billed.has(site.siteId));
+  for (const site of unbilled) {
+    const startedAt = Math.max(site.createdAt.toMillis(), earliestEnd - config.stripe.trialDays * DAY_MS);
+    await startTrial(site, startedAt);
+    console.log(`[Trials] Recorded trial of ${site.siteId} (created before trials were recorded)`);
+  }
+  return unbilled.length;
+}
+
+/**
+ * Send due reminders and expire the trials that are over
+ */
+async function processTrials(): Promise<void> {
+  const snapshot = await admin.firestore()
+    .collection('siteBilling')
+    .where('status', '==', 'trialing')
+    .get();
+
+  const now = Date.now();
+  for (const doc of snapshot.docs) {
+    const { siteId, trialEndsAt } = doc.data();
+    if (!trialEndsAt) continue;
+
+    try {
+      // A site being deleted is already offline, and its trial goes with it
+      if (await masterDbService.getActiveSiteTeardown(siteId)) continue;
+
+      const msLeft = trialEndsAt.toMillis() - now;
+      if (msLeft <= 0) {
+        await expireTrial(doc);
+      } else {
+        await sendReminder(doc, Math.ceil(msLeft / DAY_MS));
+      }
+    } catch (error) {
+      console.error(`[Trials] Failed to process the trial of ${siteId}:`, error);
+    }
+  }
+}
+
+/**
+ * Start the trial worker
+ */
+export function startTrialWorker(): void {
+  console.log(`[Trials] Worker started (trial: ${config.stripe.trialDays} days, reminders: ${config.trials.reminderDays.join(', ')} days before)`);
+
+  const tick = () => {
+    processTrials().catch((error) => console.error('[Trials] Worker run failed:', error));
+  };
+
+  tick();
+  setInterval(tick, config.trials.pollIntervalMs);
+}
@@ -0,0 +1,914 @@
+/**
+ * WordPress Import Service - Import a WordPress export (WXR) into a site
+ *
+ * A WXR file is the XML export WordPress produces under Tools > Export. Its
+ * items are mapped onto the site's content tree:
+ *   - categories:  Page documents under /news/categories (nested like the
+ *                  WordPress category tree) listing the posts of the category
+ *   - attachments: Image/File documents under /media, the file is downloaded
+ *                  from the WordPress site into a blob row
+ *   - pages:       Page documents, keeping the page tree and menu order
+ *   - posts:       News documents under /news (Page on sites bootstrapped
+ *                  before the News type existed), categories and tags become subjects
+ *
+ * Slugs are kept as document ids and every old permalink becomes a redirect row,
+ * so links to the WordPress site keep working once its domain points here.
+ * Content is kept as HTML (an html block below the title block) with links to
+ * imported items rewritten to their new paths.
+ *
+ * Items are imported one by one: a failing item is recorded in the import log
+ * (wordpress_imports.log) and does not stop the others. Imports into an existing
+ * site run in the background (importIntoSite), new sites import during
+ * provisioning (see provisioning.runBootstrapStep).
+ */
+
+import crypto from 'crypto';
+import dns from 'dns/promises';
+import net from 'net';
+import { Readable } from 'stream';
+import _ from 'lodash';
+import { XMLParser } from 'fast-xml-parser';
+import { Agent, fetch as fetchWithAgent } from 'undici';
+import { config } from '../config/index.js';
+import * as databaseService from './database.js';
+import * as masterDbService from './masterDb.js';
+import * as siteBootstrap from './siteBootstrap.js';
+import { getBlobStore } from './blobStore.js';
+import type { Knex } from 'knex';
+import type { DatabaseConfig } from './siteBootstrap.js';
+import type { Site } from './sites.js';
+import type { WordPressImportLogEntry, WordPressImportRecord } from './masterDb.js';
+
+// Imports still running after this long were interrupted (e.g. the API restarted mid-import)
+const STALE_IMPORT_MS = 6 * 60 * 60 * 1000;
+
+// Redirects followed when downloading an attachment
+const MAX_MEDIA_REDIRECTS = 3;
+
+// Containers created for imported content (when the site does not have them)
+const NEWS_PATH = '/news';
+const CATEGORIES_PATH = '/news/categories';
+const MEDIA_PATH = '/media';
+
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|gif|webp|avif|svg|bmp|ico)$/i;
+
+// WordPress statuses that are imported, and the workflow state they get
+const WORKFLOW_STATES: Record<string, string> = {
+  publish: 'published',
+  inherit: 'published',
+  future: 'private',
+  draft: 'private',
+  pending: 'private',
+  private: 'private',
+};
+
+// Addresses attachments are never downloaded from
+const PRIVATE_NETWORKS = new net.BlockList();
+PRIVATE_NETWORKS.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_NETWORKS.addAddress('::', 'ipv6');
+PRIVATE_NETWORKS.addAddress('::1', 'ipv6');
+PRIVATE_NETWORKS.addSubnet('::ffff:0:0', 96, 'ipv6');
+PRIVATE_NETWORKS.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_NETWORKS.addSubnet('fe80::', 10, 'ipv6');
+
+function isPrivateAddress(address: string, family: number): boolean {
+  return PRIVATE_NETWORKS.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * DNS lookup of the attachment downloads: fails if the host resolves to a
+ * private address. The connection uses the address checked here, so a host
+ * cannot resolve to another (internal) address between the check and the connection.
+ */
+const lookupPublicAddress: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }).then(
+    (addresses) => {
+      if (addresses.length === 0 || addresses.some(({ address, family }) => isPrivateAddress(address, family))) {
+        callback(new Error(`${hostname} is not a public address`), '');
+      } else if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    },
+    (error) => callback(error, '')
+  );
+};
+
+// Connections of the attachment downloads
+const mediaAgent = new Agent({ connect: { lookup: lookupPublicAddress } });
+
+/**
+ * Thrown for uploads that are not a WordPress export
+ */
+export class InvalidWxrError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidWxrError';
+  }
+}
+
+export interface WxrCategory {
+  termId: string;
+  slug: string;
+  parentSlug: string;
+  name: string;
+  description: string;
+}
+
+export interface WxrItem {
+  wpId: string;
+  postType: string;
+  title: string;
+  // Permalink on the WordPress site
+  link: string;
+  slug: string;
+  status: string;
+  parentId: string;
+  menuOrder: number;
+  date: string | null;
+  modified: string | null;
+  content: string;
+  excerpt: string;
+  attachmentUrl: string;
+  // Category slugs and tag names
+  categories: string[];
+  tags: string[];
+}
+
+export interface WxrExport {
+  title: string;
+  link: string;
+  // Blog root, category permalinks live under <baseBlogUrl>/category/
+  baseBlogUrl: string;
+  categories: WxrCategory[];
+  items: WxrItem[];
+}
+
+export interface WxrSummary {
+  title: string;
+  link: string;
+  posts: number;
+  pages: number;
+  attachments: number;
+  categories: number;
+}
+
+// A document about to be created, with its final path
+interface PlannedDocument {
+  entry: WordPressImportLogEntry;
+  uuid: string;
+  id: string;
+  path: string;
+  parentPath: string;
+  // Old permalink paths that redirect to the document
+  redirects: string[];
+}
+
+/**
+ * Text of a parsed XML node (CDATA, text with attributes, or missing)
+ */
+function text(node: unknown): string {
+  if (node === undefined || node === null) return '';
+  if (typeof node === 'object') return text((node as Record<string, unknown>)['#text']);
+  return String(node).trim();
+}
+
+/**
+ * ISO date from a WordPress GMT date ('0000-00-00 00:00:00' for unpublished drafts)
+ */
+function toIsoDate(value: string): string | null {
+  if (!value || value.startsWith('0000')) return null;
+  const date = new Date(`${value.replace(' ', 'T')}Z`);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Read and validate a WXR file (throws InvalidWxrError)
+ */
+export function parseWxr(data: Buffer): WxrExport {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    // Slugs and IDs stay strings
+    parseTagValue: false,
+    isArray: (name) => ['item', 'category', 'wp:category'].includes(name),
+  });
+
+  let channel: Record<string, any>;
+  try {
+    channel = parser.parse(data.toString('utf-8'))?.rss?.channel;
+  } catch {
+    throw new InvalidWxrError('The file is not a WordPress export');
+  }
+
+  if (!channel || !channel['wp:wxr_version']) {
+    throw new InvalidWxrError('The file is not a WordPress export (WXR)');
+  }
+
+  const categories: WxrCategory[] = (channel['wp:category'] || []).map((category: Record<string, unknown>) => ({
+    termId: text(category['wp:term_id']),
+    slug: text(category['wp:category_nicename']),
+    parentSlug: text(category['wp:category_parent']),
+    name: text(category['wp:cat_name']),
+    description: text(category['wp:category_description']),
+  })).filter((category: WxrCategory) => category.slug);
+
+  const items: WxrItem[] = (channel.item || []).map((item: Record<string, any>) => {
+    const terms: Record<string, string>[] = (item.category || []).map((term: unknown) =>
+      typeof term === 'object' ? term : { '#text': term }
+    );
+
+    return {
+      wpId: text(item['wp:post_id']),
+      postType: text(item['wp:post_type']),
+      title: text(item.title),
+      link: text(item.link),
+      slug: text(item['wp:post_name']),
+      status: text(item['wp:status']),
+      parentId: text(item['wp:post_parent']),
+      menuOrder: parseInt(text(item['wp:menu_order'])) || 0,
+      date: toIsoDate(text(item['wp:post_date_gmt'])),
+      modified: toIsoDate(text(item['wp:post_modified_gmt'])),
+      content: text(item['content:encoded']),
+      excerpt: text(item['excerpt:encoded']),
+      attachmentUrl: text(item['wp:attachment_url']),
+      categories: terms.filter((term) => term['@_domain'] === 'category').map((term) => term['@_nicename']),
+      tags: terms.filter((term) => term['@_domain'] === 'post_tag').map((term) => text(term)),
+    };
+  });
+
+  return {
+    title: text(channel.title),
+    link: text(channel.link),
+    baseBlogUrl: text(channel['wp:base_blog_url']) || text(channel.link),
+    categories,
+    items,
+  };
+}
+
+/**
+ * Title and item counts of an export (shown before importing)
+ */
+export function summarizeWxr(wxr: WxrExport): WxrSummary {
+  const count = (postType: string) => wxr.items.filter((item) => item.postType === postType).length;
+  return {
+    title: wxr.title,
+    link: wxr.link,
+    posts: count('post'),
+    pages: count('page'),
+    attachments: count('attachment'),
+    categories: wxr.categories.length,
+  };
+}
+
+/**
+ * Document id from a WordPress slug (percent-encoded UTF-8 slugs are decoded)
+ */
+function toDocumentId(slug: string, fallback: string): string {
+  let decoded = slug;
+  try {
+    decoded = decodeURIComponent(slug);
+  } catch {
+    // Not percent-encoded
+  }
+
+  const id = decoded
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^[-.]+|[-.]+$/g, '');
+
+  return id || fallback;
+}
+
+/**
+ * File name of an attachment, from its URL
+ */
+function attachmentFilename(item: WxrItem): string {
+  const name = item.attachmentUrl.replace(/[?#].*$/, '').split('/').pop() || '';
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
+
+/**
+ * Path part of an old permalink, without the trailing slash (null for ?p=123 style links)
+ */
+function permalinkPath(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    const path = decodeURIComponent(parsed.pathname).replace(/\/+$/, '');
+    return path || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * URL key used to match links in content against imported items (protocol,
+ * query and trailing slash ignored)
+ */
+function urlKey(url: string): string {
+  return url.replace(/^https?:/, '').replace(/[?#].*$/, '').replace(/\/+$/, '');
+}
+
+/**
+ * Plain text of an HTML fragment (for descriptions)
+ */
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Turn WordPress post content into HTML: remove block editor comments, unwrap
+ * captions and add the paragraphs WordPress adds on display (wpautop)
+ */
+function toHtml(content: string): string {
+  const html = content
+    .replace(/<!--\s*\/?wp:[\s\S]*?-->/g, '')
+    .replace(/\[caption[^\]]*\]([\s\S]*?)\[\/caption\]/g, '<figure>$1</figure>')
+    .trim();
+
+  const blockTag = /^<(p|div|h[1-6]|ul|ol|li|blockquote|figure|table|pre|hr|iframe|form|section|img|video|audio)\b/i;
+
+  return html
+    .split(/\n\s*\n/)
+    .map((chunk) => chunk.trim())
+    .filter(Boolean)
+    .map((chunk) => (blockTag.test(chunk) ? chunk : `<p>${chunk.replace(/\n/g, '<br />\n')}</p>`))
+    .join('\n');
+}
+
+/**
+ * Point links and images at imported items (srcset is dropped, it lists the old site's image sizes)
+ */
+function rewriteLinks(html: string, targets: Map<string, string>): string {
+  return html
+    .replace(/\s(srcset|sizes)="[^"]*"/g, '')
+    .replace(/\s(href|src)="([^"]+)"/g, (match, attribute, url) => {
+      const key = urlKey(url);
+      // Resized images (photo-300x200.jpg) point at the original
+      const target = targets.get(key) || targets.get(key.replace(/-\d+x\d+(\.\w+)$/, '$1'));
+      return target ? ` ${attribute}="${target}"` : match;
+    });
+}
+
+/**
+ * Throw if a URL may not be downloaded from (not http(s), or a private IP
+ * address; host names are checked when connecting, see lookupPublicAddress)
+ */
+function assertPublicUrl(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Unsupported URL: ${url.href}`);
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const family = net.isIP(host);
+  if (family !== 0 && isPrivateAddress(host, family)) {
+    throw new Error(`${url.hostname} is not a public address`);
+  }
+}
+
+/**
+ * Download an attachment from the WordPress site
+ */
+async function downloadMedia(url: string): Promise<{ data: Buffer; contentType: string }> {
+  const maxBytes = config.wordpressImport.maxMediaMb * 1024 * 1024;
+  let current = new URL(url);
+
+  for (let redirects = 0; ; redirects++) {
+    assertPublicUrl(current);
+
+    const response = await fetchWithAgent(current, {
+      dispatcher: mediaAgent,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(config.wordpressImport.mediaTimeoutMs),
+    }).catch((error) => {
+      // "fetch failed": the cause says why (e.g. a private address)
+      throw error instanceof TypeError && error.cause instanceof Error ? error.cause : error;
+    });
+
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (redirects >= MAX_MEDIA_REDIRECTS) {
+        throw new Error('Too many redirects');
+      }
+      current = new URL(location, current);
+      continue;
+    }
+
+    if (!response.ok) {
+      throw new Error(`Download failed with HTTP ${response.status}`);
+    }
+
+    if (Number(response.headers.get('content-length')) > maxBytes) {
+      throw new Error(`File is larger than ${config.wordpressImport.maxMediaMb}MB`);
+    }
+
+    // Read incrementally: a chunked response has no Content-Length and may never end
+    const chunks: Buffer[] = [];
+    let size = 0;
+    if (response.body) {
+      const reader = response.body.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        size += value.length;
+        if (size > maxBytes) {
+          await reader.cancel();
+          throw new Error(`File is larger than ${config.wordpressImport.maxMediaMb}MB`);
+        }
+        chunks.push(Buffer.from(value));
+      }
+    }
+    const data = Buffer.concat(chunks);
+
+    return {
+      data,
+      contentType: response.headers.get('content-type')?.split(';')[0].trim() || 'application/octet-stream',
+    };
+  }
+}
+
+/**
+ * Volto blocks for a title and (optional) HTML content
+ */
+function contentBlocks(html: string): Record<string, unknown> {
+  const titleId = crypto.randomUUID();
+  const blocks: Record<string, unknown> = { [titleId]: { '@type': 'title' } };
+  const items = [titleId];
+
+  if (html) {
+    const htmlId = crypto.randomUUID();
+    blocks[htmlId] = { '@type': 'html', html };
+    items.push(htmlId);
+  }
+
+  return { blocks, blocks_layout: { items } };
+}
+
+/**
+ * Volto blocks for a category page: title and a listing of the category's posts
+ */
+function categoryBlocks(name: string): Record<string, unknown> {
+  const titleId = crypto.randomUUID();
+  const listingId = crypto.randomUUID();
+
+  return {
+    blocks: {
+      [titleId]: { '@type': 'title' },
+      [listingId]: {
+        '@type': 'listing',
+        querystring: {
+          query: [{ i: 'Subject', o: 'plone.app.querystring.operation.selection.any', v: [name] }],
+          sort_on: 'effective',
+          sort_order: 'descending',
+        },
+      },
+    },
+    blocks_layout: { items: [titleId, listingId] },
+  };
+}
+
+/**
+ * Import a parsed export into a site database. Returns the per-item log.
+ */
+export async function importWxr(
+  dbConfig: DatabaseConfig,
+  wxr: WxrExport,
+  ownerId: string
+): Promise<WordPressImportLogEntry[]> {
+  const db = siteBootstrap.createKnexInstance(dbConfig);
+  const log: WordPressImportLogEntry[] = [];
+
+  try {
+    console.log(`[WordPress] Importing "${wxr.title}" (${wxr.items.length} items) into ${dbConfig.database}`);
+
+    const takenPaths = new Set<string>(await db('document').pluck('path'));
+    const types = new Set<string>(await db('type').pluck('id'));
+    const newsType = types.has('News') ? 'News' : 'Page';
+    const uuids = new Map<string, string>(
+      (await db('document').whereIn('path', ['/', NEWS_PATH, CATEGORIES_PATH, MEDIA_PATH]).select('path', 'uuid'))
+        .map((row) => [row.path, row.uuid])
+    );
+    const positions = new Map<string, number>();
+
+    const now = new Date().toISOString();
+
+    /**
+     * Claim a free path below a parent for a slug (slug-1, slug-2, ... when taken)
+     */
+    const claimPath = (parentPath: string, slug: string): { id: string; path: string } => {
+      const base = parentPath === '/' ? '' : parentPath;
+      let id = slug;
+      for (let n = 1; takenPaths.has(`${base}/${id}`); n++) {
+        id = `${slug}-${n}`;
+      }
+      takenPaths.add(`${base}/${id}`);
+      return { id, path: `${base}/${id}` };
+    };
+
+    /**
+     * Next position_in_parent under a parent document
+     */
+    const nextPosition = async (trx: Knex.Transaction, parentUuid: string): Promise<number> => {
+      if (!positions.has(parentUuid)) {
+        const row = await trx('document').where('parent', parentUuid).max('position_in_parent as max').first();
+        positions.set(parentUuid, row?.max === null || row?.max === undefined ? 0 : Number(row.max) + 1);
+      }
+      const position = positions.get(parentUuid)!;
+      positions.set(parentUuid, position + 1);
+      return position;
+    };
+
+    /**
+     * Insert a document and the redirects of its old permalinks
+     */
+    const insertDocument = async (
+      trx: Knex.Transaction,
+      planned: PlannedDocument,
+      fields: { type: string; created?: string | null; modified?: string | null; workflowState?: string },
+      json: Record<string, unknown>
+    ): Promise<void> => {
+      const parentUuid = uuids.get(planned.parentPath);
+      if (!parentUuid) {
+        throw new Error(`Parent ${planned.parentPath} was not imported`);
+      }
+
+      await trx('document').insert({
+        uuid: planned.uuid,
+        parent: parentUuid,
+        id: planned.id,
+        path: planned.path,
+        created: fields.created || now,
+        modified: fields.modified || fields.created || now,
+        type: fields.type,
+        position_in_parent: await nextPosition(trx, parentUuid),
+        version: 0,
+        owner: ownerId,
+        json: JSON.stringify(json),
+        lock: JSON.stringify({ locked: false, stealable: true }),
+        translation_group: planned.uuid,
+        language: 'en',
+        workflow_state: fields.workflowState || 'published',
+        workflow_history: JSON.stringify([]),
+      });
+
+      const redirects = _.uniq(planned.redirects).filter((path) => path !== planned.path && !takenPaths.has(path));
+      if (redirects.length > 0) {
+        await trx('redirect')
+          .insert(redirects.map((path) => ({ document: planned.uuid, path })))
+          .onConflict(['document', 'path'])
+          .ignore();
+      }
+
+      uuids.set(planned.path, planned.uuid);
+    };
+
+    /**
+     * Create a container Folder at the site root unless the site already has it
+     */
+    const ensureFolder = async (path: string, title: string): Promise<void> => {
+      if (uuids.has(path)) return;
+
+      const parentPath = path.slice(0, path.lastIndexOf('/')) || '/';
+      const planned: PlannedDocument = {
+        entry: { wpId: '', kind: 'other', title, status: 'imported' },
+        uuid: crypto.randomUUID(),
+        id: path.slice(path.lastIndexOf('/') + 1),
+        path,
+        parentPath,
+        redirects: [],
+      };
+
+      await db.transaction((trx) =>
+        insertDocument(trx, planned, { type: 'Folder' }, { title, ...contentBlocks('') })
+      );
+      console.log(`[WordPress] Created ${path}`);
+    };
+
+    /**
+     * Run one item's import, recording the outcome in the log
+     */
+    const importItem = async (planned: PlannedDocument, run: () => Promise<void>): Promise<void> => {
+      try {
+        await run();
+        log.push({ ...planned.entry, status: 'imported', path: planned.path });
+      } catch (error) {
+        // Children of a failed item fail with it (their parent is missing)
+        log.push({
+          ...planned.entry,
+          status: 'failed',
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    };
+
+    const skip = (item: WxrItem, message: string) => {
+      log.push({
+        wpId: item.wpId,
+        kind: (['attachment', 'page', 'post'].includes(item.postType) ? item.postType : 'other') as WordPressImportLogEntry['kind'],
+        title: item.title || item.slug || `#${item.wpId}`,
+        status: 'skipped',
+        message,
+      });
+    };
+
+    // Sort out what is imported
+    const importable: WxrItem[] = [];
+    for (const item of wxr.items) {
+      if (!['post', 'page', 'attachment'].includes(item.postType)) {
+        skip(item, `Unsupported post type "${item.postType}"`);
+      } else if (!WORKFLOW_STATES[item.status]) {
+        skip(item, `Status "${item.status}" is not imported`);
+      } else if (item.postType === 'attachment' && !item.attachmentUrl) {
+        skip(item, 'Attachment has no file URL');
+      } else {
+        importable.push(item);
+      }
+    }
+
+    const attachments = importable.filter((item) => item.postType === 'attachment');
+    const posts = _.sortBy(importable.filter((item) => item.postType === 'post'), (item) => item.date || '');
+    const pagesById = new Map(importable.filter((item) => item.postType === 'page').map((item) => [item.wpId, item]));
+    const categoriesBySlug = new Map(wxr.categories.map((category) => [category.slug, category]));
+
+    // Plan every path first, so content can link to items imported after it
+    const planned = new Map<string, PlannedDocument>();
+    const targets = new Map<string, string>();
+
+    const plan = (key: string, parentPath: string, slug: string, entry: WordPressImportLogEntry, links: string[]) => {
+      const { id, path } = claimPath(parentPath, slug);
+      const document: PlannedDocument = {
+        entry,
+        uuid: crypto.randomUUID(),
+        id,
+        path,
+        parentPath,
+        redirects: links.map(permalinkPath).filter((link): link is string => !!link),
+      };
+      planned.set(key, document);
+      return document;
+    };
+
+    // Category permalinks nest like the category tree (/category/parent/child/)
+    const categoryPermalink = (category: WxrCategory, seen = new Set<string>()): string => {
+      const parent = categoriesBySlug.get(category.parentSlug);
+      if (!parent || seen.has(parent.slug)) return category.slug;
+      seen.add(category.slug);
+      return `${categoryPermalink(parent, seen)}/${category.slug}`;
+    };
+    // Parents before children
+    const categories = _.sortBy(wxr.categories, (category) => categoryPermalink(category).split('/').length);
+    const blogUrl = wxr.baseBlogUrl.replace(/\/+$/, '');
+
+    // Containers are planned first so no item takes their path
+    for (const [path, needed] of [
+      [NEWS_PATH, posts.length > 0 || categories.length > 0],
+      [CATEGORIES_PATH, categories.length > 0],
+      [MEDIA_PATH, attachments.length > 0],
+    ] as const) {
+      if (needed) takenPaths.add(path);
+    }
+
+    for (const category of categories) {
+      const parent = category.parentSlug ? planned.get(`category:${category.parentSlug}`) : undefined;
+      plan(
+        `category:${category.slug}`,
+        parent?.path || CATEGORIES_PATH,
+        toDocumentId(category.slug, `category-${category.termId}`),
+        { wpId: category.termId, kind: 'category', title: category.name, status: 'imported' },
+        [`${blogUrl}/category/${categoryPermalink(category)}/`]
+      );
+    }
+
+    for (const item of attachments) {
+      const filename = attachmentFilename(item);
+      const document = plan(
+        `item:${item.wpId}`,
+        MEDIA_PATH,
+        toDocumentId(item.slug || filename, `attachment-${item.wpId}`),
+        { wpId: item.wpId, kind: 'attachment', title: item.title || filename, status: 'imported' },
+        [item.link]
+      );
+      const isImage = IMAGE_EXTENSIONS.test(filename);
+      targets.set(urlKey(item.attachmentUrl), `${document.path}/${isImage ? '@@images/image' : '@@download/file'}`);
+      targets.set(urlKey(item.link), document.path);
+    }
+
+    // Pages: parents before children, siblings in menu order
+    const pageDepth = (page: WxrItem, seen = new Set<string>()): number => {
+      const parent = pagesById.get(page.parentId);
+      if (!parent || seen.has(parent.wpId)) return 0;
+      seen.add(page.wpId);
+      return pageDepth(parent, seen) + 1;
+    };
+    const pages = _.sortBy(Array.from(pagesById.values()), [
+      (page) => pageDepth(page),
+      (page) => page.menuOrder,
+      (page) => Number(page.wpId),
+    ]);
+
+    for (const page of pages) {
+      const parent = planned.get(`item:${page.parentId}`);
+      const document = plan(
+        `item:${page.wpId}`,
+        parent?.path || '/',
+        toDocumentId(page.slug || page.title, `page-${page.wpId}`),
+        { wpId: page.wpId, kind: 'page', title: page.title || page.slug, status: 'imported' },
+        [page.link]
+      );
+      targets.set(urlKey(page.link), document.path);
+    }
+
+    for (const post of posts) {
+      const document = plan(
+        `item:${post.wpId}`,
+        NEWS_PATH,
+        toDocumentId(post.slug || post.title, `post-${post.wpId}`),
+        { wpId: post.wpId, kind: 'post', title: post.title || post.slug, status: 'imported' },
+        [post.link]
+      );
+      targets.set(urlKey(post.link), document.path);
+    }
+
+    // Containers
+    if (posts.length > 0 || categories.length > 0) {
+      await ensureFolder(NEWS_PATH, 'News');
+    }
+    if (categories.length > 0) {
+      await ensureFolder(CATEGORIES_PATH, 'Categories');
+    }
+    if (attachments.length > 0) {
+      await ensureFolder(MEDIA_PATH, 'Media');
+    }
+
+    for (const category of categories) {
+      const document = planned.get(`category:${category.slug}`)!;
+      await importItem(document, () =>
+        db.transaction((trx) =>
+          insertDocument(trx, document, { type: 'Page' }, {
+            title: category.name,
+            description: stripTags(category.description),
+            ...categoryBlocks(category.name),
+          })
+        )
+      );
+    }
+
+    for (const item of attachments) {
+      const document = planned.get(`item:${item.wpId}`)!;
+      await importItem(document, async () => {
+        const { data, contentType } = await downloadMedia(item.attachmentUrl);
+        const filename = attachmentFilename(item) || document.id;
+        const isImage = IMAGE_EXTENSIONS.test(filename);
+        const blobUuid = crypto.randomUUID();
+
+        await db.transaction(async (trx) => {
+          await trx('blob').insert({ uuid: blobUuid, data, size: data.length, content_type: contentType });
+          await insertDocument(trx, document, {
+            type: isImage ? 'Image' : 'File',
+            created: item.date,
+            modified: item.modified,
+          }, {
+            title: item.title || filename,
+            description: stripTags(item.excerpt || item.content),
+            [isImage ? 'image' : 'file']: {
+              uuid: blobUuid,
+              filename,
+              size: data.length,
+              'content-type': contentType,
+            },
+          });
+        });
+      });
+    }
+
+    for (const item of [...pages, ...posts]) {
+      const document = planned.get(`item:${item.wpId}`)!;
+      const subjects = _.uniq([
+        ...item.categories.map((slug) => categoriesBySlug.get(slug)?.name || slug),
+        ...item.tags,
+      ]);
+
+      await importItem(document, () =>
+        db.transaction((trx) =>
+          insertDocument(trx, document, {
+            type: item.postType === 'post' ? newsType : 'Page',
+            created: item.date,
+            modified: item.modified,
+            workflowState: WORKFLOW_STATES[item.status],
+          }, {
+            title: item.title || document.id,
+            description: stripTags(item.excerpt),
+            ...(item.date ? { effective: item.date } : {}),
+            ...(subjects.length > 0 ? { subjects } : {}),
+            ...contentBlocks(rewriteLinks(toHtml(item.content), targets)),
+          })
+        )
+      );
+    }
+
+    const counts = _.countBy(log, 'status');
+    console.log(`[WordPress] Imported "${wxr.title}" into ${dbConfig.database}: ${counts.imported || 0} imported, ${counts.skipped || 0} skipped, ${counts.failed || 0} failed`);
+
+    return log;
+  } finally {
+    await db.destroy();
+  }
+}
+
+/**
+ * Validate an uploaded WXR file and keep it until it is imported
+ */
+export async function createImport(siteId: string, userId: string, data: Buffer): Promise<WordPressImportRecord> {
+  const summary = summarizeWxr(parseWxr(data));
+
+  const uploadKey = `imports/${siteId}/${crypto.randomUUID()}.wxr.xml`;
+  await getBlobStore().put(uploadKey, Readable.from([data]));
+
+  return masterDbService.createWordPressImport({ siteId, userId, uploadKey, summary: { ...summary } });
+}
+
+/**
+ * Read an uploaded WXR file back from the blob store
+ */
+async function loadUpload(key: string): Promise<WxrExport> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of await getBlobStore().get(key)) {
+    chunks.push(chunk as Buffer);
+  }
+  return parseWxr(Buffer.concat(chunks));
+}
+
+/**
+ * Run an uploaded import against a site database. Returns null if the import
+ * already ran; per-item failures are only logged, other failures are thrown.
+ */
+export async function runImport(
+  record: WordPressImportRecord,
+  dbConfig: DatabaseConfig,
+  ownerId: string
+): Promise<WordPressImportRecord | null> {
+  if (!(await masterDbService.startWordPressImport(record.id))) {
+    return null;
+  }
+
+  try {
+    const wxr = await loadUpload(record.upload_key);
+    const log = await importWxr(dbConfig, wxr, ownerId);
+    await masterDbService.finishWordPressImport(record.id, 'completed', log);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[WordPress] Import ${record.id} into ${record.site_id} failed:`, error);
+    await masterDbService.finishWordPressImport(record.id, 'failed', [], message);
+    throw error;
+  } finally {
+    await getBlobStore().delete(record.upload_key).catch((error) => {
+      console.error(`[WordPress] Failed to delete upload ${record.upload_key}:`, error);
+    });
+  }
+
+  return masterDbService.getWordPressImportById(record.id);
+}
+
+/**
+ * Import an upload into an existing site (its current database)
+ */
+export async function importIntoSite(site: Site, record: WordPressImportRecord): Promise<WordPressImportRecord | null> {
+  const dbInfo = databaseService.parseDatabaseUrl(config.sharedDatabaseUrl);
+  const dbConfig: DatabaseConfig = {
+    host: dbInfo.host,
+    port: parseInt(dbInfo.port),
+    database: await databaseService.getSiteDatabaseName(site.siteId),
+    user: dbInfo.user,
+    password: dbInfo.password,
+  };
+
+  return runImport(record, dbConfig, site.userId);
+}
+
+/**
+ * Fail imports interrupted by an API restart and remove their uploads
+ */
+export async function failStaleImports(): Promise<void> {
+  const stale = await masterDbService.failStaleWordPressImports(STALE_IMPORT_MS);
+  for (const record of stale) {
+    await getBlobStore().delete(record.upload_key).catch(() => {});
+  }
+
+  if (stale.length > 0) {
+    console.log(`[WordPress] Marked ${stale.length} interrupted import(s) as failed`);
+  }
+}
@@ -1,10 +1,10 @@
 import { useState } from "react";
-import { Globe } from "lucide-react";
+import { Check, Globe, Star } from "lucide-react";
 import type { PublicTemplate } from "../../lib/api";
 
 interface TemplateCardProps {
   template: PublicTemplate;
-  onSelect: (templateId: string, sourceSiteId?: string) => void;
+  onSelect: () => void;
 }
 
 export default function TemplateCard({ template, onSelect }: TemplateCardProps) {
@@ -14,12 +14,18 @@ export default function TemplateCard({ template, onSelect }: TemplateCardProps)
 
   return (
     <button
-      onClick={() => onSelect(template.id, template.sourceSiteId)}
+      onClick={onSelect}
       onMouseEnter={() => setIsHovered(true)}
       onMouseLeave={() => setIsHovered(false)}
       className="group relative overflow-hidden rounded-2xl bg-white shadow-lg hover:shadow-2xl transition-all hover:scale-[1.02]"
     >
       <div className="aspect-[16/10] overflow-hidden bg-gradient-to-br from-purple-100 to-blue-100 relative">
+        {template.featured && (
+          <div className="absolute top-3 left-3 z-10 flex items-center gap-1 px-2 py-1 rounded-full bg-white/90 text-xs text-purple-700 shadow">
+            <Star className="size-3 fill-current" />
+            Featured
+          </div>
+        )}
         {/* Screenshot with scroll animation on hover */}
         {thumbnailUrl ? (
           <div className="absolute inset-0 overflow-hidden">
@@ -44,6 +50,16 @@ export default function TemplateCard({ template, onSelect }: TemplateCardProps)
         <div className="text-sm text-slate-600">
           {template.description || "No description"}
         </div>
+        {template.features.length > 0 && (
+          <ul className="mt-3 space-y-1">
+            {template.features.slice(0, 3).map((feature) => (
+              <li key={feature} className="flex items-center gap-2 text-sm text-slate-500">
+                <Check className="size-3 text-purple-600 shrink-0" />
+                {feature}
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
     </button>
   );
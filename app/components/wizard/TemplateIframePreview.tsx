@@ -12,6 +12,8 @@ interface FontSettings {
 
 interface TemplateIframePreviewProps {
   siteId: string;
+  // Page of the site to show (defaults to the front page)
+  path?: string;
   mode: 'card' | 'full';
   className?: string;
   colors?: string[]; // [primary, secondary, accent, background]
@@ -20,6 +22,7 @@ interface TemplateIframePreviewProps {
 
 export default function TemplateIframePreview({
   siteId,
+  path = '/',
   mode,
   className = '',
   colors,
@@ -36,7 +39,7 @@ export default function TemplateIframePreview({
   // Build URL with color and font query params for preview
   // Only rebuild URL when siteId changes, not colors/fonts
   const siteUrl = useMemo(() => {
-    const baseUrl = `https://${siteId}.luna-sites.com`;
+    const baseUrl = `https://${siteId}.luna-sites.com${path === '/' ? '' : path}`;
     const params = new URLSearchParams();
 
     // Add color params
@@ -59,13 +62,13 @@ export default function TemplateIframePreview({
 
     const queryString = params.toString();
     return queryString ? `${baseUrl}?${queryString}` : baseUrl;
-  }, [siteId, colors, fonts]);
+  }, [siteId, path, colors, fonts]);
 
-  // Only reset loading when siteId changes, not colors/fonts
+  // Only reset loading when the page changes, not colors/fonts
   useEffect(() => {
     setLoading(true);
     setError(false);
-  }, [siteId]);
+  }, [siteId, path]);
 
   // Hover-based scroll animation for card mode
   useEffect(() => {
@@ -4,6 +4,8 @@ import TemplateIframePreview from './TemplateIframePreview';
 interface TemplatePreviewProps {
   selectedTemplate: string | null;
   sourceSiteId: string | null;
+  // Page of the template's source site to show
+  previewPath?: string;
   selectedFont: string;
   selectedButtonStyle: string;
   colors: string[];
@@ -14,6 +16,7 @@ interface TemplatePreviewProps {
 export default function TemplatePreview({
   selectedTemplate,
   sourceSiteId,
+  previewPath,
   selectedFont,
   selectedButtonStyle,
   colors,
@@ -91,6 +94,7 @@ export default function TemplatePreview({
     return (
       <TemplateIframePreview
         siteId={sourceSiteId}
+        path={previewPath}
         mode="full"
         className="aspect-[16/10]"
         colors={colors}
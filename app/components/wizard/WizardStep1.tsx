@@ -1,38 +1,107 @@
-import { useState, useEffect } from "react";
-import { ArrowRight, Globe } from "lucide-react";
-import { getPublicTemplates, type PublicTemplate } from "../../lib/api";
+import { useState, useEffect, useRef } from "react";
+import { ArrowRight, Globe, Search, Sparkles, Upload } from "lucide-react";
+import {
+  getPublicTemplates,
+  getStarterProfiles,
+  getTemplateCategories,
+  type PublicTemplate,
+  type PublicTemplateQuery,
+  type StarterProfile,
+  type TemplateCategory,
+} from "../../lib/api";
+import { categories as categoryIcons } from "../../data/wizard-data";
 import WizardProgress from "./WizardProgress";
 import TemplateCard from "./TemplateCard";
 
+const PAGE_SIZE = 12;
+// Pseudo category listing featured templates
+const POPULAR_CATEGORY = "popular";
+
 interface WizardStep1Props {
   selectedCategory: string | null;
   onCategoryChange: (category: string | null) => void;
-  onTemplateSelect: (templateId: string, sourceSiteId?: string) => void;
+  onTemplateSelect: (templateId: string, template?: PublicTemplate) => void;
+  // Blank canvas seeded with a starter profile (e.g. blog, restaurant)
+  onProfileSelect: (profile: StarterProfile) => void;
+  // WordPress export (WXR) picked as the starting point
+  onWordPressSelect: (file: File) => void;
   totalSteps: number;
 }
 
 export default function WizardStep1({
+  selectedCategory,
+  onCategoryChange,
   onTemplateSelect,
+  onProfileSelect,
+  onWordPressSelect,
   totalSteps,
 }: WizardStep1Props) {
   const [templates, setTemplates] = useState<PublicTemplate[]>([]);
+  const [total, setTotal] = useState(0);
+  const [categories, setCategories] = useState<TemplateCategory[]>([]);
+  const [profiles, setProfiles] = useState<StarterProfile[]>([]);
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const wordpressInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
-    loadTemplates();
+    getTemplateCategories()
+      .then((data) => setCategories(data.filter((category) => category.count > 0)))
+      .catch((error) => console.error("Error loading template categories:", error));
+    // Starters are optional: the blank canvas works without them
+    getStarterProfiles()
+      .then((data) => setProfiles(data.filter((profile) => profile.category)))
+      .catch((error) => console.error("Error loading starter profiles:", error));
   }, []);
 
-  const loadTemplates = async () => {
+  // Search as the user types, once they pause
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  useEffect(() => {
+    loadTemplates(0);
+  }, [selectedCategory, query]);
+
+  const getQuery = (offset: number): PublicTemplateQuery => ({
+    ...(selectedCategory === POPULAR_CATEGORY
+      ? { featured: true }
+      : { category: selectedCategory || undefined }),
+    q: query || undefined,
+    limit: PAGE_SIZE,
+    offset,
+  });
+
+  const loadTemplates = async (offset: number) => {
+    if (offset === 0) {
+      setLoading(true);
+    } else {
+      setLoadingMore(true);
+    }
+
     try {
-      const data = await getPublicTemplates();
-      setTemplates(data);
+      const page = await getPublicTemplates(getQuery(offset));
+      setTemplates((current) =>
+        offset === 0 ? page.templates : [...current, ...page.templates]
+      );
+      setTotal(page.total);
     } catch (error) {
       console.error("Error loading templates:", error);
     } finally {
       setLoading(false);
+      setLoadingMore(false);
     }
   };
 
+  const filters = [
+    { id: null, name: "All" },
+    { id: POPULAR_CATEGORY, name: "Popular" },
+    ...categories,
+  ];
+
   return (
     <div className="min-h-screen p-8 lg:p-16">
       <div className="max-w-7xl mx-auto">
@@ -43,11 +112,12 @@ export default function WizardStep1({
         />
         <div className="mb-12 text-center">
           <p className="text-slate-600 mb-8 mt-8">
-            Select a template to customize or start with a blank canvas
+            Select a template to customize, start with a blank canvas or
+            bring your WordPress site
           </p>
 
-          {/* Blank Canvas Button */}
-          <div className="flex justify-center mb-12">
+          {/* Blank Canvas and WordPress Import Buttons */}
+          <div className="flex flex-col md:flex-row items-center justify-center gap-4 mb-12">
             <button
               onClick={() => onTemplateSelect("blank")}
               className="w-full max-w-md p-6 rounded-2xl border-2 border-dashed border-purple-300 hover:border-purple-500 hover:bg-purple-50/50 transition-all group"
@@ -64,6 +134,94 @@ export default function WizardStep1({
                 <ArrowRight className="size-5 text-purple-600 group-hover:translate-x-1 transition-transform" />
               </div>
             </button>
+
+            <button
+              onClick={() => wordpressInputRef.current?.click()}
+              className="w-full max-w-md p-6 rounded-2xl border-2 border-dashed border-purple-300 hover:border-purple-500 hover:bg-purple-50/50 transition-all group"
+            >
+              <div className="flex items-center justify-between">
+                <div className="text-left">
+                  <div className="text-slate-900 font-medium mb-1">
+                    Import from WordPress
+                  </div>
+                  <div className="text-sm text-slate-600">
+                    Upload an export file (Tools &gt; Export) with your posts,
+                    pages and media
+                  </div>
+                </div>
+                <Upload className="size-5 text-purple-600 shrink-0 ml-4" />
+              </div>
+            </button>
+            <input
+              ref={wordpressInputRef}
+              type="file"
+              accept=".xml,application/xml,text/xml"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) onWordPressSelect(file);
+              }}
+            />
+          </div>
+
+          {/* Starter Profiles - blank canvas with content for a kind of site */}
+          {profiles.length > 0 && (
+            <div className="mb-4">
+              <p className="text-sm text-slate-500 mb-4">
+                Or start from a blank canvas made for your kind of site
+              </p>
+              <div className="flex flex-wrap items-center justify-center gap-3">
+                {profiles.map((profile) => (
+                  <button
+                    key={profile.id}
+                    onClick={() => onProfileSelect(profile)}
+                    title={profile.description}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-full border transition-all ${
+                      selectedCategory === profile.category
+                        ? "border-purple-500 bg-purple-50 text-purple-700"
+                        : "border-slate-200 text-slate-700 hover:border-purple-400 hover:bg-purple-50/50"
+                    }`}
+                  >
+                    <Sparkles className="size-4 text-purple-600" />
+                    {profile.title}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Categories and Search */}
+        <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4 mb-8">
+          <div className="flex flex-wrap gap-2">
+            {filters.map((filter) => {
+              const Icon = categoryIcons.find((category) => category.id === filter.id)?.icon;
+              return (
+                <button
+                  key={filter.id || "all"}
+                  onClick={() => onCategoryChange(filter.id)}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm transition-all ${
+                    selectedCategory === filter.id
+                      ? "bg-purple-600 text-white"
+                      : "bg-white border border-slate-200 text-slate-700 hover:border-purple-400"
+                  }`}
+                >
+                  {Icon && <Icon className="size-4" />}
+                  {filter.name}
+                </button>
+              );
+            })}
+          </div>
+          <div className="relative w-full lg:w-64">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 size-4 text-slate-400" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search templates..."
+              className="w-full pl-10 pr-4 py-2 rounded-full border border-slate-200 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
           </div>
         </div>
 
@@ -82,10 +240,14 @@ export default function WizardStep1({
               <Globe className="w-8 h-8 text-slate-400" />
             </div>
             <p className="text-slate-600 font-medium">
-              No templates available yet
+              {selectedCategory || query
+                ? "No templates match your search"
+                : "No templates available yet"}
             </p>
             <p className="text-sm text-slate-400 mt-1">
-              Start with a blank canvas or check back later
+              {selectedCategory || query
+                ? "Try another category or search term"
+                : "Start with a blank canvas or check back later"}
             </p>
           </div>
         )}
@@ -97,11 +259,24 @@ export default function WizardStep1({
               <TemplateCard
                 key={template.id}
                 template={template}
-                onSelect={onTemplateSelect}
+                onSelect={() => onTemplateSelect(template.id, template)}
               />
             ))}
           </div>
         )}
+
+        {/* Pagination */}
+        {!loading && templates.length < total && (
+          <div className="text-center mt-10">
+            <button
+              onClick={() => loadTemplates(templates.length)}
+              disabled={loadingMore}
+              className="px-6 py-3 rounded-full border border-purple-300 text-purple-700 hover:bg-purple-50 transition-all disabled:opacity-50"
+            >
+              {loadingMore ? "Loading..." : `Show more templates (${total - templates.length})`}
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,3 +1,6 @@
+import { useState, useEffect } from "react";
+import { Check } from "lucide-react";
+import type { PublicTemplate } from "../../lib/api";
 import TemplatePreview from "./TemplatePreview";
 import StylePanel from "./StylePanel";
 import { ASSETS } from "../../data/wizard-data";
@@ -5,6 +8,8 @@ import { ASSETS } from "../../data/wizard-data";
 interface WizardStep2Props {
   selectedTemplate: string | null;
   selectedTemplateSiteId: string | null;
+  // Catalog entry of the selected template (preview pages, features)
+  template?: PublicTemplate | null;
   selectedPalette: string | null;
   selectedFont: string | null;
   selectedButtonStyle: string;
@@ -27,6 +32,7 @@ interface WizardStep2Props {
 export default function WizardStep2({
   selectedTemplate,
   selectedTemplateSiteId,
+  template,
   selectedPalette,
   selectedFont,
   selectedButtonStyle,
@@ -45,15 +51,42 @@ export default function WizardStep2({
   onBaseFontSizeChange,
   onBaseFontSizeMobileChange,
 }: WizardStep2Props) {
+  const [previewPath, setPreviewPath] = useState("/");
+  const previewPages = template?.previewPages || [];
+
+  useEffect(() => {
+    setPreviewPath("/");
+  }, [template?.id]);
+
   return (
     <>
       {/* Left Panel - Preview */}
       <div className="animate-in fade-in duration-500">
+        {/* Preview Pages */}
+        {previewPages.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-4">
+            {[{ title: "Home", path: "/" }, ...previewPages].map((page) => (
+              <button
+                key={page.path}
+                onClick={() => setPreviewPath(page.path)}
+                className={`px-3 py-1.5 rounded-full text-sm transition-all ${
+                  previewPath === page.path
+                    ? "bg-purple-600 text-white"
+                    : "bg-white border border-slate-200 text-slate-700 hover:border-purple-400"
+                }`}
+              >
+                {page.title}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Template Preview with Selected Colors & Fonts */}
         <div className="rounded-2xl overflow-hidden shadow-2xl border-2 border-slate-200">
           <TemplatePreview
             selectedTemplate={selectedTemplate}
             sourceSiteId={selectedTemplateSiteId}
+            previewPath={previewPath}
             selectedFont={selectedFont}
             selectedButtonStyle={selectedButtonStyle}
             colors={currentColors}
@@ -61,6 +94,21 @@ export default function WizardStep2({
             baseFontSizeMobile={baseFontSizeMobile}
           />
         </div>
+
+        {/* Template Features */}
+        {template && template.features.length > 0 && (
+          <div className="mt-6">
+            <div className="text-slate-900 font-medium mb-2">{template.name} includes</div>
+            <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {template.features.map((feature) => (
+                <li key={feature} className="flex items-center gap-2 text-sm text-slate-600">
+                  <Check className="size-4 text-purple-600 shrink-0" />
+                  {feature}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
 
       {/* Right Panel - Style Controls (rendered in parent's grid layout) */}
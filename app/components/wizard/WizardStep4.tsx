@@ -1,8 +1,9 @@
 import { useState } from 'react';
-import { Loader2, Mail, Eye, EyeOff } from 'lucide-react';
+import { Loader2, Mail, Eye, EyeOff, Check, X, Circle, Minus } from 'lucide-react';
 import { Input } from '../ui/input';
 import { Label } from '../ui/label';
 import { Button } from '../ui/button';
+import type { ProvisioningEvent, ProvisioningEventType, ProvisioningResult } from '../../lib/api';
 
 interface WizardStep4Props {
   firstName: string;
@@ -246,3 +247,91 @@ export default function WizardStep4({
     </div>
   );
 }
+
+// Provisioning progress items, in the order the API runs them
+const PROVISIONING_ITEMS: { events: ProvisioningEventType[]; label: string }[] = [
+  { events: ['database_created', 'database_cloned', 'database_restored'], label: 'Creating your database' },
+  { events: ['migrations_applied'], label: 'Preparing the database' },
+  { events: ['profile_seeded'], label: 'Adding starter content' },
+  { events: ['owner_rewritten'], label: 'Making you the owner' },
+  { events: ['template_personalized'], label: 'Personalizing your content' },
+  { events: ['wordpress_imported'], label: 'Importing your WordPress content' },
+  { events: ['theme_applied'], label: 'Applying your style' },
+  { events: ['routing_registered'], label: 'Connecting your domain' },
+  { events: ['site_activated'], label: 'Going live' },
+];
+
+interface WizardStep4ProgressProps {
+  events: ProvisioningEvent[];
+  result: ProvisioningResult | null;
+}
+
+function formatDuration(durationMs: number | null) {
+  if (durationMs === null) return '';
+  return durationMs < 1000 ? `${durationMs}ms` : `${(durationMs / 1000).toFixed(1)}s`;
+}
+
+// Live site setup progress (shown while the site is being provisioned)
+export function WizardStep4Progress({ events, result }: WizardStep4ProgressProps) {
+  const completed = PROVISIONING_ITEMS.map((item) =>
+    events.find((event) => item.events.includes(event.event))
+  );
+  const lastDoneIndex = completed.reduce((last, event, index) => (event ? index : last), -1);
+  // The first unfinished item after everything done so far is the one in progress
+  const currentIndex = result?.status === 'completed'
+    ? -1
+    : completed.findIndex((event, index) => !event && index > lastDoneIndex);
+  // Only a failure reported after the last completed item belongs to the current one
+  const lastEvent = events[events.length - 1];
+  const lastFailure = lastEvent && (lastEvent.event === 'step_failed' || lastEvent.event === 'job_failed')
+    ? lastEvent
+    : null;
+  const isFailed = result?.status === 'failed';
+
+  return (
+    <ul className="w-full max-w-sm mx-auto space-y-2 text-left">
+      {PROVISIONING_ITEMS.map((item, index) => {
+        const done = completed[index];
+        const isCurrent = index === currentIndex;
+        // Items passed over without an event did not apply (e.g. seeding a cloned template)
+        const isSkipped = !done && (index < lastDoneIndex || result?.status === 'completed');
+        const failure = isCurrent ? lastFailure : null;
+
+        return (
+          <li key={item.label} className="flex items-start gap-3 text-sm">
+            <span className="mt-0.5 w-5 h-5 flex items-center justify-center shrink-0">
+              {done ? (
+                <Check className="w-4 h-4 text-green-400" />
+              ) : isCurrent && isFailed ? (
+                <X className="w-4 h-4 text-red-400" />
+              ) : isCurrent ? (
+                <Loader2 className="w-4 h-4 text-purple-300 animate-spin" />
+              ) : isSkipped ? (
+                <Minus className="w-4 h-4 text-purple-200/40" />
+              ) : (
+                <Circle className="w-3 h-3 text-purple-200/40" />
+              )}
+            </span>
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center justify-between gap-2">
+                <span className={done || isCurrent ? 'text-white' : 'text-purple-200/50'}>
+                  {item.label}
+                </span>
+                {done && (
+                  <span className="text-xs text-purple-200/60">{formatDuration(done.durationMs)}</span>
+                )}
+              </div>
+              {isCurrent && isFailed ? (
+                <p className="text-xs mt-0.5 text-red-300">{result?.error || failure?.error}</p>
+              ) : failure && (
+                <p className="text-xs mt-0.5 text-amber-200/80">
+                  Retrying (attempt {failure.attempt} failed: {failure.error})
+                </p>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -3,8 +3,24 @@ import { auth } from './firebase';
 // API Configuration
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000';
 
+// Page of a template's source site shown in the builder preview
+export interface TemplatePreviewPage {
+  title: string;
+  path: string;
+}
+
+// Catalog fields of a template (editable by admins)
+export interface TemplateCatalogFields {
+  categories: string[];
+  tags: string[];
+  featured: boolean;
+  sortOrder: number;
+  previewPages: TemplatePreviewPage[];
+  features: string[];
+}
+
 // Public template type (for builder - no auth required)
-export interface PublicTemplate {
+export interface PublicTemplate extends TemplateCatalogFields {
   id: string;
   name: string;
   description: string;
@@ -14,15 +30,73 @@ export interface PublicTemplate {
   createdAt: string;
 }
 
-// Fetch public templates (no auth required)
-export async function getPublicTemplates(): Promise<PublicTemplate[]> {
-  const response = await fetch(`${API_BASE_URL}/templates/public`);
+export interface PublicTemplateQuery {
+  category?: string;
+  tag?: string;
+  featured?: boolean;
+  // Search in name, description and tags
+  q?: string;
+  sort?: 'featured' | 'newest' | 'name';
+  limit?: number;
+  offset?: number;
+}
+
+export interface PublicTemplatePage {
+  templates: PublicTemplate[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// Fetch a page of public templates (no auth required)
+export async function getPublicTemplates(query: PublicTemplateQuery = {}): Promise<PublicTemplatePage> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  }
+
+  const response = await fetch(`${API_BASE_URL}/templates/public?${params}`);
   if (!response.ok) {
     throw new Error('Failed to fetch templates');
   }
   return response.json();
 }
 
+// Template category with its number of public templates
+export interface TemplateCategory {
+  id: string;
+  name: string;
+  count: number;
+}
+
+// Fetch template categories (no auth required)
+export async function getTemplateCategories(): Promise<TemplateCategory[]> {
+  const response = await fetch(`${API_BASE_URL}/templates/categories`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch template categories');
+  }
+  return response.json();
+}
+
+// Starter profile a new site can be seeded with (for builder - no auth required)
+export interface StarterProfile {
+  id: string;
+  title: string;
+  description: string;
+  // Builder category the profile is meant for (null for the default profile)
+  category: string | null;
+  version: number;
+}
+
+// Fetch starter profiles (no auth required)
+export async function getStarterProfiles(): Promise<StarterProfile[]> {
+  const response = await fetch(`${API_BASE_URL}/templates/profiles`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch starter profiles');
+  }
+  return response.json();
+}
+
 // User info type
 export interface UserInfo {
   uid: string;
@@ -37,16 +111,167 @@ export interface Site {
   userId: string;
   name: string;
   domain: string;
-  status: 'pending' | 'deploying' | 'active' | 'error' | 'suspended';
+  status: 'pending' | 'deploying' | 'active' | 'error' | 'suspended' | 'deleted';
   renderUrl?: string;
+  // Set for deleted sites, which can be restored until purgeAt
+  deletedAt?: string;
+  purgeAt?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface SiteTheme {
+  presetId: string;
+  overrides: Record<string, string>;
+  darkMode?: boolean;
+  typography?: {
+    fontPresetId?: string;
+    fontHeading?: string;
+    fontBody?: string;
+    baseFontSize?: number;
+    baseFontSizeMobile?: number;
+    headingWeight?: number;
+    bodyWeight?: number;
+  };
+}
+
 export interface SiteCreateRequest {
   site_id: string;
   name: string;
   template_id?: string;
+  // WordPress export uploaded with uploadWordPressExport, imported while the site is provisioned
+  wordpress_import_id?: string;
+  // Applied while the site is provisioned
+  theme?: SiteTheme;
+  // Starter profile (StarterProfile.id) seeded when not cloning a template
+  profile?: string;
+}
+
+// Provisioning progress (streamed from /sites/:siteId/provisioning/events)
+export type ProvisioningStep = 'database' | 'bootstrap' | 'theme' | 'register' | 'activate';
+
+export type ProvisioningEventType =
+  | 'database_created'
+  | 'database_cloned'
+  | 'database_restored'
+  | 'owner_rewritten'
+  | 'template_personalized'
+  | 'migrations_applied'
+  | 'profile_seeded'
+  | 'archive_imported'
+  | 'wordpress_imported'
+  | 'theme_applied'
+  | 'routing_registered'
+  | 'site_activated'
+  | 'step_failed'
+  | 'job_completed'
+  | 'job_failed';
+
+export interface ProvisioningEvent {
+  id: string;
+  step: ProvisioningStep | null;
+  event: ProvisioningEventType;
+  attempt: number | null;
+  durationMs: number | null;
+  error: string | null;
+  createdAt: string;
+}
+
+export interface ProvisioningResult {
+  status: 'completed' | 'failed';
+  step: ProvisioningStep | null;
+  error: string | null;
+}
+
+export interface SiteTransfer {
+  id: string;
+  siteId: string;
+  siteName: string;
+  fromEmail: string;
+  toEmail: string;
+  status: 'pending' | 'accepted' | 'declined' | 'cancelled' | 'expired';
+  createdAt: string;
+  expiresAt: string;
+  respondedAt?: string;
+  // Accepted, but the sender's subscription is not set to cancel yet (retried)
+  cancellationPending: boolean;
+}
+
+export interface SiteStaging {
+  siteId: string;
+  domain: string;
+  // Staging holds the production content from before the last promotion
+  rollbackAvailable: boolean;
+  refreshedAt: string | null;
+  promotedAt: string | null;
+  createdAt: string;
+}
+
+export interface SiteBackup {
+  id: string;
+  trigger: 'scheduled' | 'manual' | 'pre_restore';
+  status: 'running' | 'completed' | 'failed';
+  sizeBytes: number | null;
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export interface SiteBackupSchedule {
+  plan: string;
+  intervalHours: number;
+  // Number of backups kept
+  retention: number;
+}
+
+// Storage quota of a site: what its plan includes plus the add-on units bought
+export interface SiteStorageQuota {
+  plan: string;
+  includedMb: number;
+  addOnUnits: number;
+  quotaMb: number;
+  usedMb: number;
+  percent: number;
+  // warning: over warningPercent of the quota; full: uploads are rejected
+  level: 'ok' | 'warning' | 'full';
+}
+
+// Quota with the warning threshold and the price of add-on units (GET /sites/:siteId/quota)
+export interface SiteStorageQuotaDetails extends SiteStorageQuota {
+  warningPercent: number;
+  unitMb: number;
+  unitPrice: number;
+  currency: string;
+}
+
+// Per-item outcome of a WordPress import
+export interface WordPressImportLogEntry {
+  wpId: string;
+  kind: 'category' | 'attachment' | 'page' | 'post' | 'other';
+  title: string;
+  status: 'imported' | 'skipped' | 'failed';
+  path?: string;
+  message?: string;
+}
+
+export interface WordPressImport {
+  id: string;
+  siteId: string;
+  status: 'uploaded' | 'running' | 'completed' | 'failed';
+  // Read from the export on upload
+  summary: {
+    title: string;
+    link: string;
+    posts: number;
+    pages: number;
+    attachments: number;
+    categories: number;
+  };
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+  // Only returned by getWordPressImport
+  log?: WordPressImportLogEntry[];
 }
 
 export interface SiteAvailabilityResponse {
@@ -62,7 +287,7 @@ export interface ApiResponse<T> {
   site?: T;
 }
 
-export interface Template {
+export interface Template extends TemplateCatalogFields {
   id: string;
   name: string;
   description: string;
@@ -71,11 +296,25 @@ export interface Template {
   userId: string;
   isPublic: boolean;
   isOwner: boolean;
+  // Version new sites are cloned from (null for templates never published)
+  pinnedVersionId: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
-export interface TemplateCreateRequest {
+// Published snapshot of a template's source site
+export interface TemplateVersion {
+  id: string;
+  version: number;
+  sourceSiteId: string;
+  notes: string;
+  createdBy: string;
+  ready: boolean;
+  pinned: boolean;
+  createdAt: string;
+}
+
+export interface TemplateCreateRequest extends Partial<TemplateCatalogFields> {
   siteId: string;
   name: string;
   description?: string;
@@ -154,28 +393,325 @@ export const api = {
     return apiRequest<Site>(`/sites/${siteId}`);
   },
   
-  // Delete a site
-  async deleteSite(siteId: string): Promise<ApiResponse<void>> {
-    return apiRequest<ApiResponse<void>>(`/sites/${siteId}`, {
+  // Delete a site (it can be restored until purgeAt)
+  async deleteSite(siteId: string): Promise<ApiResponse<void> & { purgeAt?: string }> {
+    return apiRequest(`/sites/${siteId}`, {
       method: 'DELETE',
     });
   },
 
-  // Update site theme
-  async updateSiteTheme(siteId: string, theme: {
-    presetId: string;
-    overrides: Record<string, string>;
-    darkMode?: boolean;
-    typography?: {
-      fontPresetId?: string;
-      fontHeading?: string;
-      fontBody?: string;
-      baseFontSize?: number;
-      baseFontSizeMobile?: number;
-      headingWeight?: number;
-      bodyWeight?: number;
+  // Restore a deleted site
+  async restoreSite(siteId: string): Promise<ApiResponse<void>> {
+    return apiRequest<ApiResponse<void>>(`/sites/${siteId}/restore`, {
+      method: 'POST',
+    });
+  },
+
+  // Change a site's subdomain (the old one redirects to the new one for a while)
+  async renameSite(siteId: string, newSiteId: string): Promise<{
+    success: boolean;
+    message: string;
+    siteId: string;
+    domain: string;
+    redirectFrom: string | null;
+    redirectUntil: string | null;
+  }> {
+    return apiRequest(`/sites/${siteId}/rename`, {
+      method: 'POST',
+      body: JSON.stringify({ newSiteId }),
+    });
+  },
+
+  // Copy a site (content, pages, theme) into a new site
+  async duplicateSite(siteId: string, newSiteId: string, name: string): Promise<ApiResponse<Site>> {
+    return apiRequest<ApiResponse<Site>>(`/sites/${siteId}/duplicate`, {
+      method: 'POST',
+      body: JSON.stringify({ newSiteId, name }),
+    });
+  },
+
+  // Download a site as a portable archive (.lunasite.json.gz)
+  async exportSite(siteId: string): Promise<{ blob: Blob; filename: string }> {
+    const token = await getAuthToken();
+    const response = await fetch(`${API_BASE_URL}/sites/${siteId}/export`, {
+      headers: { 'Authorization': `Bearer ${token}` },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const disposition = response.headers.get('Content-Disposition') || '';
+    const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `${siteId}.lunasite.json.gz`;
+    return { blob: await response.blob(), filename };
+  },
+
+  // Create a new site from an exported archive
+  async importSite(file: File, newSiteId: string, name: string): Promise<ApiResponse<Site>> {
+    const params = new URLSearchParams({ newSiteId, name });
+    return apiRequest<ApiResponse<Site>>(`/sites/import?${params}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/gzip' },
+      body: file,
+    });
+  },
+
+  // Password-protected staging copy of a site (null if none)
+  async getSiteStaging(siteId: string): Promise<{ staging: SiteStaging | null }> {
+    return apiRequest(`/sites/${siteId}/staging`);
+  },
+
+  async createSiteStaging(siteId: string, password: string): Promise<{ success: boolean; message: string; staging: SiteStaging }> {
+    return apiRequest(`/sites/${siteId}/staging`, {
+      method: 'POST',
+      body: JSON.stringify({ password }),
+    });
+  },
+
+  // refresh: copy production to staging, promote: make staging live, rollback: undo the last promotion
+  async updateSiteStaging(
+    siteId: string,
+    action: 'refresh' | 'promote' | 'rollback'
+  ): Promise<{ success: boolean; message: string; staging: SiteStaging | null }> {
+    return apiRequest(`/sites/${siteId}/staging/${action}`, {
+      method: 'POST',
+    });
+  },
+
+  async setSiteStagingPassword(siteId: string, password: string): Promise<ApiResponse<void>> {
+    return apiRequest<ApiResponse<void>>(`/sites/${siteId}/staging/password`, {
+      method: 'PUT',
+      body: JSON.stringify({ password }),
+    });
+  },
+
+  async deleteSiteStaging(siteId: string): Promise<ApiResponse<void>> {
+    return apiRequest<ApiResponse<void>>(`/sites/${siteId}/staging`, {
+      method: 'DELETE',
+    });
+  },
+
+  // Database backups of a site (newest first) and the plan's backup schedule
+  async getSiteBackups(siteId: string): Promise<{ backups: SiteBackup[]; schedule: SiteBackupSchedule }> {
+    return apiRequest(`/sites/${siteId}/backups`);
+  },
+
+  // Start a backup now (runs in the background - poll getSiteBackups)
+  async createSiteBackup(siteId: string): Promise<{ success: boolean; message: string; backup: SiteBackup }> {
+    return apiRequest(`/sites/${siteId}/backups`, {
+      method: 'POST',
+    });
+  },
+
+  // Replace the site's content with a backup (the current content is backed up first)
+  async restoreSiteBackup(
+    siteId: string,
+    backupId: string
+  ): Promise<{ success: boolean; message: string; preRestoreBackup: SiteBackup }> {
+    return apiRequest(`/sites/${siteId}/backups/${backupId}/restore`, {
+      method: 'POST',
+      body: JSON.stringify({ target: 'site' }),
+    });
+  },
+
+  // Create a new site from a backup
+  async restoreSiteBackupAsNewSite(
+    siteId: string,
+    backupId: string,
+    newSiteId: string,
+    name: string
+  ): Promise<ApiResponse<Site>> {
+    return apiRequest<ApiResponse<Site>>(`/sites/${siteId}/backups/${backupId}/restore`, {
+      method: 'POST',
+      body: JSON.stringify({ target: 'new', newSiteId, name }),
+    });
+  },
+
+  // Storage quota of a site and how much of it is used
+  async getSiteQuota(siteId: string): Promise<SiteStorageQuotaDetails> {
+    return apiRequest(`/sites/${siteId}/quota`);
+  },
+
+  // Upload a WordPress export (WXR) for a site about to be created - pass the import ID to createSite
+  async uploadWordPressExport(file: File, siteId: string): Promise<{ success: boolean; import: WordPressImport }> {
+    const params = new URLSearchParams({ siteId });
+    return apiRequest(`/sites/wordpress-imports?${params}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/xml' },
+      body: file,
+    });
+  },
+
+  // Import a WordPress export into an existing site (runs in the background - poll getWordPressImport)
+  async importWordPressExport(
+    siteId: string,
+    file: File
+  ): Promise<{ success: boolean; message: string; import: WordPressImport }> {
+    return apiRequest(`/sites/${siteId}/wordpress-imports`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/xml' },
+      body: file,
+    });
+  },
+
+  // WordPress imports of a site (newest first, without their logs)
+  async getWordPressImports(siteId: string): Promise<{ imports: WordPressImport[] }> {
+    return apiRequest(`/sites/${siteId}/wordpress-imports`);
+  },
+
+  // A WordPress import with its per-item log
+  async getWordPressImport(siteId: string, importId: string): Promise<{ import: WordPressImport }> {
+    return apiRequest(`/sites/${siteId}/wordpress-imports/${importId}`);
+  },
+
+  // Ownership transfers waiting for the user, and outcomes of the user's own transfers
+  async getSiteTransfers(): Promise<{ incoming: SiteTransfer[]; outgoing: SiteTransfer[] }> {
+    return apiRequest('/sites/transfers');
+  },
+
+  // Pending ownership transfer of a site (null if none)
+  async getSiteTransfer(siteId: string): Promise<{ transfer: SiteTransfer | null }> {
+    return apiRequest(`/sites/${siteId}/transfer`);
+  },
+
+  // Offer a site to another Luna Sites user
+  async startSiteTransfer(siteId: string, email: string): Promise<{ success: boolean; message: string; transfer: SiteTransfer }> {
+    return apiRequest(`/sites/${siteId}/transfer`, {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    });
+  },
+
+  // Cancel a pending ownership transfer
+  async cancelSiteTransfer(siteId: string): Promise<ApiResponse<void>> {
+    return apiRequest<ApiResponse<void>>(`/sites/${siteId}/transfer`, {
+      method: 'DELETE',
+    });
+  },
+
+  async acceptSiteTransfer(transferId: string): Promise<{ success: boolean; message: string; siteId: string }> {
+    return apiRequest(`/sites/transfers/${transferId}/accept`, {
+      method: 'POST',
+    });
+  },
+
+  async declineSiteTransfer(transferId: string): Promise<ApiResponse<void>> {
+    return apiRequest<ApiResponse<void>>(`/sites/transfers/${transferId}/decline`, {
+      method: 'POST',
+    });
+  },
+
+  // Hide the outcome of a transfer from the sender's notifications
+  async dismissSiteTransfer(transferId: string): Promise<ApiResponse<void>> {
+    return apiRequest<ApiResponse<void>>(`/sites/transfers/${transferId}/dismiss`, {
+      method: 'POST',
+    });
+  },
+
+  // Retry setup for a site whose provisioning failed (only missing steps are re-run)
+  async repairSite(siteId: string): Promise<{ success: boolean; message: string; steps: ProvisioningStep[] }> {
+    return apiRequest(`/sites/${siteId}/repair`, {
+      method: 'POST',
+    });
+  },
+
+  // Follow site provisioning progress. Uses fetch instead of EventSource so the
+  // auth header can be sent; reconnects from the last event if the stream drops.
+  // Returns a function that stops listening.
+  subscribeProvisioningEvents(
+    siteId: string,
+    handlers: {
+      onEvent: (event: ProvisioningEvent) => void;
+      onDone: (result: ProvisioningResult) => void;
+      onError?: (error: Error) => void;
+    }
+  ): () => void {
+    const controller = new AbortController();
+    let lastEventId: string | undefined;
+
+    // Read the stream until the server sends `done` (returns true) or the connection ends (false)
+    const connect = async (): Promise<boolean> => {
+      const token = await getAuthToken();
+      const response = await fetch(`${API_BASE_URL}/sites/${siteId}/provisioning/events`, {
+        headers: {
+          'Accept': 'text/event-stream',
+          'Authorization': `Bearer ${token}`,
+          ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
+        },
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) return false;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        let boundary: number;
+        while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+          const message = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+
+          let id: string | undefined;
+          let eventName = 'message';
+          let data = '';
+          for (const line of message.split('\n')) {
+            if (line.startsWith('id: ')) id = line.slice(4);
+            else if (line.startsWith('event: ')) eventName = line.slice(7);
+            else if (line.startsWith('data: ')) data += line.slice(6);
+          }
+
+          // Comments (keep-alives) carry no data
+          if (!data) continue;
+
+          if (eventName === 'done') {
+            handlers.onDone(JSON.parse(data));
+            return true;
+          }
+
+          if (id) lastEventId = id;
+          handlers.onEvent(JSON.parse(data));
+        }
+      }
     };
-  }): Promise<ApiResponse<void>> {
+
+    (async () => {
+      const maxReconnects = 5;
+      let lastError: Error = new Error('Lost connection to site setup progress');
+
+      for (let attempt = 0; attempt <= maxReconnects; attempt++) {
+        if (attempt > 0) {
+          await new Promise((resolve) => setTimeout(resolve, 2000));
+        }
+        if (controller.signal.aborted) return;
+
+        try {
+          if (await connect()) return;
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          lastError = error instanceof Error ? error : lastError;
+          console.error('Provisioning stream error:', error);
+        }
+      }
+
+      handlers.onError?.(lastError);
+    })();
+
+    return () => controller.abort();
+  },
+
+  // Update site theme
+  async updateSiteTheme(siteId: string, theme: SiteTheme): Promise<ApiResponse<void>> {
     return apiRequest<ApiResponse<void>>(`/sites/${siteId}/theme`, {
       method: 'PATCH',
       body: JSON.stringify(theme),
@@ -231,6 +767,36 @@ export const api = {
     });
   },
 
+  // Get the versions of a template, newest first (admin only)
+  async getTemplateVersions(templateId: string): Promise<TemplateVersion[]> {
+    return apiRequest<TemplateVersion[]>(`/templates/${templateId}/versions`);
+  },
+
+  // Snapshot the template's source site as a new version (admin only)
+  async publishTemplateVersion(
+    templateId: string,
+    data: { notes?: string; pin?: boolean } = {}
+  ): Promise<TemplateVersion> {
+    return apiRequest<TemplateVersion>(`/templates/${templateId}/versions`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Pin the version new sites are cloned from (admin only)
+  async pinTemplateVersion(templateId: string, versionId: string): Promise<ApiResponse<void>> {
+    return apiRequest<ApiResponse<void>>(`/templates/${templateId}/versions/${versionId}/pin`, {
+      method: 'POST',
+    });
+  },
+
+  // Delete a version that is not pinned (admin only)
+  async deleteTemplateVersion(templateId: string, versionId: string): Promise<ApiResponse<void>> {
+    return apiRequest<ApiResponse<void>>(`/templates/${templateId}/versions/${versionId}`, {
+      method: 'DELETE',
+    });
+  },
+
   // ============================================
   // CUSTOM DOMAINS
   // ============================================
@@ -544,11 +1110,21 @@ export const api = {
       id: string;
       siteId: string;
       plan: 'free' | 'starter' | 'pro';
-      status: 'active' | 'cancelled' | 'past_due' | 'trialing';
+      status: 'active' | 'cancelled' | 'past_due' | 'suspended' | 'trialing' | 'expired';
       subscriptionId?: string;
       currentPeriodStart?: string;
       currentPeriodEnd?: string;
-      trialEnd?: string;
+      // Failed payment: the site is suspended at graceEndsAt unless paid
+      graceEndsAt?: string | null;
+      suspendedAt?: string | null;
+      // Free trial of the site (status trialing, then expired: the site is offline until a plan is chosen)
+      trialStartedAt?: string | null;
+      trialEndsAt?: string | null;
+      trialExpiredAt?: string | null;
+      // Set after a site transfer while the previous owner's subscription runs out
+      inheritedFromUserId?: string;
+      // Storage bought on top of what the plan includes (units of 500MB)
+      storageAddOnUnits?: number;
     }>;
   }> {
     return apiRequest('/billing/subscriptions');
@@ -572,6 +1148,14 @@ export const api = {
     });
   },
 
+  // Set the storage add-on units of a site (billed with its subscription)
+  async setStorageAddOn(siteId: string, units: number): Promise<{ success: boolean; quota: SiteStorageQuota }> {
+    return apiRequest(`/billing/storage/${siteId}`, {
+      method: 'POST',
+      body: JSON.stringify({ units }),
+    });
+  },
+
   // Get storage usage for a site
   async getUsage(siteId: string): Promise<{
     usage: Array<{
@@ -579,11 +1163,17 @@ export const api = {
       storage: number;
       pageViews: number;
       bandwidth: number;
+      measuredAt: string | null;
     }>;
     currentStorage: number;
-    freeStorageMb: number;
+    includedStorageMb: number;
+    quotaMb: number;
     billableStorageMb: number;
+    storageUnits: number;
+    // Charged with the next invoice (0 for sites without a subscription of their own)
     estimatedCharge: number;
+    billed: boolean;
+    measuredAt: string | null;
     currency: string;
   }> {
     return apiRequest(`/billing/usage/${siteId}`);
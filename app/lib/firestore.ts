@@ -64,10 +64,12 @@ export interface SiteBilling {
   siteId: string;
   userId: string;
   plan: 'free' | 'pro' | 'enterprise';
-  status: 'active' | 'cancelled' | 'past_due';
+  status: 'trialing' | 'expired' | 'active' | 'cancelled' | 'past_due' | 'suspended';
   subscriptionId?: string;
   currentPeriodStart?: Timestamp;
   currentPeriodEnd?: Timestamp;
+  trialStartedAt?: Timestamp;
+  trialEndsAt?: Timestamp;
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
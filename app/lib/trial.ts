@@ -0,0 +1,33 @@
+// Free trial of a site, from its billing record (GET /billing/subscriptions)
+
+export interface TrialInfo {
+  endsAt: Date;
+  daysLeft: number;
+  expired: boolean;
+  // Few days left: the upgrade call to action is highlighted
+  urgent: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days left from which the trial counts as ending soon
+export const TRIAL_URGENT_DAYS = 7;
+
+export function getTrialInfo(
+  billing: { status?: string; trialEndsAt?: string | null } | null | undefined
+): TrialInfo | null {
+  if (!billing?.trialEndsAt || (billing.status !== 'trialing' && billing.status !== 'expired')) {
+    return null;
+  }
+
+  const endsAt = new Date(billing.trialEndsAt);
+  const daysLeft = Math.max(0, Math.ceil((endsAt.getTime() - Date.now()) / DAY_MS));
+  const expired = billing.status === 'expired' || daysLeft === 0;
+
+  return { endsAt, daysLeft, expired, urgent: expired || daysLeft <= TRIAL_URGENT_DAYS };
+}
+
+export function formatTrialCountdown(trial: TrialInfo): string {
+  if (trial.expired) return 'Trial expired';
+  return `${trial.daysLeft} day${trial.daysLeft === 1 ? '' : 's'} left`;
+}
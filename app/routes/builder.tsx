@@ -3,6 +3,13 @@ import type { Route } from "./+types/builder";
 import { ArrowRight, ArrowLeft } from "lucide-react";
 import { Button } from "../components/ui/button";
 import { validateSiteId, api } from "../lib/api";
+import type {
+  ProvisioningEvent,
+  ProvisioningResult,
+  SiteTheme,
+  PublicTemplate,
+  StarterProfile,
+} from "../lib/api";
 import { auth, googleProvider } from "../lib/firebase";
 import {
   signInWithPopup,
@@ -16,7 +23,9 @@ import WizardStep2, {
   WizardStep2RightPanel,
 } from "../components/wizard/WizardStep2";
 import WizardStep3 from "../components/wizard/WizardStep3";
-import WizardStep4 from "../components/wizard/WizardStep4";
+import WizardStep4, {
+  WizardStep4Progress,
+} from "../components/wizard/WizardStep4";
 import WizardProgress from "../components/wizard/WizardProgress";
 import WizardBackground from "../components/wizard/WizardBackground";
 
@@ -39,6 +48,13 @@ export default function Builder() {
   const [selectedTemplateSiteId, setSelectedTemplateSiteId] = useState<
     string | null
   >(null);
+  // Catalog entry of the selected template (none for the blank canvas)
+  const [selectedTemplateInfo, setSelectedTemplateInfo] =
+    useState<PublicTemplate | null>(null);
+  // Starter profile seeded into the blank canvas (instead of the default one)
+  const [selectedProfile, setSelectedProfile] = useState<string | null>(null);
+  // WordPress export to import into the new site (instead of a template)
+  const [wordpressFile, setWordpressFile] = useState<File | null>(null);
   const [siteTitle, setSiteTitle] = useState("");
   const [siteId, setSiteId] = useState("");
   const [selectedPalette, setSelectedPalette] = useState<string | null>(null);
@@ -62,6 +78,11 @@ export default function Builder() {
   const [siteIdError, setSiteIdError] = useState<string | null>(null);
   const [createdSiteId, setCreatedSiteId] = useState<string | null>(null);
   const [siteStatus, setSiteStatus] = useState<string>("creating");
+  const [provisioningEvents, setProvisioningEvents] = useState<
+    ProvisioningEvent[]
+  >([]);
+  const [provisioningResult, setProvisioningResult] =
+    useState<ProvisioningResult | null>(null);
   const [checkingAvailability, setCheckingAvailability] = useState(false);
   const [siteIdAvailable, setSiteIdAvailable] = useState<boolean | null>(null);
   const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
@@ -70,85 +91,106 @@ export default function Builder() {
   const isLoggedIn = !!user;
   const totalSteps = isLoggedIn ? 3 : 4;
 
-  // Poll site status after creation
+  // Follow provisioning progress after creation
   useEffect(() => {
     if (!createdSiteId || !isCompleting) return;
 
-    const pollStatus = async () => {
-      try {
-        const site = await api.getSite(createdSiteId);
-        setSiteStatus(site.status);
-
-        if (site.status === "active") {
-          // Save theme if user selected a palette or custom colors
-          const hasCustomColors = customColors.length > 0;
-          const hasSelectedPalette = selectedPalette !== null;
-
-          if (hasCustomColors || hasSelectedPalette) {
-            try {
-              const colors = hasCustomColors
-                ? customColors
-                : colorPalettes.find((p) => p.id === selectedPalette)?.colors ||
-                  [];
-
-              // Get selected font pair for typography
-              const fontPair = fontPairs.find((f) => f.id === selectedFont);
-
-              await api.updateSiteTheme(createdSiteId, {
-                presetId: selectedPalette || "default",
-                overrides: {
-                  primary: colors[0] || "",
-                  secondary: colors[1] || "",
-                  accent: colors[2] || "",
-                  background: colors[3] || "",
-                },
-                darkMode: false,
-                typography: fontPair
-                  ? {
-                      fontPresetId: fontPair.id,
-                      fontHeading: fontPair.headingId,
-                      fontBody: fontPair.bodyId,
-                      baseFontSize,
-                      baseFontSizeMobile,
-                      headingWeight: fontPair.headingWeight,
-                      bodyWeight: fontPair.bodyWeight,
-                    }
-                  : undefined,
-              });
-            } catch (err) {
-              console.error("Failed to save theme:", err);
-              // Continue anyway - theme save is not critical
-            }
-          }
+    const unsubscribe = api.subscribeProvisioningEvents(createdSiteId, {
+      onEvent: (event) => {
+        setProvisioningEvents((events) => [...events, event]);
+      },
+      onDone: (result) => {
+        setProvisioningResult(result);
+
+        if (result.status === "completed") {
+          setSiteStatus("active");
           // Site is ready, redirect to edit page
           window.location.href = `/sites/${createdSiteId}/edit`;
-        } else if (site.status === "error") {
-          setError("Failed to create site. Please try again.");
-          setIsCompleting(false);
+        } else {
+          setSiteStatus("error");
+          setError(
+            result.error
+              ? `Failed to create site: ${result.error}`
+              : "Failed to create site. Please try again."
+          );
         }
-      } catch (err) {
-        console.error("Error polling site status:", err);
-      }
+      },
+      onError: (err) => {
+        console.error("Error following site setup:", err);
+        setSiteStatus("error");
+        setError("Lost track of your site setup. Check your sites dashboard.");
+      },
+    });
+
+    return unsubscribe;
+  }, [createdSiteId, isCompleting]);
+
+  // Theme chosen in the style step, applied while the site is provisioned
+  const getSelectedTheme = (): SiteTheme | undefined => {
+    const hasCustomColors = customColors.length > 0;
+    const hasSelectedPalette = selectedPalette !== null;
+
+    if (!hasCustomColors && !hasSelectedPalette) {
+      return undefined;
+    }
+
+    const colors = hasCustomColors
+      ? customColors
+      : colorPalettes.find((p) => p.id === selectedPalette)?.colors || [];
+
+    // Get selected font pair for typography
+    const fontPair = fontPairs.find((f) => f.id === selectedFont);
+
+    return {
+      presetId: selectedPalette || "default",
+      overrides: {
+        primary: colors[0] || "",
+        secondary: colors[1] || "",
+        accent: colors[2] || "",
+        background: colors[3] || "",
+      },
+      darkMode: false,
+      typography: fontPair
+        ? {
+            fontPresetId: fontPair.id,
+            fontHeading: fontPair.headingId,
+            fontBody: fontPair.bodyId,
+            baseFontSize,
+            baseFontSizeMobile,
+            headingWeight: fontPair.headingWeight,
+            bodyWeight: fontPair.bodyWeight,
+          }
+        : undefined,
     };
+  };
 
-    // Poll immediately and then every 2 seconds
-    pollStatus();
-    const interval = setInterval(pollStatus, 2000);
-
-    return () => clearInterval(interval);
-  }, [
-    createdSiteId,
-    isCompleting,
-    customColors,
-    selectedPalette,
-    selectedFont,
-    baseFontSize,
-    baseFontSizeMobile,
-  ]);
-
-  const handleTemplateSelect = (templateId: string, sourceSiteId?: string) => {
+  const handleTemplateSelect = (templateId: string, template?: PublicTemplate) => {
     setSelectedTemplate(templateId);
-    setSelectedTemplateSiteId(sourceSiteId || null);
+    setSelectedTemplateSiteId(template?.sourceSiteId || null);
+    setSelectedTemplateInfo(template || null);
+    setSelectedProfile(null);
+    setWordpressFile(null);
+    setStep(2);
+  };
+
+  // Starter profiles start from the blank canvas, seeded with the profile's types and content
+  const handleProfileSelect = (profile: StarterProfile) => {
+    setSelectedCategory(profile.category);
+    setSelectedTemplate("blank");
+    setSelectedTemplateSiteId(null);
+    setSelectedTemplateInfo(null);
+    setSelectedProfile(profile.id);
+    setWordpressFile(null);
+    setStep(2);
+  };
+
+  // WordPress sites start from the blank canvas, their content is imported during provisioning
+  const handleWordPressSelect = (file: File) => {
+    setSelectedTemplate("blank");
+    setSelectedTemplateSiteId(null);
+    setSelectedTemplateInfo(null);
+    setSelectedProfile(null);
+    setWordpressFile(file);
     setStep(2);
   };
 
@@ -229,6 +271,12 @@ export default function Builder() {
   const handleCreateSite = async () => {
     try {
       setSiteStatus("creating");
+
+      // The export is uploaded once the user is signed in (uploads need an account)
+      const wordpressImport = wordpressFile
+        ? (await api.uploadWordPressExport(wordpressFile, siteId)).import
+        : null;
+
       const result = await api.createSite({
         site_id: siteId,
         name: siteTitle,
@@ -237,10 +285,15 @@ export default function Builder() {
           selectedTemplate && selectedTemplate !== "blank"
             ? selectedTemplate
             : undefined,
+        wordpress_import_id: wordpressImport?.id,
+        theme: getSelectedTheme(),
+        profile: selectedProfile || undefined,
       });
 
       if (result.success) {
-        // Start polling for site status
+        // Start following provisioning progress
+        setProvisioningEvents([]);
+        setProvisioningResult(null);
         setCreatedSiteId(siteId);
         setSiteStatus("pending");
       } else {
@@ -303,6 +356,11 @@ export default function Builder() {
           title: "Your site is ready!",
           subtitle: "Redirecting to editor...",
         };
+      case "error":
+        return {
+          title: "Something went wrong",
+          subtitle: "We couldn't finish setting up your site",
+        };
       default:
         return {
           title: "Creating your site...",
@@ -344,6 +402,8 @@ export default function Builder() {
           selectedCategory={selectedCategory}
           onCategoryChange={setSelectedCategory}
           onTemplateSelect={handleTemplateSelect}
+          onProfileSelect={handleProfileSelect}
+          onWordPressSelect={handleWordPressSelect}
           totalSteps={totalSteps}
         />
       )}
@@ -389,6 +449,7 @@ export default function Builder() {
                 <WizardStep2
                   selectedTemplate={selectedTemplate}
                   selectedTemplateSiteId={selectedTemplateSiteId}
+                  template={selectedTemplateInfo}
                   selectedPalette={selectedPalette}
                   selectedFont={selectedFont}
                   selectedButtonStyle={selectedButtonStyle}
@@ -481,26 +542,44 @@ export default function Builder() {
                     </p>
 
                     {/* Progress indicator */}
-                    <div className="flex items-center justify-center gap-2 mt-6">
-                      <div
-                        className="w-2 h-2 rounded-full bg-purple-400 animate-bounce"
-                        style={{ animationDelay: "0ms" }}
-                      />
-                      <div
-                        className="w-2 h-2 rounded-full bg-purple-400 animate-bounce"
-                        style={{ animationDelay: "150ms" }}
-                      />
-                      <div
-                        className="w-2 h-2 rounded-full bg-purple-400 animate-bounce"
-                        style={{ animationDelay: "300ms" }}
-                      />
-                    </div>
+                    {createdSiteId ? (
+                      <div className="mt-6">
+                        <WizardStep4Progress
+                          events={provisioningEvents}
+                          result={provisioningResult}
+                        />
+                      </div>
+                    ) : (
+                      <div className="flex items-center justify-center gap-2 mt-6">
+                        <div
+                          className="w-2 h-2 rounded-full bg-purple-400 animate-bounce"
+                          style={{ animationDelay: "0ms" }}
+                        />
+                        <div
+                          className="w-2 h-2 rounded-full bg-purple-400 animate-bounce"
+                          style={{ animationDelay: "150ms" }}
+                        />
+                        <div
+                          className="w-2 h-2 rounded-full bg-purple-400 animate-bounce"
+                          style={{ animationDelay: "300ms" }}
+                        />
+                      </div>
+                    )}
 
                     {error && (
                       <div className="mt-6 p-4 bg-red-500/20 border border-red-500/50 text-red-200 rounded-lg text-sm max-w-md mx-auto">
                         {error}
                       </div>
                     )}
+
+                    {siteStatus === "error" && (
+                      <a
+                        href="/sites"
+                        className="inline-block mt-4 text-sm text-purple-200 underline hover:text-white"
+                      >
+                        Go to my sites
+                      </a>
+                    )}
                   </div>
                 </div>
               )}
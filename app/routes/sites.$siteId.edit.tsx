@@ -4,11 +4,12 @@ import { useAuth } from '../contexts/AuthContext';
 import { ArrowLeft, ExternalLink, X, Globe, Clock, Crown } from 'lucide-react';
 import { auth } from '../lib/firebase';
 import { api } from '../lib/api';
+import { getTrialInfo, formatTrialCountdown } from '../lib/trial';
 
 interface SiteBilling {
   plan: 'free' | 'starter' | 'pro';
-  status: 'active' | 'trialing' | 'past_due' | 'cancelled';
-  trialEndsAt?: string;
+  status: 'active' | 'trialing' | 'expired' | 'past_due' | 'suspended' | 'cancelled';
+  trialEndsAt?: string | null;
   currentPeriodEnd?: string;
 }
 
@@ -60,11 +61,11 @@ export default function EditSite() {
           setBilling({
             plan: siteBilling.plan || 'free',
             status: siteBilling.status || 'trialing',
-            trialEndsAt: siteBilling.currentPeriodEnd,
+            trialEndsAt: siteBilling.trialEndsAt,
             currentPeriodEnd: siteBilling.currentPeriodEnd,
           });
         } else {
-          // No subscription = free trial
+          // No billing record yet (site created before trials were recorded)
           setBilling({
             plan: 'free',
             status: 'trialing',
@@ -72,8 +73,6 @@ export default function EditSite() {
         }
       } catch (billingErr) {
         console.error('Error loading billing:', billingErr);
-        // Default to trial if billing fails
-        setBilling({ plan: 'free', status: 'trialing' });
       }
     } catch (err) {
       console.error('Error loading site:', err);
@@ -143,41 +142,15 @@ export default function EditSite() {
       pro: 'Pro',
     };
 
-    // Calculate days left - for trial, use site.createdAt + 29 days
-    let daysLeft: number | null = null;
-    if (billing.status === 'trialing' || billing.plan === 'free') {
-      // Trial is 29 days from site creation
-      if (site?.createdAt) {
-        const createdAtDate = new Date(site.createdAt);
-        // Validate the date is valid
-        if (!isNaN(createdAtDate.getTime())) {
-          const trialEndDate = new Date(createdAtDate);
-          trialEndDate.setDate(trialEndDate.getDate() + 29);
-          daysLeft = Math.ceil((trialEndDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
-          console.log('[Trial] createdAt:', site.createdAt, 'trialEnd:', trialEndDate.toISOString(), 'daysLeft:', daysLeft);
-        } else {
-          console.warn('[Trial] Invalid createdAt date:', site.createdAt);
-          // Fallback: assume trial just started
-          daysLeft = 29;
-        }
-      } else {
-        console.warn('[Trial] No createdAt on site:', site?.siteId);
-        // Fallback: assume trial just started if no createdAt
-        daysLeft = 29;
-      }
-    } else if (billing.currentPeriodEnd) {
-      const periodEnd = new Date(billing.currentPeriodEnd);
-      if (!isNaN(periodEnd.getTime())) {
-        daysLeft = Math.ceil((periodEnd.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
-      }
-    }
-
-    if (billing.status === 'trialing' || billing.plan === 'free') {
-      // Check for valid positive days left, treating NaN as null
-      const validDaysLeft = daysLeft !== null && !isNaN(daysLeft) && daysLeft > 0;
+    if (billing.status === 'trialing' || billing.status === 'expired') {
+      const trial = getTrialInfo(billing);
       return {
-        label: validDaysLeft ? `Trial: ${daysLeft} days left` : 'Trial expired',
-        urgent: !validDaysLeft || daysLeft! <= 7,
+        label: !trial
+          ? planLabels.free
+          : trial.expired
+            ? 'Trial expired - site offline'
+            : `Trial: ${formatTrialCountdown(trial)}`,
+        urgent: trial?.urgent ?? false,
         icon: Clock,
       };
     }
@@ -190,6 +163,14 @@ export default function EditSite() {
       };
     }
 
+    if (billing.status === 'suspended') {
+      return {
+        label: 'Suspended - payment overdue',
+        urgent: true,
+        icon: Clock,
+      };
+    }
+
     return {
       label: planLabels[billing.plan] || 'Active',
       urgent: false,
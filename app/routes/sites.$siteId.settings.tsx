@@ -1,21 +1,54 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate, useSearchParams } from 'react-router';
 import type { Route } from "./+types/sites.$siteId.settings";
 import { useAuth } from "../contexts/AuthContext";
-import { api, type Site } from '../lib/api';
-import { Settings, LogOut, HelpCircle, Layout, ArrowLeft, Globe, CheckCircle, XCircle, Clock, Copy, ExternalLink, Trash2, RefreshCw, Shield, Plus, ShoppingCart, X, Crown, Lock } from 'lucide-react';
+import { api, type Site, type SiteBackup, type SiteBackupSchedule, type SiteStaging, type SiteStorageQuotaDetails, type SiteTransfer, type WordPressImport } from '../lib/api';
+import { Settings, LogOut, HelpCircle, Layout, ArrowLeft, Globe, CheckCircle, XCircle, Clock, Copy, ExternalLink, Trash2, RefreshCw, Shield, Plus, ShoppingCart, X, Crown, Lock, ArrowRightLeft, FlaskConical, DatabaseBackup, Download, Upload, HardDrive } from 'lucide-react';
 import { auth } from '../lib/firebase';
 import { signOut } from 'firebase/auth';
 import DomainSearch from '../components/DomainSearch';
+import { getTrialInfo, formatTrialCountdown } from '../lib/trial';
 
 interface SiteBilling {
   plan: 'free' | 'starter' | 'pro';
-  status: 'active' | 'trialing' | 'past_due' | 'cancelled';
+  status: 'active' | 'trialing' | 'expired' | 'past_due' | 'suspended' | 'cancelled';
   currentPeriodEnd?: string;
+  trialEndsAt?: string | null;
+  // Past due: when the site gets suspended
+  graceEndsAt?: string | null;
+  // Paid by the previous owner (site transfer) until currentPeriodEnd
+  inherited?: boolean;
 }
 
 const Logo = '/logo/logo_lunasites_gradient.png';
 
+// How often the backup list is reloaded while a backup is running
+const BACKUP_POLL_MS = 5000;
+
+// Extra storage units offered on the settings page
+const STORAGE_ADD_ON_OPTIONS = 20;
+
+// How often the latest WordPress import is reloaded while it runs
+const WORDPRESS_IMPORT_POLL_MS = 5000;
+
+const WORDPRESS_IMPORT_STATUS_STYLES: Record<string, string> = {
+  imported: 'text-green-600',
+  skipped: 'text-slate-400',
+  failed: 'text-red-600',
+};
+
+const BACKUP_TRIGGER_LABELS: Record<SiteBackup['trigger'], string> = {
+  scheduled: 'Scheduled',
+  manual: 'Manual',
+  pre_restore: 'Before restore',
+};
+
+function formatBackupSize(bytes: number | null): string {
+  if (bytes === null) return '';
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 export function meta({}: Route.MetaArgs) {
   return [
     { title: "Site Settings - Luna Sites" },
@@ -91,6 +124,9 @@ export default function SiteSettings() {
           plan: siteBilling.plan || 'free',
           status: siteBilling.status || 'trialing',
           currentPeriodEnd: siteBilling.currentPeriodEnd,
+          graceEndsAt: siteBilling.graceEndsAt,
+          trialEndsAt: siteBilling.trialEndsAt,
+          inherited: Boolean(siteBilling.inheritedFromUserId),
         };
         console.log('[Settings] Setting billing state to:', JSON.stringify(newBilling, null, 2));
         setBilling(newBilling);
@@ -184,6 +220,21 @@ export default function SiteSettings() {
   const [cancelLoading, setCancelLoading] = useState(false);
   const [showCancelConfirm, setShowCancelConfirm] = useState(false);
   const [showChangePlan, setShowChangePlan] = useState(false);
+  const [showRename, setShowRename] = useState(false);
+  const [newSubdomain, setNewSubdomain] = useState('');
+  const [pendingTransfer, setPendingTransfer] = useState<SiteTransfer | null>(null);
+  const [transferEmail, setTransferEmail] = useState('');
+  const [staging, setStaging] = useState<SiteStaging | null>(null);
+  const [stagingPassword, setStagingPassword] = useState('');
+  const [backups, setBackups] = useState<SiteBackup[]>([]);
+  const [backupSchedule, setBackupSchedule] = useState<SiteBackupSchedule | null>(null);
+  const [quota, setQuota] = useState<SiteStorageQuotaDetails | null>(null);
+  const [storageUnits, setStorageUnits] = useState(0);
+  const [restoreAsNew, setRestoreAsNew] = useState<{ backupId: string; siteId: string; name: string } | null>(null);
+  // Latest WordPress import, with its per-item log
+  const [wordpressImport, setWordpressImport] = useState<WordPressImport | null>(null);
+  const [showImportLog, setShowImportLog] = useState(false);
+  const wordpressInputRef = useRef<HTMLInputElement>(null);
   const [contactForm, setContactForm] = useState({
     firstName: '',
     lastName: '',
@@ -227,6 +278,35 @@ export default function SiteSettings() {
 
         setSite(siteData);
 
+        api.getSiteStaging(siteId)
+          .then((result) => setStaging(result.staging))
+          .catch((err) => console.error('Error loading staging:', err));
+
+        api.getSiteBackups(siteId)
+          .then((result) => {
+            setBackups(result.backups);
+            setBackupSchedule(result.schedule);
+          })
+          .catch((err) => console.error('Error loading backups:', err));
+
+        if (siteData.status === 'active') {
+          api.getSiteQuota(siteId)
+            .then((result) => {
+              setQuota(result);
+              setStorageUnits(result.addOnUnits);
+            })
+            .catch((err) => console.error('Error loading storage quota:', err));
+        }
+
+        api.getWordPressImports(siteId)
+          .then((result) => result.imports[0] ? api.getWordPressImport(siteId, result.imports[0].id) : null)
+          .then((result) => setWordpressImport(result?.import || null))
+          .catch((err) => console.error('Error loading WordPress imports:', err));
+
+        api.getSiteTransfer(siteId)
+          .then((result) => setPendingTransfer(result.transfer))
+          .catch((err) => console.error('Error loading transfer:', err));
+
         // Load billing info for this site
         try {
           const subscriptions = await api.getSubscriptions();
@@ -238,9 +318,12 @@ export default function SiteSettings() {
               plan: siteBilling.plan || 'free',
               status: siteBilling.status || 'trialing',
               currentPeriodEnd: siteBilling.currentPeriodEnd,
+              graceEndsAt: siteBilling.graceEndsAt,
+              trialEndsAt: siteBilling.trialEndsAt,
+              inherited: Boolean(siteBilling.inheritedFromUserId),
             });
           } else {
-            // No subscription = free trial
+            // No billing record yet (site created before trials were recorded)
             setBilling({
               plan: 'free',
               status: 'trialing',
@@ -248,7 +331,6 @@ export default function SiteSettings() {
           }
         } catch (billingErr) {
           console.error('Error loading billing:', billingErr);
-          setBilling({ plan: 'free', status: 'trialing' });
         }
 
         // Map array of domains to DomainEntry format
@@ -283,6 +365,286 @@ export default function SiteSettings() {
   const canUseCustomDomain = billing && billing.plan === 'pro';
   console.log('[Settings] canUseCustomDomain:', canUseCustomDomain, 'billing.plan:', billing?.plan);
 
+  // Change the site's subdomain
+  const handleRename = async () => {
+    if (!siteId || !site) return;
+    const newSiteId = newSubdomain.trim().toLowerCase();
+    if (!newSiteId || newSiteId === siteId) return;
+
+    setActionLoading('rename');
+    setError(null);
+    try {
+      const availability = await api.checkSiteAvailability(newSiteId);
+      if (!availability.available) {
+        setError(`${newSiteId} is already taken`);
+        return;
+      }
+
+      const result = await api.renameSite(siteId, newSiteId);
+      setShowRename(false);
+      setNewSubdomain('');
+      setSuccess(
+        result.redirectFrom && result.redirectUntil
+          ? `Your site is now at ${result.domain}. Visitors to ${result.redirectFrom} will be redirected until ${new Date(result.redirectUntil).toLocaleDateString()}.`
+          : `Your site is now at ${result.domain}.`
+      );
+      navigate(`/sites/${result.siteId}/settings`, { replace: true });
+    } catch (err: any) {
+      console.error('Rename site error:', err);
+      setError(err.message || 'Failed to change subdomain');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  // Reload the backup list while a backup is running
+  const backupRunning = backups.some((backup) => backup.status === 'running');
+  useEffect(() => {
+    if (!siteId || !backupRunning) return;
+
+    const interval = setInterval(() => {
+      api.getSiteBackups(siteId)
+        .then((result) => setBackups(result.backups))
+        .catch((err) => console.error('Error loading backups:', err));
+    }, BACKUP_POLL_MS);
+
+    return () => clearInterval(interval);
+  }, [siteId, backupRunning]);
+
+  const handleCreateBackup = async () => {
+    if (!siteId) return;
+
+    setActionLoading('backup');
+    setError(null);
+    try {
+      const result = await api.createSiteBackup(siteId);
+      setBackups((current) => [result.backup, ...current]);
+      setSuccess('Backup started. It will appear in the list once it is done.');
+    } catch (err: any) {
+      console.error('Backup error:', err);
+      setError(err.message || 'Failed to start backup');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleSetStorageAddOn = async () => {
+    if (!siteId || !quota) return;
+
+    setActionLoading('storage');
+    setError(null);
+    try {
+      const result = await api.setStorageAddOn(siteId, storageUnits);
+      setQuota({ ...quota, ...result.quota });
+      setSuccess(`Your site now has ${result.quota.quotaMb} MB of storage.`);
+    } catch (err: any) {
+      console.error('Storage add-on error:', err);
+      setError(err.message || 'Failed to update storage');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleRestoreBackup = async (backup: SiteBackup) => {
+    if (!siteId) return;
+    if (!window.confirm(
+      `Replace your site's content with the backup from ${new Date(backup.createdAt).toLocaleString()}? ` +
+      'Your current content is backed up first, so you can go back to it.'
+    )) return;
+
+    setActionLoading(`restore-${backup.id}`);
+    setError(null);
+    try {
+      const result = await api.restoreSiteBackup(siteId, backup.id);
+      const refreshed = await api.getSiteBackups(siteId);
+      setBackups(refreshed.backups);
+      setSuccess(`${result.message}. Your previous content was saved as a backup.`);
+    } catch (err: any) {
+      console.error('Restore backup error:', err);
+      setError(err.message || 'Failed to restore backup');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleRestoreAsNewSite = async () => {
+    if (!siteId || !restoreAsNew) return;
+
+    setActionLoading('restore-new');
+    setError(null);
+    try {
+      await api.restoreSiteBackupAsNewSite(
+        siteId,
+        restoreAsNew.backupId,
+        restoreAsNew.siteId.toLowerCase(),
+        restoreAsNew.name.trim()
+      );
+      navigate('/sites'); // The new site shows up while it is being set up
+    } catch (err: any) {
+      console.error('Restore backup error:', err);
+      setError(err.message || 'Failed to create site from backup');
+      setActionLoading(null);
+    }
+  };
+
+  // Reload the latest WordPress import until it is done
+  const wordpressImportRunning = wordpressImport?.status === 'uploaded' || wordpressImport?.status === 'running';
+  useEffect(() => {
+    if (!siteId || !wordpressImport || !wordpressImportRunning) return;
+
+    const interval = setInterval(() => {
+      api.getWordPressImport(siteId, wordpressImport.id)
+        .then((result) => setWordpressImport(result.import))
+        .catch((err) => console.error('Error loading WordPress import:', err));
+    }, WORDPRESS_IMPORT_POLL_MS);
+
+    return () => clearInterval(interval);
+  }, [siteId, wordpressImport?.id, wordpressImportRunning]);
+
+  const handleWordPressImport = async (file: File) => {
+    if (!siteId) return;
+
+    setActionLoading('wordpress');
+    setError(null);
+    try {
+      const result = await api.importWordPressExport(siteId, file);
+      setWordpressImport(result.import);
+      setShowImportLog(false);
+      setSuccess(
+        `Importing "${result.import.summary.title}": ${result.import.summary.posts} posts, ` +
+        `${result.import.summary.pages} pages and ${result.import.summary.attachments} media files.`
+      );
+    } catch (err: any) {
+      console.error('WordPress import error:', err);
+      setError(err.message || 'Failed to import WordPress export');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  // Download the site as an archive that can be imported as a new site
+  const handleExport = async () => {
+    if (!siteId) return;
+
+    setActionLoading('export');
+    setError(null);
+    try {
+      const { blob, filename } = await api.exportSite(siteId);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      console.error('Export error:', err);
+      setError(err.message || 'Failed to export site');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  // Create the staging copy, or change its password
+  const handleStagingPassword = async () => {
+    if (!siteId || stagingPassword.length < 6) return;
+
+    setActionLoading('staging');
+    setError(null);
+    try {
+      if (staging) {
+        await api.setSiteStagingPassword(siteId, stagingPassword);
+        setSuccess('Staging password updated');
+      } else {
+        const result = await api.createSiteStaging(siteId, stagingPassword);
+        setStaging(result.staging);
+        setSuccess(`Staging copy created at ${result.staging.domain}`);
+      }
+      setStagingPassword('');
+    } catch (err: any) {
+      console.error('Staging error:', err);
+      setError(err.message || 'Failed to update staging copy');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleStagingAction = async (action: 'refresh' | 'promote' | 'rollback') => {
+    if (!siteId) return;
+
+    const confirmations = {
+      refresh: 'Replace the staging copy with the current live site? Changes made on staging will be lost.',
+      promote: 'Make the staging copy live? The current live site is kept on staging so you can roll back.',
+      rollback: 'Put the previous live site back? The promoted version moves back to staging.',
+    };
+    if (!window.confirm(confirmations[action])) return;
+
+    setActionLoading('staging');
+    setError(null);
+    try {
+      const result = await api.updateSiteStaging(siteId, action);
+      setStaging(result.staging);
+      setSuccess(result.message);
+    } catch (err: any) {
+      console.error('Staging error:', err);
+      setError(err.message || 'Failed to update staging copy');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleDeleteStaging = async () => {
+    if (!siteId || !window.confirm('Delete the staging copy? This cannot be undone.')) return;
+
+    setActionLoading('staging');
+    setError(null);
+    try {
+      await api.deleteSiteStaging(siteId);
+      setStaging(null);
+      setSuccess('Staging copy deleted');
+    } catch (err: any) {
+      console.error('Staging error:', err);
+      setError(err.message || 'Failed to delete staging copy');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  // Offer the site to another Luna Sites user
+  const handleStartTransfer = async () => {
+    if (!siteId || !transferEmail.trim()) return;
+
+    setActionLoading('transfer');
+    setError(null);
+    try {
+      const result = await api.startSiteTransfer(siteId, transferEmail.trim());
+      setPendingTransfer(result.transfer);
+      setTransferEmail('');
+      setSuccess(`Transfer sent. ${result.transfer.toEmail} can accept it from their dashboard.`);
+    } catch (err: any) {
+      console.error('Start transfer error:', err);
+      setError(err.message || 'Failed to start transfer');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleCancelTransfer = async () => {
+    if (!siteId) return;
+
+    setActionLoading('transfer');
+    setError(null);
+    try {
+      await api.cancelSiteTransfer(siteId);
+      setPendingTransfer(null);
+      setSuccess('Transfer cancelled');
+    } catch (err: any) {
+      console.error('Cancel transfer error:', err);
+      setError(err.message || 'Failed to cancel transfer');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
   // Handle upgrade to Pro
   const handleUpgrade = async (plan: 'monthly' | 'annual' | 'biennial') => {
     if (!siteId) return;
@@ -644,7 +1006,7 @@ export default function SiteSettings() {
                     <div className={`p-4 rounded-lg ${
                       billing.plan === 'free' || billing.status === 'trialing'
                         ? 'bg-amber-50 border border-amber-200'
-                        : billing.status === 'past_due'
+                        : billing.status === 'past_due' || billing.status === 'suspended' || billing.status === 'expired'
                         ? 'bg-red-50 border border-red-200'
                         : 'bg-green-50 border border-green-200'
                     }`}>
@@ -660,25 +1022,27 @@ export default function SiteSettings() {
                               <>
                                 <Clock className="w-4 h-4 inline mr-1" />
                                 {(() => {
-                                  // Calculate trial end date from site creation (29 days)
-                                  if (site?.createdAt) {
-                                    const trialEndDate = new Date(site.createdAt);
-                                    trialEndDate.setDate(trialEndDate.getDate() + 29);
-                                    const daysLeft = Math.ceil((trialEndDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
-                                    if (daysLeft > 0) {
-                                      return `Trial ends ${trialEndDate.toLocaleDateString()} (${daysLeft} days left)`;
-                                    }
-                                    return 'Trial expired';
-                                  }
-                                  return '29 days free trial';
+                                  const trial = getTrialInfo(billing);
+                                  if (!trial) return 'Free trial';
+                                  if (trial.expired) return 'Trial expired';
+                                  return `Trial ends ${trial.endsAt.toLocaleDateString()} (${formatTrialCountdown(trial)})`;
                                 })()}
                               </>
                             )}
+                            {billing.status === 'expired' && (
+                              <span className="text-red-600">Your trial has ended and the site is offline - choose a plan to put it back online</span>
+                            )}
                             {billing.status === 'active' && billing.currentPeriodEnd && (
                               <>Next billing: {new Date(billing.currentPeriodEnd).toLocaleDateString()}</>
                             )}
                             {billing.status === 'past_due' && (
-                              <span className="text-red-600">Payment overdue - please update your payment method</span>
+                              <span className="text-red-600">
+                                Payment overdue - please update your payment method
+                                {billing.graceEndsAt && ` before ${new Date(billing.graceEndsAt).toLocaleDateString()} to keep your site online`}
+                              </span>
+                            )}
+                            {billing.status === 'suspended' && (
+                              <span className="text-red-600">Site suspended for non-payment - it is back online as soon as the invoice is paid</span>
                             )}
                             {billing.status === 'cancelled' && 'Subscription cancelled'}
                           </p>
@@ -697,12 +1061,16 @@ export default function SiteSettings() {
                     </div>
 
                     {/* Upgrade Options */}
-                    {(billing.plan === 'free' || billing.plan === 'starter') && (
+                    {(billing.plan === 'free' || billing.plan === 'starter' || billing.inherited) && (
                       <div className="mt-4">
                         <p className="text-sm font-medium text-slate-700 mb-3">
-                          {billing.plan === 'starter'
-                            ? 'Upgrade to Pro to use custom domains:'
-                            : 'Choose a plan to continue after trial:'}
+                          {billing.inherited
+                            ? `The previous owner's plan ends${billing.currentPeriodEnd ? ` on ${new Date(billing.currentPeriodEnd).toLocaleDateString()}` : ''}. Choose a plan to keep your site running:`
+                            : billing.plan === 'starter'
+                              ? 'Upgrade to Pro to use custom domains:'
+                              : billing.status === 'expired'
+                                ? 'Choose a plan to put your site back online:'
+                                : 'Choose a plan to continue after trial:'}
                         </p>
                         <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
                           <button
@@ -748,7 +1116,7 @@ export default function SiteSettings() {
                     )}
 
                     {/* Manage Subscription - for active paid users */}
-                    {(billing.plan === 'starter' || billing.plan === 'pro') && billing.status === 'active' && (
+                    {(billing.plan === 'starter' || billing.plan === 'pro') && billing.status === 'active' && !billing.inherited && (
                       <div className="mt-6 pt-6 border-t border-slate-200">
                         <div className="flex items-center justify-between">
                           <div>
@@ -876,6 +1244,52 @@ export default function SiteSettings() {
                     </a>
                   </div>
                 )}
+
+                {site && (
+                  showRename ? (
+                    <div className="mt-4">
+                      <div className="flex items-center gap-2">
+                        <div className="flex-1 flex items-center border border-slate-300 rounded-lg overflow-hidden focus-within:ring-2 focus-within:ring-[#5A318F]">
+                          <input
+                            type="text"
+                            value={newSubdomain}
+                            onChange={(e) => setNewSubdomain(e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, ''))}
+                            placeholder={site.siteId}
+                            maxLength={50}
+                            className="flex-1 px-3 py-2 text-sm outline-none"
+                          />
+                          <span className="px-3 py-2 text-sm text-slate-500 bg-slate-50 border-l border-slate-300">
+                            {site.domain.substring(site.siteId.length)}
+                          </span>
+                        </div>
+                        <button
+                          onClick={handleRename}
+                          disabled={actionLoading === 'rename' || newSubdomain.length < 3 || newSubdomain === site.siteId}
+                          className="px-4 py-2 bg-[#5A318F] text-white text-sm font-medium rounded-lg hover:bg-[#4A2875] disabled:opacity-50 flex items-center gap-2"
+                        >
+                          {actionLoading === 'rename' && <RefreshCw className="w-4 h-4 animate-spin" />}
+                          Save
+                        </button>
+                        <button
+                          onClick={() => { setShowRename(false); setNewSubdomain(''); }}
+                          className="px-4 py-2 text-slate-600 text-sm hover:text-slate-900"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                      <p className="text-xs text-slate-500 mt-2">
+                        Your current address will redirect to the new one for a limited time. Update any links you have shared.
+                      </p>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => setShowRename(true)}
+                      className="mt-4 text-sm text-[#5A318F] hover:text-[#4A2875] font-medium"
+                    >
+                      Change subdomain
+                    </button>
+                  )
+                )}
               </div>
 
               {/* Custom Domains */}
@@ -1257,6 +1671,451 @@ export default function SiteSettings() {
                 )}
               </div>
 
+              {/* Staging */}
+              {site && (
+                <div className="bg-white border border-slate-200 rounded-xl p-6">
+                  <h2 className="text-lg font-semibold text-slate-900 mb-2 flex items-center gap-2">
+                    <FlaskConical className="w-5 h-5" />
+                    Staging
+                  </h2>
+                  <p className="text-sm text-slate-500 mb-6">
+                    A password-protected copy of your site where you can try changes before making them live.
+                  </p>
+
+                  {staging && (
+                    <div className="space-y-4 mb-6">
+                      <div className="flex items-center justify-between py-3 px-4 bg-slate-50 rounded-lg">
+                        <div className="flex items-center gap-3">
+                          <Lock className="w-5 h-5 text-slate-500" />
+                          <span className="font-medium text-slate-900">{staging.domain}</span>
+                        </div>
+                        <a
+                          href={`https://${staging.domain}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-[#5A318F] hover:text-[#4A2875] flex items-center gap-1 text-sm"
+                        >
+                          Visit <ExternalLink className="w-4 h-4" />
+                        </a>
+                      </div>
+                      {staging.rollbackAvailable && staging.promotedAt && (
+                        <p className="text-xs text-slate-500">
+                          Promoted on {new Date(staging.promotedAt).toLocaleString()}. Staging now holds the previous
+                          live site until you refresh it.
+                        </p>
+                      )}
+                      <div className="flex flex-wrap gap-2">
+                        <button
+                          onClick={() => handleStagingAction('promote')}
+                          disabled={actionLoading === 'staging'}
+                          className="px-3 py-1.5 text-sm bg-[#5A318F] text-white rounded-lg hover:bg-[#4A2875] disabled:opacity-50"
+                        >
+                          Make Staging Live
+                        </button>
+                        <button
+                          onClick={() => handleStagingAction('refresh')}
+                          disabled={actionLoading === 'staging'}
+                          className="px-3 py-1.5 text-sm border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+                        >
+                          Refresh from Live Site
+                        </button>
+                        {staging.rollbackAvailable && (
+                          <button
+                            onClick={() => handleStagingAction('rollback')}
+                            disabled={actionLoading === 'staging'}
+                            className="px-3 py-1.5 text-sm border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+                          >
+                            Roll Back
+                          </button>
+                        )}
+                        <button
+                          onClick={handleDeleteStaging}
+                          disabled={actionLoading === 'staging'}
+                          className="px-3 py-1.5 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50"
+                        >
+                          Delete Staging
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="password"
+                      value={stagingPassword}
+                      onChange={(e) => setStagingPassword(e.target.value)}
+                      placeholder={staging ? 'New staging password' : 'Staging password (min. 6 characters)'}
+                      className="flex-1 px-3 py-2 text-sm border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#5A318F]"
+                    />
+                    <button
+                      onClick={handleStagingPassword}
+                      disabled={actionLoading === 'staging' || stagingPassword.length < 6}
+                      className="px-4 py-2 bg-[#5A318F] text-white text-sm font-medium rounded-lg hover:bg-[#4A2875] disabled:opacity-50 flex items-center gap-2"
+                    >
+                      {actionLoading === 'staging' && <RefreshCw className="w-4 h-4 animate-spin" />}
+                      {staging ? 'Change Password' : 'Create Staging Copy'}
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* Storage */}
+              {quota && billing && (
+                <div className="bg-white border border-slate-200 rounded-xl p-6">
+                  <h2 className="text-lg font-semibold text-slate-900 mb-2 flex items-center gap-2">
+                    <HardDrive className="w-5 h-5" />
+                    Storage
+                  </h2>
+                  <p className="text-sm text-slate-500 mb-4">
+                    {quota.usedMb} MB of {quota.quotaMb} MB used
+                    {quota.addOnUnits > 0 && ` (${quota.includedMb} MB included with your plan, ${quota.addOnUnits * quota.unitMb} MB added)`}
+                  </p>
+                  <div className="h-2 bg-slate-100 rounded-full overflow-hidden mb-4">
+                    <div
+                      className={`h-full rounded-full ${
+                        quota.level === 'full' ? 'bg-red-500' : quota.level === 'warning' ? 'bg-amber-500' : 'bg-[#5A318F]'
+                      }`}
+                      style={{ width: `${Math.min(100, quota.percent)}%` }}
+                    />
+                  </div>
+
+                  {quota.level !== 'ok' && (
+                    <div className={`p-3 rounded-lg text-sm mb-4 ${
+                      quota.level === 'full' ? 'bg-red-50 border border-red-200 text-red-700' : 'bg-amber-50 border border-amber-200 text-amber-800'
+                    }`}>
+                      {quota.level === 'full'
+                        ? 'Your storage is full: new files can no longer be uploaded. Delete files or add storage to upload again.'
+                        : `Your site has used over ${quota.warningPercent}% of its storage. Once it is full, new files can no longer be uploaded.`}
+                    </div>
+                  )}
+
+                  {billing.status === 'active' && billing.plan !== 'free' && !billing.inherited ? (
+                    <div>
+                      <div className="flex items-end gap-3">
+                        <div>
+                          <label className="block text-sm font-medium text-slate-700 mb-1">Extra storage</label>
+                          <select
+                            value={storageUnits}
+                            onChange={(e) => setStorageUnits(Number(e.target.value))}
+                            className="px-3 py-2 border border-slate-300 rounded-lg text-sm"
+                          >
+                            {Array.from({ length: Math.max(STORAGE_ADD_ON_OPTIONS, quota.addOnUnits) + 1 }, (_, units) => (
+                              <option key={units} value={units}>
+                                {units === 0 ? 'None' : `${units * quota.unitMb} MB (€${(units * quota.unitPrice).toFixed(2)}/month)`}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        <button
+                          onClick={handleSetStorageAddOn}
+                          disabled={actionLoading === 'storage' || storageUnits === quota.addOnUnits}
+                          className="px-3 py-2 text-sm bg-[#5A318F] text-white rounded-lg hover:bg-[#4A2875] disabled:opacity-50 flex items-center gap-2"
+                        >
+                          {actionLoading === 'storage' && <RefreshCw className="w-4 h-4 animate-spin" />}
+                          Update Storage
+                        </button>
+                      </div>
+                      <p className="text-xs text-slate-500 mt-2">
+                        Extra storage is billed with your subscription, €{quota.unitPrice.toFixed(2)} per {quota.unitMb} MB a month.
+                        Added storage is charged right away for the rest of the billing period, removed storage is credited on your next invoice.
+                      </p>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-slate-500">Choose a plan to add storage to your site.</p>
+                  )}
+                </div>
+              )}
+
+              {/* Backups */}
+              {site && (
+                <div className="bg-white border border-slate-200 rounded-xl p-6">
+                  <div className="flex items-start justify-between mb-2">
+                    <h2 className="text-lg font-semibold text-slate-900 flex items-center gap-2">
+                      <DatabaseBackup className="w-5 h-5" />
+                      Backups
+                    </h2>
+                    <button
+                      onClick={handleCreateBackup}
+                      disabled={actionLoading === 'backup' || backupRunning || site.status !== 'active'}
+                      className="px-3 py-1.5 text-sm bg-[#5A318F] text-white rounded-lg hover:bg-[#4A2875] disabled:opacity-50 flex items-center gap-2"
+                    >
+                      {(actionLoading === 'backup' || backupRunning) && <RefreshCw className="w-4 h-4 animate-spin" />}
+                      {backupRunning ? 'Backing up...' : 'Back Up Now'}
+                    </button>
+                  </div>
+                  <p className="text-sm text-slate-500 mb-6">
+                    {backupSchedule
+                      ? `Your site is backed up every ${
+                          backupSchedule.intervalHours % 24 === 0
+                            ? `${backupSchedule.intervalHours / 24 === 1 ? 'day' : `${backupSchedule.intervalHours / 24} days`}`
+                            : `${backupSchedule.intervalHours} hours`
+                        }. The ${backupSchedule.retention} most recent backups are kept.`
+                      : 'Your site is backed up automatically.'}
+                  </p>
+
+                  {backups.length === 0 ? (
+                    <p className="text-sm text-slate-500">No backups yet.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {backups.map((backup) => (
+                        <div
+                          key={backup.id}
+                          className="flex items-center justify-between py-3 px-4 bg-slate-50 rounded-lg"
+                        >
+                          <div>
+                            <div className="text-sm font-medium text-slate-900">
+                              {new Date(backup.createdAt).toLocaleString()}
+                            </div>
+                            <div className="text-xs text-slate-500">
+                              {BACKUP_TRIGGER_LABELS[backup.trigger]}
+                              {backup.status === 'completed' && ` · ${formatBackupSize(backup.sizeBytes)}`}
+                              {backup.status === 'running' && ' · In progress'}
+                              {backup.status === 'failed' && (
+                                <span className="text-red-600"> · Failed</span>
+                              )}
+                            </div>
+                          </div>
+                          {backup.status === 'completed' && (
+                            <div className="flex gap-2">
+                              <button
+                                onClick={() => handleRestoreBackup(backup)}
+                                disabled={actionLoading !== null || backupRunning || site.status !== 'active'}
+                                className="px-3 py-1.5 text-sm border border-slate-300 rounded-lg hover:bg-white disabled:opacity-50 flex items-center gap-2"
+                              >
+                                {actionLoading === `restore-${backup.id}` && <RefreshCw className="w-4 h-4 animate-spin" />}
+                                Restore
+                              </button>
+                              <button
+                                onClick={() => setRestoreAsNew({ backupId: backup.id, siteId: '', name: `${site.name} (Restored)` })}
+                                disabled={actionLoading !== null}
+                                className="px-3 py-1.5 text-sm border border-slate-300 rounded-lg hover:bg-white disabled:opacity-50"
+                              >
+                                Restore as New Site
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {restoreAsNew && (
+                    <div className="mt-4 p-4 border border-slate-200 rounded-lg space-y-3">
+                      <p className="text-sm text-slate-600">Create a new site from this backup.</p>
+                      <input
+                        type="text"
+                        value={restoreAsNew.name}
+                        onChange={(e) => setRestoreAsNew({ ...restoreAsNew, name: e.target.value })}
+                        placeholder="Site name"
+                        className="w-full px-3 py-2 text-sm border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#5A318F]"
+                      />
+                      <div className="flex items-center border border-slate-300 rounded-lg overflow-hidden focus-within:ring-2 focus-within:ring-[#5A318F]">
+                        <input
+                          type="text"
+                          value={restoreAsNew.siteId}
+                          onChange={(e) => setRestoreAsNew({ ...restoreAsNew, siteId: e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, '') })}
+                          placeholder="new-subdomain"
+                          maxLength={50}
+                          className="flex-1 px-3 py-2 text-sm outline-none"
+                        />
+                        <span className="px-3 py-2 text-sm text-slate-500 bg-slate-50 border-l border-slate-300">
+                          {site.domain.substring(site.siteId.length)}
+                        </span>
+                      </div>
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => setRestoreAsNew(null)}
+                          disabled={actionLoading === 'restore-new'}
+                          className="px-3 py-1.5 text-sm border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={handleRestoreAsNewSite}
+                          disabled={actionLoading === 'restore-new' || restoreAsNew.siteId.length < 3 || !restoreAsNew.name.trim()}
+                          className="px-3 py-1.5 text-sm bg-[#5A318F] text-white rounded-lg hover:bg-[#4A2875] disabled:opacity-50 flex items-center gap-2"
+                        >
+                          {actionLoading === 'restore-new' && <RefreshCw className="w-4 h-4 animate-spin" />}
+                          Create Site
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Export */}
+              {site && (
+                <div className="bg-white border border-slate-200 rounded-xl p-6">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <h2 className="text-lg font-semibold text-slate-900 mb-2 flex items-center gap-2">
+                        <Download className="w-5 h-5" />
+                        Export
+                      </h2>
+                      <p className="text-sm text-slate-500">
+                        Download your whole site (pages, images, design, users) as a single file. Keep it as an
+                        offline copy or import it as a new site from your websites list.
+                      </p>
+                    </div>
+                    <button
+                      onClick={handleExport}
+                      disabled={actionLoading === 'export' || site.status !== 'active'}
+                      className="px-3 py-1.5 text-sm border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50 flex items-center gap-2 flex-shrink-0"
+                    >
+                      {actionLoading === 'export' && <RefreshCw className="w-4 h-4 animate-spin" />}
+                      Download Archive
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* Import from WordPress */}
+              {site && (
+                <div className="bg-white border border-slate-200 rounded-xl p-6">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <h2 className="text-lg font-semibold text-slate-900 mb-2 flex items-center gap-2">
+                        <Upload className="w-5 h-5" />
+                        Import from WordPress
+                      </h2>
+                      <p className="text-sm text-slate-500">
+                        Upload a WordPress export file (Tools &gt; Export in WordPress). Posts, pages, categories and
+                        media are added to this site, and the old WordPress links redirect to the imported pages.
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => wordpressInputRef.current?.click()}
+                      disabled={actionLoading === 'wordpress' || wordpressImportRunning || site.status !== 'active'}
+                      className="px-3 py-1.5 text-sm border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50 flex items-center gap-2 flex-shrink-0"
+                    >
+                      {actionLoading === 'wordpress' && <RefreshCw className="w-4 h-4 animate-spin" />}
+                      Upload Export
+                    </button>
+                    <input
+                      ref={wordpressInputRef}
+                      type="file"
+                      accept=".xml,application/xml,text/xml"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (file) handleWordPressImport(file);
+                      }}
+                    />
+                  </div>
+
+                  {wordpressImport && (
+                    <div className="mt-6 border-t border-slate-100 pt-4">
+                      <div className="flex items-center justify-between gap-4 text-sm">
+                        <div className="flex items-center gap-2 text-slate-700">
+                          {wordpressImportRunning ? (
+                            <RefreshCw className="w-4 h-4 animate-spin text-purple-600" />
+                          ) : wordpressImport.status === 'completed' ? (
+                            <CheckCircle className="w-4 h-4 text-green-600" />
+                          ) : (
+                            <XCircle className="w-4 h-4 text-red-600" />
+                          )}
+                          <span>
+                            {wordpressImport.summary.title || 'WordPress export'}
+                            {' · '}
+                            {wordpressImportRunning
+                              ? 'Importing...'
+                              : wordpressImport.status === 'completed'
+                                ? `${wordpressImport.log?.filter((entry) => entry.status === 'imported').length || 0} imported, ` +
+                                  `${wordpressImport.log?.filter((entry) => entry.status === 'skipped').length || 0} skipped, ` +
+                                  `${wordpressImport.log?.filter((entry) => entry.status === 'failed').length || 0} failed`
+                                : `Failed: ${wordpressImport.error}`}
+                          </span>
+                        </div>
+                        {wordpressImport.log && wordpressImport.log.length > 0 && (
+                          <button
+                            onClick={() => setShowImportLog(!showImportLog)}
+                            className="text-sm text-purple-600 hover:text-purple-700 flex-shrink-0"
+                          >
+                            {showImportLog ? 'Hide details' : 'Show details'}
+                          </button>
+                        )}
+                      </div>
+
+                      {showImportLog && wordpressImport.log && (
+                        <div className="mt-4 max-h-80 overflow-y-auto border border-slate-200 rounded-lg">
+                          <table className="w-full text-sm">
+                            <tbody>
+                              {wordpressImport.log.map((entry, index) => (
+                                <tr key={`${entry.kind}-${entry.wpId}-${index}`} className="border-b border-slate-100 last:border-0">
+                                  <td className="px-3 py-2 text-slate-400 capitalize">{entry.kind}</td>
+                                  <td className="px-3 py-2 text-slate-700">
+                                    {entry.title}
+                                    {(entry.path || entry.message) && (
+                                      <div className="text-xs text-slate-400">{entry.path || entry.message}</div>
+                                    )}
+                                  </td>
+                                  <td className={`px-3 py-2 text-right capitalize ${WORDPRESS_IMPORT_STATUS_STYLES[entry.status]}`}>
+                                    {entry.status}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Transfer Ownership */}
+              {site && (
+                <div className="bg-white border border-slate-200 rounded-xl p-6">
+                  <h2 className="text-lg font-semibold text-slate-900 mb-2 flex items-center gap-2">
+                    <ArrowRightLeft className="w-5 h-5" />
+                    Transfer Ownership
+                  </h2>
+                  <p className="text-sm text-slate-500 mb-6">
+                    Hand this site to another Luna Sites account, for example a client. Once they accept, the site
+                    leaves your account and your subscription for it is not renewed.
+                  </p>
+
+                  {pendingTransfer ? (
+                    <div className="flex items-center justify-between py-3 px-4 bg-amber-50 border border-amber-200 rounded-lg">
+                      <div className="flex items-center gap-3">
+                        <Clock className="w-5 h-5 text-amber-500" />
+                        <span className="text-sm text-slate-700">
+                          Waiting for <span className="font-medium">{pendingTransfer.toEmail}</span> to accept
+                          (expires {new Date(pendingTransfer.expiresAt).toLocaleDateString()})
+                        </span>
+                      </div>
+                      <button
+                        onClick={handleCancelTransfer}
+                        disabled={actionLoading === 'transfer'}
+                        className="text-sm text-red-600 hover:text-red-700 font-medium disabled:opacity-50"
+                      >
+                        Cancel transfer
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="email"
+                        value={transferEmail}
+                        onChange={(e) => setTransferEmail(e.target.value)}
+                        placeholder="new-owner@example.com"
+                        className="flex-1 px-3 py-2 text-sm border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#5A318F]"
+                      />
+                      <button
+                        onClick={handleStartTransfer}
+                        disabled={actionLoading === 'transfer' || !transferEmail.trim()}
+                        className="px-4 py-2 bg-[#5A318F] text-white text-sm font-medium rounded-lg hover:bg-[#4A2875] disabled:opacity-50 flex items-center gap-2"
+                      >
+                        {actionLoading === 'transfer' && <RefreshCw className="w-4 h-4 animate-spin" />}
+                        Send Transfer
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+
             </div>
           </div>
         </div>
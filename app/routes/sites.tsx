@@ -11,13 +11,20 @@ import {
   HelpCircle,
   Trash2,
   Layers,
+  RotateCcw,
+  Undo2,
+  ArrowRightLeft,
+  X,
+  Copy,
+  Upload,
 } from 'lucide-react';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 const Logo = '/logo/logo_lunasites_gradient.png';
 import { auth } from '../lib/firebase';
 import { signOut } from 'firebase/auth';
-import { api } from '../lib/api';
+import { api, type SiteTransfer } from '../lib/api';
+import { getTrialInfo, formatTrialCountdown } from '../lib/trial';
 import { ASSETS } from '../data/wizard-data';
 
 // Lazy iframe that only loads when visible in viewport
@@ -78,6 +85,18 @@ export default function Sites() {
   const [loading, setLoading] = useState(true);
   const [deleteConfirm, setDeleteConfirm] = useState<{ siteId: string; title: string } | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [duplicateSource, setDuplicateSource] = useState<{ siteId: string; title: string } | null>(null);
+  const [duplicateForm, setDuplicateForm] = useState({ siteId: '', name: '' });
+  const [duplicateError, setDuplicateError] = useState<string | null>(null);
+  const [duplicating, setDuplicating] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [importForm, setImportForm] = useState<{ file: File | null; siteId: string; name: string }>({ file: null, siteId: '', name: '' });
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [repairingSiteId, setRepairingSiteId] = useState<string | null>(null);
+  const [restoringSiteId, setRestoringSiteId] = useState<string | null>(null);
+  const [transfers, setTransfers] = useState<{ incoming: SiteTransfer[]; outgoing: SiteTransfer[] }>({ incoming: [], outgoing: [] });
+  const [respondingTransferId, setRespondingTransferId] = useState<string | null>(null);
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -89,9 +108,18 @@ export default function Sites() {
   useEffect(() => {
     if (user) {
       loadSites();
+      loadTransfers();
     }
   }, [user]);
 
+  const loadTransfers = async () => {
+    try {
+      setTransfers(await api.getSiteTransfers());
+    } catch (error) {
+      console.error('Error loading transfers:', error);
+    }
+  };
+
   const loadSites = async () => {
     try {
       const [sites, subscriptionsData] = await Promise.all([
@@ -128,17 +156,11 @@ export default function Sites() {
             // Get billing info for this site
             const billing = billingMap.get(site.siteId);
             const createdAt = new Date(site.createdAt);
-            const now = new Date();
-
-            // Calculate trial info (29 days from creation)
-            const trialEndDate = new Date(createdAt);
-            trialEndDate.setDate(trialEndDate.getDate() + 29);
-            const trialDaysLeft = Math.ceil((trialEndDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-            const trialExpired = trialDaysLeft <= 0;
+            const trial = getTrialInfo(billing);
 
             // Determine plan and billing status
             const plan = billing?.plan || 'free';
-            const billingStatus = billing?.status || (trialExpired ? 'expired' : 'trial');
+            const billingStatus = billing?.status || 'trialing';
             const nextBillingDate = billing?.currentPeriodEnd
               ? new Date(billing.currentPeriodEnd).toLocaleDateString('en-US', {
                   month: 'short',
@@ -169,12 +191,23 @@ export default function Sites() {
               }),
               lastEdited: lastEditedDate,
               status: site.status === 'active' ? 'Published' : 'Draft',
+              setupStatus: site.status,
+              isDeleted: site.status === 'deleted',
+              purgeDate: site.purgeAt
+                ? new Date(site.purgeAt).toLocaleDateString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                    year: 'numeric',
+                  })
+                : null,
               views: '0',
               // Billing info
               plan,
               billingStatus,
-              trialDaysLeft: trialExpired ? 0 : trialDaysLeft,
-              trialExpired,
+              trialCountdown: trial ? formatTrialCountdown(trial) : null,
+              trialDaysLeft: trial?.daysLeft ?? 0,
+              trialExpired: trial?.expired ?? false,
+              trialUrgent: trial?.urgent ?? false,
               nextBillingDate,
             };
           })
@@ -188,6 +221,17 @@ export default function Sites() {
     }
   };
 
+  // Refresh while any site is still being set up (e.g. after retrying setup)
+  useEffect(() => {
+    const settingUp = websites.some(
+      (site) => site.setupStatus === 'pending' || site.setupStatus === 'deploying'
+    );
+    if (!settingUp) return;
+
+    const timeout = setTimeout(loadSites, 5000);
+    return () => clearTimeout(timeout);
+  }, [websites]);
+
   const handleLogout = async () => {
     try {
       await signOut(auth);
@@ -216,6 +260,99 @@ export default function Sites() {
     navigate(`/sites/${siteId}/edit`);
   };
 
+  const handleRepairSite = async (siteId: string) => {
+    setRepairingSiteId(siteId);
+    try {
+      await api.repairSite(siteId);
+      setWebsites((sites) =>
+        sites.map((site) => (site.siteId === siteId ? { ...site, setupStatus: 'pending' } : site))
+      );
+    } catch (error: any) {
+      console.error('Error repairing site:', error);
+      alert(error.message || 'Failed to retry setup. Please try again.');
+    } finally {
+      setRepairingSiteId(null);
+    }
+  };
+
+  const handleRestoreSite = async (siteId: string) => {
+    setRestoringSiteId(siteId);
+    try {
+      await api.restoreSite(siteId);
+      loadSites(); // Reload the list
+    } catch (error: any) {
+      console.error('Error restoring site:', error);
+      alert(error.message || 'Failed to restore site. Please try again.');
+    } finally {
+      setRestoringSiteId(null);
+    }
+  };
+
+  const handleTransferResponse = async (transfer: SiteTransfer, accept: boolean) => {
+    setRespondingTransferId(transfer.id);
+    try {
+      if (accept) {
+        await api.acceptSiteTransfer(transfer.id);
+        loadSites(); // The site is now in the list
+      } else {
+        await api.declineSiteTransfer(transfer.id);
+      }
+      loadTransfers();
+    } catch (error: any) {
+      console.error('Error responding to transfer:', error);
+      alert(error.message || 'Failed to respond to transfer. Please try again.');
+      loadTransfers();
+    } finally {
+      setRespondingTransferId(null);
+    }
+  };
+
+  const handleDismissTransfer = async (transferId: string) => {
+    setTransfers((current) => ({
+      ...current,
+      outgoing: current.outgoing.filter((transfer) => transfer.id !== transferId),
+    }));
+    try {
+      await api.dismissSiteTransfer(transferId);
+    } catch (error) {
+      console.error('Error dismissing transfer:', error);
+    }
+  };
+
+  const handleDuplicateSite = async () => {
+    if (!duplicateSource) return;
+
+    setDuplicating(true);
+    setDuplicateError(null);
+    try {
+      await api.duplicateSite(duplicateSource.siteId, duplicateForm.siteId, duplicateForm.name.trim());
+      setDuplicateSource(null);
+      loadSites(); // The copy shows up while it is being set up
+    } catch (error: any) {
+      console.error('Error duplicating site:', error);
+      setDuplicateError(error.message || 'Failed to duplicate site. Please try again.');
+    } finally {
+      setDuplicating(false);
+    }
+  };
+
+  const handleImportSite = async () => {
+    if (!importForm.file) return;
+
+    setImporting(true);
+    setImportError(null);
+    try {
+      await api.importSite(importForm.file, importForm.siteId, importForm.name.trim());
+      setShowImport(false);
+      loadSites(); // The imported site shows up while it is being set up
+    } catch (error: any) {
+      console.error('Error importing site:', error);
+      setImportError(error.message || 'Failed to import site. Please try again.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const handleDeleteSite = async () => {
     if (!deleteConfirm) return;
 
@@ -266,8 +403,10 @@ export default function Sites() {
     views: '-',
     template: '-',
     plan: null,
-    trialExpired: false,
+    trialCountdown: null,
     trialDaysLeft: 0,
+    trialExpired: false,
+    trialUrgent: false,
     nextBillingDate: null,
   };
 
@@ -353,6 +492,20 @@ export default function Sites() {
                 />
               </div>
 
+              {/* Import Website Button */}
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setImportForm({ file: null, siteId: '', name: '' });
+                  setImportError(null);
+                  setShowImport(true);
+                }}
+                className="h-10"
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Import
+              </Button>
+
               {/* Create Website Button */}
               <Button
                 onClick={handleCreateWebsite}
@@ -363,6 +516,78 @@ export default function Sites() {
             </div>
           </div>
 
+          {/* Ownership transfers */}
+          {(transfers.incoming.length > 0 || transfers.outgoing.some((t) => t.status !== 'pending')) && (
+            <div className="space-y-3 mb-6">
+              {transfers.incoming.map((transfer) => (
+                <div
+                  key={transfer.id}
+                  className="flex items-center justify-between gap-4 bg-purple-50 border border-purple-200 rounded-lg px-5 py-4"
+                >
+                  <div className="flex items-center gap-3">
+                    <ArrowRightLeft className="w-5 h-5 text-[#5A318F] flex-shrink-0" />
+                    <p className="text-sm text-slate-700">
+                      <span className="font-medium">{transfer.fromEmail}</span> wants to transfer{' '}
+                      <span className="font-medium">{transfer.siteName}</span> to you.
+                      <span className="text-slate-500"> Expires {new Date(transfer.expiresAt).toLocaleDateString()}.</span>
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <Button
+                      variant="outline"
+                      disabled={respondingTransferId === transfer.id}
+                      onClick={() => handleTransferResponse(transfer, false)}
+                    >
+                      Decline
+                    </Button>
+                    <Button
+                      disabled={respondingTransferId === transfer.id}
+                      onClick={() => handleTransferResponse(transfer, true)}
+                      className="bg-[#5A318F] hover:bg-[#4A2875] text-white"
+                    >
+                      {respondingTransferId === transfer.id ? 'Please wait...' : 'Accept'}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              {transfers.outgoing
+                .filter((transfer) => transfer.status !== 'pending')
+                .map((transfer) => (
+                  <div
+                    key={transfer.id}
+                    className="flex items-center justify-between gap-4 bg-slate-50 border border-slate-200 rounded-lg px-5 py-4"
+                  >
+                    <div className="flex items-center gap-3">
+                      <ArrowRightLeft className="w-5 h-5 text-slate-500 flex-shrink-0" />
+                      <p className="text-sm text-slate-700">
+                        {transfer.status === 'accepted' && (
+                          <><span className="font-medium">{transfer.toEmail}</span> accepted your transfer of <span className="font-medium">{transfer.siteName}</span>. The site is no longer in your account.</>
+                        )}
+                        {transfer.status === 'accepted' && transfer.cancellationPending && (
+                          <> Your subscription for this site could not be cancelled yet: we keep trying until it is.</>
+                        )}
+                        {transfer.status === 'declined' && (
+                          <><span className="font-medium">{transfer.toEmail}</span> declined your transfer of <span className="font-medium">{transfer.siteName}</span>.</>
+                        )}
+                        {transfer.status === 'expired' && (
+                          <>Your transfer of <span className="font-medium">{transfer.siteName}</span> to <span className="font-medium">{transfer.toEmail}</span> expired.</>
+                        )}
+                      </p>
+                    </div>
+                    {!transfer.cancellationPending && (
+                      <button
+                        onClick={() => handleDismissTransfer(transfer.id)}
+                        className="text-slate-400 hover:text-slate-600"
+                        title="Dismiss"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+            </div>
+          )}
+
           {/* Websites List */}
           {loading ? (
             <div className="text-center py-20">
@@ -450,7 +675,7 @@ export default function Sites() {
                           </div>
 
                           {/* Three-dot menu - only for real sites */}
-                          {!isPlaceholder && (
+                          {!isPlaceholder && !site.isDeleted && (
                             <div className="relative">
                               <button
                                 onClick={() =>
@@ -487,6 +712,20 @@ export default function Sites() {
                                     <Settings className="w-4 h-4" />
                                     Settings
                                   </button>
+                                  {site.setupStatus === 'active' && (
+                                    <button
+                                      onClick={() => {
+                                        setOpenMenuId(null);
+                                        setDuplicateSource({ siteId: site.siteId, title: site.title });
+                                        setDuplicateForm({ siteId: `${site.siteId}-copy`, name: `${site.title} (Copy)` });
+                                        setDuplicateError(null);
+                                      }}
+                                      className="w-full px-4 py-2 text-left text-sm text-slate-700 hover:bg-slate-50 flex items-center gap-2"
+                                    >
+                                      <Copy className="w-4 h-4" />
+                                      Duplicate
+                                    </button>
+                                  )}
                                   <button
                                     onClick={() => {
                                       setOpenMenuId(null);
@@ -505,7 +744,7 @@ export default function Sites() {
 
                         {/* Plan Badge */}
                         {!isPlaceholder && (
-                          <div className="mb-4">
+                          <div className="mb-4 flex items-center gap-2">
                             <span
                               className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
                                 site.plan === 'pro'
@@ -525,6 +764,21 @@ export default function Sites() {
                                     ? 'Trial Expired'
                                     : 'Free Trial'}
                             </span>
+                            {site.isDeleted && (
+                              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                                Deleted{site.purgeDate ? ` · removed permanently on ${site.purgeDate}` : ''}
+                              </span>
+                            )}
+                            {site.setupStatus === 'error' && (
+                              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                                Setup Failed
+                              </span>
+                            )}
+                            {(site.setupStatus === 'pending' || site.setupStatus === 'deploying') && (
+                              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                                Setting Up...
+                              </span>
+                            )}
                           </div>
                         )}
 
@@ -584,27 +838,61 @@ export default function Sites() {
                                 {isPlaceholder
                                   ? '-'
                                   : site.plan === 'free' || !site.plan
-                                    ? site.trialExpired
-                                      ? 'Expired'
-                                      : `${site.trialDaysLeft} days left`
+                                    ? site.trialCountdown || '-'
                                     : site.nextBillingDate || '-'}
                               </p>
                             </div>
                           </div>
+
+                          {/* Trial ending or over: upgrade call to action */}
+                          {!isPlaceholder && !site.isDeleted && site.plan === 'free' && site.trialUrgent && (
+                            <button
+                              onClick={() => navigate(`/sites/${site.siteId}/settings`)}
+                              className={`w-full text-xs rounded-md px-3 py-2 text-left ${
+                                site.trialExpired
+                                  ? 'bg-red-50 text-red-700 hover:bg-red-100'
+                                  : 'bg-amber-50 text-amber-800 hover:bg-amber-100'
+                              }`}
+                            >
+                              {site.trialExpired
+                                ? 'Your trial has ended and this site is offline. Choose a plan to put it back online →'
+                                : `Your trial ends in ${site.trialDaysLeft} day${site.trialDaysLeft === 1 ? '' : 's'}. Choose a plan to keep this site online →`}
+                            </button>
+                          )}
                         </div>
                       </div>
 
                       {/* Action Button */}
-                      <Button
-                        onClick={
-                          isPlaceholder
-                            ? handleCreateWebsite
-                            : () => handleEditSite(site.siteId)
-                        }
-                        className="bg-gradient-to-r from-[#5A318F] to-[#D920B7] hover:from-[#4A2875] hover:to-[#C01AA3] text-white mt-6 px-4 py-2 text-sm w-[200px] mx-auto"
-                      >
-                        {isPlaceholder ? 'Create Website' : 'Edit Website'}
-                      </Button>
+                      {!isPlaceholder && site.isDeleted ? (
+                        <Button
+                          onClick={() => handleRestoreSite(site.siteId)}
+                          disabled={restoringSiteId === site.siteId}
+                          className="bg-gradient-to-r from-[#5A318F] to-[#D920B7] hover:from-[#4A2875] hover:to-[#C01AA3] text-white mt-6 px-4 py-2 text-sm w-[200px] mx-auto flex items-center gap-2"
+                        >
+                          <Undo2 className="w-4 h-4" />
+                          {restoringSiteId === site.siteId ? 'Restoring...' : 'Restore Website'}
+                        </Button>
+                      ) : !isPlaceholder && site.setupStatus === 'error' ? (
+                        <Button
+                          onClick={() => handleRepairSite(site.siteId)}
+                          disabled={repairingSiteId === site.siteId}
+                          className="bg-gradient-to-r from-[#5A318F] to-[#D920B7] hover:from-[#4A2875] hover:to-[#C01AA3] text-white mt-6 px-4 py-2 text-sm w-[200px] mx-auto flex items-center gap-2"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                          {repairingSiteId === site.siteId ? 'Retrying...' : 'Retry Setup'}
+                        </Button>
+                      ) : (
+                        <Button
+                          onClick={
+                            isPlaceholder
+                              ? handleCreateWebsite
+                              : () => handleEditSite(site.siteId)
+                          }
+                          className="bg-gradient-to-r from-[#5A318F] to-[#D920B7] hover:from-[#4A2875] hover:to-[#C01AA3] text-white mt-6 px-4 py-2 text-sm w-[200px] mx-auto"
+                        >
+                          {isPlaceholder ? 'Create Website' : 'Edit Website'}
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -619,6 +907,131 @@ export default function Sites() {
         style={{ backgroundImage: `url(${ASSETS.nebulaSitesImg})` }}
       />
 
+      {/* Duplicate Modal */}
+      {duplicateSource && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4 shadow-xl">
+            <h3 className="text-lg font-semibold text-slate-900 mb-2">Duplicate Website</h3>
+            <p className="text-slate-600 mb-6">
+              Create a new website with the pages, content and design of <strong>"{duplicateSource.title}"</strong>.
+              Custom domains and billing are not copied.
+            </p>
+            <div className="space-y-4 mb-6">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Website name</label>
+                <Input
+                  type="text"
+                  value={duplicateForm.name}
+                  onChange={(e) => setDuplicateForm({ ...duplicateForm, name: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Address</label>
+                <Input
+                  type="text"
+                  value={duplicateForm.siteId}
+                  maxLength={50}
+                  onChange={(e) =>
+                    setDuplicateForm({
+                      ...duplicateForm,
+                      siteId: e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, ''),
+                    })
+                  }
+                />
+              </div>
+              {duplicateError && <p className="text-sm text-red-600">{duplicateError}</p>}
+            </div>
+            <div className="flex gap-3 justify-end">
+              <Button
+                variant="outline"
+                onClick={() => setDuplicateSource(null)}
+                disabled={duplicating}
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleDuplicateSite}
+                disabled={duplicating || duplicateForm.siteId.length < 3 || !duplicateForm.name.trim()}
+                className="bg-[#5A318F] hover:bg-[#4A2875] text-white"
+              >
+                {duplicating ? 'Duplicating...' : 'Duplicate Website'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Import Modal */}
+      {showImport && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4 shadow-xl">
+            <h3 className="text-lg font-semibold text-slate-900 mb-2">Import Website</h3>
+            <p className="text-slate-600 mb-6">
+              Create a new website from an archive exported from a site's settings (.lunasite.json.gz).
+            </p>
+            <div className="space-y-4 mb-6">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Archive</label>
+                <input
+                  type="file"
+                  accept=".gz,application/gzip"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0] || null;
+                    // Suggest an address from the archive name (<siteId>-<date>.lunasite.json.gz)
+                    const suggested = file?.name.replace(/(-\d{4}-\d{2}-\d{2})?\.lunasite\.json\.gz$/, '').toLowerCase().replace(/[^a-z0-9-]/g, '') || '';
+                    setImportForm({
+                      file,
+                      siteId: importForm.siteId || (suggested ? `${suggested}-imported` : ''),
+                      name: importForm.name,
+                    });
+                  }}
+                  className="block w-full text-sm text-slate-600 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border file:border-slate-300 file:bg-white file:text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Website name</label>
+                <Input
+                  type="text"
+                  value={importForm.name}
+                  onChange={(e) => setImportForm({ ...importForm, name: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Address</label>
+                <Input
+                  type="text"
+                  value={importForm.siteId}
+                  maxLength={50}
+                  onChange={(e) =>
+                    setImportForm({
+                      ...importForm,
+                      siteId: e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, ''),
+                    })
+                  }
+                />
+              </div>
+              {importError && <p className="text-sm text-red-600">{importError}</p>}
+            </div>
+            <div className="flex gap-3 justify-end">
+              <Button
+                variant="outline"
+                onClick={() => setShowImport(false)}
+                disabled={importing}
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleImportSite}
+                disabled={importing || !importForm.file || importForm.siteId.length < 3 || !importForm.name.trim()}
+                className="bg-[#5A318F] hover:bg-[#4A2875] text-white"
+              >
+                {importing ? 'Uploading...' : 'Import Website'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Delete Confirmation Modal */}
       {deleteConfirm && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -626,7 +1039,8 @@ export default function Sites() {
             <h3 className="text-lg font-semibold text-slate-900 mb-2">Delete Website</h3>
             <p className="text-slate-600 mb-6">
               Are you sure you want to delete <strong>"{deleteConfirm.title}"</strong>?
-              This action cannot be undone and all website data will be permanently removed.
+              The website will go offline right away. You can restore it from this page
+              for a limited time, after which all website data will be permanently removed.
             </p>
             <div className="flex gap-3 justify-end">
               <Button
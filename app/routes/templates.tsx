@@ -10,10 +10,20 @@ import {
   Globe,
   Lock,
   ArrowLeft,
+  Star,
+  History,
+  Pin,
 } from 'lucide-react';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
-import { api, type Template } from '../lib/api';
+import {
+  api,
+  getTemplateCategories,
+  type Template,
+  type TemplateCatalogFields,
+  type TemplateCategory,
+  type TemplateVersion,
+} from '../lib/api';
 
 export function meta({}: Route.MetaArgs) {
   return [
@@ -22,6 +32,163 @@ export function meta({}: Route.MetaArgs) {
   ];
 }
 
+// Catalog fields as edited in the form (lists as text)
+interface CatalogForm {
+  categories: string[];
+  tags: string;
+  featured: boolean;
+  sortOrder: string;
+  // One per line
+  features: string;
+  // One "Title | /path" per line
+  previewPages: string;
+}
+
+const EMPTY_CATALOG_FORM: CatalogForm = {
+  categories: [],
+  tags: '',
+  featured: false,
+  sortOrder: '0',
+  features: '',
+  previewPages: '',
+};
+
+function toCatalogForm(template: Template): CatalogForm {
+  return {
+    categories: template.categories,
+    tags: template.tags.join(', '),
+    featured: template.featured,
+    sortOrder: String(template.sortOrder),
+    features: template.features.join('\n'),
+    previewPages: template.previewPages.map((page) => `${page.title} | ${page.path}`).join('\n'),
+  };
+}
+
+function fromCatalogForm(form: CatalogForm): TemplateCatalogFields {
+  const lines = (text: string) => text.split('\n').map((line) => line.trim()).filter(Boolean);
+
+  return {
+    categories: form.categories,
+    tags: form.tags.split(',').map((tag) => tag.trim()).filter(Boolean),
+    featured: form.featured,
+    sortOrder: parseInt(form.sortOrder, 10) || 0,
+    features: lines(form.features),
+    previewPages: lines(form.previewPages).map((line) => {
+      const [title, path = '/'] = line.split('|').map((part) => part.trim());
+      return { title, path: path.startsWith('/') ? path : `/${path}` };
+    }),
+  };
+}
+
+// Catalog fields of the create and edit forms
+function CatalogFields({
+  value,
+  onChange,
+  categories,
+}: {
+  value: CatalogForm;
+  onChange: (value: CatalogForm) => void;
+  categories: TemplateCategory[];
+}) {
+  const toggleCategory = (id: string) =>
+    onChange({
+      ...value,
+      categories: value.categories.includes(id)
+        ? value.categories.filter((category) => category !== id)
+        : [...value.categories, id],
+    });
+
+  return (
+    <>
+      <div>
+        <label className="block text-sm font-medium text-slate-700 mb-1">
+          Categories
+        </label>
+        <div className="flex flex-wrap gap-2">
+          {categories.map((category) => (
+            <button
+              key={category.id}
+              type="button"
+              onClick={() => toggleCategory(category.id)}
+              className={`px-3 py-1 rounded-full text-xs border transition-colors ${
+                value.categories.includes(category.id)
+                  ? 'bg-purple-600 border-purple-600 text-white'
+                  : 'border-slate-300 text-slate-600 hover:border-purple-400'
+              }`}
+            >
+              {category.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-slate-700 mb-1">
+          Tags
+        </label>
+        <Input
+          value={value.tags}
+          onChange={(e) => onChange({ ...value, tags: e.target.value })}
+          placeholder="minimal, dark, one-page"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-slate-700 mb-1">
+          Features (one per line)
+        </label>
+        <textarea
+          value={value.features}
+          onChange={(e) => onChange({ ...value, features: e.target.value })}
+          placeholder={'Online menu\nOpening hours\nTable booking form'}
+          className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none"
+          rows={3}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-slate-700 mb-1">
+          Preview pages (one "Title | /path" per line)
+        </label>
+        <textarea
+          value={value.previewPages}
+          onChange={(e) => onChange({ ...value, previewPages: e.target.value })}
+          placeholder={'About | /about\nMenu | /menu'}
+          className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none"
+          rows={3}
+        />
+      </div>
+
+      <div className="flex items-center gap-6">
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            id="featured"
+            checked={value.featured}
+            onChange={(e) => onChange({ ...value, featured: e.target.checked })}
+            className="w-4 h-4 text-purple-600 rounded focus:ring-purple-500"
+          />
+          <label htmlFor="featured" className="text-sm text-slate-700">
+            Featured
+          </label>
+        </div>
+        <div className="flex items-center gap-2">
+          <label htmlFor="sortOrder" className="text-sm text-slate-700">
+            Sort order
+          </label>
+          <Input
+            id="sortOrder"
+            type="number"
+            value={value.sortOrder}
+            onChange={(e) => onChange({ ...value, sortOrder: e.target.value })}
+            className="w-24 h-9"
+          />
+        </div>
+      </div>
+    </>
+  );
+}
+
 export default function Templates() {
   const { user, userRole } = useAuth();
   const navigate = useNavigate();
@@ -36,7 +203,19 @@ export default function Templates() {
     description: '',
     isPublic: true,
   });
+  const [createCatalog, setCreateCatalog] = useState<CatalogForm>(EMPTY_CATALOG_FORM);
   const [creating, setCreating] = useState(false);
+  const [categories, setCategories] = useState<TemplateCategory[]>([]);
+  // Template being edited, with its form
+  const [editing, setEditing] = useState<Template | null>(null);
+  const [editForm, setEditForm] = useState({ name: '', description: '' });
+  const [editCatalog, setEditCatalog] = useState<CatalogForm>(EMPTY_CATALOG_FORM);
+  const [saving, setSaving] = useState(false);
+  // Template whose versions are shown
+  const [versionsOf, setVersionsOf] = useState<Template | null>(null);
+  const [versions, setVersions] = useState<TemplateVersion[]>([]);
+  const [versionNotes, setVersionNotes] = useState('');
+  const [publishing, setPublishing] = useState(false);
 
   const isAdmin = userRole === 'admin';
 
@@ -51,6 +230,9 @@ export default function Templates() {
       loadTemplates();
       if (isAdmin) {
         loadSites();
+        getTemplateCategories()
+          .then(setCategories)
+          .catch((error) => console.error('Error loading template categories:', error));
       }
     }
   }, [user, isAdmin]);
@@ -80,9 +262,10 @@ export default function Templates() {
 
     setCreating(true);
     try {
-      await api.createTemplate(createForm);
+      await api.createTemplate({ ...createForm, ...fromCatalogForm(createCatalog) });
       setShowCreateModal(false);
       setCreateForm({ siteId: '', name: '', description: '', isPublic: true });
+      setCreateCatalog(EMPTY_CATALOG_FORM);
       loadTemplates();
     } catch (error) {
       console.error('Error creating template:', error);
@@ -92,6 +275,28 @@ export default function Templates() {
     }
   };
 
+  const openEditModal = (template: Template) => {
+    setEditing(template);
+    setEditForm({ name: template.name, description: template.description || '' });
+    setEditCatalog(toCatalogForm(template));
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!editing || !editForm.name) return;
+
+    setSaving(true);
+    try {
+      await api.updateTemplate(editing.id, { ...editForm, ...fromCatalogForm(editCatalog) });
+      setEditing(null);
+      loadTemplates();
+    } catch (error) {
+      console.error('Error updating template:', error);
+      alert('Failed to update template.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const handleDeleteTemplate = async (templateId: string) => {
     if (!confirm('Are you sure you want to delete this template?')) return;
 
@@ -104,6 +309,63 @@ export default function Templates() {
     }
   };
 
+  const loadVersions = async (template: Template) => {
+    try {
+      setVersions(await api.getTemplateVersions(template.id));
+    } catch (error) {
+      console.error('Error loading template versions:', error);
+    }
+  };
+
+  const openVersionsModal = (template: Template) => {
+    setVersionsOf(template);
+    setVersions([]);
+    setVersionNotes('');
+    loadVersions(template);
+  };
+
+  const handlePublishVersion = async () => {
+    if (!versionsOf) return;
+
+    setPublishing(true);
+    try {
+      await api.publishTemplateVersion(versionsOf.id, { notes: versionNotes || undefined });
+      setVersionNotes('');
+      loadVersions(versionsOf);
+      loadTemplates();
+    } catch (error) {
+      console.error('Error publishing template version:', error);
+      alert('Failed to publish version.');
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const handlePinVersion = async (versionId: string) => {
+    if (!versionsOf) return;
+
+    try {
+      await api.pinTemplateVersion(versionsOf.id, versionId);
+      loadVersions(versionsOf);
+      loadTemplates();
+    } catch (error) {
+      console.error('Error pinning template version:', error);
+      alert('Failed to pin version.');
+    }
+  };
+
+  const handleDeleteVersion = async (versionId: string) => {
+    if (!versionsOf || !confirm('Delete this version? Its snapshot is dropped.')) return;
+
+    try {
+      await api.deleteTemplateVersion(versionsOf.id, versionId);
+      loadVersions(versionsOf);
+    } catch (error) {
+      console.error('Error deleting template version:', error);
+      alert('Failed to delete version.');
+    }
+  };
+
   const handleTogglePublic = async (template: Template) => {
     try {
       await api.updateTemplate(template.id, { isPublic: !template.isPublic });
@@ -124,9 +386,13 @@ export default function Templates() {
   const filteredTemplates = templates.filter(
     (t) =>
       t.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      t.description?.toLowerCase().includes(searchQuery.toLowerCase())
+      t.description?.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      t.tags.some((tag) => tag.includes(searchQuery.toLowerCase()))
   );
 
+  const categoryName = (id: string) =>
+    categories.find((category) => category.id === id)?.name || id;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-purple-50/30 to-blue-50/30">
       {/* Header */}
@@ -241,6 +507,24 @@ export default function Templates() {
                     {template.description || 'No description'}
                   </p>
 
+                  {(template.featured || template.categories.length > 0) && (
+                    <div className="flex flex-wrap gap-1 mb-4">
+                      {template.featured && (
+                        <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-amber-100 text-amber-700">
+                          <Star className="w-3 h-3" /> Featured
+                        </span>
+                      )}
+                      {template.categories.map((category) => (
+                        <span
+                          key={category}
+                          className="px-2 py-0.5 rounded-full text-xs bg-purple-50 text-purple-700"
+                        >
+                          {categoryName(category)}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+
                   <div className="flex items-center justify-between text-xs text-slate-400">
                     <span>
                       From: {template.sourceSiteId}
@@ -269,6 +553,20 @@ export default function Templates() {
                           </>
                         )}
                       </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => openEditModal(template)}
+                      >
+                        <Edit3 className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => openVersionsModal(template)}
+                      >
+                        <History className="w-3 h-3" />
+                      </Button>
                       <Button
                         variant="outline"
                         size="sm"
@@ -289,7 +587,7 @@ export default function Templates() {
       {/* Create Template Modal */}
       {showCreateModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-xl p-6 w-full max-w-md mx-4">
+          <div className="bg-white rounded-xl p-6 w-full max-w-md mx-4 max-h-[90vh] overflow-y-auto">
             <h2 className="text-xl font-semibold text-slate-900 mb-4">
               Create Template
             </h2>
@@ -357,6 +655,12 @@ export default function Templates() {
                   Make this template public (visible to all users)
                 </label>
               </div>
+
+              <CatalogFields
+                value={createCatalog}
+                onChange={setCreateCatalog}
+                categories={categories}
+              />
             </div>
 
             <div className="flex items-center gap-3 mt-6">
@@ -378,6 +682,155 @@ export default function Templates() {
           </div>
         </div>
       )}
+
+      {/* Template Versions Modal */}
+      {versionsOf && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl p-6 w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto">
+            <h2 className="text-xl font-semibold text-slate-900 mb-1">
+              Versions of {versionsOf.name}
+            </h2>
+            <p className="text-sm text-slate-500 mb-2">
+              New sites are cloned from the pinned version. Publishing snapshots the
+              source site ({versionsOf.sourceSiteId}) as it is now.
+            </p>
+            <p className="text-xs text-slate-500 mb-4">
+              Content may use {'{{site_title}}'}, {'{{site_url}}'}, {'{{owner_name}}'} and{' '}
+              {'{{owner_email}}'}: they are replaced for each new site.
+            </p>
+
+            <div className="flex items-center gap-2 mb-4">
+              <Input
+                value={versionNotes}
+                onChange={(e) => setVersionNotes(e.target.value)}
+                placeholder="What changed (optional)"
+              />
+              <Button
+                onClick={handlePublishVersion}
+                disabled={publishing}
+                className="bg-gradient-to-r from-[#5A318F] to-[#D920B7] hover:from-[#4A2875] hover:to-[#C01AA3] text-white whitespace-nowrap"
+              >
+                {publishing ? 'Publishing...' : 'Publish Version'}
+              </Button>
+            </div>
+
+            <div className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+              {versions.length === 0 ? (
+                <p className="p-4 text-sm text-slate-500">
+                  No version published yet: new sites are cloned from the live source site.
+                </p>
+              ) : (
+                versions.map((version) => (
+                  <div key={version.id} className="flex items-center gap-3 p-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-slate-900">v{version.version}</span>
+                        {version.pinned && (
+                          <span className="px-2 py-0.5 rounded-full text-xs bg-purple-100 text-purple-700">
+                            Live
+                          </span>
+                        )}
+                        {!version.ready && (
+                          <span className="text-xs text-slate-400">Publishing...</span>
+                        )}
+                      </div>
+                      <p className="text-xs text-slate-500 truncate">
+                        {new Date(version.createdAt).toLocaleString()}
+                        {version.notes && ` - ${version.notes}`}
+                      </p>
+                    </div>
+                    {!version.pinned && version.ready && (
+                      <>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handlePinVersion(version.id)}
+                        >
+                          <Pin className="w-3 h-3 mr-1" /> Pin
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDeleteVersion(version.id)}
+                          className="text-red-600 hover:bg-red-50"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="flex justify-end mt-6">
+              <Button variant="outline" onClick={() => setVersionsOf(null)}>
+                Close
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Edit Template Modal */}
+      {editing && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl p-6 w-full max-w-md mx-4 max-h-[90vh] overflow-y-auto">
+            <h2 className="text-xl font-semibold text-slate-900 mb-4">
+              Edit Template
+            </h2>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">
+                  Template Name
+                </label>
+                <Input
+                  value={editForm.name}
+                  onChange={(e) => setEditForm({ ...editForm, name: e.target.value })}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">
+                  Description
+                </label>
+                <textarea
+                  value={editForm.description}
+                  onChange={(e) =>
+                    setEditForm({ ...editForm, description: e.target.value })
+                  }
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none"
+                  rows={3}
+                />
+              </div>
+
+              <CatalogFields
+                value={editCatalog}
+                onChange={setEditCatalog}
+                categories={categories}
+              />
+            </div>
+
+            <div className="flex items-center gap-3 mt-6">
+              <Button
+                variant="outline"
+                onClick={() => setEditing(null)}
+                className="flex-1"
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleSaveTemplate}
+                disabled={!editForm.name || saving}
+                className="flex-1 bg-gradient-to-r from-[#5A318F] to-[#D920B7] hover:from-[#4A2875] hover:to-[#C01AA3] text-white"
+              >
+                {saving ? 'Saving...' : 'Save Changes'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }